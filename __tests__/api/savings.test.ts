@@ -0,0 +1,148 @@
+/**
+ * Route tests for the savings ledger: a logged purchase must replace the click it confirms
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals'
+import { NextRequest } from 'next/server'
+import { partitionEntries, type SavingsEntry } from '@/lib/savings'
+// jest.mock below is hoisted, so the route gets the fake client
+import { POST, DELETE } from '@/app/api/savings/route'
+
+type Row = Record<string, unknown>
+
+/**
+ * Just enough of the Supabase client for the savings route: equality filters,
+ * single-row reads, inserts and deletes against in-memory tables
+ */
+function fakeSupabase(tables: Record<string, Row[]>) {
+  let nextId = 0
+  const from = (table: string) => {
+    const filters: Array<[string, unknown]> = []
+    let action: 'select' | 'delete' = 'select'
+    let inserted: Row | null = null
+    const matches = (row: Row) => filters.every(([column, value]) => row[column] === value)
+    const rows = () => (tables[table] ??= [])
+
+    const query = {
+      select: () => query,
+      eq: (column: string, value: unknown) => (filters.push([column, value]), query),
+      order: () => query,
+      limit: () => query,
+      insert: (values: Row) => {
+        inserted = { id: `${table}-${++nextId}`, created_at: new Date(Date.now() + nextId).toISOString(), ...values }
+        rows().push(inserted)
+        return query
+      },
+      delete: () => ((action = 'delete'), query),
+      maybeSingle: async () => ({ data: rows().find(matches) ?? null, error: null }),
+      single: async () => ({ data: inserted ?? rows().find(matches) ?? null, error: null }),
+      then: (resolve: (value: unknown) => void) => {
+        if (action === 'delete') tables[table] = rows().filter((row) => !matches(row))
+        resolve({ data: rows().filter(matches), error: null })
+      },
+    }
+    return query
+  }
+  return { from, auth: { getUser: async () => ({ data: { user: { id: 'user-1' } }, error: null }) } }
+}
+
+let tables: Record<string, Row[]>
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: async () => fakeSupabase(tables),
+}))
+
+const OFFER_URL = 'https://shop.example/p/42?utm_source=saveai'
+
+function post(body: Record<string, unknown>) {
+  return POST(new NextRequest('http://localhost/api/savings', { method: 'POST', body: JSON.stringify(body) }))
+}
+
+async function recordClick() {
+  const response = await post({
+    source: 'click',
+    productUrl: OFFER_URL,
+    productName: 'Headphones',
+    store: 'Shop',
+    currency: 'USD',
+    originalPrice: 120,
+    paidPrice: 95,
+  })
+  return ((await response.json()) as { data: SavingsEntry }).data
+}
+
+const ledger = () => partitionEntries(tables.savings_ledger as unknown as SavingsEntry[])
+
+beforeEach(() => {
+  tables = {
+    saved_products: [
+      {
+        id: 'saved-1',
+        user_id: 'user-1',
+        product_name: 'Headphones',
+        product_url: 'https://other.example/headphones',
+        product_price: 120,
+        product_currency: 'USD',
+        store: 'Other',
+        store_id: 'other.example',
+        canonical_key: 'other.example/headphones',
+      },
+      {
+        id: 'saved-broken',
+        user_id: 'user-1',
+        product_name: 'Old listing',
+        product_url: 'not a url',
+        product_price: 50,
+        product_currency: 'USD',
+        store: 'Old',
+        store_id: null,
+        canonical_key: null,
+      },
+    ],
+    price_history: [],
+    savings_ledger: [],
+  }
+})
+
+describe('POST /api/savings', () => {
+  it('should replace a click with the purchase confirming it', async () => {
+    const click = await recordClick()
+    expect(ledger().pending).toHaveLength(1)
+
+    const response = await post({ source: 'purchase', clickId: click.id, paidPrice: 90 })
+    expect(response.status).toBe(200)
+
+    const { purchases, pending } = ledger()
+    expect(pending).toEqual([])
+    expect(purchases).toHaveLength(1)
+    expect(purchases[0]).toMatchObject({ product_key: click.product_key, original_price: 120, paid_price: 90 })
+  })
+
+  it('should match a saved product purchase to the click for the offer actually bought', async () => {
+    await recordClick()
+    await post({ source: 'purchase', savedProductId: 'saved-1', productUrl: OFFER_URL, store: 'Shop', paidPrice: 95 })
+
+    expect(ledger().pending).toEqual([])
+  })
+
+  it('should reject a saved product whose stored URL cannot be normalized', async () => {
+    const response = await post({ source: 'purchase', savedProductId: 'saved-broken', paidPrice: 40 })
+    expect(response.status).toBe(400)
+  })
+
+  it('should only let a purchase confirm a click', async () => {
+    const click = await recordClick()
+    const response = await post({ source: 'click', clickId: click.id })
+    expect(response.status).toBe(400)
+  })
+})
+
+describe('DELETE /api/savings', () => {
+  it('should dismiss every click through to the same offer', async () => {
+    await recordClick()
+    const latest = await recordClick()
+
+    await DELETE(new NextRequest(`http://localhost/api/savings?id=${latest.id}`, { method: 'DELETE' }))
+    expect(tables.savings_ledger).toEqual([])
+  })
+})
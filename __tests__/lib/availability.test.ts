@@ -0,0 +1,147 @@
+/**
+ * Unit tests for stock tracking of saved products
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { availabilityChange, isStockState } from '@/lib/availability/changes'
+import { checkSavedProductAvailability, fetchAvailability } from '@/lib/availability/checker'
+import type { TrackedProduct } from '@/lib/availability/types'
+import { StoreRegistry, FixtureStoreAdapter, type Availability, type Product } from '@/lib/stores'
+
+const listing: Product = {
+  id: 'tm-1001',
+  name: 'Sony WH-1000XM5 Wireless Headphones',
+  price: 329.99,
+  currency: 'USD',
+  url: 'https://techmart.example/p/tm-1001',
+  store: 'TechMart',
+}
+
+function registryListing(availability?: Availability): StoreRegistry {
+  return new StoreRegistry().register(
+    new FixtureStoreAdapter({
+      id: 'techmart',
+      name: 'TechMart',
+      domains: ['techmart.example'],
+      products: [{ ...listing, availability }],
+    })
+  )
+}
+
+const tracked: TrackedProduct = {
+  id: 'saved-1',
+  user_id: 'user-1',
+  product_name: listing.name,
+  product_url: listing.url,
+  store: 'TechMart',
+  availability: 'out_of_stock',
+  availability_checked_at: '2026-06-01T00:00:00Z',
+}
+
+/**
+ * Just enough of the Supabase client to record what the checker writes
+ */
+function fakeSupabase() {
+  const writes: { table: string; action: string; values: unknown }[] = []
+  const client = {
+    from: (table: string) => ({
+      insert: async (values: unknown) => {
+        writes.push({ table, action: 'insert', values })
+        return { error: null }
+      },
+      update: (values: unknown) => ({
+        eq: async () => {
+          writes.push({ table, action: 'update', values })
+          return { error: null }
+        },
+      }),
+    }),
+  }
+  return { client: client as never, writes }
+}
+
+describe('availabilityChange', () => {
+  it('only sets a baseline on the first known state', () => {
+    expect(availabilityChange(null, 'in_stock')).toBeNull()
+  })
+
+  it('ignores unknown and unchanged states', () => {
+    expect(availabilityChange('in_stock', 'unknown')).toBeNull()
+    expect(availabilityChange('in_stock', undefined)).toBeNull()
+    expect(availabilityChange('out_of_stock', 'out_of_stock')).toBeNull()
+  })
+
+  it('reports restocks, sell-outs and back-orders', () => {
+    expect(availabilityChange('out_of_stock', 'in_stock')?.kind).toBe('back_in_stock')
+    expect(availabilityChange('backorder', 'in_stock')?.kind).toBe('back_in_stock')
+    expect(availabilityChange('in_stock', 'out_of_stock')?.kind).toBe('out_of_stock')
+    expect(availabilityChange('out_of_stock', 'backorder')).toEqual({
+      kind: 'backorder',
+      previous: 'out_of_stock',
+      current: 'backorder',
+    })
+  })
+
+  it('recognizes trackable stock states', () => {
+    expect(isStockState('preorder')).toBe(true)
+    expect(isStockState('unknown')).toBe(false)
+    expect(isStockState(null)).toBe(false)
+  })
+})
+
+describe('fetchAvailability', () => {
+  it('reads stock from the store that owns the URL', async () => {
+    const registry = registryListing('backorder')
+    expect(await fetchAvailability(listing.url, { registry })).toBe('backorder')
+  })
+
+  it('treats listings without stock information as unknown', async () => {
+    const registry = registryListing()
+    expect(await fetchAvailability(listing.url, { registry })).toBe('unknown')
+  })
+})
+
+describe('checkSavedProductAvailability', () => {
+  const now = new Date('2026-06-02T00:00:00Z')
+
+  it('records the change and notifies the owner when they opted in', async () => {
+    const registry = registryListing('in_stock')
+    const { client, writes } = fakeSupabase()
+
+    const result = await checkSavedProductAvailability(client, tracked, { registry, now, notify: async () => true })
+
+    expect(result).toMatchObject({ availability: 'in_stock', notified: true, change: { kind: 'back_in_stock' } })
+    expect(writes.map((write) => `${write.action} ${write.table}`)).toEqual([
+      'insert availability_history',
+      'update saved_products',
+      'insert notifications',
+    ])
+    expect(writes[2].values).toMatchObject({ type: 'availability', title: 'Back in stock', product_id: 'saved-1' })
+  })
+
+  it('respects the availability notification preference', async () => {
+    const registry = registryListing('in_stock')
+    const { client, writes } = fakeSupabase()
+
+    const result = await checkSavedProductAvailability(client, tracked, { registry, now, notify: async () => false })
+
+    expect(result.notified).toBe(false)
+    expect(writes.some((write) => write.table === 'notifications')).toBe(false)
+  })
+
+  it('keeps the last known state when the store stops reporting stock', async () => {
+    const registry = registryListing()
+    const { client, writes } = fakeSupabase()
+
+    const result = await checkSavedProductAvailability(client, tracked, { registry, now, notify: async () => true })
+
+    expect(result.change).toBeNull()
+    expect(writes).toEqual([
+      {
+        table: 'saved_products',
+        action: 'update',
+        values: { availability: 'out_of_stock', availability_checked_at: now.toISOString() },
+      },
+    ])
+  })
+})
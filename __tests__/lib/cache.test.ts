@@ -0,0 +1,103 @@
+/**
+ * Unit tests for the search result cache
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  FreshnessCache,
+  MemoryCacheStore,
+  cacheKey,
+  cacheStateOf,
+  freshnessPolicyFromEnv,
+  ttlForStores,
+  DEFAULT_FRESHNESS_POLICY,
+} from '@/lib/cache'
+
+describe('cacheKey', () => {
+  it('should not depend on object key order or undefined fields', () => {
+    const a = cacheKey('search', { query: 'sony', destination: { country: 'US', postcode: undefined }, sort: 'relevance' })
+    const b = cacheKey('search', { sort: 'relevance', destination: { country: 'US' }, query: 'sony' })
+    expect(a).toBe(b)
+    expect(a.startsWith('search:')).toBe(true)
+  })
+
+  it('should differ when any part differs', () => {
+    expect(cacheKey('search', { query: 'sony', currency: 'USD' })).not.toBe(
+      cacheKey('search', { query: 'sony', currency: 'EUR' })
+    )
+  })
+})
+
+describe('cacheStateOf', () => {
+  const entry = { value: 1, storedAt: 0, freshUntil: 100, staleUntil: 200 }
+
+  it('should move from fresh to stale to expired', () => {
+    expect(cacheStateOf(entry, 50)).toBe('fresh')
+    expect(cacheStateOf(entry, 150)).toBe('stale')
+    expect(cacheStateOf(entry, 200)).toBe('expired')
+  })
+})
+
+describe('freshness policy', () => {
+  it('should read TTLs and per-store overrides from the environment', () => {
+    const policy = freshnessPolicyFromEnv({
+      SEARCH_CACHE_TTL_SECONDS: '600',
+      SEARCH_CACHE_STORE_TTLS: 'techmart=60, shophub = 120, broken=x',
+    })
+    expect(policy.defaultTtlMs).toBe(600_000)
+    expect(policy.storeTtlMs).toEqual({ techmart: 60_000, shophub: 120_000 })
+    expect(policy.staleWhileRevalidateMs).toBe(DEFAULT_FRESHNESS_POLICY.staleWhileRevalidateMs)
+  })
+
+  it('should use the shortest TTL among the stores in a result', () => {
+    const policy = { ...DEFAULT_FRESHNESS_POLICY, storeTtlMs: { techmart: 60_000 } }
+    expect(ttlForStores(policy, ['shophub', 'techmart'])).toBe(60_000)
+    expect(ttlForStores(policy, ['shophub'])).toBe(DEFAULT_FRESHNESS_POLICY.defaultTtlMs)
+  })
+})
+
+describe('MemoryCacheStore', () => {
+  it('should evict the oldest entries past its capacity', async () => {
+    const store = new MemoryCacheStore<number>(2)
+    const entry = (value: number) => ({ value, storedAt: Date.now(), freshUntil: Date.now() + 1000, staleUntil: Date.now() + 2000 })
+    await store.set('a', entry(1))
+    await store.set('b', entry(2))
+    await store.set('c', entry(3))
+
+    expect(store.size).toBe(2)
+    expect(await store.get('a')).toBeNull()
+    expect((await store.get('c'))?.value).toBe(3)
+  })
+
+  it('should drop entries past their stale window', async () => {
+    const store = new MemoryCacheStore<number>()
+    await store.set('old', { value: 1, storedAt: 0, freshUntil: 1, staleUntil: 2 })
+    expect(await store.get('old')).toBeNull()
+  })
+})
+
+describe('FreshnessCache', () => {
+  it('should report fresh and stale reads', async () => {
+    const cache = new FreshnessCache(new MemoryCacheStore<string>(), 60_000)
+    await cache.write('fresh', 'a', 60_000)
+    await cache.write('stale', 'b', 0)
+
+    expect((await cache.read('fresh'))?.state).toBe('fresh')
+    expect((await cache.read('stale'))?.state).toBe('stale')
+    expect(await cache.read('missing')).toBeNull()
+  })
+
+  it('should run one background refresh per key at a time', async () => {
+    const cache = new FreshnessCache(new MemoryCacheStore<string>(), 60_000)
+    let loads = 0
+    const load = async () => {
+      loads++
+      return { value: 'updated', ttlMs: 60_000 }
+    }
+
+    await Promise.all([cache.revalidate('key', load), cache.revalidate('key', load)])
+
+    expect(loads).toBe(1)
+    expect((await cache.read('key'))?.entry.value).toBe('updated')
+  })
+})
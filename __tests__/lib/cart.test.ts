@@ -0,0 +1,114 @@
+/**
+ * Unit tests for planning multi-item purchases across stores
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { optimizeCart, type CartItem, type CartOffer, type StoreShipping } from '@/lib/cart'
+
+const offer = (storeId: string, price: number): CartOffer => ({
+  storeId,
+  store: storeId,
+  productId: `${storeId}-${price}`,
+  name: 'Item',
+  url: `https://${storeId}/p/${price}`,
+  price,
+})
+
+const item = (id: string, offers: CartOffer[], overrides: Partial<CartItem> = {}): CartItem => ({
+  id,
+  name: id,
+  quantity: 1,
+  offers,
+  ...overrides,
+})
+
+// Item a is cheapest at one.example, item b at two.example
+const splitCart = [
+  item('a', [offer('one.example', 10), offer('two.example', 12)]),
+  item('b', [offer('one.example', 20), offer('two.example', 15)]),
+]
+
+describe('optimizeCart', () => {
+  it('buys each item at its cheapest store when shipping is free everywhere', () => {
+    const plan = optimizeCart(
+      splitCart,
+      {},
+      'USD'
+    )
+
+    expect(plan.total).toBe(25)
+    expect(plan.orders.map((order) => order.storeId).sort()).toEqual(['one.example', 'two.example'])
+  })
+
+  it('consolidates orders when the shipping saved outweighs the price difference', () => {
+    const shipping: Record<string, StoreShipping> = {
+      'one.example': { cost: 8, known: true },
+      'two.example': { cost: 8, known: true },
+    }
+    const plan = optimizeCart(
+      splitCart,
+      shipping,
+      'USD'
+    )
+
+    // Everything from two.example: 27 + 8, instead of 25 + 16 split across both
+    expect(plan.orders).toHaveLength(1)
+    expect(plan.orders[0].storeId).toBe('two.example')
+    expect(plan.total).toBe(35)
+  })
+
+  it('tops an order up past a free-shipping minimum', () => {
+    const shipping: Record<string, StoreShipping> = {
+      'one.example': { cost: 10, freeOver: 50, known: true },
+      'two.example': { cost: 0, known: true },
+    }
+    const plan = optimizeCart(
+      [item('a', [offer('one.example', 45)]), item('b', [offer('one.example', 8), offer('two.example', 6)])],
+      shipping,
+      'USD'
+    )
+
+    expect(plan.orders).toHaveLength(1)
+    expect(plan.orders[0]).toMatchObject({ storeId: 'one.example', subtotal: 53, shipping: 0, total: 53 })
+  })
+
+  it('counts quantities toward the subtotal and reports the gap to free shipping', () => {
+    const shipping: Record<string, StoreShipping> = { 'one.example': { cost: 5, freeOver: 100, known: true } }
+    const plan = optimizeCart([item('a', [offer('one.example', 20)], { quantity: 3 })], shipping, 'USD')
+
+    expect(plan.orders[0]).toMatchObject({ subtotal: 60, shipping: 5, total: 65, freeShippingGap: 40 })
+    expect(plan.orders[0].lines[0].lineTotal).toBe(60)
+  })
+
+  it('reports savings over buying everything where it was saved', () => {
+    const plan = optimizeCart(
+      [item('a', [offer('one.example', 10), offer('two.example', 8)], { savedStoreId: 'one.example' })],
+      {},
+      'USD'
+    )
+
+    expect(plan.baselineTotal).toBe(10)
+    expect(plan.savings).toBe(2)
+  })
+
+  it('lists items no store sells and plans the rest', () => {
+    const plan = optimizeCart([item('a', [offer('one.example', 10)]), item('b', [])], {}, 'USD')
+
+    expect(plan.unavailable).toEqual(['b'])
+    expect(plan.total).toBe(10)
+    expect(plan.baselineTotal).toBeUndefined()
+  })
+
+  it('plans carts with more stores than it can try exhaustively', () => {
+    const stores = Array.from({ length: 10 }, (_, index) => `store${index}.example`)
+    const shipping = Object.fromEntries(stores.map((id) => [id, { cost: 5, known: true }]))
+    const items = stores.map((storeId, index) =>
+      item(`item${index}`, [offer(storeId, 10), offer('store0.example', 11)])
+    )
+    const plan = optimizeCart(items, shipping, 'USD')
+
+    // Moving every item to store0 saves 5 shipping per store for 1 more per item
+    expect(plan.orders).toHaveLength(1)
+    expect(plan.total).toBe(10 + 9 * 11 + 5)
+  })
+})
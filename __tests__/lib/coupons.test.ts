@@ -0,0 +1,88 @@
+/**
+ * Unit tests for applying coupons to offers
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { bestCoupon, couponSavings, isCouponEligible, withCoupons, type Coupon } from '@/lib/coupons'
+import { comparePriceOf } from '@/lib/pricing'
+import type { Product } from '@/lib/stores'
+
+const now = new Date('2026-06-01T00:00:00Z').getTime()
+
+const headphones: Product = {
+  id: 'tm-1001',
+  name: 'Sony WH-1000XM5 Wireless Headphones',
+  price: 329.99,
+  currency: 'USD',
+  url: 'https://techmart.example/p/tm-1001',
+  store: 'TechMart',
+  storeId: 'techmart.example',
+  category: 'Electronics',
+  landedPrice: 359.99,
+}
+
+const coupon = (overrides: Partial<Coupon>): Coupon => ({
+  storeId: 'techmart.example',
+  code: 'SAVE10',
+  discount: { type: 'percent', value: 10 },
+  currency: 'USD',
+  firstOrderOnly: false,
+  ...overrides,
+})
+
+describe('isCouponEligible', () => {
+  it('should only apply codes from the offer store', () => {
+    expect(isCouponEligible(coupon({}), headphones, now)).toBe(true)
+    expect(isCouponEligible(coupon({ storeId: 'shophub.example' }), headphones, now)).toBe(false)
+    expect(isCouponEligible(coupon({}), { ...headphones, storeId: 'uk.techmart.example' }, now)).toBe(true)
+  })
+
+  it('should check expiry, minimum spend and category', () => {
+    expect(isCouponEligible(coupon({ expiresAt: '2026-05-31T00:00:00Z' }), headphones, now)).toBe(false)
+    expect(isCouponEligible(coupon({ minSpend: 350 }), headphones, now)).toBe(false)
+    expect(isCouponEligible(coupon({ minSpend: 300 }), headphones, now)).toBe(true)
+    expect(isCouponEligible(coupon({ categories: ['Books'] }), headphones, now)).toBe(false)
+  })
+
+  it('should not apply amounts in another currency', () => {
+    const euroCoupon = coupon({ discount: { type: 'amount', value: 20 }, currency: 'EUR' })
+    expect(isCouponEligible(euroCoupon, headphones, now)).toBe(false)
+    expect(isCouponEligible(coupon({ currency: 'EUR' }), headphones, now)).toBe(true)
+  })
+})
+
+describe('couponSavings', () => {
+  it('should take percentages and amounts off the item price', () => {
+    expect(couponSavings(coupon({}), headphones)).toBe(33)
+    expect(couponSavings(coupon({ discount: { type: 'amount', value: 500 } }), headphones)).toBe(329.99)
+  })
+})
+
+describe('bestCoupon', () => {
+  it('should prefer codes anyone can use over bigger first-order codes', () => {
+    const best = bestCoupon(
+      [
+        coupon({ code: 'WELCOME50', discount: { type: 'amount', value: 50 }, firstOrderOnly: true }),
+        coupon({ code: 'FIVE', discount: { type: 'percent', value: 5 } }),
+        coupon({ code: 'TEN' }),
+      ],
+      headphones,
+      now
+    )
+    expect(best).toMatchObject({ code: 'TEN', savings: 33, firstOrderOnly: false })
+  })
+})
+
+describe('withCoupons', () => {
+  it('should take the coupon off the landed price', () => {
+    const [product] = withCoupons([headphones], [coupon({})], now)
+    expect(product.effectivePrice).toBe(326.99)
+    expect(comparePriceOf(product)).toBe(326.99)
+  })
+
+  it('should show first-order codes without changing the price', () => {
+    const [product] = withCoupons([headphones], [coupon({ firstOrderOnly: true })], now)
+    expect(product.coupon?.code).toBe('SAVE10')
+    expect(product.effectivePrice).toBeUndefined()
+  })
+})
@@ -0,0 +1,73 @@
+/**
+ * Unit tests for currency conversion and compare prices
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { convertAmount, CurrencyConversionError, formatPrice, type ExchangeRates } from '@/lib/currency'
+import { pickCheapest, withComparePrices } from '@/lib/pricing'
+import type { Product } from '@/lib/stores'
+
+const rates: ExchangeRates = {
+  base: 'USD',
+  rates: { USD: 1, EUR: 0.9, GBP: 0.8, JPY: 150 },
+  updatedAt: '2026-01-01T00:00:00Z',
+}
+
+function product(id: string, price: number, currency: string): Product {
+  return { id, name: id, price, currency, url: `https://shop.example/${id}`, store: id }
+}
+
+describe('convertAmount', () => {
+  it('should convert through the base currency', () => {
+    expect(convertAmount(90, 'EUR', 'USD', rates)).toBe(100)
+    expect(convertAmount(90, 'eur', 'GBP', rates)).toBe(80)
+    expect(convertAmount(1, 'USD', 'JPY', rates)).toBe(150)
+  })
+
+  it('should throw for currencies without a rate', () => {
+    expect(() => convertAmount(10, 'XYZ', 'USD', rates)).toThrow(CurrencyConversionError)
+  })
+})
+
+describe('formatPrice', () => {
+  it('should format with the currency symbol for the locale', () => {
+    expect(formatPrice(329.99, 'USD', 'en-US')).toBe('$329.99')
+    expect(formatPrice(1200, 'JPY', 'en-US')).toBe('¥1,200')
+    expect(formatPrice(10, 'EUR', 'de-DE')).toMatch(/^10,00\s€$/)
+  })
+
+  it('should fall back for unknown currency codes', () => {
+    expect(formatPrice(5, 'not-a-code')).toBe('5.00 not-a-code')
+  })
+})
+
+describe('compare prices', () => {
+  it('should pick the cheapest offer after conversion', () => {
+    const products = withComparePrices(
+      [product('us', 100, 'USD'), product('de', 95, 'EUR'), product('uk', 82, 'GBP')],
+      'USD',
+      rates
+    )
+
+    expect(products.map((p) => p.comparePrice)).toEqual([100, 105.56, 102.5])
+    expect(products.every((p) => p.compareCurrency === 'USD')).toBe(true)
+    // Raw numbers would pick the GBP listing
+    expect(pickCheapest(products).id).toBe('us')
+  })
+
+  it('should not let unconvertible prices win', () => {
+    const products = withComparePrices([product('us', 100, 'USD'), product('xx', 1, 'XYZ')], 'USD', rates)
+    expect(products[1].comparePrice).toBeUndefined()
+    expect(pickCheapest(products).id).toBe('us')
+  })
+
+  it('should only weigh products converted to the same currency against each other', () => {
+    const products = [
+      ...withComparePrices([product('us', 100, 'USD'), product('de', 95, 'EUR')], 'USD', rates),
+      // Added from a search made in yen
+      ...withComparePrices([product('jp', 12000, 'JPY')], 'JPY', rates),
+      ...withComparePrices([product('uk', 82, 'GBP')], 'GBP', rates),
+    ]
+    expect(pickCheapest(products).id).toBe('us')
+  })
+})
@@ -0,0 +1,89 @@
+/**
+ * Unit tests for product enrichment
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  enrichProduct,
+  inferBrand,
+  inferCategory,
+  inferCondition,
+  parseWarranty,
+  warrantyFromStructured,
+  formatWarranty,
+} from '@/lib/enrichment'
+
+describe('inferBrand', () => {
+  it('should recognize a known brand at the start of the title', () => {
+    expect(inferBrand('Bose QuietComfort 45 Bluetooth Headphones')).toBe('Bose')
+    expect(inferBrand('lg 27" UltraGear Monitor')).toBe('LG')
+  })
+
+  it('should not guess a brand from elsewhere in the title', () => {
+    expect(inferBrand('Case compatible with Apple iPhone 15')).toBeUndefined()
+  })
+})
+
+describe('inferCategory', () => {
+  it('should map listing titles onto filter categories', () => {
+    expect(inferCategory('Logitech MX Master 3S Wireless Mouse')).toBe('Electronics')
+    expect(inferCategory('Nike Air Zoom Running Shoes')).toBe('Sports & Outdoors')
+    expect(inferCategory('Ninja Air Fryer 5.5 Qt')).toBe('Home & Garden')
+  })
+
+  it('should leave unrecognized titles uncategorized', () => {
+    expect(inferCategory('Mystery Item')).toBeUndefined()
+  })
+})
+
+describe('inferCondition', () => {
+  it('should detect refurbished, open-box and used listings', () => {
+    expect(inferCondition('Apple AirPods Max (Renewed)')).toBe('refurbished')
+    expect(inferCondition('Sony WH-1000XM5 - Open Box')).toBe('open_box')
+    expect(inferCondition('Pre-Owned Bose QC45')).toBe('used')
+    expect(inferCondition('Sony WH-1000XM5 Headphones')).toBe('new')
+  })
+})
+
+describe('enrichProduct', () => {
+  it('should keep values the store already provided', () => {
+    const product = enrichProduct({
+      id: 'x',
+      name: 'Sony Refurbished Headphones',
+      price: 99,
+      currency: 'USD',
+      url: 'https://store.example/x',
+      store: 'Store',
+      brand: 'Sony Electronics',
+      condition: 'new',
+    })
+    expect(product).toMatchObject({ brand: 'Sony Electronics', category: 'Electronics', condition: 'new' })
+  })
+})
+
+describe('parseWarranty', () => {
+  it('should read warranties mentioned in titles', () => {
+    expect(parseWarranty('Bose QC45 (Renewed) with 2-Year Manufacturer Warranty')).toEqual({
+      months: 24,
+      provider: 'manufacturer',
+    })
+    expect(parseWarranty('Refurbished iPad - 90 day warranty')).toEqual({ months: 3 })
+    expect(parseWarranty('Sony WH-1000XM5 Headphones')).toBeUndefined()
+  })
+})
+
+describe('warrantyFromStructured', () => {
+  it('should read a schema.org WarrantyPromise', () => {
+    expect(warrantyFromStructured({ durationOfWarranty: { value: 1, unitCode: 'ANN' } })).toEqual({ months: 12 })
+    expect(warrantyFromStructured('6 months')).toEqual({ months: 6 })
+    expect(warrantyFromStructured({})).toBeUndefined()
+  })
+})
+
+describe('formatWarranty', () => {
+  it('should describe the warranty length and provider', () => {
+    expect(formatWarranty({ months: 24, provider: 'manufacturer' })).toBe('2-year manufacturer warranty')
+    expect(formatWarranty({ months: 3 })).toBe('3-month warranty')
+    expect(formatWarranty({ months: 0.5 })).toBe('15-day warranty')
+  })
+})
@@ -0,0 +1,168 @@
+/**
+ * Unit tests for product page extraction
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { extractProduct, parsePrice, toProduct, isFetchableUrl, isPrivateAddress, normalizeCondition } from '@/lib/extraction'
+import { lookupPublicAddress } from '@/lib/extraction/fetch-page'
+
+function fixture(name: string): string {
+  return readFileSync(join(__dirname, '..', 'fixtures', 'html', name), 'utf8')
+}
+
+describe('extractProduct', () => {
+  it('should read JSON-LD Product and Offer data', () => {
+    const product = extractProduct(fixture('jsonld-product.html'), 'https://acme.example/nc700')
+
+    expect(product).toMatchObject({
+      name: 'Acme NC-700 Noise Cancelling Headphones & Case',
+      price: 249.99,
+      currency: 'USD',
+      image: 'https://acme.example/img/nc700.jpg',
+      availability: 'in_stock',
+      brand: 'Acme',
+      gtin: '0012345678905',
+      mpn: 'NC700-BLK',
+      rating: 4.6,
+      reviews: 1284,
+      storeName: 'Acme Audio',
+    })
+    expect(product.sources[0]).toBe('json-ld')
+  })
+
+  it('should fall back to OpenGraph product tags', () => {
+    const product = extractProduct(fixture('opengraph-product.html'), 'https://kaufhaus.example/p/1')
+
+    expect(product).toMatchObject({
+      name: 'Kaffeevollautomat Barista Pro',
+      price: 1299,
+      currency: 'EUR',
+      availability: 'out_of_stock',
+      brand: 'Barista',
+    })
+  })
+
+  it('should read microdata without confusing nested item names', () => {
+    const product = extractProduct(fixture('microdata-product.html'), 'https://lamps.example/desk')
+
+    expect(product).toMatchObject({
+      name: 'Lumen Desk Lamp LED 12W',
+      price: 39.5,
+      currency: 'GBP',
+      image: 'https://lamps.example/images/lamp.png',
+      availability: 'backorder',
+      brand: 'Lumen',
+      gtin: '036000291452',
+      rating: 4.2,
+      reviews: 87,
+    })
+  })
+
+  it('should apply per-domain selector overrides', () => {
+    const product = extractProduct(fixture('amazon-product.html'), 'https://www.amazon.de/dp/B000000001')
+
+    expect(product).toMatchObject({
+      name: 'Contoso Smart Widget, 2nd Gen',
+      price: 54.99,
+      currency: 'USD',
+      image: 'https://m.media-amazon.com/images/large.jpg',
+      availability: 'in_stock',
+      brand: 'Contoso',
+      rating: 4.4,
+      reviews: 2317,
+      storeName: 'Amazon',
+    })
+    expect(product.sources).toEqual(['override'])
+  })
+
+  it('should read the offer condition and warranty from JSON-LD', () => {
+    const html = `<script type="application/ld+json">${JSON.stringify({
+      '@type': 'Product',
+      name: 'Acme NC-700 Headphones',
+      offers: {
+        '@type': 'Offer',
+        price: '179.00',
+        priceCurrency: 'USD',
+        itemCondition: 'https://schema.org/RefurbishedCondition',
+        warranty: { '@type': 'WarrantyPromise', durationOfWarranty: { value: 6, unitCode: 'MON' } },
+      },
+    })}</script>`
+    const product = extractProduct(html, 'https://acme.example/nc700-renewed')
+
+    expect(product).toMatchObject({ price: 179, condition: 'refurbished', warranty: { months: 6 } })
+  })
+})
+
+describe('toProduct', () => {
+  it('should require a name and a price', () => {
+    expect(toProduct({ name: 'No price', sources: [] }, 'https://shop.example/x')).toBeNull()
+  })
+
+  it('should derive the store from the hostname', () => {
+    const product = toProduct({ name: 'Lamp', price: 10, sources: [] }, 'https://www.lamps.example/desk')
+    expect(product?.store).toBe('Lamps')
+    expect(product?.currency).toBe('USD')
+  })
+})
+
+describe('parsePrice', () => {
+  it('should handle thousands and decimal separators', () => {
+    expect(parsePrice('$1,299.99')).toBe(1299.99)
+    expect(parsePrice('1.299,99 €')).toBe(1299.99)
+    expect(parsePrice('12,50')).toBe(12.5)
+    expect(parsePrice('')).toBeUndefined()
+  })
+})
+
+describe('isFetchableUrl', () => {
+  it('should block private and local addresses', () => {
+    expect(isFetchableUrl('https://shop.example/item')).toBe(true)
+    expect(isFetchableUrl('http://localhost:3000/api')).toBe(false)
+    expect(isFetchableUrl('http://192.168.1.10/admin')).toBe(false)
+    expect(isFetchableUrl('http://169.254.169.254/latest/meta-data')).toBe(false)
+    expect(isFetchableUrl('file:///etc/passwd')).toBe(false)
+  })
+
+  it('should block IPv6 literals, IPv4-mapped loopback and carrier-grade NAT', () => {
+    expect(isFetchableUrl('http://[::1]/')).toBe(false)
+    expect(isFetchableUrl('http://[fd00::1]/')).toBe(false)
+    expect(isFetchableUrl('http://[fe80::1]/')).toBe(false)
+    expect(isFetchableUrl('http://[::ffff:127.0.0.1]/')).toBe(false)
+    expect(isFetchableUrl('http://[::ffff:a9fe:a9fe]/')).toBe(false)
+    expect(isFetchableUrl('http://100.64.0.1/')).toBe(false)
+  })
+
+  it('should allow store hostnames that start like IPv6 prefixes', () => {
+    expect(isFetchableUrl('https://fcbayern.com/shop')).toBe(true)
+    expect(isFetchableUrl('https://fdsports.com/item')).toBe(true)
+    expect(isFetchableUrl('https://fe80shop.com/item')).toBe(true)
+  })
+})
+
+describe('isPrivateAddress', () => {
+  it('should classify resolved addresses', () => {
+    expect(isPrivateAddress('10.1.2.3')).toBe(true)
+    expect(isPrivateAddress('172.20.0.1')).toBe(true)
+    expect(isPrivateAddress('::ffff:192.168.0.1')).toBe(true)
+    expect(isPrivateAddress('fc00::1')).toBe(true)
+    expect(isPrivateAddress('93.184.216.34')).toBe(false)
+    expect(isPrivateAddress('100.128.0.1')).toBe(false)
+    expect(isPrivateAddress('2606:4700::1111')).toBe(false)
+  })
+
+  it('should refuse hostnames that resolve to private addresses', async () => {
+    await expect(lookupPublicAddress('localhost')).rejects.toThrow('URL is not allowed')
+  })
+})
+
+describe('normalizeCondition', () => {
+  it('should map schema.org item conditions', () => {
+    expect(normalizeCondition('https://schema.org/NewCondition')).toBe('new')
+    expect(normalizeCondition('UsedCondition')).toBe('used')
+    expect(normalizeCondition('Open Box')).toBe('open_box')
+    expect(normalizeCondition('Renewed')).toBe('refurbished')
+    expect(normalizeCondition('Collectible')).toBeUndefined()
+  })
+})
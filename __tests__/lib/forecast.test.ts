@@ -0,0 +1,106 @@
+/**
+ * Unit tests for sale event dates and buy/wait price forecasts
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { forecastPrice, upcomingSaleEvents } from '@/lib/forecast'
+import type { PricePoint } from '@/lib/price-history'
+
+// Clear of every sale event for the next two weeks
+const quietDay = new Date('2026-04-01T00:00:00Z')
+
+function oscillating(from: string, days: number, every: number): PricePoint[] {
+  const start = Date.parse(from)
+  const points: PricePoint[] = []
+  for (let day = 0, high = true; day <= days; day += every, high = !high) {
+    points.push({ at: new Date(start + day * 24 * 60 * 60 * 1000).toISOString(), price: high ? 100 : 90 })
+  }
+  return points
+}
+
+describe('upcomingSaleEvents', () => {
+  it('places Black Friday the day after the fourth Thursday of November', () => {
+    const events = upcomingSaleEvents(new Date('2026-11-20T00:00:00Z'), 14)
+
+    expect(events.map((event) => event.id)).toEqual(['black_friday'])
+    expect(events[0].startsAt).toBe('2026-11-27T00:00:00.000Z')
+    expect(events[0].endsAt).toBe('2026-12-01T00:00:00.000Z')
+  })
+
+  it('includes a sale that is already running', () => {
+    const events = upcomingSaleEvents(new Date('2026-12-28T00:00:00Z'), 7)
+
+    expect(events.map((event) => event.id)).toEqual(['boxing_day'])
+  })
+
+  it('looks into the next year near the end of the year', () => {
+    const events = upcomingSaleEvents(new Date('2026-12-31T00:00:00Z'), 60)
+
+    expect(events.map((event) => event.startsAt)).toContain('2027-02-15T00:00:00.000Z')
+  })
+
+  it('finds nothing in a quiet stretch', () => {
+    expect(upcomingSaleEvents(quietDay, 14)).toEqual([])
+  })
+})
+
+describe('forecastPrice', () => {
+  it('recommends buying with low confidence when nothing is known', () => {
+    const forecast = forecastPrice([], { now: quietDay })
+
+    expect(forecast.recommendation).toBe('buy')
+    expect(forecast.dropProbability).toBe(0)
+    expect(forecast.confidence).toBeLessThanOrEqual(0.25)
+    expect(forecast.historyDays).toBe(0)
+    expect(forecast.reasons).toContain('Little price history yet')
+  })
+
+  it('recommends waiting for a price that drops often and sits above its usual level', () => {
+    const history = oscillating('2025-10-03T00:00:00Z', 180, 10)
+    const forecast = forecastPrice(history, { now: quietDay })
+
+    expect(history[history.length - 1].price).toBe(100)
+    expect(forecast.recommendation).toBe('wait')
+    expect(forecast.dropProbability).toBeGreaterThanOrEqual(0.5)
+    expect(forecast.reasons).toContain('Above its usual price')
+  })
+
+  it('recommends buying confidently at the lowest price of a long, steady history', () => {
+    const history: PricePoint[] = [
+      { at: '2025-09-01T00:00:00Z', price: 100 },
+      { at: '2026-03-01T00:00:00Z', price: 90 },
+    ]
+    const forecast = forecastPrice(history, { now: quietDay })
+
+    expect(forecast.recommendation).toBe('buy')
+    expect(forecast.dropProbability).toBeLessThan(0.1)
+    expect(forecast.confidence).toBeGreaterThan(forecastPrice([], { now: quietDay }).confidence)
+    expect(forecast.reasons).toContain('At or near its lowest recorded price')
+  })
+
+  it('counts a drop at the same time last year', () => {
+    const history: PricePoint[] = [
+      { at: '2025-01-01T00:00:00Z', price: 100 },
+      { at: '2025-04-05T00:00:00Z', price: 80 },
+      { at: '2025-04-20T00:00:00Z', price: 100 },
+    ]
+    const withSeason = forecastPrice(history, { now: quietDay })
+    const elsewhere = forecastPrice(history, { now: new Date('2026-06-15T00:00:00Z') })
+
+    expect(withSeason.reasons).toContain('Dropped around this time last year')
+    expect(withSeason.dropProbability).toBeGreaterThan(elsewhere.dropProbability)
+  })
+
+  it('suggests waiting for an upcoming sale', () => {
+    const forecast = forecastPrice([], { now: new Date('2026-11-20T00:00:00Z') })
+
+    expect(forecast.recommendation).toBe('wait')
+    expect(forecast.saleEvents.map((event) => event.id)).toEqual(['black_friday'])
+    expect(forecast.reasons).toContain('Black Friday and Cyber Monday starts in 7 days')
+  })
+
+  it('clamps the horizon', () => {
+    expect(forecastPrice([], { now: quietDay, horizonDays: 1000 }).horizonDays).toBe(90)
+    expect(forecastPrice([], { now: quietDay, horizonDays: 0 }).horizonDays).toBe(1)
+  })
+})
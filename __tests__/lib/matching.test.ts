@@ -0,0 +1,96 @@
+/**
+ * Unit tests for cross-store product matching
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { groupOffers, hasValidCheckDigit, looksLikeBarcode, normalizeGtin, parseBarcode, scoreMatch } from '@/lib/matching'
+import type { Product } from '@/lib/stores'
+
+function product(overrides: Partial<Product> & Pick<Product, 'id' | 'name' | 'price'>): Product {
+  return {
+    currency: 'USD',
+    url: `https://shop.example/p/${overrides.id}`,
+    store: 'Shop',
+    ...overrides,
+  }
+}
+
+describe('GTIN normalization', () => {
+  it('should validate check digits', () => {
+    expect(hasValidCheckDigit('027242923782')).toBe(true)
+    expect(hasValidCheckDigit('027242923783')).toBe(false)
+    expect(hasValidCheckDigit('4006381333931')).toBe(true)
+  })
+
+  it('should pad UPC and EAN codes to the same GTIN-14', () => {
+    expect(normalizeGtin('027242923782')).toBe('00027242923782')
+    expect(normalizeGtin('0027242923782')).toBe('00027242923782')
+    expect(normalizeGtin('not-a-code')).toBeUndefined()
+  })
+})
+
+describe('parseBarcode', () => {
+  it('should recognize each supported format', () => {
+    expect(parseBarcode('027242923782')).toEqual({ format: 'upc_a', gtin: '00027242923782' })
+    expect(parseBarcode('4006381333931')).toEqual({ format: 'ean_13', gtin: '04006381333931' })
+    expect(parseBarcode('96385074')).toEqual({ format: 'ean_8', gtin: '00000096385074' })
+    expect(parseBarcode('978-0-306-40615-7')).toEqual({ format: 'isbn_13', gtin: '09780306406157' })
+  })
+
+  it('should convert ISBN-10 to the same GTIN as its ISBN-13', () => {
+    expect(parseBarcode('ISBN 0-306-40615-2')).toEqual({ format: 'isbn_10', gtin: '09780306406157' })
+    expect(parseBarcode('080442957X')?.format).toBe('isbn_10')
+  })
+
+  it('should reject bad check digits but still flag them as barcode-shaped', () => {
+    expect(parseBarcode('027242923783')).toBeNull()
+    expect(looksLikeBarcode('027242923783')).toBe(true)
+    expect(looksLikeBarcode('sony 1000')).toBe(false)
+  })
+})
+
+describe('scoreMatch', () => {
+  it('should treat equal GTINs as a certain match', () => {
+    const a = product({ id: 'a', name: 'Headphones', price: 1, gtin: '027242923782' })
+    const b = product({ id: 'b', name: 'Totally different title', price: 2, gtin: '0027242923782' })
+    expect(scoreMatch(a, b)).toEqual({ score: 1, signals: ['gtin'] })
+  })
+
+  it('should match model numbers written differently', () => {
+    const a = product({ id: 'a', name: 'Sony WH-1000XM5 Wireless Noise Cancelling Headphones', price: 1, brand: 'Sony' })
+    const b = product({ id: 'b', name: 'Sony WH1000XM5 Noise Canceling Wireless Headphone, Black', price: 2, brand: 'SONY' })
+    const match = scoreMatch(a, b)
+    expect(match.score).toBeGreaterThanOrEqual(0.9)
+    expect(match.signals).toContain('model')
+  })
+
+  it('should keep different model generations apart', () => {
+    const a = product({ id: 'a', name: 'Sony WH-1000XM5 Wireless Headphones', price: 1 })
+    const b = product({ id: 'b', name: 'Sony WH-1000XM4 Wireless Headphones', price: 2 })
+    expect(scoreMatch(a, b).score).toBeLessThan(0.6)
+  })
+
+  it('should reject listings from different brands', () => {
+    const a = product({ id: 'a', name: 'Wireless Headphones', price: 1, brand: 'Sony' })
+    const b = product({ id: 'b', name: 'Wireless Headphones', price: 2, brand: 'Bose' })
+    expect(scoreMatch(a, b).score).toBe(0)
+  })
+})
+
+describe('groupOffers', () => {
+  it('should group offers and pick the cheapest per product', () => {
+    const groups = groupOffers([
+      product({ id: 'tm', name: 'Sony WH-1000XM5 Headphones', price: 329.99, store: 'TechMart', gtin: '027242923782' }),
+      product({ id: 'sh', name: 'Sony WH1000XM5 Headphone', price: 299, store: 'ShopHub', brand: 'Sony' }),
+      product({ id: 'vc', name: 'Sony WH-1000XM5', price: 309, store: 'ValueCart', gtin: '027242923782' }),
+      product({ id: 'bose', name: 'Bose QuietComfort 45 Headphones', price: 249, store: 'ShopHub' }),
+    ])
+
+    expect(groups).toHaveLength(2)
+    expect(groups[0].id).toBe('gtin_00027242923782')
+    expect(groups[0].offers.map((offer) => offer.id)).toEqual(['tm', 'sh', 'vc'])
+    expect(groups[0].cheapest.id).toBe('sh')
+    expect(groups[0].confidence).toBeLessThan(1)
+    expect(groups[1].cheapest.id).toBe('bose')
+  })
+})
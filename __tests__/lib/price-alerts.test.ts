@@ -0,0 +1,64 @@
+/**
+ * Unit tests for price-drop alert rules
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { evaluatePriceDrop, dropPercentThreshold, isValidDropPercent } from '@/lib/price-alerts'
+import type { PriceDropRule } from '@/lib/price-alerts'
+
+const noRules: PriceDropRule = {
+  target_price: null,
+  drop_percent: null,
+  alert_reference_price: null,
+  last_alert_price: null,
+}
+
+describe('evaluatePriceDrop', () => {
+  it('alerts when the price reaches the target', () => {
+    const result = evaluatePriceDrop({ ...noRules, target_price: 300 }, 320, 299)
+
+    expect(result).toEqual({
+      alert: { kind: 'target_reached', price: 299, previousPrice: 320, threshold: 300 },
+      lastAlertPrice: 299,
+    })
+  })
+
+  it('alerts when the price drops the chosen percentage below the reference price', () => {
+    const rule = { ...noRules, drop_percent: 10, alert_reference_price: 200 }
+
+    expect(evaluatePriceDrop(rule, 195, 185).alert).toBeNull()
+    expect(evaluatePriceDrop(rule, 195, 180).alert).toMatchObject({ kind: 'percent_drop', threshold: 180 })
+  })
+
+  it('stays quiet without rules or when the price rises', () => {
+    expect(evaluatePriceDrop(noRules, 320, 100).alert).toBeNull()
+    expect(evaluatePriceDrop({ ...noRules, target_price: 300 }, 250, 260).alert).toBeNull()
+  })
+
+  it('does not repeat an alert until the price goes lower', () => {
+    const rule = { ...noRules, target_price: 300, last_alert_price: 280 }
+
+    expect(evaluatePriceDrop(rule, 290, 285)).toEqual({ alert: null, lastAlertPrice: 280 })
+    expect(evaluatePriceDrop(rule, 290, 270)).toMatchObject({ alert: { price: 270 }, lastAlertPrice: 270 })
+  })
+
+  it('re-arms once the price rises past the rule', () => {
+    const rule = { ...noRules, target_price: 300, last_alert_price: 280 }
+
+    expect(evaluatePriceDrop(rule, 280, 310)).toEqual({ alert: null, lastAlertPrice: null })
+  })
+})
+
+describe('dropPercentThreshold', () => {
+  it('needs both a percentage and a reference price', () => {
+    expect(dropPercentThreshold({ drop_percent: 15, alert_reference_price: 100 })).toBe(85)
+    expect(dropPercentThreshold({ drop_percent: 15, alert_reference_price: null })).toBeNull()
+  })
+
+  it('accepts percentages strictly between 0 and 100 or no rule', () => {
+    expect(isValidDropPercent(null)).toBe(true)
+    expect(isValidDropPercent(25)).toBe(true)
+    expect(isValidDropPercent(100)).toBe(false)
+    expect(isValidDropPercent('10')).toBe(false)
+  })
+})
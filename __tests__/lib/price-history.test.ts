@@ -0,0 +1,83 @@
+/**
+ * Unit tests for price history ranges, statistics and downsampling
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { downsamplePoints, lowestPoint, pointsInRange, priceStats, rangeStart, isPriceHistoryRange } from '@/lib/price-history'
+import type { PricePoint } from '@/lib/price-history'
+
+const now = new Date('2026-06-30T00:00:00Z')
+
+const history: PricePoint[] = [
+  { at: '2026-06-20T00:00:00Z', price: 280 },
+  { at: '2026-01-01T00:00:00Z', price: 350 },
+  { at: '2026-06-01T00:00:00Z', price: 300 },
+  { at: '2026-06-10T00:00:00Z', price: 320 },
+]
+
+describe('pointsInRange', () => {
+  it('sorts points and keeps everything for the whole history', () => {
+    expect(pointsInRange(history, null).map((point) => point.price)).toEqual([350, 300, 320, 280])
+  })
+
+  it('carries the price in effect at the range start into the range', () => {
+    const start = rangeStart('7d', new Date('2026-06-15T00:00:00Z'))!
+
+    expect(pointsInRange(history, start)).toEqual([
+      { at: '2026-06-08T00:00:00.000Z', price: 300 },
+      { at: '2026-06-10T00:00:00Z', price: 320 },
+      { at: '2026-06-20T00:00:00Z', price: 280 },
+    ])
+  })
+
+  it('recognizes supported ranges', () => {
+    expect(isPriceHistoryRange('1y')).toBe(true)
+    expect(isPriceHistoryRange('2y')).toBe(false)
+  })
+})
+
+describe('priceStats', () => {
+  it('weighs the average by how long each price lasted', () => {
+    const points = [
+      { at: '2026-06-20T00:00:00Z', price: 100 },
+      { at: '2026-06-29T00:00:00Z', price: 200 },
+    ]
+
+    // 9 days at 100, 1 day at 200
+    expect(priceStats(points, now)).toEqual({ min: 100, max: 200, average: 110, current: 200 })
+  })
+
+  it('has nothing to report without points', () => {
+    expect(priceStats([], now)).toBeNull()
+  })
+})
+
+describe('lowestPoint', () => {
+  it('finds the all-time low', () => {
+    expect(lowestPoint(history)).toEqual({ at: '2026-06-20T00:00:00Z', price: 280 })
+    expect(lowestPoint([])).toBeNull()
+  })
+})
+
+describe('downsamplePoints', () => {
+  const dense: PricePoint[] = Array.from({ length: 1000 }, (_, index) => ({
+    at: new Date(Date.UTC(2026, 0, 1) + index * 3600_000).toISOString(),
+    price: index === 500 ? 1 : 100 + (index % 7),
+  }))
+
+  it('leaves short series alone', () => {
+    expect(downsamplePoints(history, 10)).toBe(history)
+  })
+
+  it('fits the point budget while keeping the ends and the lowest dip', () => {
+    const sampled = downsamplePoints(dense, 50)
+
+    expect(sampled.length).toBeLessThanOrEqual(50)
+    expect(sampled[0]).toBe(dense[0])
+    expect(sampled[sampled.length - 1]).toBe(dense[dense.length - 1])
+    expect(sampled).toContain(dense[500])
+    expect(sampled.map((point) => Date.parse(point.at))).toEqual(
+      [...sampled.map((point) => Date.parse(point.at))].sort((a, b) => a - b)
+    )
+  })
+})
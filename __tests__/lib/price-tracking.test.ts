@@ -0,0 +1,175 @@
+/**
+ * Unit tests for the saved product price refresh
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { nextPriceCheckAt, PRICE_REFRESH_INTERVAL_MS, MAX_REFRESH_BACKOFF_MS } from '@/lib/price-tracking/schedule'
+import { runPerStore } from '@/lib/price-tracking/concurrency'
+import { refreshSavedProductPrice } from '@/lib/price-tracking/refresh'
+import type { TrackedPrice } from '@/lib/price-tracking/types'
+import { StoreRegistry, FixtureStoreAdapter, type Product } from '@/lib/stores'
+import type { ExchangeRates } from '@/lib/currency'
+
+const now = new Date('2026-06-01T00:00:00Z')
+const rates: ExchangeRates = { base: 'USD', rates: { USD: 1, EUR: 0.8 }, updatedAt: '2026-06-01T00:00:00Z' }
+
+const listing: Product = {
+  id: 'tm-1001',
+  name: 'Sony WH-1000XM5 Wireless Headphones',
+  price: 299.99,
+  currency: 'USD',
+  url: 'https://techmart.example/p/tm-1001',
+  store: 'TechMart',
+}
+
+const saved: TrackedPrice = {
+  id: 'saved-1',
+  user_id: 'user-1',
+  product_name: listing.name,
+  product_url: listing.url,
+  product_price: 329.99,
+  product_currency: 'USD',
+  store: 'TechMart',
+  store_id: 'techmart.example',
+  price_checked_at: '2026-05-31T12:00:00Z',
+  price_check_failures: 0,
+  target_price: null,
+  drop_percent: null,
+  alert_reference_price: null,
+  last_alert_price: null,
+}
+
+function registryWith(products: Product[]): StoreRegistry {
+  return new StoreRegistry().register(
+    new FixtureStoreAdapter({ id: 'techmart', name: 'TechMart', domains: ['techmart.example'], products })
+  )
+}
+
+/**
+ * Just enough of the Supabase client to record what the refresh writes
+ */
+function fakeSupabase() {
+  const writes: { table: string; action: string; values: Record<string, unknown> }[] = []
+  const client = {
+    from: (table: string) => ({
+      insert: async (values: Record<string, unknown>) => {
+        writes.push({ table, action: 'insert', values })
+        return { error: null }
+      },
+      update: (values: Record<string, unknown>) => ({
+        eq: async () => {
+          writes.push({ table, action: 'update', values })
+          return { error: null }
+        },
+      }),
+    }),
+  }
+  return { client: client as never, writes }
+}
+
+describe('nextPriceCheckAt', () => {
+  it('waits the refresh interval after a success and doubles it per failure', () => {
+    expect(nextPriceCheckAt(now, 0).getTime() - now.getTime()).toBe(PRICE_REFRESH_INTERVAL_MS)
+    expect(nextPriceCheckAt(now, 2).getTime() - now.getTime()).toBe(PRICE_REFRESH_INTERVAL_MS * 4)
+  })
+
+  it('caps the back-off', () => {
+    expect(nextPriceCheckAt(now, 30).getTime() - now.getTime()).toBe(MAX_REFRESH_BACKOFF_MS)
+  })
+})
+
+describe('runPerStore', () => {
+  it('limits requests in flight per store and keeps the input order', async () => {
+    const inFlight = new Map<string, number>()
+    const peak = new Map<string, number>()
+    const items = ['a:1', 'a:2', 'a:3', 'a:4', 'b:1', 'b:2']
+
+    const results = await runPerStore(
+      items,
+      (item) => item.split(':')[0],
+      2,
+      async (item) => {
+        const store = item.split(':')[0]
+        inFlight.set(store, (inFlight.get(store) ?? 0) + 1)
+        peak.set(store, Math.max(peak.get(store) ?? 0, inFlight.get(store)!))
+        await new Promise((resolve) => setTimeout(resolve, 5))
+        inFlight.set(store, inFlight.get(store)! - 1)
+        return item.toUpperCase()
+      }
+    )
+
+    expect(results).toEqual(items.map((item) => item.toUpperCase()))
+    expect(peak.get('a')).toBe(2)
+    expect(peak.get('b')).toBe(2)
+  })
+})
+
+describe('refreshSavedProductPrice', () => {
+  it('records a changed price and makes it the saved price', async () => {
+    const { client, writes } = fakeSupabase()
+    const result = await refreshSavedProductPrice(client, saved, { registry: registryWith([listing]), rates, now })
+
+    expect(result).toMatchObject({ savedProductId: 'saved-1', previousPrice: 329.99, price: 299.99, changed: true })
+    expect(writes[0]).toMatchObject({ table: 'price_history', action: 'insert', values: { price: 299.99 } })
+    expect(writes[1]).toMatchObject({
+      table: 'saved_products',
+      values: { product_price: 299.99, price_check_failures: 0, price_checked_at: now.toISOString() },
+    })
+  })
+
+  it('only reschedules when the price is unchanged', async () => {
+    const { client, writes } = fakeSupabase()
+    const registry = registryWith([{ ...listing, price: 329.99 }])
+    const result = await refreshSavedProductPrice(client, saved, { registry, rates, now })
+
+    expect(result.changed).toBe(false)
+    expect(writes.map((write) => write.table)).toEqual(['saved_products'])
+  })
+
+  it('converts prices listed in another currency', async () => {
+    const { client } = fakeSupabase()
+    const registry = registryWith([{ ...listing, price: 240, currency: 'EUR' }])
+    const result = await refreshSavedProductPrice(client, saved, { registry, rates, now })
+
+    expect(result.price).toBe(300)
+  })
+
+  it('notifies the owner when a new price meets their target', async () => {
+    const { client, writes } = fakeSupabase()
+    const product = { ...saved, target_price: 300 }
+    const registry = registryWith([listing])
+    const result = await refreshSavedProductPrice(client, product, { registry, rates, now, notify: async () => true })
+
+    expect(result).toMatchObject({ notified: true, alert: { kind: 'target_reached', threshold: 300 } })
+    expect(writes[1].values).toMatchObject({ last_alert_price: 299.99 })
+    expect(writes[2]).toMatchObject({
+      table: 'notifications',
+      values: { type: 'price_drop', product_id: 'saved-1', old_price: 329.99, new_price: 299.99 },
+    })
+  })
+
+  it('respects the price-drop notification preference', async () => {
+    const { client, writes } = fakeSupabase()
+    const product = { ...saved, target_price: 300 }
+    const registry = registryWith([listing])
+    const result = await refreshSavedProductPrice(client, product, { registry, rates, now, notify: async () => false })
+
+    expect(result.notified).toBe(false)
+    expect(writes.some((write) => write.table === 'notifications')).toBe(false)
+  })
+
+  it('backs off when the price cannot be fetched', async () => {
+    const { client, writes } = fakeSupabase()
+    const registry = registryWith([{ ...listing, price: 0 }])
+    const result = await refreshSavedProductPrice(client, { ...saved, price_check_failures: 1 }, { registry, rates, now })
+
+    expect(result.error).toBe('No price found for the product')
+    expect(writes).toEqual([
+      {
+        table: 'saved_products',
+        action: 'update',
+        values: { price_check_failures: 2, next_price_check_at: nextPriceCheckAt(now, 2).toISOString() },
+      },
+    ])
+  })
+})
@@ -0,0 +1,62 @@
+/**
+ * Unit tests for landed cost estimates
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { STATIC_RATES } from '@/lib/currency'
+import { estimateLandedCost, pickCheapest, withComparePrices, withLandedCosts } from '@/lib/pricing'
+import type { Product } from '@/lib/stores'
+
+function offer(id: string, price: number, shippingCost?: number, originCountry = 'US'): Product {
+  return {
+    id,
+    name: 'Sony WH-1000XM5',
+    price,
+    currency: 'USD',
+    url: `https://shop.example/${id}`,
+    store: id,
+    shippingCost,
+    originCountry,
+  }
+}
+
+describe('estimateLandedCost', () => {
+  it('should add sales tax on price and shipping for domestic US orders', () => {
+    const landed = estimateLandedCost(offer('a', 100, 10), { country: 'US' }, STATIC_RATES)
+
+    expect(landed.estimatedTax).toBe(7.7)
+    expect(landed.importDuty).toBe(0)
+    expect(landed.landedPrice).toBe(117.7)
+  })
+
+  it('should not add tax to VAT-inclusive domestic prices', () => {
+    const landed = estimateLandedCost(offer('a', 100, 5, 'DE'), { country: 'DE' }, STATIC_RATES)
+    expect(landed.landedPrice).toBe(105)
+  })
+
+  it('should add import duty and VAT for cross-border orders over the de minimis', () => {
+    const landed = estimateLandedCost(offer('a', 300, 20), { country: 'GB' }, STATIC_RATES)
+
+    expect(landed.importDuty).toBe(12.8)
+    expect(landed.estimatedTax).toBe(66.56)
+    expect(landed.landedPrice).toBe(399.36)
+  })
+
+  it('should skip duty for cheap imports', () => {
+    const landed = estimateLandedCost(offer('a', 40, 5), { country: 'GB' }, STATIC_RATES)
+    expect(landed.importDuty).toBe(0)
+    expect(landed.estimatedTax).toBe(9)
+  })
+})
+
+describe('ranking by landed cost', () => {
+  it('should not let a high shipping charge win on sticker price', () => {
+    const offers = withComparePrices(
+      withLandedCosts([offer('free-shipping', 329.99, 0), offer('cheap-sticker', 299, 44.99)], { country: 'US' }, STATIC_RATES),
+      'USD',
+      STATIC_RATES
+    )
+
+    expect(pickCheapest(offers).id).toBe('free-shipping')
+  })
+})
@@ -0,0 +1,123 @@
+/**
+ * Unit tests for query understanding: spelling, synonyms and constraints
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  interpretQuery,
+  isReinterpreted,
+  extractConstraints,
+  correctSpelling,
+  correctWord,
+  editDistance,
+  expandSynonyms,
+} from '@/lib/query'
+
+describe('editDistance', () => {
+  it('should count insertions, deletions, substitutions and swaps as one edit', () => {
+    expect(editDistance('headphones', 'headphones')).toBe(0)
+    expect(editDistance('headphnes', 'headphones')).toBe(1)
+    expect(editDistance('wirelesss', 'wireless')).toBe(1)
+    expect(editDistance('laptpo', 'laptop')).toBe(1)
+    expect(editDistance('sony', 'bose')).toBe(3)
+  })
+})
+
+describe('correctSpelling', () => {
+  it('should fix typos in product words and brands', () => {
+    expect(correctSpelling('wireles headphnes')).toEqual({
+      text: 'wireless headphones',
+      corrections: [
+        { from: 'wireles', to: 'wireless' },
+        { from: 'headphnes', to: 'headphones' },
+      ],
+    })
+    expect(correctWord('Samsnug')).toBe('samsung')
+  })
+
+  it('should leave known words, plurals, model numbers and short words alone', () => {
+    expect(correctSpelling('Sony WH-1000XM5 cases for iPhone').corrections).toEqual([])
+    expect(correctWord('tv')).toBeUndefined()
+  })
+
+  it('should leave unknown words that are not close to anything as typed', () => {
+    expect(correctSpelling('quietcomfort earbuds').text).toBe('quietcomfort earbuds')
+  })
+})
+
+describe('expandSynonyms', () => {
+  it('should swap known phrases for their synonyms', () => {
+    expect(expandSynonyms('sony earbuds')).toEqual(['sony in-ear headphones', 'sony earphones'])
+    expect(expandSynonyms('gaming laptop')).toEqual(['gaming notebook'])
+  })
+
+  it('should return nothing for queries without known phrases', () => {
+    expect(expandSynonyms('coffee maker')).toEqual([])
+  })
+})
+
+describe('extractConstraints', () => {
+  it('should read price limits', () => {
+    expect(extractConstraints('headphones under $200')).toEqual({ text: 'headphones', filters: { priceRange: [0, 200] } })
+    expect(extractConstraints('laptop over 500 dollars').filters.priceRange).toEqual([500, 10000])
+    expect(extractConstraints('tv between $300 and $1k').filters.priceRange).toEqual([300, 1000])
+    expect(extractConstraints('blender $50-$80').filters.priceRange).toEqual([50, 80])
+  })
+
+  it('should read commas as thousands separators unless one or two digits follow', () => {
+    expect(extractConstraints('laptop under $1,200').filters.priceRange).toEqual([0, 1200])
+    expect(extractConstraints('tv under 1,500 dollars').filters.priceRange).toEqual([0, 1500])
+    expect(extractConstraints('toaster under 29,99 euros').filters.priceRange).toEqual([0, 29.99])
+    expect(extractConstraints('camera under $1,5000').filters).toEqual({})
+  })
+
+  it('should not read sizes and model numbers as prices', () => {
+    expect(extractConstraints('ssd over 500 GB').filters).toEqual({})
+    expect(extractConstraints('iphone 15 pro max 256').filters).toEqual({})
+  })
+
+  it('should read ratings, conditions and brands', () => {
+    expect(extractConstraints('sony headphones 4.5 stars refurbished')).toEqual({
+      text: 'sony headphones',
+      filters: { minRating: 4.5, conditions: ['refurbished'], brands: ['Sony'] },
+    })
+    expect(extractConstraints('open box camera rated 4 and up').filters).toEqual({
+      minRating: 4,
+      conditions: ['open_box'],
+    })
+  })
+
+  it('should not filter by a brand the product is only for', () => {
+    expect(extractConstraints('case for apple iphone')).toEqual({ text: 'case for apple iphone', filters: {} })
+    expect(extractConstraints('anker charger compatible with samsung galaxy').filters).toEqual({ brands: ['Anker'] })
+    expect(extractConstraints('apple charger for ipad').filters).toEqual({ brands: ['Apple'] })
+  })
+
+  it('should drop words left dangling by a removed constraint', () => {
+    expect(extractConstraints('earbuds for under 50').text).toBe('earbuds')
+    expect(extractConstraints('used bose speaker with at least 4 stars').text).toBe('bose speaker')
+  })
+})
+
+describe('interpretQuery', () => {
+  it('should combine constraints, spelling and synonyms', () => {
+    const interpreted = interpretQuery('sony earbds under $150')
+
+    expect(interpreted).toEqual({
+      original: 'sony earbds under $150',
+      text: 'sony earbuds',
+      corrections: [{ from: 'earbds', to: 'earbuds' }],
+      expansions: ['sony in-ear headphones', 'sony earphones'],
+      filters: { priceRange: [0, 150], brands: ['Sony'] },
+    })
+    expect(isReinterpreted(interpreted)).toBe(true)
+  })
+
+  it('should search the original text when it is all constraints', () => {
+    const interpreted = interpretQuery('under $50')
+
+    expect(interpreted.text).toBe('under $50')
+    expect(interpreted.filters).toEqual({})
+    expect(isReinterpreted(interpreted)).toBe(false)
+  })
+})
@@ -0,0 +1,108 @@
+/**
+ * Unit tests for offer risk assessment
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { assessOfferRisks } from '@/lib/risk'
+import type { ProductGroup } from '@/lib/matching'
+import type { Product } from '@/lib/stores'
+import type { StoreProfile } from '@/lib/store-directory'
+
+const now = new Date('2026-06-01T00:00:00Z').getTime()
+
+const offer = (store: string, price: number, overrides: Partial<Product> = {}): Product => ({
+  id: `${store}-1`,
+  name: 'Sony WH-1000XM5 Wireless Headphones',
+  price,
+  currency: 'USD',
+  comparePrice: price,
+  url: `https://${store}.example/p/1`,
+  store,
+  storeId: `${store}.example`,
+  brand: 'Sony',
+  ...overrides,
+})
+
+const group = (offers: Product[]): ProductGroup => ({
+  id: 'group_1',
+  name: offers[0].name,
+  offers,
+  cheapest: offers[0],
+  confidence: 1,
+})
+
+const store = (id: string, overrides: Partial<StoreProfile> = {}): StoreProfile => ({
+  id,
+  name: id,
+  verified: true,
+  firstSeenAt: '2025-01-01T00:00:00Z',
+  trust: { score: 95, level: 'high', reasons: [] },
+  ...overrides,
+})
+
+const stores: Record<string, StoreProfile> = {
+  'a.example': store('a.example'),
+  'b.example': store('b.example'),
+  'c.example': store('c.example'),
+  'cheap.example': store('cheap.example', {
+    verified: false,
+    firstSeenAt: '2026-05-20T00:00:00Z',
+    trust: { score: 60, level: 'medium', reasons: ['Not a verified store'] },
+  }),
+}
+
+describe('assessOfferRisks', () => {
+  it('should leave ordinary offers at low risk', () => {
+    const risks = assessOfferRisks([group([offer('a', 350), offer('b', 330), offer('c', 340)])], stores, { now })
+    expect(risks.get('a:a-1')).toEqual({ level: 'low', reasons: [] })
+  })
+
+  it('should flag a price far below the median from a new store as high risk', () => {
+    const risks = assessOfferRisks(
+      [group([offer('a', 350), offer('b', 330), offer('cheap', 99)])],
+      stores,
+      { now }
+    )
+    expect(risks.get('cheap:cheap-1')).toEqual({
+      level: 'high',
+      reasons: ['71% below other stores', 'New or unverified store'],
+    })
+  })
+
+  it('should only warn about a deep discount from an established store', () => {
+    const risks = assessOfferRisks([group([offer('a', 350), offer('b', 330), offer('c', 150)])], stores, { now })
+    expect(risks.get('c:c-1')?.level).toBe('medium')
+  })
+
+  it('should compare renewed offers with other renewed offers only', () => {
+    const risks = assessOfferRisks(
+      [group([offer('a', 350), offer('b', 330), offer('c', 150, { condition: 'refurbished' })])],
+      stores,
+      { now }
+    )
+    expect(risks.get('c:c-1')?.level).toBe('low')
+  })
+
+  it('should flag brand data that contradicts the title', () => {
+    const risks = assessOfferRisks([group([offer('a', 350, { brand: 'Generic' })])], stores, { now })
+    expect(risks.get('a:a-1')).toMatchObject({ level: 'medium', reasons: ['Listed as Generic but titled Sony'] })
+  })
+
+  it('should treat brand variants as the same brand', () => {
+    const risks = assessOfferRisks(
+      [group([offer('a', 350, { brand: 'Sony Electronics' }), offer('b', 340)])],
+      stores,
+      { now }
+    )
+    expect(risks.get('a:a-1')?.level).toBe('low')
+  })
+
+  it('should rate offers from scam-listed stores as high risk', () => {
+    const risks = assessOfferRisks(
+      [group([offer('a', 350)])],
+      { 'a.example': store('a.example', { trust: { score: 0, level: 'low', reasons: ['Listed as a scam domain'] } }) },
+      { now }
+    )
+    expect(risks.get('a:a-1')?.level).toBe('high')
+  })
+})
@@ -0,0 +1,67 @@
+/**
+ * Unit tests for saved search scheduling and result diffing
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { diffOffers, cheapestOffer } from '@/lib/saved-searches/diff'
+import { nextRunAt, isSavedSearchFrequency } from '@/lib/saved-searches/schedule'
+import type { OfferSnapshot } from '@/lib/saved-searches/types'
+
+function offer(store: string, id: string, price: number): OfferSnapshot {
+  return { key: `${store}:${id}`, store, name: `Headphones ${id}`, price, url: `https://${store}.example/${id}` }
+}
+
+const previous = [offer('techmart', '1', 300), offer('shophub', '2', 320)]
+
+describe('diffOffers', () => {
+  it('should only set a baseline on the first run', () => {
+    expect(diffOffers(null, [offer('techmart', '1', 100)], 200)).toEqual([])
+  })
+
+  it('should alert on new offers at or under the alert price', () => {
+    const current = [...previous, offer('valuecart', '3', 250), offer('valuecart', '4', 280)]
+    const alerts = diffOffers(previous, current, 260)
+
+    expect(alerts.map((alert) => [alert.kind, alert.offer.key])).toEqual([
+      ['below_threshold', 'valuecart:3'],
+    ])
+  })
+
+  it('should not alert on offers already seen, even when they get cheaper', () => {
+    expect(diffOffers(previous, [offer('techmart', '1', 150), offer('shophub', '2', 320)], 200)).toEqual([])
+  })
+
+  it('should alert when a different store becomes the cheapest', () => {
+    const alerts = diffOffers(previous, [offer('techmart', '1', 300), offer('shophub', '2', 290)], null)
+
+    expect(alerts).toEqual([{ kind: 'cheaper_store', offer: offer('shophub', '2', 290), previousPrice: 300 }])
+  })
+
+  it('should report a new cheapest offer under the alert price once', () => {
+    const alerts = diffOffers(previous, [...previous, offer('valuecart', '3', 199)], 200)
+
+    expect(alerts.map((alert) => alert.kind)).toEqual(['below_threshold'])
+  })
+})
+
+describe('cheapestOffer', () => {
+  it('should pick the lowest price', () => {
+    expect(cheapestOffer(previous)?.key).toBe('techmart:1')
+    expect(cheapestOffer([])).toBeUndefined()
+  })
+})
+
+describe('nextRunAt', () => {
+  it('should schedule the next run from the latest one', () => {
+    const from = new Date('2026-03-01T12:00:00Z')
+
+    expect(nextRunAt('hourly', from).toISOString()).toBe('2026-03-01T13:00:00.000Z')
+    expect(nextRunAt('daily', from).toISOString()).toBe('2026-03-02T12:00:00.000Z')
+    expect(nextRunAt('weekly', from).toISOString()).toBe('2026-03-08T12:00:00.000Z')
+  })
+
+  it('should recognize supported frequencies', () => {
+    expect(isSavedSearchFrequency('daily')).toBe(true)
+    expect(isSavedSearchFrequency('monthly')).toBe(false)
+  })
+})
@@ -0,0 +1,108 @@
+/**
+ * Unit tests for the savings ledger: which entries count and how they are totalled
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { partitionEntries, summarizeSavings, UNCATEGORIZED } from '@/lib/savings'
+import type { SavingsEntry } from '@/lib/savings'
+import type { ExchangeRates } from '@/lib/currency'
+
+const rates: ExchangeRates = { base: 'USD', rates: { USD: 1, EUR: 0.5 }, updatedAt: '2026-01-01T00:00:00Z' }
+
+let nextId = 0
+function entry(overrides: Partial<SavingsEntry>): SavingsEntry {
+  return {
+    id: `entry-${++nextId}`,
+    source: 'click',
+    product_key: 'example.com/p/1',
+    product_url: 'https://example.com/p/1',
+    saved_product_id: null,
+    product_name: 'Headphones',
+    store: 'Example',
+    store_id: 'example.com',
+    category: 'Electronics',
+    currency: 'USD',
+    original_price: 100,
+    paid_price: 80,
+    created_at: '2026-05-10T12:00:00Z',
+    ...overrides,
+  }
+}
+
+describe('partitionEntries', () => {
+  it('keeps only the latest click on an offer, as pending', () => {
+    const first = entry({ paid_price: 90, created_at: '2026-05-01T00:00:00Z' })
+    const latest = entry({ paid_price: 85, created_at: '2026-05-03T00:00:00Z' })
+
+    expect(partitionEntries([latest, first])).toEqual({ purchases: [], pending: [latest] })
+  })
+
+  it('lets logged purchases replace clicks on the same offer', () => {
+    const click = entry({ created_at: '2026-05-05T00:00:00Z' })
+    const purchases = [
+      entry({ source: 'purchase', created_at: '2026-05-01T00:00:00Z' }),
+      entry({ source: 'purchase', created_at: '2026-05-02T00:00:00Z' }),
+    ]
+
+    expect(partitionEntries([click, ...purchases])).toEqual({ purchases, pending: [] })
+  })
+
+  it('keeps entries for different offers apart', () => {
+    const entries = [entry({ product_key: 'a' }), entry({ product_key: 'b', source: 'purchase' })]
+
+    const { purchases, pending } = partitionEntries(entries)
+    expect(purchases.map((e) => e.product_key)).toEqual(['b'])
+    expect(pending.map((e) => e.product_key)).toEqual(['a'])
+  })
+})
+
+describe('summarizeSavings', () => {
+  const entries = [
+    entry({ product_key: 'a', source: 'purchase', store: 'Example', created_at: '2026-04-20T00:00:00Z' }),
+    entry({
+      product_key: 'b',
+      source: 'purchase',
+      store: 'Shop EU',
+      category: null,
+      currency: 'EUR',
+      original_price: 50,
+      paid_price: 40,
+      created_at: '2026-05-02T00:00:00Z',
+    }),
+    entry({ product_key: 'c', source: 'purchase', store: 'Example', original_price: 30, paid_price: 35 }),
+    entry({ product_key: 'd', store: 'Elsewhere', original_price: 60, paid_price: 45 }),
+  ]
+
+  it('totals savings and spending of logged purchases in the requested currency', () => {
+    const summary = summarizeSavings(entries, 'USD', rates)
+
+    expect(summary).toMatchObject({ currency: 'USD', totalSaved: 35, totalSpent: 195, count: 3, skipped: 0 })
+  })
+
+  it('keeps click-throughs out of the totals as pending', () => {
+    const summary = summarizeSavings(entries, 'USD', rates)
+
+    expect(summary.pending).toEqual({ count: 1, saved: 15 })
+    expect(summary.byStore.map((bucket) => bucket.key)).not.toContain('Elsewhere')
+  })
+
+  it('breaks savings down by month, store and category', () => {
+    const summary = summarizeSavings(entries, 'USD', rates)
+
+    expect(summary.byMonth.map(({ key, saved }) => [key, saved])).toEqual([
+      ['2026-05', 15],
+      ['2026-04', 20],
+    ])
+    expect(summary.byStore.map(({ key, saved, count }) => [key, saved, count])).toEqual([
+      ['Shop EU', 20, 1],
+      ['Example', 15, 2],
+    ])
+    expect(summary.byCategory.map((bucket) => bucket.key)).toEqual([UNCATEGORIZED, 'Electronics'])
+  })
+
+  it('skips entries in currencies without a rate', () => {
+    const summary = summarizeSavings([entry({ source: 'purchase', currency: 'XYZ' })], 'USD', rates)
+
+    expect(summary).toMatchObject({ totalSaved: 0, count: 0, skipped: 1, byMonth: [] })
+  })
+})
@@ -0,0 +1,124 @@
+/**
+ * Unit tests for search progress events, result filters and pagination
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { formatSseEvent } from '@/lib/search/events'
+import { DEFAULT_FILTERS, computeFacets, filterProducts, parseFilters, sortProducts } from '@/lib/search/filters'
+import { decodeCursor, paginate } from '@/lib/search/pagination'
+import type { Product } from '@/lib/stores/types'
+
+const offer = (overrides: Partial<Product>): Product => ({
+  id: 'p1',
+  name: 'Test Product',
+  price: 100,
+  currency: 'USD',
+  url: 'https://store.example/p1',
+  store: 'Store',
+  ...overrides,
+})
+
+const offers = [
+  offer({ id: 'a', price: 300, landedPrice: 300, rating: 4.1, reviews: 50, brand: 'Sony', category: 'Electronics' }),
+  offer({ id: 'b', price: 100, landedPrice: 160, rating: 4.8, reviews: 900, brand: 'Bose', category: 'Electronics' }),
+  offer({ id: 'c', price: 150, landedPrice: 150, brand: 'Sony', condition: 'refurbished' }),
+  offer({ id: 'd', price: 120, landedPrice: 130, rating: 3.9, reviews: 20, brand: 'Apple', category: 'Electronics' }),
+]
+
+describe('formatSseEvent', () => {
+  it('should name the event after its type and send it as one data line', () => {
+    const wire = formatSseEvent({ type: 'alternatives_found', count: 3 })
+    expect(wire).toBe('event: alternatives_found\ndata: {"type":"alternatives_found","count":3}\n\n')
+  })
+
+  it('should keep multi-line strings on a single data line', () => {
+    const wire = formatSseEvent({ type: 'search_error', error: 'line one\nline two', status: 500 })
+    expect(wire.split('\n').filter((line) => line.startsWith('data: '))).toHaveLength(1)
+  })
+})
+
+describe('parseFilters', () => {
+  it('should fall back to defaults for missing or malformed input', () => {
+    expect(parseFilters(undefined)).toEqual(DEFAULT_FILTERS)
+    expect(parseFilters({ brands: 'Sony', priceRange: ['x'], minRating: 9, conditions: ['broken', 'used'] })).toEqual({
+      ...DEFAULT_FILTERS,
+      conditions: ['used'],
+      minRating: 5,
+    })
+  })
+
+  it('should keep the price range ordered', () => {
+    expect(parseFilters({ priceRange: [500, 100] }).priceRange).toEqual([500, 500])
+  })
+})
+
+describe('filterProducts', () => {
+  it('should match brands and categories case-insensitively', () => {
+    const filtered = filterProducts(offers, { ...DEFAULT_FILTERS, brands: ['sony'], categories: ['electronics'] })
+    expect(filtered.map((p) => p.id)).toEqual(['a'])
+  })
+
+  it('should treat listings without a condition as new', () => {
+    const filtered = filterProducts(offers, { ...DEFAULT_FILTERS, conditions: ['new'] })
+    expect(filtered.map((p) => p.id)).toEqual(['a', 'b', 'd'])
+  })
+
+  it('should filter the price range on landed cost', () => {
+    const filtered = filterProducts(offers, { ...DEFAULT_FILTERS, priceRange: [140, 200] })
+    expect(filtered.map((p) => p.id)).toEqual(['b', 'c'])
+  })
+})
+
+describe('sortProducts', () => {
+  const ids = (sort: Parameters<typeof sortProducts>[1]) => sortProducts(offers, sort).map((item) => item.product.id)
+
+  it('should keep relevance order by default', () => {
+    expect(ids('relevance')).toEqual(['a', 'b', 'c', 'd'])
+  })
+
+  it('should sort by item price and by landed cost separately', () => {
+    expect(ids('price_asc')).toEqual(['b', 'd', 'c', 'a'])
+    expect(ids('landed_asc')).toEqual(['d', 'c', 'b', 'a'])
+  })
+
+  it('should put unrated listings last when sorting by rating', () => {
+    expect(ids('rating_desc')).toEqual(['b', 'a', 'd', 'c'])
+  })
+})
+
+describe('paginate', () => {
+  const sorted = sortProducts(offers, 'price_asc')
+
+  it('should walk every item exactly once using cursors', () => {
+    const first = paginate(sorted, { limit: 3 })
+    expect(first.items.map((item) => item.product.id)).toEqual(['b', 'd', 'c'])
+    expect(first.pageInfo).toMatchObject({ total: 4, limit: 3 })
+
+    const second = paginate(sorted, { limit: 3, cursor: first.pageInfo.nextCursor })
+    expect(second.items.map((item) => item.product.id)).toEqual(['a'])
+    expect(second.pageInfo.nextCursor).toBeNull()
+  })
+
+  it('should resume after the cursor even if that item has disappeared', () => {
+    const first = paginate(sorted, { limit: 2 })
+    const withoutLast = sorted.filter((item) => item.product.id !== 'd')
+    const next = paginate(withoutLast, { limit: 2, cursor: first.pageInfo.nextCursor })
+    expect(next.items.map((item) => item.product.id)).toEqual(['c', 'a'])
+  })
+
+  it('should reject cursors it did not produce', () => {
+    expect(decodeCursor('not-a-cursor')).toBeNull()
+  })
+})
+
+describe('computeFacets', () => {
+  it('should count values across results, most common first', () => {
+    const facets = computeFacets(offers)
+    expect(facets.brands).toEqual([
+      { value: 'Sony', count: 2 },
+      { value: 'Apple', count: 1 },
+      { value: 'Bose', count: 1 },
+    ])
+    expect(facets.categories).toEqual([{ value: 'Electronics', count: 3 }])
+  })
+})
@@ -0,0 +1,93 @@
+/**
+ * Unit tests for the store directory and trust scoring
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { buildStoreProfiles, computeTrust, isScamDomain, storeIdOf, type StoreRow } from '@/lib/store-directory'
+
+const row = (overrides: Partial<StoreRow>): StoreRow => ({
+  id: 'gadgets.example',
+  name: 'Gadgets',
+  logo_url: null,
+  country: null,
+  return_days: null,
+  free_returns: null,
+  avg_delivery_days: null,
+  scam_listed: false,
+  verified: false,
+  report_count: 0,
+  created_at: '2026-01-01T00:00:00Z',
+  ...overrides,
+})
+
+describe('storeIdOf', () => {
+  it('should key stores by hostname without www', () => {
+    expect(storeIdOf('https://www.TechMart.example/p/1?ref=x')).toBe('techmart.example')
+    expect(storeIdOf('not a url')).toBeUndefined()
+  })
+})
+
+describe('isScamDomain', () => {
+  it('should match listed domains and their subdomains', () => {
+    expect(isScamDomain('megasale-direct.example')).toBe(true)
+    expect(isScamDomain('shop.megasale-direct.example')).toBe(true)
+    expect(isScamDomain('techmart.example')).toBe(false)
+    expect(isScamDomain('fake.example', ['fake.example'])).toBe(true)
+  })
+})
+
+describe('computeTrust', () => {
+  it('should trust verified stores with a return policy', () => {
+    expect(computeTrust({ scamListed: false, verified: true, reportCount: 0, hasReturnPolicy: true })).toEqual({
+      score: 95,
+      level: 'high',
+      reasons: [],
+    })
+  })
+
+  it('should lower the score for each report', () => {
+    const trust = computeTrust({ scamListed: false, verified: false, reportCount: 3, hasReturnPolicy: false })
+    expect(trust.score).toBe(30)
+    expect(trust.level).toBe('low')
+    expect(trust.reasons[0]).toBe('Reported by 3 shoppers')
+  })
+
+  it('should cap the report penalty', () => {
+    const trust = computeTrust({ scamListed: false, verified: true, reportCount: 20, hasReturnPolicy: true })
+    expect(trust.score).toBe(45)
+  })
+
+  it('should distrust scam-listed domains outright', () => {
+    const trust = computeTrust({ scamListed: true, verified: true, reportCount: 0, hasReturnPolicy: true })
+    expect(trust).toMatchObject({ score: 0, level: 'low' })
+  })
+})
+
+describe('buildStoreProfiles', () => {
+  it('should describe built-in stores from the catalog', () => {
+    const profiles = buildStoreProfiles([{ id: 'techmart.example', name: 'TechMart' }], [])
+    expect(profiles['techmart.example']).toMatchObject({
+      name: 'TechMart',
+      country: 'US',
+      returnPolicy: { days: 30, freeReturns: true },
+      trust: { level: 'high' },
+    })
+  })
+
+  it('should score stores missing from the directory as unverified', () => {
+    const profiles = buildStoreProfiles([{ id: 'shop.gadgets.example' }], [])
+    expect(profiles['shop.gadgets.example']).toMatchObject({ name: 'Gadgets', trust: { score: 60, level: 'medium' } })
+  })
+
+  it('should apply reports and scam flags from the stores table', () => {
+    const profiles = buildStoreProfiles(
+      [{ id: 'gadgets.example', name: 'Gadgets Online' }, { id: 'techmart.example' }],
+      [
+        row({ id: 'gadgets.example', name: 'gadgets.example', report_count: 2 }),
+        row({ id: 'techmart.example', name: 'TechMart', scam_listed: true }),
+      ]
+    )
+    expect(profiles['gadgets.example']).toMatchObject({ name: 'Gadgets Online', trust: { score: 40 } })
+    expect(profiles['techmart.example'].trust.level).toBe('low')
+  })
+})
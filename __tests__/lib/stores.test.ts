@@ -0,0 +1,178 @@
+/**
+ * Unit tests for the store adapter registry
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { StoreRegistry, FixtureStoreAdapter, searchStores, createDefaultRegistry } from '@/lib/stores'
+import type { Product, StoreAdapter } from '@/lib/stores'
+
+const headphones = {
+  id: 'fx-1',
+  name: 'Acme Wireless Headphones',
+  price: 120,
+  currency: 'USD',
+  url: 'https://acme.example/p/headphones',
+  reviews: 50,
+}
+
+function failingAdapter(id: string): StoreAdapter {
+  return {
+    id,
+    name: id,
+    canHandleUrl: () => false,
+    searchByKeyword: async () => {
+      throw new Error('Store unavailable')
+    },
+    resolveUrl: async () => null,
+    fetchOffer: async () => null,
+  }
+}
+
+describe('StoreRegistry', () => {
+  it('should reject duplicate adapter ids', () => {
+    const registry = new StoreRegistry()
+    const adapter = new FixtureStoreAdapter({ id: 'acme', name: 'Acme', domains: [], products: [] })
+    registry.register(adapter)
+    expect(() => registry.register(adapter)).toThrow()
+  })
+
+  it('should collect failures without failing the whole search', async () => {
+    const registry = new StoreRegistry()
+      .register(new FixtureStoreAdapter({ id: 'acme', name: 'Acme', domains: ['acme.example'], products: [headphones] }))
+      .register(failingAdapter('broken'))
+
+    const { results, failures } = await registry.searchByKeyword('wireless headphones')
+
+    expect(results).toHaveLength(1)
+    expect(results[0].value[0].store).toBe('Acme')
+    expect(failures).toEqual([expect.objectContaining({ adapterId: 'broken', reason: 'error' })])
+  })
+
+  it('should time out slow adapters', async () => {
+    const registry = new StoreRegistry({ defaultTimeoutMs: 20 }).register(
+      new FixtureStoreAdapter({ id: 'slow', name: 'Slow', domains: [], products: [headphones] }, { delayMs: 200 })
+    )
+
+    const { results, failures } = await registry.searchByKeyword('headphones')
+
+    expect(results).toHaveLength(0)
+    expect(failures[0].reason).toBe('timeout')
+  })
+
+  it('should report each store as soon as it answers', async () => {
+    const registry = new StoreRegistry()
+      .register(new FixtureStoreAdapter({ id: 'slow', name: 'Slow', domains: [], products: [headphones] }, { delayMs: 50 }))
+      .register(new FixtureStoreAdapter({ id: 'fast', name: 'Fast', domains: [], products: [headphones] }))
+      .register(failingAdapter('broken'))
+
+    const settled: string[] = []
+    const { results } = await registry.searchByKeyword('headphones', {}, {
+      onResult: (result) => settled.push(result.adapterId),
+      onFailure: (failure) => settled.push(`${failure.adapterId}:failed`),
+    })
+
+    expect(settled).toEqual(['fast', 'broken:failed', 'slow'])
+    // Results keep registration order
+    expect(results.map((r) => r.adapterId)).toEqual(['slow', 'fast'])
+  })
+
+  it('should abort in-flight adapters when the search is cancelled', async () => {
+    const registry = new StoreRegistry().register(
+      new FixtureStoreAdapter({ id: 'slow', name: 'Slow', domains: [], products: [headphones] }, { delayMs: 200 })
+    )
+    const controller = new AbortController()
+    setTimeout(() => controller.abort(), 10)
+
+    const { results, failures } = await registry.searchByKeyword('headphones', { signal: controller.signal })
+
+    expect(results).toHaveLength(0)
+    expect(failures[0]).toEqual(expect.objectContaining({ adapterId: 'slow', reason: 'error' }))
+  })
+})
+
+describe('searchStores', () => {
+  it('should resolve a URL and find alternatives in other stores', async () => {
+    const registry = createDefaultRegistry()
+    const result = await searchStores(registry, {
+      query: 'https://techmart.example/p/sony-wh-1000xm5',
+      isUrl: true,
+    })
+
+    expect(result.product?.store).toBe('TechMart')
+    expect(result.alternatives.length).toBeGreaterThan(0)
+    expect(result.alternatives.some((p: Product) => p.id === result.product?.id)).toBe(false)
+  })
+
+  it('should return no product for unknown URLs', async () => {
+    const registry = createDefaultRegistry()
+    const result = await searchStores(registry, { query: 'https://unknown.example/item', isUrl: true })
+
+    expect(result.product).toBeNull()
+    expect(result.alternatives).toEqual([])
+  })
+
+  it('should look up barcodes by exact GTIN in every store', async () => {
+    const registry = createDefaultRegistry()
+    const result = await searchStores(registry, { query: '027242923782', isUrl: false, gtin: '00027242923782' })
+    const offers = [result.product, ...result.alternatives] as Product[]
+    const exact = offers.filter((p) => p.gtin === '027242923782')
+
+    expect(result.product?.gtin).toBe('027242923782')
+    expect(exact.map((p) => p.store).sort()).toEqual(['TechMart', 'ValueCart'])
+    // Other products come from searching the matched product's name
+    expect(result.alternatives.some((p: Product) => p.name.startsWith('Bose'))).toBe(true)
+  })
+
+  it('should return no product for barcodes no store lists', async () => {
+    const registry = createDefaultRegistry()
+    const result = await searchStores(registry, { query: '4006381333931', isUrl: false, gtin: '04006381333931' })
+
+    expect(result.product).toBeNull()
+  })
+
+  it('should pick a reference product for keyword searches', async () => {
+    const registry = createDefaultRegistry()
+    const result = await searchStores(registry, { query: 'bose quietcomfort', isUrl: false })
+
+    expect(result.product?.name).toContain('Bose')
+    expect(result.failures).toEqual([])
+  })
+
+  it('should search synonym phrasings alongside the query without duplicating listings', async () => {
+    const registry = new StoreRegistry()
+    registry.register(
+      new FixtureStoreAdapter({
+        id: 'acme',
+        name: 'Acme',
+        domains: [],
+        products: [
+          { ...headphones, id: 'fx-2', name: 'Acme Wireless Earbuds' },
+          { ...headphones, id: 'fx-3', name: 'Acme In-Ear Headphones' },
+        ],
+      })
+    )
+    const result = await searchStores(registry, {
+      query: 'wireless earbuds',
+      isUrl: false,
+      expansions: ['wireless in-ear headphones', 'wireless earbuds'],
+    })
+    const offers = [result.product, ...result.alternatives] as Product[]
+
+    expect(result.product?.id).toBe('fx-2')
+    expect(offers.map((p) => p.id).sort()).toEqual(['fx-2', 'fx-3'])
+  })
+
+  it('should quote shipping for the requested destination', async () => {
+    const registry = createDefaultRegistry()
+    const result = await searchStores(
+      registry,
+      { query: 'sony headphones', isUrl: false },
+      { destination: { country: 'US', postcode: '10001' } }
+    )
+    const offers = [result.product, ...result.alternatives] as Product[]
+
+    expect(offers.find((p) => p.store === 'TechMart')?.shippingCost).toBe(0)
+    expect(offers.find((p) => p.store === 'ShopHub')?.shippingCost).toBe(24.99)
+    expect(offers.find((p) => p.store === 'ValueCart')?.deliveryEta).toEqual({ minDays: 4, maxDays: 7 })
+  })
+})
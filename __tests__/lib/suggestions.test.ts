@@ -0,0 +1,117 @@
+/**
+ * Unit tests for search suggestion matching and ranking
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  loadSuggestionCandidates,
+  matchQuality,
+  rankSuggestions,
+  recordPopularQuery,
+  MIN_POPULAR_QUERY_USERS,
+  type SuggestionCandidate,
+} from '@/lib/suggestions'
+
+const now = new Date('2026-03-01T12:00:00Z').getTime()
+const daysAgo = (days: number) => new Date(now - days * 24 * 60 * 60 * 1000).toISOString()
+
+describe('matchQuality', () => {
+  it('should prefer prefixes over word matches over near misses', () => {
+    expect(matchQuality('sony', 'Sony WH-1000XM5')).toBe(1)
+    expect(matchQuality('head', 'sony headphones')).toBe(0.8)
+    expect(matchQuality('hedphones', 'headphones')).toBe(0.5)
+    expect(matchQuality('laptop', 'headphones')).toBe(0)
+  })
+
+  it('should match everything when nothing has been typed', () => {
+    expect(matchQuality('', 'anything')).toBe(1)
+  })
+
+  it('should not fuzzy match very short input', () => {
+    expect(matchQuality('tc', 'tv')).toBe(0)
+  })
+})
+
+describe('rankSuggestions', () => {
+  const candidates: SuggestionCandidate[] = [
+    { text: 'sony headphones', source: 'popular', count: 500, lastUsedAt: daysAgo(1) },
+    { text: 'Sony Headphones', source: 'history', count: 2, lastUsedAt: daysAgo(2) },
+    { text: 'Sony WH-1000XM5 Wireless Headphones', source: 'saved', count: 1, lastUsedAt: daysAgo(30) },
+    { text: 'samsung tv', source: 'popular', count: 900 },
+    { text: 'bose speaker', source: 'history', count: 1, lastUsedAt: daysAgo(1) },
+  ]
+
+  it('should rank the shopper\'s own matches first and drop non-matches', () => {
+    const suggestions = rankSuggestions('son', candidates, { now })
+
+    expect(suggestions.map((s) => s.text)).toEqual(['Sony Headphones', 'Sony WH-1000XM5 Wireless Headphones'])
+    expect(suggestions[0].source).toBe('history')
+  })
+
+  it('should boost recent searches', () => {
+    const recent = rankSuggestions(
+      '',
+      [
+        { text: 'old search', source: 'history', count: 1, lastUsedAt: daysAgo(60) },
+        { text: 'new search', source: 'history', count: 1, lastUsedAt: daysAgo(0) },
+      ],
+      { now }
+    )
+
+    expect(recent.map((s) => s.text)).toEqual(['new search', 'old search'])
+  })
+
+  it('should skip the query itself and respect the limit', () => {
+    expect(rankSuggestions('samsung tv', candidates, { now })).toEqual([])
+    expect(rankSuggestions('', candidates, { now, limit: 2 })).toHaveLength(2)
+  })
+})
+
+describe('popular queries', () => {
+  /**
+   * Just enough of the Supabase client to record which tables each client reads and how
+   */
+  function fakeSupabase(rows: Record<string, unknown>[] = []) {
+    const reads: { table: string; filters: unknown[][] }[] = []
+    const calls: { fn: string; args: unknown }[] = []
+    const client = {
+      from: (table: string) => {
+        const read = { table, filters: [] as unknown[][] }
+        reads.push(read)
+        const query = {
+          select: () => query,
+          eq: (...args: unknown[]) => (read.filters.push(['eq', ...args]), query),
+          gte: (...args: unknown[]) => (read.filters.push(['gte', ...args]), query),
+          order: () => query,
+          limit: () => query,
+          then: (resolve: (value: unknown) => void) => resolve({ data: rows, error: null }),
+        }
+        return query
+      },
+      rpc: async (fn: string, args: unknown) => {
+        calls.push({ fn, args })
+        return { error: null }
+      },
+    }
+    return { client: client as never, reads, calls }
+  }
+
+  it('should read popular queries with the service client, above the distinct user threshold', async () => {
+    const user = fakeSupabase()
+    const service = fakeSupabase([{ query: 'air fryer', user_count: 12, last_searched_at: daysAgo(1) }])
+
+    const candidates = await loadSuggestionCandidates(user.client, null, service.client)
+
+    expect(user.reads).toEqual([])
+    expect(service.reads).toEqual([
+      { table: 'popular_queries', filters: [['gte', 'user_count', MIN_POPULAR_QUERY_USERS]] },
+    ])
+    expect(candidates).toEqual([{ text: 'air fryer', source: 'popular', count: 12, lastUsedAt: daysAgo(1) }])
+  })
+
+  it('should record who searched a query', async () => {
+    const service = fakeSupabase()
+    await recordPopularQuery(service.client, 'user-1', '  Air   Fryer ')
+    expect(service.calls).toEqual([{ fn: 'record_popular_query', args: { p_user_id: 'user-1', p_query: 'air fryer' } }])
+  })
+})
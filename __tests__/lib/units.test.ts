@@ -0,0 +1,73 @@
+/**
+ * Unit tests for pack size parsing and unit prices
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { parseQuantity, quantityFromStructured } from '@/lib/units'
+import { unitPriceOf } from '@/lib/pricing'
+import type { Product } from '@/lib/stores'
+
+describe('parseQuantity', () => {
+  it('should parse multipacks of sized items', () => {
+    expect(parseQuantity('Coca-Cola Classic 12 x 330ml Cans')).toEqual({ packCount: 12, size: 330, unit: 'ml', total: 3960 })
+    expect(parseQuantity('Sparkling Water 6x1.5L')).toEqual({ packCount: 6, size: 1500, unit: 'ml', total: 9000 })
+  })
+
+  it('should combine a pack count with a size mentioned separately', () => {
+    expect(parseQuantity('Protein Bars, 45g, 24 Count')).toEqual({ packCount: 24, size: 45, unit: 'g', total: 1080 })
+    expect(parseQuantity('Pack of 3 Olive Oil 500 ml')).toMatchObject({ packCount: 3, total: 1500 })
+  })
+
+  it('should convert imperial sizes to grams and millilitres', () => {
+    expect(parseQuantity('Ground Coffee 2 lb Bag')?.total).toBeCloseTo(907.18, 1)
+    expect(parseQuantity('Shampoo 16 fl oz')?.unit).toBe('ml')
+  })
+
+  it('should count items when no size is given', () => {
+    expect(parseQuantity('AA Batteries 24-Pack')).toEqual({ packCount: 24, unit: 'item', total: 24 })
+  })
+
+  it('should not mistake model numbers for quantities', () => {
+    expect(parseQuantity('Sony WH-1000XM5 Wireless Headphones')).toBeUndefined()
+    expect(parseQuantity('Logitech MX Master 3S Wireless Mouse')).toBeUndefined()
+  })
+})
+
+describe('quantityFromStructured', () => {
+  it('should read schema.org QuantitativeValue unit codes', () => {
+    expect(quantityFromStructured({ '@type': 'QuantitativeValue', value: 1.2, unitCode: 'KGM' })).toMatchObject({
+      unit: 'g',
+      total: 1200,
+    })
+  })
+
+  it('should read plain size strings and ignore clothing sizes', () => {
+    expect(quantityFromStructured('750 ml')?.total).toBe(750)
+    expect(quantityFromStructured('XL')).toBeUndefined()
+  })
+})
+
+describe('unitPriceOf', () => {
+  const listing = (name: string, comparePrice: number): Product => ({
+    id: name,
+    name,
+    price: comparePrice,
+    currency: 'USD',
+    url: 'https://shop.example/p',
+    store: 'Shop',
+    comparePrice,
+    quantity: parseQuantity(name),
+  })
+
+  it('should make different pack sizes comparable', () => {
+    const twelve = unitPriceOf(listing('Soda 12 x 330ml', 6))
+    const twentyFour = unitPriceOf(listing('Soda 24 x 330ml', 10))
+
+    expect(twelve).toEqual({ amount: 1.5152, unit: 'l' })
+    expect(twentyFour!.amount).toBeLessThan(twelve!.amount)
+  })
+
+  it('should be undefined when the size is unknown', () => {
+    expect(unitPriceOf(listing('Sony WH-1000XM5', 329.99))).toBeUndefined()
+  })
+})
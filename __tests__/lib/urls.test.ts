@@ -0,0 +1,129 @@
+/**
+ * Unit tests for product URL canonicalization
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  backfillCanonicalKeys,
+  canonicalizeUrl,
+  detectUrlType,
+  getAmazonMarketplace,
+  savedProductMatch,
+  stripTracking,
+} from '@/lib/urls'
+
+describe('Amazon URL canonicalization', () => {
+  it('should extract ASINs from desktop, legacy and mobile paths', () => {
+    const urls = [
+      'https://www.amazon.com/Some-Product-Name/dp/B08N5WRWNW/ref=sr_1_3?keywords=echo&qid=1',
+      'https://www.amazon.com/gp/product/B08N5WRWNW?psc=1',
+      'https://m.amazon.com/gp/aw/d/B08N5WRWNW',
+      'https://amazon.com/exec/obidos/ASIN/B08N5WRWNW',
+      'https://amzn.com/B08N5WRWNW',
+    ]
+
+    for (const url of urls) {
+      const normalized = canonicalizeUrl(url)
+      expect(normalized.asin).toBe('B08N5WRWNW')
+      expect(normalized.canonicalKey).toBe('amazon:us:B08N5WRWNW')
+      expect(normalized.canonicalUrl).toBe('https://www.amazon.com/dp/B08N5WRWNW')
+    }
+  })
+
+  it('should recognize regional marketplaces', () => {
+    expect(canonicalizeUrl('https://www.amazon.co.uk/dp/B07XJ8C8F5').canonicalKey).toBe('amazon:uk:B07XJ8C8F5')
+    expect(canonicalizeUrl('https://www.amazon.de/-/en/dp/B07XJ8C8F5').canonicalKey).toBe('amazon:de:B07XJ8C8F5')
+    expect(canonicalizeUrl('https://www.amazon.ae/dp/B07XJ8C8F5').marketplace?.currency).toBe('AED')
+    expect(canonicalizeUrl('https://www.amazon.sa/dp/B07XJ8C8F5').marketplace?.code).toBe('sa')
+    expect(getAmazonMarketplace('www.amazon.in')?.currency).toBe('INR')
+  })
+
+  it('should not treat look-alike domains as Amazon', () => {
+    expect(detectUrlType('https://amazon.com.evil.example/dp/B08N5WRWNW')).toBe('other')
+    expect(detectUrlType('https://notamazon.com/dp/B08N5WRWNW')).toBe('other')
+    expect(detectUrlType('https://amzn.to/3xyzabc')).toBe('amazon')
+  })
+
+  it('should tolerate malformed percent-escapes in the path', () => {
+    expect(canonicalizeUrl('https://www.amazon.com/%zz/dp/B08N5WRWNW').canonicalKey).toBe('amazon:us:B08N5WRWNW')
+  })
+})
+
+describe('Generic URL canonicalization', () => {
+  it('should strip tracking parameters but keep meaningful ones', () => {
+    expect(stripTracking('https://shop.example/p/42/?utm_source=x&color=red&gclid=abc#reviews')).toBe(
+      'https://shop.example/p/42?color=red'
+    )
+  })
+
+  it('should produce the same key for equivalent URLs', () => {
+    const a = canonicalizeUrl('https://www.shop.example/p/42/?size=m&color=red&utm_campaign=spring')
+    const b = canonicalizeUrl('https://shop.example/p/42?color=red&size=m')
+    expect(a.canonicalKey).toBe(b.canonicalKey)
+    expect(a.urlType).toBe('other')
+  })
+})
+
+describe('Saved product matching', () => {
+  it('should fall back to the stored URL for rows without a canonical key', () => {
+    expect(savedProductMatch(canonicalizeUrl('https://shop.example/p/42?utm_source=x'))).toBe(
+      'canonical_key.eq."shop.example/p/42",' +
+        'and(canonical_key.is.null,product_url.in.("https://shop.example/p/42?utm_source=x","https://shop.example/p/42"))'
+    )
+  })
+
+  it('should quote URLs containing filter syntax', () => {
+    const normalized = canonicalizeUrl('https://shop.example/p/a,b"c')
+    expect(savedProductMatch(normalized)).toContain('"https://shop.example/p/a,b%22c"')
+    expect(savedProductMatch(normalized)).toContain('"https://shop.example/p/a,b\\"c"')
+  })
+})
+
+describe('backfillCanonicalKeys', () => {
+  /**
+   * Just enough of the Supabase client to serve one batch and record the updates
+   */
+  function fakeSupabase(rows: { id: string; product_url: string }[], conflicting: string[] = []) {
+    const updates: { id: string; canonicalKey: unknown }[] = []
+    const select = {
+      is: () => select,
+      order: () => select,
+      gt: () => select,
+      limit: () => select,
+      then: (resolve: (value: unknown) => void) => resolve({ data: rows, error: null }),
+    }
+    const client = {
+      from: () => ({
+        select: () => select,
+        update: (values: Record<string, unknown>) => ({
+          eq: async (_column: string, id: string) => {
+            if (conflicting.includes(id)) return { error: { code: '23505' } }
+            updates.push({ id, canonicalKey: values.canonical_key })
+            return { error: null }
+          },
+        }),
+      }),
+    }
+    return { client: client as never, updates }
+  }
+
+  it('should key each row and count duplicates without failing the batch', async () => {
+    const { client, updates } = fakeSupabase(
+      [
+        { id: 'a', product_url: 'https://www.amazon.com/dp/B08N5WRWNW?tag=x' },
+        { id: 'b', product_url: 'https://shop.example/p/42' },
+        { id: 'c', product_url: 'not a url' },
+      ],
+      ['b']
+    )
+    const result = await backfillCanonicalKeys(client, { limit: 3 })
+
+    expect(updates).toEqual([{ id: 'a', canonicalKey: 'amazon:us:B08N5WRWNW' }])
+    expect(result).toEqual({ processed: 3, updated: 1, duplicates: 1, failed: 1, next: 'c' })
+  })
+
+  it('should stop returning a cursor once a batch comes back short', async () => {
+    const { client } = fakeSupabase([{ id: 'a', product_url: 'https://shop.example/p/42' }])
+    expect((await backfillCanonicalKeys(client, { limit: 10 })).next).toBeUndefined()
+  })
+})
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
-import axios from 'axios'
 import { handleApiError, verifyAuth, validateRequiredFields, logApiRequest, type ApiResponse } from '@/lib/api/helpers'
+import { createAffiliateLink, InvalidProductUrlError, type AffiliateLink } from '@/lib/affiliate'
 
 interface AffiliateRequest {
   productUrl: string
@@ -8,14 +8,7 @@ interface AffiliateRequest {
   productId?: string
 }
 
-interface AffiliateResponse {
-  affiliateUrl: string
-  originalUrl: string
-  store: string
-  tracked: boolean
-}
-
-export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse<AffiliateResponse>>> {
+export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse<AffiliateLink>>> {
   try {
     // Verify authentication
     const { userId, error: authError } = await verifyAuth()
@@ -32,33 +25,14 @@ export async function POST(request: NextRequest): Promise<NextResponse<ApiRespon
       return NextResponse.json({ success: false, error: validationError }, { status: 400 })
     }
 
-    let affiliateUrl: string
-    let tracked = false
-
-    const storeLower = body.store.toLowerCase()
-
-    // Generate affiliate link based on store
-    if (storeLower.includes('amazon')) {
-      affiliateUrl = generateAmazonAffiliateLink(body.productUrl)
-      tracked = true
-    } else if (process.env.ADMITAD_API_KEY) {
-      try {
-        affiliateUrl = await generateAdmitadAffiliateLink(body.productUrl, body.store)
-        tracked = true
-      } catch (error) {
-        console.error('[Admitad Error]:', error)
-        affiliateUrl = body.productUrl // Fallback to direct URL
+    let response: AffiliateLink
+    try {
+      response = await createAffiliateLink(body.productUrl, body.store)
+    } catch (error) {
+      if (error instanceof InvalidProductUrlError) {
+        return NextResponse.json({ success: false, error: 'Invalid product URL' }, { status: 400 })
       }
-    } else {
-      // Fallback to direct URL if no affiliate available
-      affiliateUrl = body.productUrl
-    }
-
-    const response: AffiliateResponse = {
-      affiliateUrl,
-      originalUrl: body.productUrl,
-      store: body.store,
-      tracked,
+      throw error
     }
 
     return NextResponse.json({
@@ -69,52 +43,3 @@ export async function POST(request: NextRequest): Promise<NextResponse<ApiRespon
     return handleApiError(error)
   }
 }
-
-function generateAmazonAffiliateLink(url: string): string {
-  const associateTag = process.env.AMAZON_ASSOCIATE_TAG
-
-  if (!associateTag) {
-    return url
-  }
-
-  try {
-    const urlObj = new URL(url)
-
-    // Remove existing tag if present
-    urlObj.searchParams.delete('tag')
-
-    // Add associate tag
-    urlObj.searchParams.set('tag', associateTag)
-
-    return urlObj.toString()
-  } catch (error) {
-    console.error('[Amazon Affiliate Error]:', error)
-    return url
-  }
-}
-
-async function generateAdmitadAffiliateLink(url: string, store: string): Promise<string> {
-  const apiKey = process.env.ADMITAD_API_KEY
-  const campaignId = process.env.ADMITAD_CAMPAIGN_ID
-
-  if (!apiKey || !campaignId) {
-    throw new Error('Admitad credentials not configured')
-  }
-
-  // Admitad API integration (adjust based on actual API documentation)
-  const response = await axios.post(
-    'https://api.admitad.com/deeplink/generate/',
-    {
-      campaign_id: campaignId,
-      url: url,
-    },
-    {
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-    }
-  )
-
-  return response.data.deeplink || url
-}
\ No newline at end of file
@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from 'next/server'
 import OpenAI from 'openai'
 import axios from 'axios'
 import { handleApiError, verifyAuth, validateRequiredFields, logApiRequest, type ApiResponse } from '@/lib/api/helpers'
+import { createClient } from '@/lib/supabase/server'
+import { normalizeProductUrl, savedProductMatch } from '@/lib/urls'
+import { forecastPrice, loadPriceHistories, type PriceForecast } from '@/lib/forecast'
 
 interface AnalyzeRequest {
   productName: string
@@ -19,6 +22,8 @@ interface AnalysisResult {
     reason: string
   }>
   aiProvider: 'openai' | 'manus'
+  // Buy-or-wait estimate, from the price history when the product is saved
+  forecast?: PriceForecast
 }
 
 export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse<AnalysisResult>>> {
@@ -62,13 +67,38 @@ export async function POST(request: NextRequest): Promise<NextResponse<ApiRespon
 
     return NextResponse.json({
       success: true,
-      data: analysisResult,
+      data: { ...analysisResult, forecast: await forecastForProduct(userId!, body.productUrl) },
     })
   } catch (error) {
     return handleApiError(error)
   }
 }
 
+// Forecast from the user's saved copy of the product, if any; otherwise only upcoming sales count
+async function forecastForProduct(userId: string, productUrl: string): Promise<PriceForecast> {
+  const supabase = await createClient()
+  let savedProductId: string | undefined
+
+  try {
+    const normalized = await normalizeProductUrl(productUrl)
+    const { data, error } = await supabase
+      .from('saved_products')
+      .select('id')
+      .eq('user_id', userId)
+      .or(savedProductMatch(normalized))
+      .limit(1)
+      .maybeSingle()
+    if (error) console.error('[DB Error]:', error)
+    savedProductId = data?.id
+  } catch {
+    // Not a URL we can normalize, so it can't match a saved product
+  }
+
+  if (!savedProductId) return forecastPrice([])
+  const histories = await loadPriceHistories(supabase, [savedProductId])
+  return forecastPrice(histories.get(savedProductId) ?? [])
+}
+
 async function analyzeWithOpenAI(product: AnalyzeRequest): Promise<AnalysisResult> {
   const openai = new OpenAI({
     apiKey: process.env.OPENAI_API_KEY,
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/server'
+import { handleApiError, verifyCronRequest, logApiRequest, type ApiResponse } from '@/lib/api/helpers'
+import { checkDueAvailability } from '@/lib/availability'
+
+interface CheckSummary {
+  checked: number
+  changed: number
+  failed: number
+  notified: number
+}
+
+// GET /api/availability/run - Check stock for saved products that are due and send availability notifications.
+// Called by a scheduler (e.g. a cron job every 30 minutes) with `Authorization: Bearer <CRON_SECRET>`.
+export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<CheckSummary>>> {
+  try {
+    const cronError = verifyCronRequest(request)
+    if (cronError) return cronError
+
+    logApiRequest('/api/availability/run', 'GET')
+
+    const supabase = await createServiceClient()
+    const results = await checkDueAvailability(supabase)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        checked: results.length,
+        changed: results.filter((result) => result.change).length,
+        failed: results.filter((result) => result.error).length,
+        notified: results.filter((result) => result.notified).length,
+      },
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
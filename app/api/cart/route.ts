@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { handleApiError, verifyAuth, validateRequiredFields, logApiRequest, type ApiResponse } from '@/lib/api/helpers'
+import { storeRegistry } from '@/lib/stores'
+import { createDefaultRateSource } from '@/lib/currency'
+import { getUserSettings, destinationOf } from '@/lib/settings'
+import { createAffiliateLink } from '@/lib/affiliate'
+import { buildCartItems, optimizeCart, type CartPlan, type SavedCartProduct } from '@/lib/cart'
+
+interface CartRequestItem {
+  savedProductId: string
+  quantity?: number
+}
+
+interface CartRequest {
+  items: CartRequestItem[]
+}
+
+const MAX_CART_ITEMS = 20
+const MAX_QUANTITY = 99
+
+// POST /api/cart - Plan where to buy a list of saved products for the lowest total, counting each
+// store's shipping and free-shipping minimum. Returns one order per store with affiliate links.
+export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse<CartPlan>>> {
+  try {
+    // Verify authentication
+    const { userId, error: authError } = await verifyAuth()
+    if (authError) return authError
+
+    logApiRequest('/api/cart', 'POST', userId!)
+
+    const body: CartRequest = await request.json()
+
+    const validationError = validateRequiredFields(body, ['items'])
+    if (validationError) {
+      return NextResponse.json({ success: false, error: validationError }, { status: 400 })
+    }
+    if (!Array.isArray(body.items) || body.items.length === 0 || body.items.length > MAX_CART_ITEMS) {
+      return NextResponse.json(
+        { success: false, error: `Choose between 1 and ${MAX_CART_ITEMS} products` },
+        { status: 400 }
+      )
+    }
+
+    const quantities = new Map<string, number>()
+    for (const item of body.items) {
+      const quantity = item.quantity ?? 1
+      const validQuantity = Number.isInteger(quantity) && quantity >= 1 && quantity <= MAX_QUANTITY
+      if (typeof item.savedProductId !== 'string' || !validQuantity) {
+        return NextResponse.json({ success: false, error: 'Invalid cart item' }, { status: 400 })
+      }
+      quantities.set(item.savedProductId, (quantities.get(item.savedProductId) ?? 0) + quantity)
+    }
+
+    const supabase = await createClient()
+
+    const { data: rows, error } = await supabase
+      .from('saved_products')
+      .select('id, product_name, product_url, product_price, product_currency, store')
+      .eq('user_id', userId)
+      .in('id', [...quantities.keys()])
+
+    if (error) {
+      console.error('[DB Error]:', error)
+      return NextResponse.json({ success: false, error: 'Failed to fetch saved products' }, { status: 500 })
+    }
+    if (!rows || rows.length !== quantities.size) {
+      return NextResponse.json({ success: false, error: 'Saved product not found' }, { status: 404 })
+    }
+
+    const saved: SavedCartProduct[] = rows.map((row) => ({
+      id: row.id,
+      name: row.product_name,
+      url: row.product_url,
+      price: Number(row.product_price),
+      currency: row.product_currency,
+      store: row.store,
+      quantity: quantities.get(row.id)!,
+    }))
+
+    const settings = await getUserSettings(supabase, userId!)
+    const rates = await createDefaultRateSource(supabase).getRates()
+    const currency = settings.preferredCurrency
+    const { items, shipping } = await buildCartItems(storeRegistry, saved, {
+      currency,
+      rates,
+      destination: destinationOf(settings),
+      signal: request.signal,
+    })
+    const plan = optimizeCart(items, shipping, currency)
+
+    // Same links /api/affiliate hands out, so every purchase in the plan is tracked
+    await Promise.all(
+      plan.orders.flatMap((order) =>
+        order.lines.map(async (line) => {
+          try {
+            line.affiliateUrl = (await createAffiliateLink(line.offer.url, order.store)).affiliateUrl
+          } catch (error) {
+            console.error('[Affiliate Error]:', error)
+          }
+        })
+      )
+    )
+
+    return NextResponse.json({
+      success: true,
+      data: plan,
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
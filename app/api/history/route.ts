@@ -5,7 +5,7 @@ import { handleApiError, verifyAuth, logApiRequest, type ApiResponse } from '@/l
 interface SearchHistoryItem {
   id: string
   query: string
-  type: 'url' | 'keyword'
+  type: 'url' | 'keyword' | 'gtin'
   url_type?: 'amazon' | 'other'
   result_count: number
   cheapest_price: number
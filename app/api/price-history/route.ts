@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { handleApiError, verifyAuth, logApiRequest, type ApiResponse } from '@/lib/api/helpers'
+import { normalizeProductUrl, savedProductMatch } from '@/lib/urls'
+import {
+  downsamplePoints,
+  isPriceHistoryRange,
+  lowestPoint,
+  pointsInRange,
+  priceStats,
+  rangeStart,
+  DEFAULT_MAX_POINTS,
+  type PriceHistory,
+  type PricePoint,
+} from '@/lib/price-history'
+
+const MAX_POINTS = 1000
+
+// GET /api/price-history?savedProductId=...|url=...&range=7d|30d|90d|1y|all&points=... - Price history of a saved
+// product over a range, downsampled to at most `points` points, with min/max/average and the all-time low.
+// `url` looks the product up among the user's saved products, e.g. for the compare page.
+export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<PriceHistory>>> {
+  try {
+    // Verify authentication
+    const { userId, error: authError } = await verifyAuth()
+    if (authError) return authError
+
+    logApiRequest('/api/price-history', 'GET', userId!)
+
+    const { searchParams } = new URL(request.url)
+    const savedProductId = searchParams.get('savedProductId')
+    const url = searchParams.get('url')
+    const range = searchParams.get('range') || '90d'
+    const pointsParam = searchParams.get('points')
+    const maxPoints = pointsParam ? Number(pointsParam) : DEFAULT_MAX_POINTS
+
+    if (!savedProductId && !url) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required fields: savedProductId or url' },
+        { status: 400 }
+      )
+    }
+    if (!isPriceHistoryRange(range)) {
+      return NextResponse.json({ success: false, error: 'Invalid range' }, { status: 400 })
+    }
+    if (!Number.isInteger(maxPoints) || maxPoints < 10 || maxPoints > MAX_POINTS) {
+      return NextResponse.json(
+        { success: false, error: `points must be between 10 and ${MAX_POINTS}` },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createClient()
+
+    let query = supabase
+      .from('saved_products')
+      .select('id, product_name, product_currency')
+      .eq('user_id', userId)
+    if (savedProductId) {
+      query = query.eq('id', savedProductId)
+    } else {
+      try {
+        query = query.or(savedProductMatch(await normalizeProductUrl(url!))).limit(1)
+      } catch {
+        return NextResponse.json({ success: false, error: 'Invalid product URL' }, { status: 400 })
+      }
+    }
+
+    const { data: product, error: productError } = await query.maybeSingle()
+    if (productError) {
+      console.error('[DB Error]:', productError)
+      return NextResponse.json({ success: false, error: 'Failed to fetch saved product' }, { status: 500 })
+    }
+    if (!product) {
+      return NextResponse.json({ success: false, error: 'Saved product not found' }, { status: 404 })
+    }
+
+    // The whole history is needed anyway for the all-time low and the price in effect at the range start
+    const { data: rows, error } = await supabase
+      .from('price_history')
+      .select('price, recorded_at')
+      .eq('saved_product_id', product.id)
+      .order('recorded_at', { ascending: true })
+
+    if (error) {
+      console.error('[DB Error]:', error)
+      return NextResponse.json({ success: false, error: 'Failed to fetch price history' }, { status: 500 })
+    }
+
+    const now = new Date()
+    const history: PricePoint[] = (rows ?? []).map((row) => ({ at: row.recorded_at, price: Number(row.price) }))
+    const points = pointsInRange(history, rangeStart(range, now))
+    const sampled = downsamplePoints(points, maxPoints)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        savedProductId: product.id,
+        productName: product.product_name,
+        currency: product.product_currency,
+        range,
+        points: sampled,
+        downsampled: sampled.length < points.length,
+        stats: priceStats(points, now),
+        allTimeLow: lowestPoint(history),
+      },
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
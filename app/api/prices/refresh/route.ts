@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/server'
+import { handleApiError, verifyCronRequest, logApiRequest, type ApiResponse } from '@/lib/api/helpers'
+import { refreshDuePrices, DEFAULT_REFRESH_BATCH_SIZE } from '@/lib/price-tracking'
+
+interface RefreshSummary {
+  refreshed: number
+  changed: number
+  failed: number
+  notified: number
+}
+
+const MAX_BATCH_SIZE = 200
+
+// GET /api/prices/refresh?limit=... - Re-fetch current prices for saved products that are due, record price history
+// and send price-drop notifications.
+// Called by a scheduler (e.g. a cron job every 15 minutes, or scripts/refresh-prices.mjs) with
+// `Authorization: Bearer <CRON_SECRET>`.
+export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<RefreshSummary>>> {
+  try {
+    const cronError = verifyCronRequest(request)
+    if (cronError) return cronError
+
+    logApiRequest('/api/prices/refresh', 'GET')
+
+    const limitParam = new URL(request.url).searchParams.get('limit')
+    const limit = limitParam ? Number(limitParam) : DEFAULT_REFRESH_BATCH_SIZE
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_BATCH_SIZE) {
+      return NextResponse.json(
+        { success: false, error: `limit must be between 1 and ${MAX_BATCH_SIZE}` },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createServiceClient()
+    const results = await refreshDuePrices(supabase, { limit })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        refreshed: results.length,
+        changed: results.filter((result) => result.changed).length,
+        failed: results.filter((result) => result.error).length,
+        notified: results.filter((result) => result.notified).length,
+      },
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,252 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import {
+  handleApiError,
+  verifyAuth,
+  validateRequiredFields,
+  sanitizeInput,
+  logApiRequest,
+  type ApiResponse,
+} from '@/lib/api/helpers'
+import { parseFilters, hasActiveFilters, isSortOption, type SortOption } from '@/lib/search'
+import { isSupportedCurrency } from '@/lib/currency'
+import { isSavedSearchFrequency, type SavedSearch, type SavedSearchFrequency } from '@/lib/saved-searches'
+
+// Every saved search is re-run against every store, so keep the number bounded
+const MAX_SAVED_SEARCHES = 25
+
+interface CreateSavedSearchRequest {
+  query: string
+  name?: string
+  filters?: unknown
+  sort?: SortOption
+  currency?: string
+  frequency?: SavedSearchFrequency
+  alertBelowPrice?: number | null
+}
+
+interface UpdateSavedSearchRequest {
+  id: string
+  name?: string
+  frequency?: SavedSearchFrequency
+  alertBelowPrice?: number | null
+  isActive?: boolean
+}
+
+function isValidAlertPrice(value: unknown): value is number | null | undefined {
+  return value === undefined || value === null || (typeof value === 'number' && Number.isFinite(value) && value > 0)
+}
+
+// GET - Fetch user's saved searches
+export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<SavedSearch[]>>> {
+  try {
+    // Verify authentication
+    const { userId, error: authError } = await verifyAuth()
+    if (authError) return authError
+
+    logApiRequest('/api/saved-searches', 'GET', userId!)
+
+    const supabase = await createClient()
+
+    const { data, error } = await supabase
+      .from('saved_searches')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('[DB Error]:', error)
+      return NextResponse.json({ success: false, error: 'Failed to fetch saved searches' }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: data || [],
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+// POST - Save a search to be re-run on a schedule. Its first run records the offers later runs are compared with.
+export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse<SavedSearch>>> {
+  try {
+    // Verify authentication
+    const { userId, error: authError } = await verifyAuth()
+    if (authError) return authError
+
+    logApiRequest('/api/saved-searches', 'POST', userId!)
+
+    // Parse request body
+    const body: CreateSavedSearchRequest = await request.json()
+
+    // Validate required fields
+    const validationError = validateRequiredFields(body, ['query'])
+    if (validationError) {
+      return NextResponse.json({ success: false, error: validationError }, { status: 400 })
+    }
+
+    const query = sanitizeInput(body.query)
+    if (!query) {
+      return NextResponse.json({ success: false, error: 'Invalid query' }, { status: 400 })
+    }
+    if (body.sort !== undefined && !isSortOption(body.sort)) {
+      return NextResponse.json({ success: false, error: 'Invalid sort option' }, { status: 400 })
+    }
+    if (body.frequency !== undefined && !isSavedSearchFrequency(body.frequency)) {
+      return NextResponse.json({ success: false, error: 'Invalid frequency' }, { status: 400 })
+    }
+    if (body.currency !== undefined && !isSupportedCurrency(body.currency)) {
+      return NextResponse.json({ success: false, error: 'Unsupported currency' }, { status: 400 })
+    }
+    if (!isValidAlertPrice(body.alertBelowPrice)) {
+      return NextResponse.json({ success: false, error: 'Alert price must be a positive number' }, { status: 400 })
+    }
+
+    const supabase = await createClient()
+
+    const { count } = await supabase
+      .from('saved_searches')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+
+    if ((count ?? 0) >= MAX_SAVED_SEARCHES) {
+      return NextResponse.json(
+        { success: false, error: `You can save up to ${MAX_SAVED_SEARCHES} searches` },
+        { status: 409 }
+      )
+    }
+
+    const filters = body.filters === undefined ? null : parseFilters(body.filters)
+
+    const { data, error } = await supabase
+      .from('saved_searches')
+      .insert({
+        user_id: userId,
+        name: sanitizeInput(body.name || '') || query,
+        query,
+        filters: filters && hasActiveFilters(filters) ? filters : null,
+        sort: body.sort ?? 'relevance',
+        currency: body.currency?.toUpperCase() ?? null,
+        frequency: body.frequency ?? 'daily',
+        alert_below_price: body.alertBelowPrice ?? null,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('[DB Error]:', error)
+      return NextResponse.json({ success: false, error: 'Failed to save search' }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: data,
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+// PATCH - Rename, reschedule, pause or change the alert price of a saved search
+export async function PATCH(request: NextRequest): Promise<NextResponse<ApiResponse<SavedSearch>>> {
+  try {
+    // Verify authentication
+    const { userId, error: authError } = await verifyAuth()
+    if (authError) return authError
+
+    logApiRequest('/api/saved-searches', 'PATCH', userId!)
+
+    // Parse request body
+    const body: UpdateSavedSearchRequest = await request.json()
+
+    // Validate required fields
+    const validationError = validateRequiredFields(body, ['id'])
+    if (validationError) {
+      return NextResponse.json({ success: false, error: validationError }, { status: 400 })
+    }
+    if (body.frequency !== undefined && !isSavedSearchFrequency(body.frequency)) {
+      return NextResponse.json({ success: false, error: 'Invalid frequency' }, { status: 400 })
+    }
+    if (!isValidAlertPrice(body.alertBelowPrice)) {
+      return NextResponse.json({ success: false, error: 'Alert price must be a positive number' }, { status: 400 })
+    }
+
+    const updates: Record<string, unknown> = { updated_at: new Date().toISOString() }
+    if (body.name !== undefined) {
+      const name = sanitizeInput(body.name)
+      if (!name) {
+        return NextResponse.json({ success: false, error: 'Name cannot be empty' }, { status: 400 })
+      }
+      updates.name = name
+    }
+    if (body.frequency !== undefined) updates.frequency = body.frequency
+    if (body.alertBelowPrice !== undefined) updates.alert_below_price = body.alertBelowPrice
+    if (body.isActive !== undefined) {
+      updates.is_active = body.isActive === true
+      // Resuming runs right away instead of waiting out a schedule that lapsed while paused
+      if (body.isActive === true) updates.next_run_at = new Date().toISOString()
+    }
+
+    const supabase = await createClient()
+
+    // Update saved search (ensure user owns it)
+    const { data, error } = await supabase
+      .from('saved_searches')
+      .update(updates)
+      .eq('id', body.id)
+      .eq('user_id', userId)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      console.error('[DB Error]:', error)
+      return NextResponse.json({ success: false, error: 'Failed to update saved search' }, { status: 500 })
+    }
+    if (!data) {
+      return NextResponse.json({ success: false, error: 'Saved search not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: data,
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+// DELETE - Remove a saved search
+export async function DELETE(request: NextRequest): Promise<NextResponse<ApiResponse<{ deleted: boolean }>>> {
+  try {
+    // Verify authentication
+    const { userId, error: authError } = await verifyAuth()
+    if (authError) return authError
+
+    logApiRequest('/api/saved-searches', 'DELETE', userId!)
+
+    const { searchParams } = new URL(request.url)
+    const savedSearchId = searchParams.get('id')
+
+    if (!savedSearchId) {
+      return NextResponse.json({ success: false, error: 'Saved search ID required' }, { status: 400 })
+    }
+
+    const supabase = await createClient()
+
+    // Delete saved search (ensure user owns it)
+    const { error } = await supabase.from('saved_searches').delete().eq('id', savedSearchId).eq('user_id', userId)
+
+    if (error) {
+      console.error('[DB Error]:', error)
+      return NextResponse.json({ success: false, error: 'Failed to delete saved search' }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { deleted: true },
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
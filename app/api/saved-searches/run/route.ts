@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/server'
+import { handleApiError, verifyCronRequest, logApiRequest, type ApiResponse } from '@/lib/api/helpers'
+import { runDueSavedSearches } from '@/lib/saved-searches'
+
+interface RunSummary {
+  ran: number
+  failed: number
+  notified: number
+}
+
+// GET /api/saved-searches/run - Re-run saved searches that are due and send deal notifications.
+// Called by a scheduler (e.g. a cron job every 15 minutes) with `Authorization: Bearer <CRON_SECRET>`.
+export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<RunSummary>>> {
+  try {
+    const cronError = verifyCronRequest(request)
+    if (cronError) return cronError
+
+    logApiRequest('/api/saved-searches/run', 'GET')
+
+    const supabase = await createServiceClient()
+    const results = await runDueSavedSearches(supabase)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ran: results.length,
+        failed: results.filter((result) => result.error).length,
+        notified: results.reduce((sum, result) => sum + result.notified, 0),
+      },
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/server'
+import { handleApiError, verifyCronRequest, logApiRequest, type ApiResponse } from '@/lib/api/helpers'
+import { backfillCanonicalKeys, DEFAULT_BACKFILL_BATCH_SIZE, type CanonicalKeyBackfillResult } from '@/lib/urls'
+
+const MAX_BATCH_SIZE = 500
+
+// GET /api/saved/canonical-keys?limit=...&after=... - Fill in canonical keys for saved products saved before they
+// existed, one batch at a time; pass the returned `next` as `after` to continue.
+// Called by scripts/backfill-canonical-keys.mjs with `Authorization: Bearer <CRON_SECRET>`.
+export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<CanonicalKeyBackfillResult>>> {
+  try {
+    const cronError = verifyCronRequest(request)
+    if (cronError) return cronError
+
+    logApiRequest('/api/saved/canonical-keys', 'GET')
+
+    const searchParams = new URL(request.url).searchParams
+    const limitParam = searchParams.get('limit')
+    const limit = limitParam ? Number(limitParam) : DEFAULT_BACKFILL_BATCH_SIZE
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_BATCH_SIZE) {
+      return NextResponse.json(
+        { success: false, error: `limit must be between 1 and ${MAX_BATCH_SIZE}` },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createServiceClient()
+    const result = await backfillCanonicalKeys(supabase, { limit, after: searchParams.get('after') ?? undefined })
+
+    return NextResponse.json({ success: true, data: result })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -1,6 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { handleApiError, verifyAuth, validateRequiredFields, logApiRequest, type ApiResponse } from '@/lib/api/helpers'
+import { normalizeProductUrl, savedProductMatch, type NormalizedUrl } from '@/lib/urls'
+import { isProductCondition } from '@/lib/enrichment'
+import { storeIdOf } from '@/lib/store-directory'
+import type { ProductCondition, Warranty } from '@/lib/stores'
+import type { StockState } from '@/lib/availability'
+import { isValidDropPercent, isValidTargetPrice } from '@/lib/price-alerts'
+import { forecastPrice, loadPriceHistories, type PriceForecast } from '@/lib/forecast'
 
 interface SavedProduct {
   id: string
@@ -11,7 +18,19 @@ interface SavedProduct {
   product_currency: string
   product_image?: string
   store: string
+  store_id?: string
   notes?: string
+  canonical_key?: string
+  product_condition?: ProductCondition
+  warranty_months?: number
+  warranty_provider?: Warranty['provider']
+  availability?: StockState | null
+  availability_checked_at?: string | null
+  target_price?: number | null
+  drop_percent?: number | null
+  alert_reference_price?: number | null
+  // Buy-or-wait estimate from the recorded price history; only on GET
+  forecast?: PriceForecast
   created_at: string
   updated_at: string
 }
@@ -24,11 +43,16 @@ interface SaveProductRequest {
   productImage?: string
   store: string
   notes?: string
+  productCondition?: ProductCondition
+  warranty?: Warranty
 }
 
 interface UpdateProductRequest {
   id: string
   notes?: string
+  // Price-drop alert rules; null clears a rule
+  targetPrice?: number | null
+  dropPercent?: number | null
 }
 
 // GET - Fetch user's saved products
@@ -54,9 +78,15 @@ export async function GET(request: NextRequest): Promise<NextResponse<ApiRespons
       return NextResponse.json({ success: false, error: 'Failed to fetch saved products' }, { status: 500 })
     }
 
+    const histories = await loadPriceHistories(supabase, (data || []).map((product) => product.id))
+    const now = new Date()
+
     return NextResponse.json({
       success: true,
-      data: data || [],
+      data: (data || []).map((product) => ({
+        ...product,
+        forecast: forecastPrice(histories.get(product.id) ?? [], { now }),
+      })),
     })
   } catch (error) {
     return handleApiError(error)
@@ -87,15 +117,31 @@ export async function POST(request: NextRequest): Promise<NextResponse<ApiRespon
       return NextResponse.json({ success: false, error: validationError }, { status: 400 })
     }
 
+    if (body.productCondition !== undefined && !isProductCondition(body.productCondition)) {
+      return NextResponse.json({ success: false, error: 'Invalid product condition' }, { status: 400 })
+    }
+    // Warranty details are informational, so malformed ones are dropped rather than rejected
+    const warrantyMonths = Number(body.warranty?.months) > 0 ? Number(body.warranty?.months) : null
+    const warrantyProvider = warrantyMonths && body.warranty?.provider
+    const validProvider = warrantyProvider === 'manufacturer' || warrantyProvider === 'seller' ? warrantyProvider : null
+
+    let normalized: NormalizedUrl
+    try {
+      normalized = await normalizeProductUrl(body.productUrl)
+    } catch {
+      return NextResponse.json({ success: false, error: 'Invalid product URL' }, { status: 400 })
+    }
+
     const supabase = await createClient()
 
-    // Check if product already saved
+    // Check if product already saved (same product under a different URL form counts too)
     const { data: existing } = await supabase
       .from('saved_products')
       .select('id')
       .eq('user_id', userId)
-      .eq('product_url', body.productUrl)
-      .single()
+      .or(savedProductMatch(normalized))
+      .limit(1)
+      .maybeSingle()
 
     if (existing) {
       return NextResponse.json({ success: false, error: 'Product already saved' }, { status: 409 })
@@ -112,7 +158,12 @@ export async function POST(request: NextRequest): Promise<NextResponse<ApiRespon
         product_currency: body.productCurrency,
         product_image: body.productImage,
         store: body.store,
+        store_id: storeIdOf(body.productUrl),
         notes: body.notes,
+        canonical_key: normalized.canonicalKey,
+        product_condition: body.productCondition ?? 'new',
+        warranty_months: warrantyMonths,
+        warranty_provider: validProvider,
       })
       .select()
       .single()
@@ -122,6 +173,14 @@ export async function POST(request: NextRequest): Promise<NextResponse<ApiRespon
       return NextResponse.json({ success: false, error: 'Failed to save product' }, { status: 500 })
     }
 
+    // Start the product's price history at the price it was saved at
+    const { error: historyError } = await supabase
+      .from('price_history')
+      .insert({ saved_product_id: data.id, price: data.product_price })
+    if (historyError) {
+      console.error('[DB Error]:', historyError)
+    }
+
     return NextResponse.json({
       success: true,
       data: data,
@@ -166,7 +225,7 @@ export async function DELETE(request: NextRequest): Promise<NextResponse<ApiResp
   }
 }
 
-// PATCH - Update saved product (e.g., notes)
+// PATCH - Update saved product (e.g., notes or price-drop alert rules)
 export async function PATCH(request: NextRequest): Promise<NextResponse<ApiResponse<SavedProduct>>> {
   try {
     // Verify authentication
@@ -184,15 +243,45 @@ export async function PATCH(request: NextRequest): Promise<NextResponse<ApiRespo
       return NextResponse.json({ success: false, error: validationError }, { status: 400 })
     }
 
+    if (!isValidTargetPrice(body.targetPrice)) {
+      return NextResponse.json({ success: false, error: 'Target price must be a positive number' }, { status: 400 })
+    }
+    if (!isValidDropPercent(body.dropPercent)) {
+      return NextResponse.json(
+        { success: false, error: 'Price drop must be between 0 and 100 percent' },
+        { status: 400 }
+      )
+    }
+
     const supabase = await createClient()
 
+    const updates: Record<string, unknown> = { updated_at: new Date().toISOString() }
+    if (body.notes !== undefined) updates.notes = body.notes
+    if (body.targetPrice !== undefined || body.dropPercent !== undefined) {
+      const { data: current } = await supabase
+        .from('saved_products')
+        .select('product_price')
+        .eq('id', body.id)
+        .eq('user_id', userId)
+        .maybeSingle()
+      if (!current) {
+        return NextResponse.json({ success: false, error: 'Saved product not found' }, { status: 404 })
+      }
+      if (body.targetPrice !== undefined) updates.target_price = body.targetPrice
+      if (body.dropPercent !== undefined) {
+        updates.drop_percent = body.dropPercent
+        // Percentage drops are measured from the price when the rule is set
+        updates.alert_reference_price = body.dropPercent === null ? null : current.product_price
+      }
+      // Rules are only checked when a refresh records a lower price, so a rule the current price
+      // already meets fires on the next drop; clearing the last alert lets that drop through
+      updates.last_alert_price = null
+    }
+
     // Update saved product (ensure user owns it)
     const { data, error } = await supabase
       .from('saved_products')
-      .update({
-        notes: body.notes,
-        updated_at: new Date().toISOString(),
-      })
+      .update(updates)
       .eq('id', body.id)
       .eq('user_id', userId)
       .select()
@@ -0,0 +1,269 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import {
+  handleApiError,
+  verifyAuth,
+  validateRequiredFields,
+  logApiRequest,
+  sanitizeInput,
+  type ApiResponse,
+} from '@/lib/api/helpers'
+import { normalizeProductUrl } from '@/lib/urls'
+import { storeIdOf } from '@/lib/store-directory'
+import { isSupportedCurrency } from '@/lib/currency'
+import { isSavingsSource, type SavingsEntry, type SavingsSource } from '@/lib/savings'
+
+interface RecordSavingsRequest {
+  source: SavingsSource
+  // A pending click being confirmed as a purchase; the details below default to the click's, so the
+  // purchase replaces it
+  clickId?: string
+  // For a saved product the details below default to its own, prices are in its currency and the
+  // original price defaults to the price it was saved at
+  savedProductId?: string
+  // Where the user bought it, when not from the saved listing
+  productUrl?: string
+  productName?: string
+  store?: string
+  category?: string
+  currency?: string
+  originalPrice?: number
+  // Optional only when confirming a click
+  paidPrice?: number
+}
+
+function isPrice(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0
+}
+
+// POST /api/savings - Record a click-through to a cheaper offer or a logged purchase in the savings ledger.
+// Pass clickId to confirm a pending click as a purchase of the same offer.
+export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse<SavingsEntry>>> {
+  try {
+    // Verify authentication
+    const { userId, error: authError } = await verifyAuth()
+    if (authError) return authError
+
+    logApiRequest('/api/savings', 'POST', userId!)
+
+    const body: RecordSavingsRequest = await request.json()
+
+    const validationError = validateRequiredFields(body, ['source'])
+    if (validationError) {
+      return NextResponse.json({ success: false, error: validationError }, { status: 400 })
+    }
+    if (!isSavingsSource(body.source)) {
+      return NextResponse.json({ success: false, error: 'Invalid source' }, { status: 400 })
+    }
+    const checkPaidPrice = body.paidPrice !== undefined || !body.clickId
+    if (
+      (checkPaidPrice && !isPrice(body.paidPrice)) ||
+      (body.originalPrice !== undefined && !isPrice(body.originalPrice))
+    ) {
+      return NextResponse.json({ success: false, error: 'Prices must be non-negative numbers' }, { status: 400 })
+    }
+    if (body.clickId && body.source !== 'purchase') {
+      return NextResponse.json({ success: false, error: 'Only a purchase can confirm a click' }, { status: 400 })
+    }
+
+    const supabase = await createClient()
+    let entry: Omit<SavingsEntry, 'id' | 'created_at'>
+
+    if (body.clickId) {
+      const { data: click, error: clickError } = await supabase
+        .from('savings_ledger')
+        .select('*')
+        .eq('id', body.clickId)
+        .eq('user_id', userId)
+        .eq('source', 'click')
+        .maybeSingle()
+
+      if (clickError) {
+        console.error('[DB Error]:', clickError)
+        return NextResponse.json({ success: false, error: 'Failed to fetch click' }, { status: 500 })
+      }
+      if (!click) {
+        return NextResponse.json({ success: false, error: 'Click not found' }, { status: 404 })
+      }
+
+      // Same offer, same key: the purchase supersedes the click
+      entry = {
+        source: 'purchase',
+        product_key: click.product_key,
+        product_url: click.product_url,
+        saved_product_id: click.saved_product_id,
+        product_name: click.product_name,
+        store: click.store,
+        store_id: click.store_id,
+        category: click.category,
+        currency: click.currency,
+        original_price: body.originalPrice ?? Number(click.original_price),
+        paid_price: body.paidPrice ?? Number(click.paid_price),
+      }
+    } else if (body.savedProductId) {
+      const { data: product, error: productError } = await supabase
+        .from('saved_products')
+        .select('id, product_name, product_url, product_price, product_currency, store, store_id, canonical_key')
+        .eq('id', body.savedProductId)
+        .eq('user_id', userId)
+        .maybeSingle()
+
+      if (productError) {
+        console.error('[DB Error]:', productError)
+        return NextResponse.json({ success: false, error: 'Failed to fetch saved product' }, { status: 500 })
+      }
+      if (!product) {
+        return NextResponse.json({ success: false, error: 'Saved product not found' }, { status: 404 })
+      }
+
+      let originalPrice = body.originalPrice
+      if (originalPrice === undefined) {
+        const { data: first } = await supabase
+          .from('price_history')
+          .select('price')
+          .eq('saved_product_id', product.id)
+          .order('recorded_at', { ascending: true })
+          .limit(1)
+          .maybeSingle()
+        originalPrice = Number(first?.price ?? product.product_price)
+      }
+
+      // Credit the store the user actually paid, falling back to the saved listing
+      const store = body.store ? sanitizeInput(body.store) : product.store
+      const productUrl = body.productUrl || product.product_url
+      let productKey = body.productUrl ? null : product.canonical_key
+      if (!productKey) {
+        try {
+          productKey = (await normalizeProductUrl(productUrl)).canonicalKey
+        } catch {
+          return NextResponse.json({ success: false, error: 'Invalid product URL' }, { status: 400 })
+        }
+      }
+      const storeId = body.productUrl
+        ? (storeIdOf(body.productUrl) ?? null)
+        : store === product.store
+          ? (product.store_id ?? null)
+          : null
+
+      entry = {
+        source: body.source,
+        product_key: productKey,
+        product_url: productUrl,
+        saved_product_id: product.id,
+        product_name: product.product_name,
+        store,
+        store_id: storeId,
+        category: body.category ? sanitizeInput(body.category) : null,
+        currency: product.product_currency,
+        original_price: originalPrice,
+        paid_price: body.paidPrice!,
+      }
+    } else {
+      const missing = validateRequiredFields(body, ['productUrl', 'productName', 'store', 'currency'])
+      if (missing) {
+        return NextResponse.json({ success: false, error: missing }, { status: 400 })
+      }
+      if (body.originalPrice === undefined) {
+        return NextResponse.json({ success: false, error: 'Missing required field: originalPrice' }, { status: 400 })
+      }
+      if (!isSupportedCurrency(body.currency!)) {
+        return NextResponse.json({ success: false, error: 'Unsupported currency' }, { status: 400 })
+      }
+
+      let productKey: string
+      try {
+        productKey = (await normalizeProductUrl(body.productUrl!)).canonicalKey
+      } catch {
+        return NextResponse.json({ success: false, error: 'Invalid product URL' }, { status: 400 })
+      }
+
+      entry = {
+        source: body.source,
+        product_key: productKey,
+        product_url: body.productUrl!,
+        saved_product_id: null,
+        product_name: sanitizeInput(body.productName!),
+        store: sanitizeInput(body.store!),
+        store_id: storeIdOf(body.productUrl!) ?? null,
+        category: body.category ? sanitizeInput(body.category) : null,
+        currency: body.currency!.toUpperCase(),
+        original_price: body.originalPrice!,
+        paid_price: body.paidPrice!,
+      }
+    }
+
+    const { data, error } = await supabase
+      .from('savings_ledger')
+      .insert({ user_id: userId, ...entry })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('[DB Error]:', error)
+      return NextResponse.json({ success: false, error: 'Failed to record savings' }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: data,
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+// DELETE /api/savings?id=... - Remove a ledger entry, e.g. a purchase logged by mistake or a click that
+// didn't lead to one
+export async function DELETE(request: NextRequest): Promise<NextResponse<ApiResponse<{ deleted: boolean }>>> {
+  try {
+    // Verify authentication
+    const { userId, error: authError } = await verifyAuth()
+    if (authError) return authError
+
+    logApiRequest('/api/savings', 'DELETE', userId!)
+
+    const { searchParams } = new URL(request.url)
+    const entryId = searchParams.get('id')
+
+    if (!entryId) {
+      return NextResponse.json({ success: false, error: 'Entry ID required' }, { status: 400 })
+    }
+
+    const supabase = await createClient()
+
+    const { data: entry, error: entryError } = await supabase
+      .from('savings_ledger')
+      .select('source, product_key')
+      .eq('id', entryId)
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (entryError) {
+      console.error('[DB Error]:', entryError)
+      return NextResponse.json({ success: false, error: 'Failed to delete savings entry' }, { status: 500 })
+    }
+    if (!entry) {
+      return NextResponse.json({ success: false, error: 'Savings entry not found' }, { status: 404 })
+    }
+
+    // Dismissing a click dismisses every click through to that offer, not just the one shown as pending
+    let query = supabase.from('savings_ledger').delete().eq('user_id', userId)
+    query =
+      entry.source === 'click'
+        ? query.eq('source', 'click').eq('product_key', entry.product_key)
+        : query.eq('id', entryId)
+    const { error } = await query
+
+    if (error) {
+      console.error('[DB Error]:', error)
+      return NextResponse.json({ success: false, error: 'Failed to delete savings entry' }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { deleted: true },
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { handleApiError, verifyAuth, logApiRequest } from '@/lib/api/helpers'
+import {
+  runSearch,
+  SearchError,
+  formatSseEvent,
+  parseFilters,
+  isSortOption,
+  SSE_HEADERS,
+  type FilterOptions,
+  type SearchEvent,
+} from '@/lib/search'
+
+// GET /api/search/stream?q=...&currency=...&filters=<json>&sort=...&limit=...&refresh=1 - Run a search and stream progress as Server-Sent Events.
+// Closing the connection cancels the outstanding store requests.
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const { userId, error: authError } = await verifyAuth()
+    if (authError) return authError
+
+    logApiRequest('/api/search/stream', 'GET', userId!)
+
+    const { searchParams } = new URL(request.url)
+    const query = searchParams.get('q')
+    const currency = searchParams.get('currency') || undefined
+    const sort = searchParams.get('sort') || undefined
+    const limit = searchParams.get('limit')
+    const refresh = searchParams.get('refresh') === '1'
+
+    if (!query) {
+      return NextResponse.json({ success: false, error: 'Missing required fields: q' }, { status: 400 })
+    }
+    if (sort !== undefined && !isSortOption(sort)) {
+      return NextResponse.json({ success: false, error: 'Invalid sort option' }, { status: 400 })
+    }
+
+    let filters: FilterOptions | undefined
+    const rawFilters = searchParams.get('filters')
+    if (rawFilters) {
+      try {
+        filters = parseFilters(JSON.parse(rawFilters))
+      } catch {
+        return NextResponse.json({ success: false, error: 'Invalid filters' }, { status: 400 })
+      }
+    }
+
+    const supabase = await createClient()
+    const abortController = new AbortController()
+    request.signal.addEventListener('abort', () => abortController.abort())
+
+    const encoder = new TextEncoder()
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: SearchEvent) => {
+          if (abortController.signal.aborted) return
+          controller.enqueue(encoder.encode(formatSseEvent(event)))
+        }
+
+        try {
+          const data = await runSearch(
+            { query, currency, filters, sort, limit: limit ? Number(limit) : undefined, refresh },
+            { userId: userId!, supabase, signal: abortController.signal, onEvent: send }
+          )
+          send({ type: 'result', data })
+        } catch (error) {
+          if (!(error instanceof SearchError)) console.error('[Search Stream Error]:', error)
+          send({
+            type: 'search_error',
+            error: error instanceof SearchError ? error.message : 'Search failed',
+            status: error instanceof SearchError ? error.status : 500,
+          })
+        } finally {
+          if (!abortController.signal.aborted) controller.close()
+        }
+      },
+      cancel() {
+        abortController.abort()
+      },
+    })
+
+    return new Response(stream, { headers: SSE_HEADERS })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { handleApiError, verifyAuth, logApiRequest, type ApiResponse } from '@/lib/api/helpers'
+import { getUserSettings, settingsFromRow, type UserSettings } from '@/lib/settings'
+import { isSupportedCurrency } from '@/lib/currency'
+import { isSupportedDestination } from '@/lib/pricing'
+
+interface UpdateSettingsRequest {
+  preferredCurrency?: string
+  destinationCountry?: string
+  destinationPostcode?: string | null
+}
+
+const POSTCODE_PATTERN = /^[A-Za-z0-9][A-Za-z0-9 -]{1,10}$/
+
+// GET - Fetch the user's settings (defaults when none are stored)
+export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<UserSettings>>> {
+  try {
+    // Verify authentication
+    const { userId, error: authError } = await verifyAuth()
+    if (authError) return authError
+
+    logApiRequest('/api/settings', 'GET', userId!)
+
+    const supabase = await createClient()
+    const settings = await getUserSettings(supabase, userId!)
+
+    return NextResponse.json({
+      success: true,
+      data: settings,
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+// PATCH - Update the user's settings
+export async function PATCH(request: NextRequest): Promise<NextResponse<ApiResponse<UserSettings>>> {
+  try {
+    // Verify authentication
+    const { userId, error: authError } = await verifyAuth()
+    if (authError) return authError
+
+    logApiRequest('/api/settings', 'PATCH', userId!)
+
+    const body: UpdateSettingsRequest = await request.json()
+    const updates: Record<string, unknown> = { user_id: userId, updated_at: new Date().toISOString() }
+
+    if (body.preferredCurrency !== undefined) {
+      if (typeof body.preferredCurrency !== 'string' || !isSupportedCurrency(body.preferredCurrency)) {
+        return NextResponse.json({ success: false, error: 'Unsupported currency' }, { status: 400 })
+      }
+      updates.preferred_currency = body.preferredCurrency.toUpperCase()
+    }
+
+    if (body.destinationCountry !== undefined) {
+      if (typeof body.destinationCountry !== 'string' || !isSupportedDestination(body.destinationCountry)) {
+        return NextResponse.json({ success: false, error: 'Unsupported destination country' }, { status: 400 })
+      }
+      updates.destination_country = body.destinationCountry.toUpperCase()
+    }
+
+    if (body.destinationPostcode !== undefined) {
+      const postcode = body.destinationPostcode?.trim() || null
+      if (postcode && !POSTCODE_PATTERN.test(postcode)) {
+        return NextResponse.json({ success: false, error: 'Invalid postcode' }, { status: 400 })
+      }
+      updates.destination_postcode = postcode
+    }
+
+    const supabase = await createClient()
+
+    const { data, error } = await supabase
+      .from('user_settings')
+      .upsert(updates, { onConflict: 'user_id' })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('[DB Error]:', error)
+      return NextResponse.json({ success: false, error: 'Failed to update settings' }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: settingsFromRow(data),
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -1,13 +1,55 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createClient } from "@/lib/supabase/server"
-import { verifyAuth, handleApiError } from "@/lib/api/helpers"
+import { verifyAuth, handleApiError, logApiRequest } from "@/lib/api/helpers"
 import { randomBytes } from "crypto"
+import { createDefaultRateSource, DEFAULT_CURRENCY } from "@/lib/currency"
+import { withComparePrices } from "@/lib/pricing"
+import { getUserSettings } from "@/lib/settings"
+import { storeIdOf } from "@/lib/store-directory"
+import type { Product } from "@/lib/stores"
+
+const MAX_SHARED_PRODUCTS = 10
+
+function isOptionalString(value: unknown): value is string | undefined {
+  return value === undefined || typeof value === "string"
+}
+
+function isPrice(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0
+}
+
+function isOptionalPrice(value: unknown): value is number | undefined {
+  return value === undefined || isPrice(value)
+}
+
+// A compared product as sent by the compare page; currency and storeId are filled in when missing
+function isSharedProduct(value: unknown): value is Product {
+  if (!value || typeof value !== "object") return false
+  const product = value as Record<string, unknown>
+  if (typeof product.url !== "string" || !/^https?:\/\//i.test(product.url)) return false
+  return (
+    typeof product.id === "string" &&
+    typeof product.name === "string" &&
+    typeof product.store === "string" &&
+    isPrice(product.price) &&
+    // Compare prices are recomputed from these, so they must be real prices too
+    isOptionalPrice(product.landedPrice) &&
+    isOptionalPrice(product.effectivePrice) &&
+    isOptionalString(product.currency) &&
+    isOptionalString(product.storeId) &&
+    isOptionalString(product.image)
+  )
+}
 
 // POST /api/share - Create a shareable comparison link
 export async function POST(request: NextRequest) {
   try {
-    const supabase = await createClient()
-    const user = await verifyAuth(supabase)
+    // Verify authentication
+    const { userId, error: authError } = await verifyAuth()
+    if (authError) return authError
+
+    logApiRequest("/api/share", "POST", userId!)
+
     const body = await request.json()
 
     const { title, products, isPublic, expiresInDays } = body
@@ -18,6 +60,28 @@ export async function POST(request: NextRequest) {
         { status: 400 }
       )
     }
+    if (products.length > MAX_SHARED_PRODUCTS || !products.every(isSharedProduct)) {
+      return NextResponse.json(
+        { success: false, error: `Share between 1 and ${MAX_SHARED_PRODUCTS} valid products` },
+        { status: 400 }
+      )
+    }
+    const sharedProducts: Product[] = products
+
+    const supabase = await createClient()
+
+    // Store prices converted to the owner's currency so viewers see a consistent best value
+    const settings = await getUserSettings(supabase, userId!)
+    const rates = await createDefaultRateSource(supabase).getRates()
+    const comparedProducts = withComparePrices(
+      sharedProducts.map((product) => ({
+        ...product,
+        currency: product.currency || DEFAULT_CURRENCY,
+        storeId: product.storeId || storeIdOf(product.url),
+      })),
+      settings.preferredCurrency,
+      rates
+    )
 
     // Generate unique share token
     const shareToken = randomBytes(16).toString("hex")
@@ -32,10 +96,10 @@ export async function POST(request: NextRequest) {
     const { data, error } = await supabase
       .from("shared_comparisons")
       .insert({
-        user_id: user.id,
+        user_id: userId,
         share_token: shareToken,
         title: title || "Product Comparison",
-        products: products,
+        products: comparedProducts,
         is_public: isPublic !== undefined ? isPublic : true,
         expires_at: expiresAt,
       })
@@ -111,8 +175,13 @@ export async function GET(request: NextRequest) {
 // DELETE /api/share?id=xxx - Delete shared comparison
 export async function DELETE(request: NextRequest) {
   try {
+    // Verify authentication
+    const { userId, error: authError } = await verifyAuth()
+    if (authError) return authError
+
+    logApiRequest("/api/share", "DELETE", userId!)
+
     const supabase = await createClient()
-    const user = await verifyAuth(supabase)
 
     const { searchParams } = new URL(request.url)
     const id = searchParams.get("id")
@@ -128,7 +197,7 @@ export async function DELETE(request: NextRequest) {
       .from("shared_comparisons")
       .delete()
       .eq("id", id)
-      .eq("user_id", user.id)
+      .eq("user_id", userId)
 
     if (error) throw error
 
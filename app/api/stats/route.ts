@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { handleApiError, verifyAuth, logApiRequest, type ApiResponse } from '@/lib/api/helpers'
+import { createDefaultRateSource } from '@/lib/currency'
+import { getUserSettings } from '@/lib/settings'
+import { partitionEntries, summarizeSavings, type SavingsEntry, type SavingsSummary } from '@/lib/savings'
+
+interface DashboardStats {
+  totalSearches: number
+  totalSaved: number
+  // In the user's preferred currency
+  savings: SavingsSummary
+  // Latest click per offer still waiting for a purchase, newest first, so it can be confirmed or dismissed
+  pendingClicks: SavingsEntry[]
+}
+
+// GET /api/stats - Dashboard totals: searches, saved products and the savings ledger per month, store and category
+export async function GET(): Promise<NextResponse<ApiResponse<DashboardStats>>> {
+  try {
+    // Verify authentication
+    const { userId, error: authError } = await verifyAuth()
+    if (authError) return authError
+
+    logApiRequest('/api/stats', 'GET', userId!)
+
+    const supabase = await createClient()
+
+    const [searches, saved, ledger] = await Promise.all([
+      supabase.from('search_history').select('id', { count: 'exact', head: true }).eq('user_id', userId),
+      supabase.from('saved_products').select('id', { count: 'exact', head: true }).eq('user_id', userId),
+      supabase.from('savings_ledger').select('*').eq('user_id', userId),
+    ])
+
+    const error = searches.error || saved.error || ledger.error
+    if (error) {
+      console.error('[DB Error]:', error)
+      return NextResponse.json({ success: false, error: 'Failed to fetch stats' }, { status: 500 })
+    }
+
+    const settings = await getUserSettings(supabase, userId!)
+    const rates = await createDefaultRateSource(supabase).getRates()
+    const entries = (ledger.data ?? []) as SavingsEntry[]
+    const { pending } = partitionEntries(entries)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        totalSearches: searches.count ?? 0,
+        totalSaved: saved.count ?? 0,
+        savings: summarizeSavings(entries, settings.preferredCurrency, rates),
+        pendingClicks: pending.sort((a, b) => Date.parse(b.created_at) - Date.parse(a.created_at)),
+      },
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import {
+  handleApiError,
+  verifyAuth,
+  validateRequiredFields,
+  sanitizeInput,
+  logApiRequest,
+  type ApiResponse,
+} from '@/lib/api/helpers'
+import { isStoreReportReason, loadStoreDirectory, type StoreProfile, type StoreReportReason } from '@/lib/store-directory'
+
+interface ReportStoreRequest {
+  storeId: string
+  reason: StoreReportReason
+  details?: string
+}
+
+const MAX_DETAILS_LENGTH = 1000
+
+// POST /api/stores/report - Report a store as untrustworthy. Each user can report a store once;
+// the report lowers its trust score for everyone. Returns the store's updated profile.
+export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse<StoreProfile>>> {
+  try {
+    // Verify authentication
+    const { userId, error: authError } = await verifyAuth()
+    if (authError) return authError
+
+    logApiRequest('/api/stores/report', 'POST', userId!)
+
+    const body: ReportStoreRequest = await request.json()
+
+    const validationError = validateRequiredFields(body, ['storeId', 'reason'])
+    if (validationError) {
+      return NextResponse.json({ success: false, error: validationError }, { status: 400 })
+    }
+    if (!isStoreReportReason(body.reason)) {
+      return NextResponse.json({ success: false, error: 'Invalid report reason' }, { status: 400 })
+    }
+
+    const storeId = sanitizeInput(String(body.storeId)).toLowerCase()
+    if (!/^[a-z0-9.-]+\.[a-z0-9-]+$/.test(storeId)) {
+      return NextResponse.json({ success: false, error: 'Invalid store' }, { status: 400 })
+    }
+
+    const supabase = await createClient()
+
+    const { error } = await supabase.from('store_reports').insert({
+      user_id: userId,
+      store_id: storeId,
+      reason: body.reason,
+      details: body.details ? sanitizeInput(body.details).slice(0, MAX_DETAILS_LENGTH) : null,
+    })
+
+    if (error) {
+      // Unique violation: this user already reported the store
+      if (error.code === '23505') {
+        return NextResponse.json({ success: false, error: 'You have already reported this store' }, { status: 409 })
+      }
+      console.error('[DB Error]:', error)
+      return NextResponse.json({ success: false, error: 'Failed to report store' }, { status: 500 })
+    }
+
+    const stores = await loadStoreDirectory(supabase, [{ id: storeId }])
+
+    return NextResponse.json({ success: true, data: stores[storeId] })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
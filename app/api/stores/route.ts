@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { handleApiError, verifyAuth, logApiRequest, type ApiResponse } from '@/lib/api/helpers'
+import { loadStoreDirectory, type StoreProfile } from '@/lib/store-directory'
+
+// Enough for a comparison or a page of results
+const MAX_STORES_PER_REQUEST = 50
+
+// GET /api/stores?ids=techmart.example,shophub.example - Look up stores in the directory, trust score included.
+// Works signed out so shared comparisons can show trust warnings too.
+export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<Record<string, StoreProfile>>>> {
+  try {
+    const { userId } = await verifyAuth()
+
+    logApiRequest('/api/stores', 'GET', userId ?? undefined)
+
+    const { searchParams } = new URL(request.url)
+    const ids = (searchParams.get('ids') || '')
+      .split(',')
+      .map((id) => id.trim().toLowerCase())
+      .filter(Boolean)
+
+    if (ids.length === 0) {
+      return NextResponse.json({ success: false, error: 'Missing required fields: ids' }, { status: 400 })
+    }
+    if (ids.length > MAX_STORES_PER_REQUEST) {
+      return NextResponse.json(
+        { success: false, error: `At most ${MAX_STORES_PER_REQUEST} stores can be looked up at once` },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createClient()
+    const stores = await loadStoreDirectory(supabase, ids.map((id) => ({ id })))
+
+    return NextResponse.json({ success: true, data: stores })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient, createServiceClient } from '@/lib/supabase/server'
+import { handleApiError, verifyAuth, sanitizeInput, logApiRequest, type ApiResponse } from '@/lib/api/helpers'
+import {
+  loadSuggestionCandidates,
+  rankSuggestions,
+  DEFAULT_SUGGESTION_LIMIT,
+  type Suggestion,
+} from '@/lib/suggestions'
+
+interface SuggestionsResponse {
+  query: string
+  suggestions: Suggestion[]
+}
+
+// GET /api/suggestions?q=...&limit=... - Autocomplete the search box.
+// Signed-in users get their own recent searches and saved products blended with popular queries;
+// everyone else gets popular queries only. Popular queries are read with the service role and only
+// include queries enough distinct users have searched. An empty q returns recent and popular searches.
+export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<SuggestionsResponse>>> {
+  try {
+    // Suggestions work signed out too, so an auth failure only narrows the sources
+    const { userId } = await verifyAuth()
+
+    logApiRequest('/api/suggestions', 'GET', userId ?? undefined)
+
+    const { searchParams } = new URL(request.url)
+    const query = sanitizeInput(searchParams.get('q') || '')
+    const limit = Number(searchParams.get('limit')) || DEFAULT_SUGGESTION_LIMIT
+
+    const supabase = await createClient()
+    const candidates = await loadSuggestionCandidates(supabase, userId, await createServiceClient())
+
+    return NextResponse.json({
+      success: true,
+      data: { query, suggestions: rankSuggestions(query, candidates, { limit }) },
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo } from "react"
 import Link from "next/link"
 import { useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
@@ -8,8 +8,18 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Sparkles, ArrowLeft, Plus, X, TrendingDown } from "lucide-react"
 import { useAuth } from "@/hooks/use-auth"
 import { toast } from "sonner"
+import { formatPrice } from "@/lib/currency/format"
+import { compareCurrencyOf, comparePriceOf, pickCheapest } from "@/lib/pricing"
+import { formatUnitPrice } from "@/lib/units/format"
 import Image from "next/image"
 import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import LandedCostBreakdown from "@/components/landed-cost-breakdown"
+import StoreTrustBadge from "@/components/store-trust-badge"
+import CouponCode from "@/components/coupon-code"
+import PriceHistoryChart from "@/components/price-history-chart"
+import { apiClient, type OfferCoupon, type StoreProfile } from "@/lib/api/client"
+import { storeIdOf } from "@/lib/store-directory/domains"
 import {
   Table,
   TableBody,
@@ -19,22 +29,61 @@ import {
   TableRow,
 } from "@/components/ui/table"
 
+type CompareOrder = "added" | "total" | "unit_price"
+
 interface ComparisonProduct {
   id: string
   name: string
   price: number
+  currency?: string
+  comparePrice?: number
+  compareCurrency?: string
+  shippingCost?: number
+  estimatedTax?: number
+  importDuty?: number
+  landedPrice?: number
+  coupon?: OfferCoupon
+  effectivePrice?: number
+  unitPrice?: number
+  unitPriceUnit?: "kg" | "l" | "item"
+  deliveryEta?: { minDays: number; maxDays: number }
   store: string
+  storeId?: string
   image?: string
   url: string
   rating?: number
   reviews?: number
 }
 
+// Items added before the store directory existed only have a URL to go on
+function storeIdFor(product: ComparisonProduct): string | undefined {
+  return product.storeId ?? storeIdOf(product.url)
+}
+
 export default function ComparePage() {
   const router = useRouter()
   const { user, loading: authLoading, supabase } = useAuth()
   
   const [products, setProducts] = useState<ComparisonProduct[]>([])
+  const [orderBy, setOrderBy] = useState<CompareOrder>("added")
+  const [stores, setStores] = useState<Record<string, StoreProfile>>({})
+  const [historyProductId, setHistoryProductId] = useState<string | null>(null)
+
+  const storeTrustOf = (product: ComparisonProduct) => {
+    const storeId = storeIdFor(product)
+    return storeId ? stores[storeId]?.trust : undefined
+  }
+
+  // Listings of unknown size go last when ordering by unit price; prices in different
+  // currencies can't be ranked against each other, so each currency is ordered on its own
+  const orderedProducts = useMemo(() => {
+    if (orderBy === "added") return products
+    const key = (product: ComparisonProduct) =>
+      orderBy === "total" ? comparePriceOf(product) : product.unitPrice ?? Infinity
+    return [...products].sort(
+      (a, b) => compareCurrencyOf(a).localeCompare(compareCurrencyOf(b)) || key(a) - key(b)
+    )
+  }, [products, orderBy])
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -53,6 +102,16 @@ export default function ComparePage() {
     }
   }, [user, authLoading, router])
 
+  useEffect(() => {
+    const storeIds = [...new Set(products.map(storeIdFor).filter((id): id is string => Boolean(id)))]
+    if (storeIds.length === 0) return
+
+    apiClient
+      .getStores(storeIds)
+      .then(setStores)
+      .catch((error) => console.error("Failed to load store trust:", error))
+  }, [products])
+
   const handleRemoveProduct = (id: string) => {
     const updated = products.filter(p => p.id !== id)
     setProducts(updated)
@@ -74,12 +133,24 @@ export default function ComparePage() {
 
   const getBestValue = () => {
     if (products.length === 0) return null
-    return products.reduce((best, current) => 
-      current.price < best.price ? current : best
-    )
+    return pickCheapest(products)
   }
 
   const bestValue = getBestValue()
+  // Chart the best value until the shopper picks another product
+  const historyProduct = products.find((product) => product.id === historyProductId) ?? bestValue
+
+  // Lowest unit price, only meaningful when every priced listing uses the same unit and currency
+  const unitPriced = products.filter((product) => product.unitPrice !== undefined)
+  const bestUnitPrice =
+    unitPriced.length > 1 &&
+    unitPriced.every(
+      (product) =>
+        product.unitPriceUnit === unitPriced[0].unitPriceUnit &&
+        compareCurrencyOf(product) === compareCurrencyOf(unitPriced[0])
+    )
+      ? unitPriced.reduce((best, product) => (product.unitPrice! < best.unitPrice! ? product : best))
+      : null
 
   if (authLoading) {
     return (
@@ -163,17 +234,34 @@ export default function ComparePage() {
                     <TrendingDown className="size-5 text-primary" />
                     <span className="font-semibold">Best Value:</span>
                     <span>{bestValue.name}</span>
-                    <span className="text-primary font-bold">${bestValue.price.toFixed(2)}</span>
+                    <span className="text-primary font-bold">{formatPrice(bestValue.effectivePrice ?? bestValue.landedPrice ?? bestValue.price, bestValue.currency)}</span>
                     <span className="text-muted-foreground">at {bestValue.store}</span>
+                    <StoreTrustBadge trust={storeTrustOf(bestValue)} />
                   </div>
+                  {storeTrustOf(bestValue)?.level === "low" && (
+                    <p className="text-sm text-destructive mt-2">
+                      {bestValue.store} has a low trust score ({storeTrustOf(bestValue)!.reasons.join(", ").toLowerCase()}).
+                      Check the store before you buy.
+                    </p>
+                  )}
                 </CardContent>
               </Card>
             )}
 
             {/* Comparison Table */}
             <Card>
-              <CardHeader>
+              <CardHeader className="flex flex-row items-center justify-between">
                 <CardTitle>Side-by-Side Comparison</CardTitle>
+                <Select value={orderBy} onValueChange={(value) => setOrderBy(value as CompareOrder)}>
+                  <SelectTrigger className="w-[180px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="added">Order added</SelectItem>
+                    <SelectItem value="total">Total cost</SelectItem>
+                    <SelectItem value="unit_price">Unit price</SelectItem>
+                  </SelectContent>
+                </Select>
               </CardHeader>
               <CardContent>
                 <div className="overflow-x-auto">
@@ -181,7 +269,7 @@ export default function ComparePage() {
                     <TableHeader>
                       <TableRow>
                         <TableHead className="w-[150px]">Feature</TableHead>
-                        {products.map((product) => (
+                        {orderedProducts.map((product) => (
                           <TableHead key={product.id} className="text-center">
                             <div className="flex flex-col items-center gap-2">
                               <Button
@@ -201,7 +289,7 @@ export default function ComparePage() {
                       {/* Product Images */}
                       <TableRow>
                         <TableCell className="font-medium">Image</TableCell>
-                        {products.map((product) => (
+                        {orderedProducts.map((product) => (
                           <TableCell key={product.id} className="text-center">
                             <div className="relative size-24 mx-auto bg-muted rounded">
                               <Image
@@ -218,7 +306,7 @@ export default function ComparePage() {
                       {/* Product Names */}
                       <TableRow>
                         <TableCell className="font-medium">Product</TableCell>
-                        {products.map((product) => (
+                        {orderedProducts.map((product) => (
                           <TableCell key={product.id} className="text-center">
                             <p className="font-semibold line-clamp-2">{product.name}</p>
                           </TableCell>
@@ -228,9 +316,12 @@ export default function ComparePage() {
                       {/* Store */}
                       <TableRow>
                         <TableCell className="font-medium">Store</TableCell>
-                        {products.map((product) => (
+                        {orderedProducts.map((product) => (
                           <TableCell key={product.id} className="text-center">
-                            <Badge variant="secondary">{product.store}</Badge>
+                            <div className="flex flex-col items-center gap-1">
+                              <Badge variant="secondary">{product.store}</Badge>
+                              <StoreTrustBadge trust={storeTrustOf(product)} />
+                            </div>
                           </TableCell>
                         ))}
                       </TableRow>
@@ -238,11 +329,18 @@ export default function ComparePage() {
                       {/* Price */}
                       <TableRow>
                         <TableCell className="font-medium">Price</TableCell>
-                        {products.map((product) => (
+                        {orderedProducts.map((product) => (
                           <TableCell key={product.id} className="text-center">
                             <p className={`text-xl font-bold ${product.id === bestValue?.id ? 'text-primary' : ''}`}>
-                              ${product.price.toFixed(2)}
+                              {formatPrice(product.price, product.currency)}
                             </p>
+                            {product.comparePrice !== undefined &&
+                              product.compareCurrency &&
+                              product.compareCurrency !== product.currency && (
+                                <p className="text-sm text-muted-foreground">
+                                  ≈ {formatPrice(product.comparePrice, product.compareCurrency)}
+                                </p>
+                              )}
                             {product.id === bestValue?.id && (
                               <Badge variant="default" className="mt-1">Best Price</Badge>
                             )}
@@ -250,10 +348,45 @@ export default function ComparePage() {
                         ))}
                       </TableRow>
 
+                      {/* Total Landed Cost */}
+                      <TableRow>
+                        <TableCell className="font-medium">Total Cost</TableCell>
+                        {orderedProducts.map((product) => (
+                          <TableCell key={product.id}>
+                            <LandedCostBreakdown product={product} className="max-w-[200px] mx-auto" />
+                          </TableCell>
+                        ))}
+                      </TableRow>
+
+                      {/* Unit Price */}
+                      <TableRow>
+                        <TableCell className="font-medium">Unit Price</TableCell>
+                        {orderedProducts.map((product) => (
+                          <TableCell key={product.id} className="text-center">
+                            {product.unitPrice !== undefined && product.unitPriceUnit ? (
+                              <div>
+                                <p className="font-semibold">
+                                  {formatUnitPrice(
+                                    product.unitPrice,
+                                    product.unitPriceUnit,
+                                    product.compareCurrency ?? product.currency
+                                  )}
+                                </p>
+                                {product.id === bestUnitPrice?.id && (
+                                  <Badge variant="secondary" className="mt-1">Best Unit Price</Badge>
+                                )}
+                              </div>
+                            ) : (
+                              <span className="text-muted-foreground">N/A</span>
+                            )}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+
                       {/* Rating */}
                       <TableRow>
                         <TableCell className="font-medium">Rating</TableCell>
-                        {products.map((product) => (
+                        {orderedProducts.map((product) => (
                           <TableCell key={product.id} className="text-center">
                             {product.rating ? (
                               <div>
@@ -272,8 +405,15 @@ export default function ComparePage() {
                       {/* Action Buttons */}
                       <TableRow>
                         <TableCell className="font-medium">Action</TableCell>
-                        {products.map((product) => (
+                        {orderedProducts.map((product) => (
                           <TableCell key={product.id} className="text-center">
+                            {product.coupon && (
+                              <CouponCode
+                                coupon={product.coupon}
+                                currency={product.currency ?? "USD"}
+                                className="max-w-[220px] mx-auto mb-2"
+                              />
+                            )}
                             <Button asChild size="sm">
                               <a href={product.url} target="_blank" rel="noopener noreferrer">
                                 View Product
@@ -288,6 +428,30 @@ export default function ComparePage() {
               </CardContent>
             </Card>
 
+            {/* Price History */}
+            {historyProduct && (
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between">
+                  <CardTitle>Price History</CardTitle>
+                  <Select value={historyProduct.id} onValueChange={setHistoryProductId}>
+                    <SelectTrigger className="w-[220px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {products.map((product) => (
+                        <SelectItem key={product.id} value={product.id}>
+                          {product.store}: {product.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </CardHeader>
+                <CardContent>
+                  <PriceHistoryChart productUrl={historyProduct.url} />
+                </CardContent>
+              </Card>
+            )}
+
             {/* Add More Products */}
             {products.length < 4 && (
               <Card>
@@ -6,13 +6,36 @@ import { useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { Sparkles, ArrowLeft, Search, Bookmark, TrendingUp, Clock, Trash2 } from "lucide-react"
+import { Sparkles, ArrowLeft, Search, Bookmark, TrendingUp, Clock, Trash2, BellRing, ShoppingCart, ShoppingBag, ChartLine } from "lucide-react"
 import { useAuth } from "@/hooks/use-auth"
-import { apiClient, type SearchHistoryItem, type SavedProduct } from "@/lib/api/client"
+import {
+  apiClient,
+  type CartPlan,
+  type DashboardStats,
+  type SearchHistoryItem,
+  type SavedProduct,
+  type SavedSearch,
+  type SavedSearchFrequency,
+  type SavingsEntry,
+  type UserSettings,
+} from "@/lib/api/client"
 import { toast } from "sonner"
+import { formatPrice, SUPPORTED_CURRENCIES } from "@/lib/currency"
 import { Badge } from "@/components/ui/badge"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import Image from "next/image"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import { Checkbox } from "@/components/ui/checkbox"
+import { SUPPORTED_DESTINATIONS } from "@/lib/pricing"
+import { CONDITION_LABELS } from "@/lib/enrichment/taxonomy"
+import { formatWarranty } from "@/lib/enrichment/warranty"
+import { STOCK_STATE_LABELS } from "@/lib/availability/changes"
+import CartPlanView from "@/components/cart-plan"
+import PriceHistoryChart from "@/components/price-history-chart"
+import SavingsBreakdown from "@/components/savings-breakdown"
+import PendingClicks from "@/components/pending-clicks"
 
 export default function DashboardPage() {
   const router = useRouter()
@@ -20,12 +43,25 @@ export default function DashboardPage() {
   
   const [searchHistory, setSearchHistory] = useState<SearchHistoryItem[]>([])
   const [savedProducts, setSavedProducts] = useState<SavedProduct[]>([])
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([])
   const [loading, setLoading] = useState(true)
+  const [settings, setSettings] = useState<UserSettings>({ preferredCurrency: "USD", destinationCountry: "US" })
+  const [postcode, setPostcode] = useState("")
+  // Saved products picked for a purchase plan, with how many of each to buy
+  const [cart, setCart] = useState<Record<string, number>>({})
+  const [cartPlan, setCartPlan] = useState<CartPlan | null>(null)
+  const [planning, setPlanning] = useState(false)
+  const [historyProductId, setHistoryProductId] = useState<string | null>(null)
   const [stats, setStats] = useState({
     totalSearches: 0,
     totalSaved: 0,
     totalSavings: 0,
   })
+  const [savings, setSavings] = useState<DashboardStats["savings"] | null>(null)
+  const [pendingClicks, setPendingClicks] = useState<SavingsEntry[]>([])
+  // Price and store typed into each saved product's "Log purchase" fields
+  const [paidPrices, setPaidPrices] = useState<Record<string, string>>({})
+  const [purchaseStores, setPurchaseStores] = useState<Record<string, string>>({})
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -41,25 +77,27 @@ export default function DashboardPage() {
   const loadDashboardData = async () => {
     setLoading(true)
     try {
-      const [history, saved] = await Promise.all([
+      const [history, saved, searches, userSettings, dashboardStats] = await Promise.all([
         apiClient.getSearchHistory(),
         apiClient.getSavedProducts(),
+        apiClient.getSavedSearches(),
+        apiClient.getSettings(),
+        apiClient.getStats(),
       ])
 
       setSearchHistory(history)
       setSavedProducts(saved)
-
-      // Calculate stats
-      const totalSavings = saved.reduce((sum, product) => {
-        // Estimate savings (this would be more accurate with price history)
-        return sum + (product.product_price * 0.1) // Assume 10% average savings
-      }, 0)
+      setSavedSearches(searches)
+      setSettings(userSettings)
+      setPostcode(userSettings.destinationPostcode || "")
 
       setStats({
-        totalSearches: history.length,
-        totalSaved: saved.length,
-        totalSavings: totalSavings,
+        totalSearches: dashboardStats.totalSearches,
+        totalSaved: dashboardStats.totalSaved,
+        totalSavings: dashboardStats.savings.totalSaved,
       })
+      setSavings(dashboardStats.savings)
+      setPendingClicks(dashboardStats.pendingClicks)
     } catch (error) {
       console.error("Failed to load dashboard data:", error)
       toast.error("Failed to load dashboard data")
@@ -68,6 +106,28 @@ export default function DashboardPage() {
     }
   }
 
+  const handleCurrencyChange = async (currency: string) => {
+    try {
+      const updated = await apiClient.updateSettings({ preferredCurrency: currency })
+      setSettings(updated)
+      toast.success(`Prices will be compared in ${updated.preferredCurrency}`)
+      loadDashboardData()
+    } catch (error) {
+      toast.error("Failed to update currency")
+    }
+  }
+
+  const handleDestinationChange = async (destinationCountry: string, destinationPostcode: string) => {
+    try {
+      const updated = await apiClient.updateSettings({ destinationCountry, destinationPostcode: destinationPostcode || null })
+      setSettings(updated)
+      setPostcode(updated.destinationPostcode || "")
+      toast.success("Delivery location updated")
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update delivery location")
+    }
+  }
+
   const handleDeleteHistory = async (id: string) => {
     try {
       await apiClient.deleteSearchHistory(id)
@@ -94,6 +154,7 @@ export default function DashboardPage() {
     try {
       await apiClient.deleteSavedProduct(id)
       setSavedProducts(prev => prev.filter(item => item.id !== id))
+      toggleCartItem(id, false)
       setStats(prev => ({ ...prev, totalSaved: prev.totalSaved - 1 }))
       toast.success("Product removed")
     } catch (error) {
@@ -101,6 +162,109 @@ export default function DashboardPage() {
     }
   }
 
+  const toggleCartItem = (id: string, selected: boolean) => {
+    setCart(prev => {
+      const next = { ...prev }
+      if (selected) next[id] = 1
+      else delete next[id]
+      return next
+    })
+    setCartPlan(null)
+  }
+
+  const handlePlanCart = async () => {
+    setPlanning(true)
+    try {
+      const items = Object.entries(cart).map(([savedProductId, quantity]) => ({ savedProductId, quantity }))
+      setCartPlan(await apiClient.planCart(items))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to plan purchase")
+    } finally {
+      setPlanning(false)
+    }
+  }
+
+  const handleSetPriceAlert = async (
+    id: string,
+    rules: { targetPrice?: number | null; dropPercent?: number | null }
+  ) => {
+    try {
+      const updated = await apiClient.setPriceAlert(id, rules)
+      setSavedProducts(prev => prev.map(item => (item.id === id ? updated : item)))
+      toast.success("Price alert updated")
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update price alert")
+    }
+  }
+
+  const handleLogPurchase = async (savedProductId: string) => {
+    try {
+      await apiClient.recordSavings({
+        source: "purchase",
+        savedProductId,
+        paidPrice: Number(paidPrices[savedProductId]),
+        // Blank means it was bought from the saved listing
+        store: purchaseStores[savedProductId]?.trim() || undefined,
+      })
+      setPaidPrices(prev => ({ ...prev, [savedProductId]: "" }))
+      setPurchaseStores(prev => ({ ...prev, [savedProductId]: "" }))
+      await reloadSavings()
+      toast.success("Purchase logged")
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to log purchase")
+    }
+  }
+
+  // Logging the purchase under the click's offer replaces the click
+  const handleConfirmClick = async (click: SavingsEntry, paidPrice?: number) => {
+    try {
+      await apiClient.recordSavings({ source: "purchase", clickId: click.id, paidPrice })
+      await reloadSavings()
+      toast.success("Purchase logged")
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to log purchase")
+    }
+  }
+
+  const handleDismissClick = async (click: SavingsEntry) => {
+    try {
+      await apiClient.deleteSavingsEntry(click.id)
+      await reloadSavings()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to dismiss offer")
+    }
+  }
+
+  const reloadSavings = async () => {
+    const dashboardStats = await apiClient.getStats()
+    setStats(prev => ({ ...prev, totalSavings: dashboardStats.savings.totalSaved }))
+    setSavings(dashboardStats.savings)
+    setPendingClicks(dashboardStats.pendingClicks)
+  }
+
+  const handleUpdateSavedSearch = async (
+    id: string,
+    updates: { frequency?: SavedSearchFrequency; alertBelowPrice?: number | null; isActive?: boolean }
+  ) => {
+    try {
+      const updated = await apiClient.updateSavedSearch(id, updates)
+      setSavedSearches(prev => prev.map(item => (item.id === id ? updated : item)))
+      toast.success("Saved search updated")
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update saved search")
+    }
+  }
+
+  const handleDeleteSavedSearch = async (id: string) => {
+    try {
+      await apiClient.deleteSavedSearch(id)
+      setSavedSearches(prev => prev.filter(item => item.id !== id))
+      toast.success("Saved search removed")
+    } catch (error) {
+      toast.error("Failed to remove saved search")
+    }
+  }
+
   const handleRetrySearch = async (historyId: string) => {
     try {
       const { redirectUrl } = await apiClient.retrySearch(historyId)
@@ -160,9 +324,53 @@ export default function DashboardPage() {
       {/* Dashboard Content */}
       <div className="container mx-auto px-4 py-8">
         {/* Welcome Section */}
-        <div className="mb-8">
-          <h1 className="text-3xl font-bold mb-2">Welcome back, {user?.user_metadata?.name || "User"}!</h1>
-          <p className="text-muted-foreground">Here's your shopping activity and savings</p>
+        <div className="mb-8 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Welcome back, {user?.user_metadata?.name || "User"}!</h1>
+            <p className="text-muted-foreground">Here's your shopping activity and savings</p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-muted-foreground">Deliver to</span>
+            <Select
+              value={settings.destinationCountry}
+              onValueChange={(country) => handleDestinationChange(country, postcode)}
+            >
+              <SelectTrigger className="w-[90px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SUPPORTED_DESTINATIONS.map((country) => (
+                  <SelectItem key={country} value={country}>
+                    {country}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              value={postcode}
+              onChange={(e) => setPostcode(e.target.value)}
+              onBlur={() => {
+                if (postcode !== (settings.destinationPostcode || "")) {
+                  handleDestinationChange(settings.destinationCountry, postcode)
+                }
+              }}
+              placeholder="Postcode"
+              className="w-[110px]"
+            />
+            <span className="text-sm text-muted-foreground">Compare prices in</span>
+            <Select value={settings.preferredCurrency} onValueChange={handleCurrencyChange}>
+              <SelectTrigger className="w-[110px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SUPPORTED_CURRENCIES.map((currency) => (
+                  <SelectItem key={currency} value={currency}>
+                    {currency}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
         </div>
 
         {/* Stats Cards */}
@@ -191,16 +399,34 @@ export default function DashboardPage() {
 
           <Card>
             <CardHeader className="flex flex-row items-center justify-between pb-2">
-              <CardTitle className="text-sm font-medium">Estimated Savings</CardTitle>
+              <CardTitle className="text-sm font-medium">Total Savings</CardTitle>
               <TrendingUp className="size-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">${stats.totalSavings.toFixed(2)}</div>
-              <p className="text-xs text-muted-foreground mt-1">Money saved</p>
+              <div className="text-2xl font-bold">
+                {formatPrice(stats.totalSavings, savings?.currency ?? settings.preferredCurrency)}
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">
+                {savings && savings.count > 0
+                  ? `From ${savings.count} logged ${savings.count === 1 ? "purchase" : "purchases"}`
+                  : "Log a purchase on a saved product to start tracking"}
+              </p>
+              {savings && savings.pending.count > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {formatPrice(savings.pending.saved, savings.currency)} more pending from {savings.pending.count}{" "}
+                  {savings.pending.count === 1 ? "offer" : "offers"} you clicked through to
+                </p>
+              )}
             </CardContent>
           </Card>
         </div>
 
+        {savings && savings.count > 0 && <SavingsBreakdown savings={savings} />}
+
+        {pendingClicks.length > 0 && (
+          <PendingClicks clicks={pendingClicks} onConfirm={handleConfirmClick} onDismiss={handleDismissClick} />
+        )}
+
         {/* Tabs for History and Saved Products */}
         <Tabs defaultValue="history" className="space-y-4">
           <TabsList>
@@ -212,6 +438,10 @@ export default function DashboardPage() {
               <Bookmark className="mr-2 size-4" />
               Saved Products
             </TabsTrigger>
+            <TabsTrigger value="saved-searches">
+              <BellRing className="mr-2 size-4" />
+              Saved Searches
+            </TabsTrigger>
           </TabsList>
 
           {/* Search History Tab */}
@@ -255,7 +485,10 @@ export default function DashboardPage() {
                             </div>
                             <div className="flex items-center gap-4 text-sm text-muted-foreground">
                               <span>{item.result_count} results</span>
-                              <span>Cheapest: ${item.cheapest_price?.toFixed(2) || "N/A"}</span>
+                              <span>
+                                Cheapest:{" "}
+                                {item.cheapest_price != null ? formatPrice(item.cheapest_price, item.currency) : "N/A"}
+                              </span>
                               <span>{new Date(item.created_at).toLocaleDateString()}</span>
                             </div>
                           </div>
@@ -288,8 +521,20 @@ export default function DashboardPage() {
           <TabsContent value="saved" className="space-y-4">
             <Card>
               <CardHeader>
-                <CardTitle>Saved Products</CardTitle>
-                <CardDescription>Products you've bookmarked for later</CardDescription>
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div>
+                    <CardTitle>Saved Products</CardTitle>
+                    <CardDescription>
+                      Products you've bookmarked for later. Tick several to plan the cheapest way to buy them together.
+                    </CardDescription>
+                  </div>
+                  {Object.keys(cart).length > 0 && (
+                    <Button size="sm" onClick={handlePlanCart} disabled={planning}>
+                      <ShoppingCart className="size-4 mr-2" />
+                      {planning ? "Planning..." : `Plan purchase (${Object.keys(cart).length})`}
+                    </Button>
+                  )}
+                </div>
               </CardHeader>
               <CardContent>
                 {savedProducts.length === 0 ? (
@@ -318,15 +563,44 @@ export default function DashboardPage() {
                               />
                             </div>
                             <div className="flex-1 min-w-0">
-                              <Badge variant="secondary" className="mb-1">
-                                {product.store}
-                              </Badge>
+                              <div className="flex flex-wrap gap-1 mb-1">
+                                <Badge variant="secondary">{product.store}</Badge>
+                                {product.product_condition && product.product_condition !== "new" && (
+                                  <Badge variant="outline">{CONDITION_LABELS[product.product_condition]}</Badge>
+                                )}
+                                {product.availability && product.availability !== "in_stock" && (
+                                  <Badge
+                                    variant={product.availability === "out_of_stock" ? "destructive" : "outline"}
+                                    title={
+                                      product.availability_checked_at
+                                        ? `Checked ${new Date(product.availability_checked_at).toLocaleString()}`
+                                        : undefined
+                                    }
+                                  >
+                                    {STOCK_STATE_LABELS[product.availability]}
+                                  </Badge>
+                                )}
+                                {product.forecast && (
+                                  <Badge
+                                    variant={product.forecast.recommendation === "wait" ? "outline" : "default"}
+                                    title={product.forecast.reasons.join("\n") || undefined}
+                                  >
+                                    {product.forecast.recommendation === "wait" ? "Wait" : "Buy now"} ·{" "}
+                                    {Math.round(product.forecast.confidence * 100)}% confident
+                                  </Badge>
+                                )}
+                              </div>
                               <h3 className="font-semibold line-clamp-2 mb-1">
                                 {product.product_name}
                               </h3>
                               <p className="text-lg font-bold text-primary">
-                                ${product.product_price.toFixed(2)}
+                                {formatPrice(product.product_price, product.product_currency)}
                               </p>
+                              {product.warranty_months && (
+                                <p className="text-xs text-muted-foreground">
+                                  {formatWarranty({ months: product.warranty_months, provider: product.warranty_provider })}
+                                </p>
+                              )}
                               {product.notes && (
                                 <p className="text-sm text-muted-foreground mt-1 line-clamp-1">
                                   {product.notes}
@@ -335,6 +609,26 @@ export default function DashboardPage() {
                             </div>
                           </div>
                           <div className="flex items-center gap-2 mt-3">
+                            <Checkbox
+                              checked={product.id in cart}
+                              onCheckedChange={(checked) => toggleCartItem(product.id, checked === true)}
+                              aria-label="Add to purchase plan"
+                            />
+                            {product.id in cart && (
+                              <Input
+                                type="number"
+                                min={1}
+                                max={99}
+                                value={cart[product.id]}
+                                onChange={(e) => {
+                                  const quantity = Math.min(99, Math.max(1, Math.floor(Number(e.target.value)) || 1))
+                                  setCart(prev => ({ ...prev, [product.id]: quantity }))
+                                  setCartPlan(null)
+                                }}
+                                className="w-16 h-8"
+                                aria-label="Quantity"
+                              />
+                            )}
                             <Button
                               variant="outline"
                               size="sm"
@@ -345,6 +639,14 @@ export default function DashboardPage() {
                                 View Product
                               </a>
                             </Button>
+                            <Button
+                              variant={historyProductId === product.id ? "secondary" : "ghost"}
+                              size="sm"
+                              onClick={() => setHistoryProductId(historyProductId === product.id ? null : product.id)}
+                              aria-label="Price history"
+                            >
+                              <ChartLine className="size-4" />
+                            </Button>
                             <Button
                               variant="ghost"
                               size="sm"
@@ -353,6 +655,186 @@ export default function DashboardPage() {
                               <Trash2 className="size-4" />
                             </Button>
                           </div>
+                          <div className="flex items-center gap-2 mt-2">
+                            <BellRing className="size-4 text-muted-foreground flex-shrink-0" />
+                            <Input
+                              type="number"
+                              min={0}
+                              step="0.01"
+                              placeholder="Target price"
+                              defaultValue={product.target_price ?? ""}
+                              onBlur={(e) => {
+                                const value = e.target.value ? Number(e.target.value) : null
+                                if (value !== (product.target_price ?? null)) {
+                                  handleSetPriceAlert(product.id, { targetPrice: value })
+                                }
+                              }}
+                              className="h-8"
+                              aria-label="Alert at or below this price"
+                            />
+                            <Input
+                              type="number"
+                              min={1}
+                              max={99}
+                              placeholder="% drop"
+                              defaultValue={product.drop_percent ?? ""}
+                              onBlur={(e) => {
+                                const value = e.target.value ? Number(e.target.value) : null
+                                if (value !== (product.drop_percent ?? null)) {
+                                  handleSetPriceAlert(product.id, { dropPercent: value })
+                                }
+                              }}
+                              className="h-8 w-24"
+                              aria-label="Alert when the price drops by this percentage"
+                            />
+                          </div>
+                          <div className="flex items-center gap-2 mt-2">
+                            <ShoppingBag className="size-4 text-muted-foreground flex-shrink-0" />
+                            <Input
+                              type="number"
+                              min={0}
+                              step="0.01"
+                              placeholder="Price paid"
+                              value={paidPrices[product.id] ?? ""}
+                              onChange={(e) => setPaidPrices(prev => ({ ...prev, [product.id]: e.target.value }))}
+                              className="h-8"
+                              aria-label="Price you paid"
+                            />
+                            <Input
+                              type="text"
+                              placeholder={product.store}
+                              value={purchaseStores[product.id] ?? ""}
+                              onChange={(e) => setPurchaseStores(prev => ({ ...prev, [product.id]: e.target.value }))}
+                              className="h-8"
+                              aria-label="Store you bought it from"
+                            />
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={!paidPrices[product.id]}
+                              onClick={() => handleLogPurchase(product.id)}
+                            >
+                              Log purchase
+                            </Button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </ScrollArea>
+                )}
+              </CardContent>
+            </Card>
+            {historyProductId && savedProducts.some((product) => product.id === historyProductId) && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Price History</CardTitle>
+                  <CardDescription>
+                    {savedProducts.find((product) => product.id === historyProductId)?.product_name}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <PriceHistoryChart savedProductId={historyProductId} />
+                </CardContent>
+              </Card>
+            )}
+            {cartPlan && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Purchase Plan</CardTitle>
+                  <CardDescription>Where to buy each item for the lowest total, including shipping</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <CartPlanView
+                    plan={cartPlan}
+                    productNames={Object.fromEntries(
+                      savedProducts.map((product) => [product.id, product.product_name])
+                    )}
+                  />
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+
+          {/* Saved Searches Tab */}
+          <TabsContent value="saved-searches" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>Saved Searches</CardTitle>
+                <CardDescription>
+                  Searches we re-run for you, with a notification when a new deal or a cheaper store turns up
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {savedSearches.length === 0 ? (
+                  <div className="text-center py-8">
+                    <BellRing className="size-12 text-muted-foreground mx-auto mb-4" />
+                    <p className="text-muted-foreground">No saved searches yet</p>
+                    <Button asChild className="mt-4">
+                      <Link href="/search">Search and Save</Link>
+                    </Button>
+                  </div>
+                ) : (
+                  <ScrollArea className="h-[400px]">
+                    <div className="space-y-3">
+                      {savedSearches.map((item) => (
+                        <div key={item.id} className="p-4 border border-border rounded-lg space-y-3">
+                          <div className="flex items-start justify-between gap-4">
+                            <div className="min-w-0">
+                              <p className="font-medium truncate">{item.name}</p>
+                              <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+                                {item.last_cheapest_price != null && item.currency ? (
+                                  <span>
+                                    Cheapest: {formatPrice(item.last_cheapest_price, item.currency)} at{" "}
+                                    {item.last_cheapest_store}
+                                  </span>
+                                ) : (
+                                  <span>Not run yet</span>
+                                )}
+                                {item.last_run_at && <span>Checked {new Date(item.last_run_at).toLocaleString()}</span>}
+                                {item.last_error && <span className="text-destructive">{item.last_error}</span>}
+                              </div>
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <Switch
+                                checked={item.is_active}
+                                onCheckedChange={(checked) => handleUpdateSavedSearch(item.id, { isActive: checked })}
+                                aria-label="Re-run this search"
+                              />
+                              <Button variant="ghost" size="sm" onClick={() => handleDeleteSavedSearch(item.id)}>
+                                <Trash2 className="size-4" />
+                              </Button>
+                            </div>
+                          </div>
+                          <div className="flex flex-wrap items-center gap-3">
+                            <Select
+                              value={item.frequency}
+                              onValueChange={(frequency) =>
+                                handleUpdateSavedSearch(item.id, { frequency: frequency as SavedSearchFrequency })
+                              }
+                            >
+                              <SelectTrigger className="w-[130px]">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="hourly">Hourly</SelectItem>
+                                <SelectItem value="daily">Daily</SelectItem>
+                                <SelectItem value="weekly">Weekly</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <Input
+                              type="number"
+                              min={0}
+                              placeholder="Alert below price"
+                              defaultValue={item.alert_below_price ?? ""}
+                              onBlur={(e) => {
+                                const value = e.target.value ? Number(e.target.value) : null
+                                if (value !== item.alert_below_price) {
+                                  handleUpdateSavedSearch(item.id, { alertBelowPrice: value })
+                                }
+                              }}
+                              className="w-[180px]"
+                            />
+                          </div>
                         </div>
                       ))}
                     </div>
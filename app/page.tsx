@@ -2,6 +2,7 @@ import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Sparkles, Search, TrendingDown, Zap, ShieldCheck, Globe } from "lucide-react"
+import HomeSearchForm from "@/components/search/home-search-form"
 
 export default function HomePage() {
   const features = [
@@ -84,6 +85,7 @@ export default function HomePage() {
             SaveAI analyzes thousands of stores in real-time to find you the lowest prices and best alternatives. Save
             money effortlessly with our intelligent price comparison platform.
           </p>
+          <HomeSearchForm />
           <div className="flex flex-col sm:flex-row items-center justify-center gap-4 pt-4">
             <Button asChild size="lg" className="w-full sm:w-auto">
               <Link href="/search">
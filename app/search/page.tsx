@@ -2,36 +2,64 @@
 
 import type React from "react"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef } from "react"
 import Link from "next/link"
 import { useRouter, useSearchParams } from "next/navigation"
 import { Button } from "@/components/ui/button"
-import { Input } from "@/components/ui/input"
 import { Card } from "@/components/ui/card"
-import { Sparkles, Search, ArrowLeft, Bookmark } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Sparkles, Search, ArrowLeft, Bookmark, RefreshCw, BellPlus } from "lucide-react"
 import ProductCard from "@/components/product-card"
 import AlternativeCard from "@/components/alternative-card"
+import LandedCostBreakdown from "@/components/landed-cost-breakdown"
 import Loading from "@/components/loading"
 import LiveAgentStep from "@/components/live-agent-step"
 import AdvancedFilters, { type FilterOptions } from "@/components/search/advanced-filters"
+import SearchSuggestions from "@/components/search/search-suggestions"
+import ReportStoreButton from "@/components/report-store-button"
+import OfferRiskBadge from "@/components/offer-risk-badge"
+import CouponCode from "@/components/coupon-code"
 import { useAuth } from "@/hooks/use-auth"
-import { apiClient, type SearchResponse, type Product } from "@/lib/api/client"
+import {
+  apiClient,
+  type InterpretedQuery,
+  type SearchEvent,
+  type SearchInputType,
+  type SearchResponse,
+  type StoreProfile,
+  type Product,
+  type SortOption,
+} from "@/lib/api/client"
 import { toast } from "sonner"
+import { formatPrice } from "@/lib/currency/format"
+import { comparePriceOf } from "@/lib/pricing"
+import { DEFAULT_FILTERS, MAX_PRICE_FILTER, SORT_LABELS, SORT_OPTIONS, hasActiveFilters } from "@/lib/search/filters"
+import { CONDITION_LABELS } from "@/lib/enrichment/taxonomy"
+import { isReinterpreted } from "@/lib/query/interpret"
 import { Badge } from "@/components/ui/badge"
 
 const analysisSteps = [
   { step: 1, label: "Analyzing product URL", status: "pending" as const },
-  { step: 2, label: "Scanning 1,000+ stores", status: "pending" as const },
+  { step: 2, label: "Scanning stores", status: "pending" as const },
   { step: 3, label: "Finding alternatives", status: "pending" as const },
   { step: 4, label: "Comparing prices", status: "pending" as const },
   { step: 5, label: "Generating results", status: "pending" as const },
 ]
 
-const defaultFilters: FilterOptions = {
-  categories: [],
-  brands: [],
-  priceRange: [0, 10000],
-  minRating: 0,
+interface StoreProgress {
+  completed: number
+  total: number
+  offers: number
+}
+
+const emptyProgress: StoreProgress = { completed: 0, total: 0, offers: 0 }
+
+// "just now", "5 min ago", "2 h ago"
+function timeAgo(iso: string): string {
+  const minutes = Math.floor((Date.now() - new Date(iso).getTime()) / 60000)
+  if (minutes < 1) return "just now"
+  if (minutes < 60) return `${minutes} min ago`
+  return `${Math.floor(minutes / 60)} h ago`
 }
 
 export default function SearchPage() {
@@ -43,10 +71,22 @@ export default function SearchPage() {
   const [isSearching, setIsSearching] = useState(false)
   const [hasSearched, setHasSearched] = useState(false)
   const [currentStep, setCurrentStep] = useState(0)
+  const [storeProgress, setStoreProgress] = useState<StoreProgress>(emptyProgress)
+  const [inputType, setInputType] = useState<SearchInputType>("keyword")
+  // What the server is actually searching for, when it reworded the query
+  const [interpretedQuery, setInterpretedQuery] = useState<InterpretedQuery | null>(null)
+  // Closes the open search stream, if any
+  const closeStreamRef = useRef<(() => void) | null>(null)
   const [searchResults, setSearchResults] = useState<SearchResponse | null>(null)
-  const [filteredResults, setFilteredResults] = useState<Product[]>([])
   const [error, setError] = useState<string | null>(null)
-  const [filters, setFilters] = useState<FilterOptions>(defaultFilters)
+  const [filters, setFilters] = useState<FilterOptions>(DEFAULT_FILTERS)
+  const [sort, setSort] = useState<SortOption>("relevance")
+  // Re-querying with new filters or sort, or fetching the next page
+  const [isRefining, setIsRefining] = useState(false)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  const [isSavingSearch, setIsSavingSearch] = useState(false)
+  // Likely scams are hidden from the alternatives unless the shopper asks to see them
+  const [showRiskyOffers, setShowRiskyOffers] = useState(false)
 
   // Check for query parameter on mount
   useEffect(() => {
@@ -60,48 +100,12 @@ export default function SearchPage() {
     }
   }, [searchParams, user])
 
-  // Apply filters when search results or filters change
+  // Cancel an in-flight search when leaving the page
   useEffect(() => {
-    if (searchResults) {
-      applyFilters()
-    }
-  }, [searchResults, filters])
-
-  const applyFilters = () => {
-    if (!searchResults) return
-
-    let filtered = [...searchResults.alternatives]
-
-    // Filter by categories (mock - in real app, products would have category field)
-    if (filters.categories.length > 0) {
-      // For demo purposes, we'll keep all products
-      // In production, filter based on product.category
-    }
-
-    // Filter by brands (mock - in real app, products would have brand field)
-    if (filters.brands.length > 0) {
-      // For demo purposes, we'll keep all products
-      // In production, filter based on product.brand
-    }
-
-    // Filter by price range
-    filtered = filtered.filter(
-      (product) =>
-        product.price >= filters.priceRange[0] &&
-        product.price <= filters.priceRange[1]
-    )
+    return () => closeStreamRef.current?.()
+  }, [])
 
-    // Filter by rating
-    if (filters.minRating > 0) {
-      filtered = filtered.filter(
-        (product) => (product.rating || 0) >= filters.minRating
-      )
-    }
-
-    setFilteredResults(filtered)
-  }
-
-  const handleSearch = async (e?: React.FormEvent, queryOverride?: string) => {
+  const handleSearch = (e?: React.FormEvent, queryOverride?: string) => {
     if (e) e.preventDefault()
     
     const query = queryOverride || searchQuery
@@ -114,37 +118,86 @@ export default function SearchPage() {
       return
     }
 
+    closeStreamRef.current?.()
     setIsSearching(true)
     setHasSearched(false)
     setCurrentStep(0)
+    setStoreProgress(emptyProgress)
+    setInterpretedQuery(null)
     setError(null)
     setSearchResults(null)
-    setFilters(defaultFilters) // Reset filters on new search
+    setFilters(DEFAULT_FILTERS) // Reset filters on new search
+    setSort("relevance")
 
-    try {
-      // Simulate AI analysis steps
-      for (let i = 0; i < analysisSteps.length; i++) {
-        setCurrentStep(i + 1)
-        await new Promise((resolve) => setTimeout(resolve, 600))
-      }
+    closeStreamRef.current = apiClient.searchStream(query, handleSearchEvent)
+  }
 
-      // Call real search API
-      const results = await apiClient.search(query)
-      
-      setSearchResults(results)
-      setHasSearched(true)
-      toast.success("Search completed successfully!")
-    } catch (err) {
-      console.error("Search error:", err)
-      setError(err instanceof Error ? err.message : "Failed to search. Please try again.")
-      toast.error("Search failed. Please try again.")
-      setHasSearched(false)
-    } finally {
-      setIsSearching(false)
-      setCurrentStep(0)
+  // Drive the live analysis steps from the server's progress events
+  const handleSearchEvent = (event: SearchEvent) => {
+    switch (event.type) {
+      case "started":
+        // Keyword searches have no URL or barcode to look up
+        setInputType(event.inputType)
+        setInterpretedQuery(event.interpretedQuery ?? null)
+        setCurrentStep(event.inputType === "keyword" ? 1 : 0)
+        setStoreProgress({ ...emptyProgress, total: event.storesTotal })
+        break
+      case "url_resolved":
+      case "gtin_resolved":
+        setCurrentStep(1)
+        break
+      case "store_queried":
+        setCurrentStep((step) => Math.max(step, 1))
+        setStoreProgress((progress) => ({
+          completed: event.completed,
+          total: event.total,
+          offers: progress.offers + event.products.length,
+        }))
+        break
+      case "store_failed":
+        setStoreProgress((progress) => ({ ...progress, completed: event.completed, total: event.total }))
+        break
+      case "alternatives_found":
+        setCurrentStep(3)
+        break
+      case "prices_compared":
+        setCurrentStep(4)
+        break
+      case "result":
+        closeStreamRef.current = null
+        setCurrentStep(analysisSteps.length)
+        setSearchResults(event.data)
+        // Constraints found in the query ("under $200") come back as filters the shopper can edit
+        setFilters(event.data.filters)
+        setSort(event.data.sort)
+        setHasSearched(true)
+        setIsSearching(false)
+        toast.success("Search completed successfully!")
+        break
+      case "search_error":
+        closeStreamRef.current = null
+        console.error("Search error:", event.error)
+        setError(event.error || "Failed to search. Please try again.")
+        toast.error("Search failed. Please try again.")
+        setHasSearched(false)
+        setIsSearching(false)
+        break
     }
   }
 
+  const stepLabel = (step: number, label: string) => {
+    if (step === 1 && inputType === "gtin") {
+      return "Looking up barcode"
+    }
+    if (step === 2 && storeProgress.total > 0) {
+      return `${label} (${storeProgress.completed}/${storeProgress.total})`
+    }
+    if (step === 3 && storeProgress.offers > 0) {
+      return `${label} (${storeProgress.offers} offers so far)`
+    }
+    return label
+  }
+
   const handleSaveProduct = async (product: Product) => {
     try {
       await apiClient.saveProduct({
@@ -154,6 +207,8 @@ export default function SearchPage() {
         productCurrency: product.currency,
         productImage: product.image,
         store: product.store,
+        productCondition: product.condition,
+        warranty: product.warranty,
       })
       toast.success("Product saved!")
     } catch (error) {
@@ -161,6 +216,28 @@ export default function SearchPage() {
     }
   }
 
+  // Following a cheaper offer goes into the savings ledger as pending until a purchase is logged
+  const handleBuyAlternative = (product: Product) => {
+    if (!user || !searchResults) return
+    // Compare prices share the response currency; without them the two prices can't be weighed
+    const originalPrice = searchResults.product.comparePrice
+    const paidPrice = product.comparePrice
+    if (originalPrice === undefined || paidPrice === undefined || paidPrice >= originalPrice) return
+
+    apiClient
+      .recordSavings({
+        source: "click",
+        productUrl: product.url,
+        productName: product.name,
+        store: product.store,
+        category: product.category,
+        currency: searchResults.currency,
+        originalPrice,
+        paidPrice,
+      })
+      .catch((error) => console.error("Failed to record savings:", error))
+  }
+
   const handleAddToCompare = (product: Product) => {
     const compareProducts = JSON.parse(localStorage.getItem("compareProducts") || "[]")
     
@@ -179,14 +256,104 @@ export default function SearchPage() {
     toast.success("Added to comparison")
   }
 
-  const handleApplyFilters = (newFilters: FilterOptions) => {
+  // Pin the query with its current filters so it is re-run daily and new deals trigger notifications
+  const handleSaveSearch = async () => {
+    if (!searchResults) return
+
+    setIsSavingSearch(true)
+    try {
+      await apiClient.createSavedSearch({
+        query: searchResults.query,
+        filters,
+        sort,
+        currency: searchResults.currency,
+      })
+      toast.success("Search saved. We'll check it daily and notify you about new deals.")
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save search")
+    } finally {
+      setIsSavingSearch(false)
+    }
+  }
+
+  // Filtering and sorting happen on the server, so re-run the search with the new choices
+  const refineResults = async (
+    newFilters: FilterOptions,
+    newSort: SortOption,
+    message?: string,
+    refresh = false
+  ) => {
+    if (!searchResults) return
+
     setFilters(newFilters)
-    toast.success("Filters applied")
+    setSort(newSort)
+    setIsRefining(true)
+    try {
+      const results = await apiClient.search(searchResults.query, {
+        currency: searchResults.currency,
+        filters: newFilters,
+        sort: newSort,
+        refresh,
+      })
+      setSearchResults(results)
+      if (message) toast.success(message)
+    } catch (error) {
+      console.error("Refine search error:", error)
+      toast.error("Failed to update results")
+    } finally {
+      setIsRefining(false)
+    }
+  }
+
+  const handleLoadMore = async () => {
+    if (!searchResults?.pageInfo.nextCursor) return
+
+    setIsLoadingMore(true)
+    try {
+      const nextPage = await apiClient.search(searchResults.query, {
+        currency: searchResults.currency,
+        filters,
+        sort,
+        cursor: searchResults.pageInfo.nextCursor,
+      })
+      setSearchResults((current) =>
+        current && {
+          ...current,
+          alternatives: [...current.alternatives, ...nextPage.alternatives],
+          pageInfo: nextPage.pageInfo,
+          stores: { ...current.stores, ...nextPage.stores },
+        }
+      )
+    } catch (error) {
+      console.error("Load more error:", error)
+      toast.error("Failed to load more results")
+    } finally {
+      setIsLoadingMore(false)
+    }
+  }
+
+  // A report can push a store into low trust, so show its new standing straight away
+  const handleStoreReported = (store: StoreProfile) => {
+    setSearchResults((current) => current && { ...current, stores: { ...current.stores, [store.id]: store } })
+  }
+
+  const storeTrustOf = (product: Product) =>
+    product.storeId ? searchResults?.stores[product.storeId]?.trust : undefined
+
+  const handleApplyFilters = (newFilters: FilterOptions) => {
+    refineResults(newFilters, sort, "Filters applied")
   }
 
   const handleClearFilters = () => {
-    setFilters(defaultFilters)
-    toast.success("Filters cleared")
+    refineResults(DEFAULT_FILTERS, sort, "Filters cleared")
+  }
+
+  const handleSortChange = (value: string) => {
+    refineResults(filters, value as SortOption)
+  }
+
+  const handleRefreshPrices = () => {
+    refineResults(filters, sort, "Prices refreshed", true)
   }
 
   const handleSignOut = async () => {
@@ -207,7 +374,12 @@ export default function SearchPage() {
     )
   }
 
-  const displayResults = filteredResults.length > 0 ? filteredResults : searchResults?.alternatives || []
+  const alternatives = searchResults?.alternatives || []
+  const riskyResults = alternatives.filter((product) => product.risk?.level === "high")
+  const displayResults = showRiskyOffers ? alternatives : alternatives.filter((product) => product.risk?.level !== "high")
+  // Other stores selling the exact product that was searched
+  const sameProductOffers =
+    searchResults?.offers[0]?.offers.filter((offer) => offer.id !== searchResults.product.id) || []
 
   return (
     <div className="min-h-screen bg-background">
@@ -254,12 +426,13 @@ export default function SearchPage() {
           </div>
 
           <form onSubmit={handleSearch} className="flex gap-2">
-            <Input
-              type="text"
-              placeholder="Paste product URL or enter keyword..."
+            <SearchSuggestions
+              placeholder="Paste product URL, barcode or enter keyword..."
               value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              className="flex-1 h-12 text-base"
+              onValueChange={setSearchQuery}
+              onSelect={(query) => handleSearch(undefined, query)}
+              className="flex-1"
+              inputClassName="h-12 text-base"
               disabled={isSearching}
             />
             <Button type="submit" size="lg" disabled={isSearching || !user}>
@@ -283,12 +456,17 @@ export default function SearchPage() {
                 <Loading />
                 <h3 className="text-lg font-semibold">AI Analysis in Progress</h3>
               </div>
+              {interpretedQuery && isReinterpreted(interpretedQuery) && (
+                <p className="text-sm text-muted-foreground">
+                  Searching for <span className="font-medium text-foreground">“{interpretedQuery.text}”</span>
+                </p>
+              )}
               <div className="space-y-3">
                 {analysisSteps.map((stepData, index) => (
                   <LiveAgentStep
                     key={index}
                     step={stepData.step}
-                    label={stepData.label}
+                    label={stepLabel(stepData.step, stepData.label)}
                     status={index < currentStep ? "complete" : index === currentStep ? "active" : "pending"}
                   />
                 ))}
@@ -313,14 +491,52 @@ export default function SearchPage() {
         {/* Results Section */}
         {hasSearched && !isSearching && searchResults && (
           <div className="space-y-8">
+            {searchResults.notice && <p className="text-sm text-muted-foreground">{searchResults.notice}</p>}
+
+            {/* How the query was read */}
+            {searchResults.interpretedQuery && isReinterpreted(searchResults.interpretedQuery) && (
+              <p className="text-sm text-muted-foreground">
+                Showing results for{" "}
+                <span className="font-medium text-foreground">“{searchResults.interpretedQuery.text}”</span>
+                {searchResults.interpretedQuery.corrections.length > 0 && (
+                  <>
+                    {" "}
+                    (corrected from{" "}
+                    {searchResults.interpretedQuery.corrections.map((correction) => `“${correction.from}”`).join(", ")})
+                  </>
+                )}
+                {searchResults.interpretedQuery.expansions.length > 0 && (
+                  <> · also searched {searchResults.interpretedQuery.expansions.map((phrase) => `“${phrase}”`).join(", ")}</>
+                )}
+              </p>
+            )}
+
             {/* Filters and Actions Bar */}
             <div className="flex items-center justify-between">
               <AdvancedFilters
                 onApplyFilters={handleApplyFilters}
                 onClearFilters={handleClearFilters}
                 activeFilters={filters}
+                currency={searchResults.currency}
+                facets={searchResults.facets}
               />
               <div className="flex items-center gap-2">
+                <Select value={sort} onValueChange={handleSortChange} disabled={isRefining}>
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SORT_OPTIONS.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {SORT_LABELS[option]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" size="sm" onClick={handleSaveSearch} disabled={isSavingSearch}>
+                  <BellPlus className="mr-2 size-4" />
+                  Save Search
+                </Button>
                 <Button variant="outline" size="sm" asChild>
                   <Link href="/compare">
                     View Comparison ({JSON.parse(localStorage.getItem("compareProducts") || "[]").length})
@@ -330,9 +546,7 @@ export default function SearchPage() {
             </div>
 
             {/* Active Filters Display */}
-            {(filters.categories.length > 0 || filters.brands.length > 0 || 
-              filters.priceRange[0] > 0 || filters.priceRange[1] < 10000 || 
-              filters.minRating > 0) && (
+            {hasActiveFilters(filters) && (
               <div className="flex flex-wrap gap-2">
                 {filters.categories.map((cat) => (
                   <Badge key={cat} variant="secondary">
@@ -344,9 +558,15 @@ export default function SearchPage() {
                     {brand}
                   </Badge>
                 ))}
-                {(filters.priceRange[0] > 0 || filters.priceRange[1] < 10000) && (
+                {filters.conditions.map((condition) => (
+                  <Badge key={condition} variant="secondary">
+                    {CONDITION_LABELS[condition]}
+                  </Badge>
+                ))}
+                {(filters.priceRange[0] > 0 || filters.priceRange[1] < MAX_PRICE_FILTER) && (
                   <Badge variant="secondary">
-                    ${filters.priceRange[0]} - ${filters.priceRange[1]}
+                    {formatPrice(filters.priceRange[0], searchResults.currency)} -{" "}
+                    {formatPrice(filters.priceRange[1], searchResults.currency)}
                   </Badge>
                 )}
                 {filters.minRating > 0 && (
@@ -354,9 +574,33 @@ export default function SearchPage() {
                     {filters.minRating}⭐ & above
                   </Badge>
                 )}
+                {filters.maxUnitPrice > 0 && (
+                  <Badge variant="secondary">
+                    ≤ {formatPrice(filters.maxUnitPrice, searchResults.currency)} per unit
+                  </Badge>
+                )}
+              </div>
+            )}
+
+            {(searchResults.cache.status === "hit" || searchResults.cache.status === "stale") && (
+              <div className="flex items-center gap-3 text-sm text-muted-foreground">
+                <span>
+                  Prices checked {timeAgo(searchResults.cache.storedAt)}
+                  {searchResults.cache.status === "stale" && " · updating in the background"}
+                </span>
+                <Button variant="ghost" size="sm" onClick={handleRefreshPrices} disabled={isRefining}>
+                  <RefreshCw className={`mr-2 size-4 ${isRefining ? "animate-spin" : ""}`} />
+                  Refresh prices
+                </Button>
               </div>
             )}
 
+            {searchResults.failedStores.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                Some stores did not respond in time ({searchResults.failedStores.join(", ")}). Results may be incomplete.
+              </p>
+            )}
+
             {/* Original Product */}
             <div>
               <h2 className="text-2xl font-bold mb-4">Original Product</h2>
@@ -364,10 +608,16 @@ export default function SearchPage() {
                 <ProductCard
                   productName={searchResults.product.name}
                   price={searchResults.product.price}
+                  currency={searchResults.product.currency}
+                  comparePrice={searchResults.product.comparePrice}
+                  compareCurrency={searchResults.product.compareCurrency}
                   store={searchResults.product.store}
+                  storeTrust={storeTrustOf(searchResults.product)}
                   imageURL={searchResults.product.image || "/placeholder.jpg"}
                   affiliateLink={searchResults.product.url}
+                  coupon={searchResults.product.coupon}
                 />
+                <LandedCostBreakdown product={searchResults.product} className="mt-3" />
                 <div className="flex gap-2 mt-3">
                   <Button
                     variant="outline"
@@ -384,7 +634,32 @@ export default function SearchPage() {
                   >
                     Add to Compare
                   </Button>
+                  {searchResults.product.storeId && (
+                    <ReportStoreButton
+                      storeId={searchResults.product.storeId}
+                      storeName={searchResults.product.store}
+                      onReported={handleStoreReported}
+                    />
+                  )}
                 </div>
+                {sameProductOffers.length > 0 && (
+                  <div className="mt-4">
+                    <p className="text-sm font-semibold mb-2">Also available at</p>
+                    <ul className="space-y-1">
+                      {sameProductOffers.map((offer) => (
+                        <li key={offer.id} className="flex items-center justify-between text-sm">
+                          <span className="flex items-center gap-2">
+                            <a href={offer.url} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                              {offer.store}
+                            </a>
+                            <OfferRiskBadge risk={offer.risk} />
+                          </span>
+                          <span className="font-medium">{formatPrice(offer.landedPrice ?? offer.price, offer.currency)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
               </div>
             </div>
 
@@ -393,18 +668,31 @@ export default function SearchPage() {
               <div>
                 <div className="flex items-center justify-between mb-4">
                   <h2 className="text-2xl font-bold">Better Deals Found</h2>
-                  <p className="text-muted-foreground">Showing {displayResults.length} alternatives</p>
+                  <p className="text-muted-foreground">
+                    Showing {displayResults.length} of {searchResults.pageInfo.total} alternatives · totals include shipping and estimated taxes to{" "}
+                    {searchResults.destination.country}
+                  </p>
                 </div>
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
                   {displayResults.map((product, index) => (
-                    <div key={product.id || index}>
+                    <div key={`${product.store}-${product.id || index}`}>
                       <AlternativeCard
                         productName={product.name}
                         price={product.price}
+                        currency={product.currency}
+                        comparePrice={product.comparePrice}
+                        compareCurrency={product.compareCurrency}
                         store={product.store}
+                        storeTrust={storeTrustOf(product)}
                         imageURL={product.image || "/placeholder.jpg"}
                         affiliateLink={product.url}
+                        condition={product.condition}
+                        warranty={product.warranty}
+                        risk={product.risk}
+                        coupon={product.coupon}
+                        onBuy={() => handleBuyAlternative(product)}
                       />
+                      <LandedCostBreakdown product={product} className="mt-3" />
                       <div className="flex gap-2 mt-3">
                         <Button
                           variant="outline"
@@ -422,14 +710,43 @@ export default function SearchPage() {
                         >
                           Compare
                         </Button>
+                        {product.storeId && (
+                          <ReportStoreButton
+                            storeId={product.storeId}
+                            storeName={product.store}
+                            onReported={handleStoreReported}
+                          />
+                        )}
                       </div>
                     </div>
                   ))}
                 </div>
+                {searchResults.pageInfo.nextCursor && (
+                  <div className="flex justify-center mt-6">
+                    <Button variant="outline" onClick={handleLoadMore} disabled={isLoadingMore}>
+                      {isLoadingMore ? "Loading..." : "Load more"}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {riskyResults.length > 0 && (
+              <div className="flex items-center gap-3 text-sm text-muted-foreground">
+                <span>
+                  {showRiskyOffers
+                    ? `Showing ${riskyResults.length} offer${riskyResults.length === 1 ? "" : "s"} that look too good to be true.`
+                    : `${riskyResults.length} offer${riskyResults.length === 1 ? " was" : "s were"} hidden because ${
+                        riskyResults.length === 1 ? "it looks" : "they look"
+                      } too good to be true.`}
+                </span>
+                <Button variant="ghost" size="sm" onClick={() => setShowRiskyOffers(!showRiskyOffers)}>
+                  {showRiskyOffers ? "Hide them" : "Show anyway"}
+                </Button>
               </div>
             )}
 
-            {displayResults.length === 0 && searchResults.alternatives.length > 0 && (
+            {displayResults.length === 0 && hasActiveFilters(filters) && (
               <Card className="p-6 text-center">
                 <p className="text-muted-foreground">No products match your filters. Try adjusting them.</p>
                 <Button onClick={handleClearFilters} variant="outline" className="mt-4">
@@ -444,21 +761,57 @@ export default function SearchPage() {
                 <div>
                   <h3 className="text-xl font-bold mb-2">Best Deal Found!</h3>
                   <p className="text-muted-foreground">
-                    {searchResults.cheapest.price < searchResults.product.price ? (
+                    {comparePriceOf(searchResults.cheapest) < comparePriceOf(searchResults.product) ? (
                       <>
-                        Save ${(searchResults.product.price - searchResults.cheapest.price).toFixed(2)} by purchasing from{" "}
+                        Save{" "}
+                        {formatPrice(
+                          comparePriceOf(searchResults.product) - comparePriceOf(searchResults.cheapest),
+                          searchResults.currency
+                        )}{" "}
+                        by purchasing from{" "}
                         {searchResults.cheapest.store}
                       </>
                     ) : (
                       <>Cheapest option available at {searchResults.cheapest.store}</>
                     )}
                   </p>
+                  {searchResults.suspectedCheapest && (
+                    <p className="text-sm text-muted-foreground mt-1">
+                      We skipped {searchResults.suspectedCheapest.store} at{" "}
+                      {formatPrice(comparePriceOf(searchResults.suspectedCheapest), searchResults.currency)}:{" "}
+                      {searchResults.suspectedCheapest.risk?.reasons.join(", ").toLowerCase()}.
+                    </p>
+                  )}
+                  {storeTrustOf(searchResults.cheapest)?.level === "low" && (
+                    <p className="text-sm text-destructive mt-1">
+                      {searchResults.cheapest.store} has a low trust score (
+                      {storeTrustOf(searchResults.cheapest)!.reasons.join(", ").toLowerCase()}). Check the store before
+                      you buy.
+                    </p>
+                  )}
+                  {searchResults.cheapestNew && (searchResults.cheapest.condition ?? "new") !== "new" && (
+                    <p className="text-sm text-muted-foreground mt-1">
+                      That offer is {CONDITION_LABELS[searchResults.cheapest.condition ?? "new"].toLowerCase()}. Cheapest
+                      new: {formatPrice(comparePriceOf(searchResults.cheapestNew), searchResults.currency)} at{" "}
+                      {searchResults.cheapestNew.store} (
+                      {formatPrice(
+                        comparePriceOf(searchResults.cheapestNew) - comparePriceOf(searchResults.cheapest),
+                        searchResults.currency
+                      )}{" "}
+                      more)
+                    </p>
+                  )}
+                </div>
+                <div className="flex flex-col gap-2">
+                  {searchResults.cheapest.coupon && (
+                    <CouponCode coupon={searchResults.cheapest.coupon} currency={searchResults.cheapest.currency} />
+                  )}
+                  <Button size="lg" asChild>
+                    <a href={searchResults.cheapest.url} target="_blank" rel="noopener noreferrer">
+                      Buy Cheapest - {formatPrice(searchResults.cheapest.price, searchResults.cheapest.currency)}
+                    </a>
+                  </Button>
                 </div>
-                <Button size="lg" asChild>
-                  <a href={searchResults.cheapest.url} target="_blank" rel="noopener noreferrer">
-                    Buy Cheapest - ${searchResults.cheapest.price}
-                  </a>
-                </Button>
               </div>
             </Card>
           </div>
@@ -472,7 +825,7 @@ export default function SearchPage() {
             </div>
             <h3 className="text-xl font-semibold mb-2">Start Your Search</h3>
             <p className="text-muted-foreground max-w-md mx-auto">
-              Enter a product URL or keyword above to find the best prices across thousands of stores
+              Enter a product URL, barcode or keyword above to find the best prices across thousands of stores
             </p>
           </div>
         )}
@@ -8,8 +8,11 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Sparkles, TrendingDown } from "lucide-react"
 import { apiClient, type SharedComparison } from "@/lib/api/client"
 import { toast } from "sonner"
+import { formatPrice } from "@/lib/currency/format"
+import { pickCheapest } from "@/lib/pricing"
 import Image from "next/image"
 import { Badge } from "@/components/ui/badge"
+import LandedCostBreakdown from "@/components/landed-cost-breakdown"
 import {
   Table,
   TableBody,
@@ -48,9 +51,7 @@ export default function SharedComparisonPage() {
 
   const getBestValue = () => {
     if (!comparison || comparison.products.length === 0) return null
-    return comparison.products.reduce((best, current) => 
-      current.price < best.price ? current : best
-    )
+    return pickCheapest(comparison.products)
   }
 
   const bestValue = getBestValue()
@@ -123,7 +124,7 @@ export default function SharedComparisonPage() {
                   <TrendingDown className="size-5 text-primary" />
                   <span className="font-semibold">Best Value:</span>
                   <span>{bestValue.name}</span>
-                  <span className="text-primary font-bold">${bestValue.price.toFixed(2)}</span>
+                  <span className="text-primary font-bold">{formatPrice(bestValue.landedPrice ?? bestValue.price, bestValue.currency)}</span>
                   <span className="text-muted-foreground">at {bestValue.store}</span>
                 </div>
               </CardContent>
@@ -194,8 +195,15 @@ export default function SharedComparisonPage() {
                       {comparison.products.map((product) => (
                         <TableCell key={product.id} className="text-center">
                           <p className={`text-xl font-bold ${product.id === bestValue?.id ? 'text-primary' : ''}`}>
-                            ${product.price.toFixed(2)}
+                            {formatPrice(product.price, product.currency)}
                           </p>
+                          {product.comparePrice !== undefined &&
+                            product.compareCurrency &&
+                            product.compareCurrency !== product.currency && (
+                              <p className="text-sm text-muted-foreground">
+                                ≈ {formatPrice(product.comparePrice, product.compareCurrency)}
+                              </p>
+                            )}
                           {product.id === bestValue?.id && (
                             <Badge variant="default" className="mt-1">Best Price</Badge>
                           )}
@@ -203,6 +211,16 @@ export default function SharedComparisonPage() {
                       ))}
                     </TableRow>
 
+                    {/* Total Landed Cost */}
+                    <TableRow>
+                      <TableCell className="font-medium">Total Cost</TableCell>
+                      {comparison.products.map((product) => (
+                        <TableCell key={product.id}>
+                          <LandedCostBreakdown product={product} className="max-w-[200px] mx-auto" />
+                        </TableCell>
+                      ))}
+                    </TableRow>
+
                     {/* Rating */}
                     <TableRow>
                       <TableCell className="font-medium">Rating</TableCell>
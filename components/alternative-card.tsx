@@ -2,30 +2,74 @@ import { Card, CardContent, CardFooter } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import Image from "next/image"
 import BuyButton from "./buy-button"
+import CouponCode from "./coupon-code"
+import StoreTrustBadge from "./store-trust-badge"
+import OfferRiskBadge from "./offer-risk-badge"
+import { formatPrice } from "@/lib/currency/format"
+import { CONDITION_LABELS } from "@/lib/enrichment/taxonomy"
+import { formatWarranty } from "@/lib/enrichment/warranty"
+import type { OfferCoupon, OfferRisk, ProductCondition, StoreTrust, Warranty } from "@/lib/api/client"
 
 interface AlternativeCardProps {
   productName: string
   price: number
+  currency?: string
+  // Price in the shopper's currency, shown when it differs from the listing currency
+  comparePrice?: number
+  compareCurrency?: string
   store: string
+  storeTrust?: StoreTrust
   imageURL: string
   affiliateLink: string
+  // Best promo code for the offer, shown next to the buy button
+  coupon?: OfferCoupon
+  condition?: ProductCondition
+  warranty?: Warranty
+  risk?: OfferRisk
+  // Called when the shopper follows the buy link
+  onBuy?: () => void
 }
 
-export default function AlternativeCard({ productName, price, store, imageURL, affiliateLink }: AlternativeCardProps) {
+export default function AlternativeCard({
+  productName,
+  price,
+  currency = "USD",
+  comparePrice,
+  compareCurrency,
+  store,
+  storeTrust,
+  imageURL,
+  affiliateLink,
+  coupon,
+  condition,
+  warranty,
+  risk,
+  onBuy,
+}: AlternativeCardProps) {
   return (
     <Card className="overflow-hidden hover:border-primary/50 transition-colors h-full flex flex-col">
       <div className="relative aspect-square bg-muted">
         <Image src={imageURL || "/placeholder.svg"} alt={productName} fill className="object-cover" />
       </div>
       <CardContent className="p-4 flex-1">
-        <Badge variant="outline" className="mb-2 border-primary/50 text-primary">
-          {store}
-        </Badge>
+        <div className="flex flex-wrap gap-2 mb-2">
+          <Badge variant="outline" className="border-primary/50 text-primary">
+            {store}
+          </Badge>
+          {condition && condition !== "new" && <Badge variant="secondary">{CONDITION_LABELS[condition]}</Badge>}
+          <StoreTrustBadge trust={storeTrust} />
+          <OfferRiskBadge risk={risk} />
+        </div>
         <h3 className="font-semibold mb-2 line-clamp-2">{productName}</h3>
-        <p className="text-xl font-bold text-primary">${price.toFixed(2)}</p>
+        <p className="text-xl font-bold text-primary">{formatPrice(price, currency)}</p>
+        {comparePrice !== undefined && compareCurrency && compareCurrency !== currency && (
+          <p className="text-sm text-muted-foreground">≈ {formatPrice(comparePrice, compareCurrency)}</p>
+        )}
+        {warranty && <p className="text-xs text-muted-foreground mt-1">{formatWarranty(warranty)}</p>}
       </CardContent>
-      <CardFooter className="p-4 pt-0">
-        <BuyButton affiliateLink={affiliateLink} />
+      <CardFooter className="p-4 pt-0 flex-col gap-2">
+        {coupon && <CouponCode coupon={coupon} currency={currency} className="w-full" />}
+        <BuyButton affiliateLink={affiliateLink} onClick={onBuy} />
       </CardFooter>
     </Card>
   )
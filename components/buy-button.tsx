@@ -3,12 +3,13 @@ import { ExternalLink } from "lucide-react"
 
 interface BuyButtonProps {
   affiliateLink: string
+  onClick?: () => void
 }
 
-export default function BuyButton({ affiliateLink }: BuyButtonProps) {
+export default function BuyButton({ affiliateLink, onClick }: BuyButtonProps) {
   return (
     <Button asChild className="w-full" size="lg">
-      <a href={affiliateLink} target="_blank" rel="noopener noreferrer">
+      <a href={affiliateLink} target="_blank" rel="noopener noreferrer" onClick={onClick}>
         Buy Now
         <ExternalLink className="ml-2 size-4" />
       </a>
@@ -0,0 +1,77 @@
+import { ExternalLink, Truck } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { formatPrice } from "@/lib/currency/format"
+import type { CartPlan } from "@/lib/api/client"
+
+interface CartPlanViewProps {
+  plan: CartPlan
+  // Saved product names, to list the items no store sells
+  productNames: Record<string, string>
+}
+
+export default function CartPlanView({ plan, productNames }: CartPlanViewProps) {
+  const { currency } = plan
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <div>
+          <p className="text-2xl font-bold text-primary">{formatPrice(plan.total, currency)}</p>
+          <p className="text-sm text-muted-foreground">
+            {formatPrice(plan.itemsTotal, currency)} items + {formatPrice(plan.shippingTotal, currency)} shipping
+            across{" "}
+            {plan.orders.length} {plan.orders.length === 1 ? "store" : "stores"}
+          </p>
+        </div>
+        {plan.savings !== undefined && plan.savings > 0 && (
+          <Badge variant="secondary">
+            Saves {formatPrice(plan.savings, currency)} over buying where you saved each item
+          </Badge>
+        )}
+      </div>
+
+      {plan.orders.map((order) => (
+        <div key={order.storeId} className="border border-border rounded-lg p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold">{order.store}</h3>
+            <span className="font-semibold">{formatPrice(order.total, currency)}</span>
+          </div>
+          <ul className="space-y-2">
+            {order.lines.map((line) => (
+              <li key={line.itemId} className="flex items-center gap-3 text-sm">
+                <span className="flex-1 min-w-0 line-clamp-1">
+                  {line.quantity > 1 && `${line.quantity} × `}
+                  {line.name}
+                </span>
+                <span>{formatPrice(line.lineTotal, currency)}</span>
+                <Button variant="outline" size="sm" asChild>
+                  <a href={line.affiliateUrl ?? line.offer.url} target="_blank" rel="noopener noreferrer">
+                    Buy
+                    <ExternalLink className="ml-1 size-3" />
+                  </a>
+                </Button>
+              </li>
+            ))}
+          </ul>
+          <p className="flex items-center gap-1 text-xs text-muted-foreground">
+            <Truck className="size-3" />
+            {!order.shippingKnown
+              ? "Shipping not quoted"
+              : order.shipping === 0
+                ? "Free shipping"
+                : `${formatPrice(order.shipping, currency)} shipping`}
+            {order.freeShippingGap !== undefined &&
+              ` · add ${formatPrice(order.freeShippingGap, currency)} for free shipping`}
+          </p>
+        </div>
+      ))}
+
+      {plan.unavailable.length > 0 && (
+        <p className="text-sm text-muted-foreground">
+          No store currently sells: {plan.unavailable.map((id) => productNames[id] ?? id).join(", ")}
+        </p>
+      )}
+    </div>
+  )
+}
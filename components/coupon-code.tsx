@@ -0,0 +1,51 @@
+"use client"
+
+import { useState } from "react"
+import { Check, Copy, TicketPercent } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import { formatPrice } from "@/lib/currency/format"
+import type { OfferCoupon } from "@/lib/api/client"
+
+interface CouponCodeProps {
+  coupon: OfferCoupon
+  // Listing currency the savings are in
+  currency: string
+  className?: string
+}
+
+// How long the copied tick stays before the copy icon comes back
+const COPIED_RESET_MS = 2000
+
+export default function CouponCode({ coupon, currency, className }: CouponCodeProps) {
+  const [copied, setCopied] = useState(false)
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(coupon.code)
+      setCopied(true)
+      toast.success(`Copied ${coupon.code}`)
+      setTimeout(() => setCopied(false), COPIED_RESET_MS)
+    } catch {
+      toast.error("Couldn't copy the code")
+    }
+  }
+
+  return (
+    <div className={cn("flex items-center justify-between gap-2 rounded-md border border-dashed p-2 text-sm", className)}>
+      <div className="min-w-0">
+        <p className="flex items-center gap-1 font-medium">
+          <TicketPercent className="size-4 text-primary" />
+          Save {formatPrice(coupon.savings, currency)}
+          {coupon.firstOrderOnly && <span className="text-muted-foreground font-normal">· first order</span>}
+        </p>
+        {coupon.description && <p className="text-xs text-muted-foreground truncate">{coupon.description}</p>}
+      </div>
+      <Button variant="outline" size="sm" onClick={handleCopy} title="Copy code" className="font-mono">
+        {coupon.code}
+        {copied ? <Check className="size-4" /> : <Copy className="size-4" />}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,88 @@
+import { Truck } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { formatPrice } from "@/lib/currency/format"
+import { formatUnitPrice } from "@/lib/units/format"
+import type { Product } from "@/lib/api/client"
+
+type LandedCostFields = Pick<
+  Product,
+  | "price"
+  | "shippingCost"
+  | "estimatedTax"
+  | "importDuty"
+  | "landedPrice"
+  | "coupon"
+  | "effectivePrice"
+  | "deliveryEta"
+  | "unitPrice"
+  | "unitPriceUnit"
+  | "compareCurrency"
+> & { currency?: string }
+
+interface LandedCostBreakdownProps {
+  product: LandedCostFields
+  className?: string
+}
+
+export function formatDeliveryEta(eta: Product["deliveryEta"]): string | null {
+  if (!eta) return null
+  return eta.minDays === eta.maxDays ? `${eta.minDays} days` : `${eta.minDays}–${eta.maxDays} days`
+}
+
+export default function LandedCostBreakdown({ product, className }: LandedCostBreakdownProps) {
+  const currency = product.currency
+  const eta = formatDeliveryEta(product.deliveryEta)
+
+  return (
+    <dl className={cn("space-y-1 text-sm", className)}>
+      <div className="flex justify-between">
+        <dt className="text-muted-foreground">Item</dt>
+        <dd>{formatPrice(product.price, currency)}</dd>
+      </div>
+      <div className="flex justify-between">
+        <dt className="text-muted-foreground">Shipping</dt>
+        <dd>
+          {product.shippingCost === undefined
+            ? "Not quoted"
+            : product.shippingCost === 0
+              ? "Free"
+              : formatPrice(product.shippingCost, currency)}
+        </dd>
+      </div>
+      {product.estimatedTax !== undefined && product.estimatedTax > 0 && (
+        <div className="flex justify-between">
+          <dt className="text-muted-foreground">Est. tax</dt>
+          <dd>{formatPrice(product.estimatedTax, currency)}</dd>
+        </div>
+      )}
+      {product.importDuty !== undefined && product.importDuty > 0 && (
+        <div className="flex justify-between">
+          <dt className="text-muted-foreground">Import duty</dt>
+          <dd>{formatPrice(product.importDuty, currency)}</dd>
+        </div>
+      )}
+      {product.coupon && !product.coupon.firstOrderOnly && (
+        <div className="flex justify-between text-primary">
+          <dt>Code {product.coupon.code}</dt>
+          <dd>−{formatPrice(product.coupon.savings, currency)}</dd>
+        </div>
+      )}
+      <div className="flex justify-between border-t border-border pt-1 font-semibold">
+        <dt>Total</dt>
+        <dd>{formatPrice(product.effectivePrice ?? product.landedPrice ?? product.price, currency)}</dd>
+      </div>
+      {product.unitPrice !== undefined && product.unitPriceUnit && (
+        <div className="flex justify-between text-muted-foreground">
+          <dt>Unit price</dt>
+          <dd>{formatUnitPrice(product.unitPrice, product.unitPriceUnit, product.compareCurrency ?? currency)}</dd>
+        </div>
+      )}
+      {eta && (
+        <div className="flex items-center gap-1 text-muted-foreground">
+          <Truck className="size-3" />
+          <span>Arrives in {eta}</span>
+        </div>
+      )}
+    </dl>
+  )
+}
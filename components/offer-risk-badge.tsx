@@ -0,0 +1,24 @@
+import { TriangleAlert } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import type { OfferRisk } from "@/lib/api/client"
+
+interface OfferRiskBadgeProps {
+  risk?: OfferRisk
+  className?: string
+}
+
+// Flags offers that look too good to be true; renders nothing for low-risk offers
+export default function OfferRiskBadge({ risk, className }: OfferRiskBadgeProps) {
+  if (!risk || risk.level === "low") return null
+
+  return (
+    <Badge
+      variant={risk.level === "high" ? "destructive" : "outline"}
+      className={className}
+      title={risk.reasons.join(" · ")}
+    >
+      <TriangleAlert />
+      {risk.level === "high" ? "Likely scam" : "Check this offer"}
+    </Badge>
+  )
+}
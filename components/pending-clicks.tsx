@@ -0,0 +1,66 @@
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { formatPrice } from "@/lib/currency/format"
+import type { SavingsEntry } from "@/lib/api/client"
+
+interface PendingClicksProps {
+  clicks: SavingsEntry[]
+  // Blank paidPrice means it was bought at the clicked price
+  onConfirm: (click: SavingsEntry, paidPrice?: number) => void
+  onDismiss: (click: SavingsEntry) => void
+}
+
+export default function PendingClicks({ clicks, onConfirm, onDismiss }: PendingClicksProps) {
+  // Price typed in per click, when it differs from the one clicked through to
+  const [paidPrices, setPaidPrices] = useState<Record<string, string>>({})
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle>Did you buy these?</CardTitle>
+        <CardDescription>
+          Offers you clicked through to only count as savings once you confirm buying them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {clicks.map((click) => (
+          <div key={click.id} className="flex flex-wrap items-center gap-2 text-sm">
+            <div className="flex-1 min-w-0">
+              {click.product_url ? (
+                <a href={click.product_url} target="_blank" rel="noopener noreferrer" className="font-medium hover:underline">
+                  {click.product_name}
+                </a>
+              ) : (
+                <span className="font-medium">{click.product_name}</span>
+              )}
+              <p className="text-xs text-muted-foreground">
+                {click.store} · {formatPrice(click.paid_price, click.currency)} instead of{" "}
+                {formatPrice(click.original_price, click.currency)}
+              </p>
+            </div>
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder={String(click.paid_price)}
+              value={paidPrices[click.id] ?? ""}
+              onChange={(e) => setPaidPrices((prev) => ({ ...prev, [click.id]: e.target.value }))}
+              className="h-8 w-28"
+            />
+            <Button
+              size="sm"
+              onClick={() => onConfirm(click, paidPrices[click.id] ? Number(paidPrices[click.id]) : undefined)}
+            >
+              Bought it
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => onDismiss(click)}>
+              Didn&apos;t buy
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
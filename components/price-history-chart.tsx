@@ -0,0 +1,173 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts"
+import { Button } from "@/components/ui/button"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import { formatPrice } from "@/lib/currency/format"
+import { apiClient, type PriceHistory, type PriceHistoryRange } from "@/lib/api/client"
+import { cn } from "@/lib/utils"
+
+interface PriceHistoryChartProps {
+  // The saved product to chart, by id or by its listing URL
+  savedProductId?: string
+  productUrl?: string
+  className?: string
+}
+
+const RANGES: { value: PriceHistoryRange; label: string }[] = [
+  { value: "7d", label: "7D" },
+  { value: "30d", label: "30D" },
+  { value: "90d", label: "90D" },
+  { value: "1y", label: "1Y" },
+  { value: "all", label: "All" },
+]
+
+const chartConfig = {
+  price: { label: "Price", color: "var(--chart-1)" },
+} satisfies ChartConfig
+
+function formatDate(at: string | number) {
+  return new Date(at).toLocaleDateString(undefined, { month: "short", day: "numeric" })
+}
+
+export default function PriceHistoryChart({ savedProductId, productUrl, className }: PriceHistoryChartProps) {
+  const [range, setRange] = useState<PriceHistoryRange>("90d")
+  const [history, setHistory] = useState<PriceHistory | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  useEffect(() => {
+    const product = savedProductId ? { savedProductId } : productUrl ? { url: productUrl } : null
+    if (!product) return
+
+    let cancelled = false
+    setLoading(true)
+    apiClient
+      .getPriceHistory(product, { range })
+      .then((data) => {
+        if (cancelled) return
+        setHistory(data)
+        setError(null)
+      })
+      .catch((err) => {
+        if (cancelled) return
+        setHistory(null)
+        setError(err instanceof Error ? err.message : "Failed to load price history")
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [savedProductId, productUrl, range])
+
+  const currency = history?.currency
+  const data = (history?.points ?? []).map((point) => ({ time: Date.parse(point.at), price: point.price }))
+  // Carry the current price to today so the last step is drawn
+  if (history?.stats && data.length > 0) data.push({ time: Date.now(), price: history.stats.current })
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <div className="flex flex-wrap gap-1">
+        {RANGES.map((option) => (
+          <Button
+            key={option.value}
+            size="sm"
+            variant={range === option.value ? "secondary" : "ghost"}
+            onClick={() => setRange(option.value)}
+          >
+            {option.label}
+          </Button>
+        ))}
+      </div>
+
+      {error ? (
+        <p className="text-sm text-muted-foreground py-8 text-center">
+          {error === "Saved product not found" ? "Save this product to start tracking its price." : error}
+        </p>
+      ) : loading && !history ? (
+        <p className="text-sm text-muted-foreground py-8 text-center">Loading price history...</p>
+      ) : !history || data.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-8 text-center">No prices recorded in this range yet.</p>
+      ) : (
+        <>
+          <ChartContainer config={chartConfig} className="aspect-auto h-[220px] w-full">
+            <LineChart data={data} margin={{ left: 8, right: 8, top: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="time"
+                type="number"
+                scale="time"
+                domain={["dataMin", "dataMax"]}
+                tickFormatter={formatDate}
+                tickLine={false}
+                axisLine={false}
+                minTickGap={32}
+              />
+              <YAxis
+                domain={["auto", "auto"]}
+                tickFormatter={(value: number) => formatPrice(value, currency)}
+                tickLine={false}
+                axisLine={false}
+                width={72}
+              />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) => formatDate(payload?.[0]?.payload?.time)}
+                    formatter={(value) => formatPrice(Number(value), currency)}
+                  />
+                }
+              />
+              {history.stats && (
+                <ReferenceLine
+                  y={history.stats.average}
+                  stroke="var(--muted-foreground)"
+                  strokeDasharray="4 4"
+                  label={{ value: "Avg", position: "insideTopLeft", fontSize: 10 }}
+                />
+              )}
+              {history.allTimeLow && (
+                <ReferenceLine
+                  y={history.allTimeLow.price}
+                  stroke="var(--chart-2)"
+                  strokeDasharray="2 2"
+                  label={{ value: "All-time low", position: "insideBottomLeft", fontSize: 10 }}
+                />
+              )}
+              <Line dataKey="price" type="stepAfter" stroke="var(--color-price)" strokeWidth={2} dot={false} />
+            </LineChart>
+          </ChartContainer>
+
+          {history.stats && (
+            <dl className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-sm">
+              <div>
+                <dt className="text-muted-foreground">Current</dt>
+                <dd className="font-semibold">{formatPrice(history.stats.current, currency)}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Lowest</dt>
+                <dd>{formatPrice(history.stats.min, currency)}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Highest</dt>
+                <dd>{formatPrice(history.stats.max, currency)}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Average</dt>
+                <dd>{formatPrice(history.stats.average, currency)}</dd>
+              </div>
+            </dl>
+          )}
+          {history.allTimeLow && (
+            <p className="text-xs text-muted-foreground">
+              All-time low {formatPrice(history.allTimeLow.price, currency)} on{" "}
+              {new Date(history.allTimeLow.at).toLocaleDateString()}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
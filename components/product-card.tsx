@@ -2,29 +2,56 @@ import { Card, CardContent, CardFooter } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import Image from "next/image"
 import BuyButton from "./buy-button"
+import CouponCode from "./coupon-code"
+import StoreTrustBadge from "./store-trust-badge"
+import { formatPrice } from "@/lib/currency/format"
+import type { OfferCoupon, StoreTrust } from "@/lib/api/client"
 
 interface ProductCardProps {
   productName: string
   price: number
+  currency?: string
+  // Price in the shopper's currency, shown when it differs from the listing currency
+  comparePrice?: number
+  compareCurrency?: string
   store: string
+  storeTrust?: StoreTrust
   imageURL: string
   affiliateLink: string
+  // Best promo code for the offer, shown next to the buy button
+  coupon?: OfferCoupon
 }
 
-export default function ProductCard({ productName, price, store, imageURL, affiliateLink }: ProductCardProps) {
+export default function ProductCard({
+  productName,
+  price,
+  currency = "USD",
+  comparePrice,
+  compareCurrency,
+  store,
+  storeTrust,
+  imageURL,
+  affiliateLink,
+  coupon,
+}: ProductCardProps) {
   return (
     <Card className="overflow-hidden hover:border-primary/50 transition-colors">
       <div className="relative aspect-square bg-muted">
         <Image src={imageURL || "/placeholder.svg"} alt={productName} fill className="object-cover" />
       </div>
       <CardContent className="p-4">
-        <Badge variant="secondary" className="mb-2">
-          {store}
-        </Badge>
+        <div className="flex flex-wrap gap-2 mb-2">
+          <Badge variant="secondary">{store}</Badge>
+          <StoreTrustBadge trust={storeTrust} />
+        </div>
         <h3 className="font-semibold text-lg mb-2 line-clamp-2">{productName}</h3>
-        <p className="text-2xl font-bold text-primary">${price.toFixed(2)}</p>
+        <p className="text-2xl font-bold text-primary">{formatPrice(price, currency)}</p>
+        {comparePrice !== undefined && compareCurrency && compareCurrency !== currency && (
+          <p className="text-sm text-muted-foreground">≈ {formatPrice(comparePrice, compareCurrency)}</p>
+        )}
       </CardContent>
-      <CardFooter className="p-4 pt-0">
+      <CardFooter className="p-4 pt-0 flex-col gap-2">
+        {coupon && <CouponCode coupon={coupon} currency={currency} className="w-full" />}
         <BuyButton affiliateLink={affiliateLink} />
       </CardFooter>
     </Card>
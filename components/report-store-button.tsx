@@ -0,0 +1,57 @@
+"use client"
+
+import { useState } from "react"
+import { Flag } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { apiClient, type StoreProfile, type StoreReportReason } from "@/lib/api/client"
+import { REPORT_REASON_LABELS, STORE_REPORT_REASONS } from "@/lib/store-directory/reports"
+
+interface ReportStoreButtonProps {
+  storeId: string
+  storeName: string
+  // Receives the store's profile with the report counted
+  onReported?: (store: StoreProfile) => void
+}
+
+export default function ReportStoreButton({ storeId, storeName, onReported }: ReportStoreButtonProps) {
+  const [isReporting, setIsReporting] = useState(false)
+
+  const handleReport = async (reason: StoreReportReason) => {
+    setIsReporting(true)
+    try {
+      const store = await apiClient.reportStore(storeId, reason)
+      toast.success(`Thanks, ${storeName} has been reported`)
+      onReported?.(store)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to report store")
+    } finally {
+      setIsReporting(false)
+    }
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" disabled={isReporting} title={`Report ${storeName}`}>
+          <Flag className="size-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Report {storeName}</DropdownMenuLabel>
+        {STORE_REPORT_REASONS.map((reason) => (
+          <DropdownMenuItem key={reason} onSelect={() => handleReport(reason)}>
+            {REPORT_REASON_LABELS[reason]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,69 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { formatPrice } from "@/lib/currency/format"
+import type { DashboardStats, SavingsBucket } from "@/lib/api/client"
+
+interface SavingsBreakdownProps {
+  savings: DashboardStats["savings"]
+}
+
+// Rows shown per list; the rest are folded into the totals above
+const MAX_ROWS = 5
+
+function monthLabel(key: string): string {
+  const [year, month] = key.split("-").map(Number)
+  return new Date(Date.UTC(year, month - 1, 1)).toLocaleDateString(undefined, {
+    month: "short",
+    year: "numeric",
+    timeZone: "UTC",
+  })
+}
+
+function BucketList({
+  title,
+  buckets,
+  currency,
+  label = (key) => key,
+}: {
+  title: string
+  buckets: SavingsBucket[]
+  currency: string
+  label?: (key: string) => string
+}) {
+  return (
+    <div>
+      <h3 className="text-sm font-semibold mb-2">{title}</h3>
+      <ul className="space-y-1">
+        {buckets.slice(0, MAX_ROWS).map((bucket) => (
+          <li key={bucket.key} className="flex items-center justify-between text-sm">
+            <span className="truncate">{label(bucket.key)}</span>
+            <span className={bucket.saved < 0 ? "text-destructive" : "font-medium"}>
+              {formatPrice(bucket.saved, currency)}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+export default function SavingsBreakdown({ savings }: SavingsBreakdownProps) {
+  const { currency } = savings
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle>Savings Breakdown</CardTitle>
+        <CardDescription>
+          {formatPrice(savings.totalSaved, currency)} saved on {formatPrice(savings.totalSpent, currency)} spent
+          across logged purchases. Click-throughs to cheaper offers stay pending until you log buying them.
+          {savings.skipped > 0 && ` ${savings.skipped} in unsupported currencies not counted.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <BucketList title="By month" buckets={savings.byMonth} currency={currency} label={monthLabel} />
+        <BucketList title="By store" buckets={savings.byStore} currency={currency} />
+        <BucketList title="By category" buckets={savings.byCategory} currency={currency} />
+      </CardContent>
+    </Card>
+  )
+}
@@ -4,6 +4,7 @@ import { useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Label } from "@/components/ui/label"
+import { Input } from "@/components/ui/input"
 import { Slider } from "@/components/ui/slider"
 import { Checkbox } from "@/components/ui/checkbox"
 import { Badge } from "@/components/ui/badge"
@@ -16,31 +17,29 @@ import {
   SheetTitle,
   SheetTrigger,
 } from "@/components/ui/sheet"
+import { formatPrice } from "@/lib/currency/format"
+import {
+  DEFAULT_FILTERS,
+  MAX_PRICE_FILTER,
+  type FilterOptions,
+  type SearchFacets,
+} from "@/lib/search/filters"
+import { PRODUCT_CATEGORIES, PRODUCT_CONDITIONS, CONDITION_LABELS } from "@/lib/enrichment/taxonomy"
+import type { ProductCondition } from "@/lib/stores/types"
 
-export interface FilterOptions {
-  categories: string[]
-  brands: string[]
-  priceRange: [number, number]
-  minRating: number
-}
+export type { FilterOptions }
 
 interface AdvancedFiltersProps {
   onApplyFilters: (filters: FilterOptions) => void
   onClearFilters: () => void
   activeFilters: FilterOptions
+  // Currency the price range is expressed in
+  currency?: string
+  // Values present in the current results; falls back to the full lists
+  facets?: SearchFacets
 }
 
-const CATEGORIES = [
-  "Electronics",
-  "Fashion",
-  "Home & Garden",
-  "Sports & Outdoors",
-  "Books",
-  "Toys & Games",
-  "Health & Beauty",
-  "Automotive",
-]
-
+// Shown before there are results to derive brands from
 const BRANDS = [
   "Apple",
   "Samsung",
@@ -56,10 +55,17 @@ export default function AdvancedFilters({
   onApplyFilters,
   onClearFilters,
   activeFilters,
+  currency = "USD",
+  facets,
 }: AdvancedFiltersProps) {
   const [localFilters, setLocalFilters] = useState<FilterOptions>(activeFilters)
   const [isOpen, setIsOpen] = useState(false)
 
+  const facetCount = (values: { value: string; count: number }[] | undefined, value: string) =>
+    values?.find((facet) => facet.value === value)?.count
+  const categories = facets?.categories.length ? facets.categories.map((facet) => facet.value) : PRODUCT_CATEGORIES
+  const brands = facets?.brands.length ? facets.brands.map((facet) => facet.value) : BRANDS
+
   const handleCategoryToggle = (category: string) => {
     setLocalFilters(prev => ({
       ...prev,
@@ -78,6 +84,15 @@ export default function AdvancedFilters({
     }))
   }
 
+  const handleConditionToggle = (condition: ProductCondition) => {
+    setLocalFilters(prev => ({
+      ...prev,
+      conditions: prev.conditions.includes(condition)
+        ? prev.conditions.filter(c => c !== condition)
+        : [...prev.conditions, condition],
+    }))
+  }
+
   const handlePriceRangeChange = (value: number[]) => {
     setLocalFilters(prev => ({
       ...prev,
@@ -85,6 +100,14 @@ export default function AdvancedFilters({
     }))
   }
 
+  const handleMaxUnitPriceChange = (value: string) => {
+    const amount = Number(value)
+    setLocalFilters(prev => ({
+      ...prev,
+      maxUnitPrice: Number.isFinite(amount) && amount > 0 ? amount : 0,
+    }))
+  }
+
   const handleRatingChange = (value: number[]) => {
     setLocalFilters(prev => ({
       ...prev,
@@ -98,13 +121,7 @@ export default function AdvancedFilters({
   }
 
   const handleClear = () => {
-    const defaultFilters: FilterOptions = {
-      categories: [],
-      brands: [],
-      priceRange: [0, 10000],
-      minRating: 0,
-    }
-    setLocalFilters(defaultFilters)
+    setLocalFilters(DEFAULT_FILTERS)
     onClearFilters()
     setIsOpen(false)
   }
@@ -112,8 +129,10 @@ export default function AdvancedFilters({
   const activeFilterCount =
     localFilters.categories.length +
     localFilters.brands.length +
-    (localFilters.priceRange[0] > 0 || localFilters.priceRange[1] < 10000 ? 1 : 0) +
-    (localFilters.minRating > 0 ? 1 : 0)
+    localFilters.conditions.length +
+    (localFilters.priceRange[0] > 0 || localFilters.priceRange[1] < MAX_PRICE_FILTER ? 1 : 0) +
+    (localFilters.minRating > 0 ? 1 : 0) +
+    (localFilters.maxUnitPrice > 0 ? 1 : 0)
 
   return (
     <Sheet open={isOpen} onOpenChange={setIsOpen}>
@@ -143,7 +162,7 @@ export default function AdvancedFilters({
               <CardTitle className="text-base">Categories</CardTitle>
             </CardHeader>
             <CardContent className="space-y-2">
-              {CATEGORIES.map((category) => (
+              {categories.map((category) => (
                 <div key={category} className="flex items-center space-x-2">
                   <Checkbox
                     id={`category-${category}`}
@@ -155,6 +174,9 @@ export default function AdvancedFilters({
                     className="text-sm font-normal cursor-pointer"
                   >
                     {category}
+                    {facetCount(facets?.categories, category) !== undefined && (
+                      <span className="text-muted-foreground"> ({facetCount(facets?.categories, category)})</span>
+                    )}
                   </Label>
                 </div>
               ))}
@@ -168,12 +190,12 @@ export default function AdvancedFilters({
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="flex items-center justify-between text-sm">
-                <span>${localFilters.priceRange[0]}</span>
-                <span>${localFilters.priceRange[1]}</span>
+                <span>{formatPrice(localFilters.priceRange[0], currency)}</span>
+                <span>{formatPrice(localFilters.priceRange[1], currency)}</span>
               </div>
               <Slider
                 min={0}
-                max={10000}
+                max={MAX_PRICE_FILTER}
                 step={50}
                 value={localFilters.priceRange}
                 onValueChange={handlePriceRangeChange}
@@ -182,13 +204,33 @@ export default function AdvancedFilters({
             </CardContent>
           </Card>
 
+          {/* Unit Price */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Max Unit Price</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <Input
+                type="number"
+                min={0}
+                step="0.01"
+                placeholder="No limit"
+                value={localFilters.maxUnitPrice || ""}
+                onChange={(e) => handleMaxUnitPriceChange(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Per kg, litre or item in {currency}. Hides listings whose pack size is unknown.
+              </p>
+            </CardContent>
+          </Card>
+
           {/* Brands */}
           <Card>
             <CardHeader>
               <CardTitle className="text-base">Brands</CardTitle>
             </CardHeader>
             <CardContent className="space-y-2">
-              {BRANDS.map((brand) => (
+              {brands.map((brand) => (
                 <div key={brand} className="flex items-center space-x-2">
                   <Checkbox
                     id={`brand-${brand}`}
@@ -200,6 +242,36 @@ export default function AdvancedFilters({
                     className="text-sm font-normal cursor-pointer"
                   >
                     {brand}
+                    {facetCount(facets?.brands, brand) !== undefined && (
+                      <span className="text-muted-foreground"> ({facetCount(facets?.brands, brand)})</span>
+                    )}
+                  </Label>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          {/* Condition */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Condition</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {PRODUCT_CONDITIONS.map((condition) => (
+                <div key={condition} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`condition-${condition}`}
+                    checked={localFilters.conditions.includes(condition)}
+                    onCheckedChange={() => handleConditionToggle(condition)}
+                  />
+                  <Label
+                    htmlFor={`condition-${condition}`}
+                    className="text-sm font-normal cursor-pointer"
+                  >
+                    {CONDITION_LABELS[condition]}
+                    {facetCount(facets?.conditions, condition) !== undefined && (
+                      <span className="text-muted-foreground"> ({facetCount(facets?.conditions, condition)})</span>
+                    )}
                   </Label>
                 </div>
               ))}
@@ -0,0 +1,42 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Search } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import SearchSuggestions from "@/components/search/search-suggestions"
+
+// Hero search box; hands the query to the search page, which runs it
+export default function HomeSearchForm() {
+  const router = useRouter()
+  const [query, setQuery] = useState("")
+
+  const goToSearch = (value: string) => {
+    if (!value.trim()) return
+    router.push(`/search?q=${encodeURIComponent(value.trim())}`)
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    goToSearch(query)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="flex gap-2 max-w-2xl mx-auto pt-4">
+      <SearchSuggestions
+        placeholder="Paste product URL, barcode or enter keyword..."
+        value={query}
+        onValueChange={setQuery}
+        onSelect={goToSearch}
+        className="flex-1"
+        inputClassName="h-12 text-base"
+      />
+      <Button type="submit" size="lg">
+        <Search className="mr-2 size-4" />
+        Search
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,141 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useRef, useState } from "react"
+import { Clock, Bookmark, TrendingUp } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import { Command, CommandGroup, CommandItem, CommandList } from "@/components/ui/command"
+import { apiClient, type Suggestion, type SuggestionSource } from "@/lib/api/client"
+import { cn } from "@/lib/utils"
+
+interface SearchSuggestionsProps {
+  value: string
+  onValueChange: (value: string) => void
+  // Called when a suggestion is picked; typing and pressing Enter submits the surrounding form instead
+  onSelect: (query: string) => void
+  placeholder?: string
+  disabled?: boolean
+  className?: string
+  inputClassName?: string
+}
+
+const SOURCE_GROUPS: { source: SuggestionSource; heading: string; icon: typeof Clock }[] = [
+  { source: "history", heading: "Recent searches", icon: Clock },
+  { source: "saved", heading: "Saved products", icon: Bookmark },
+  { source: "popular", heading: "Popular searches", icon: TrendingUp },
+]
+
+// Wait for a pause in typing before asking the server
+const DEBOUNCE_MS = 150
+
+export default function SearchSuggestions({
+  value,
+  onValueChange,
+  onSelect,
+  placeholder,
+  disabled,
+  className,
+  inputClassName,
+}: SearchSuggestionsProps) {
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([])
+  const [open, setOpen] = useState(false)
+  // The list highlights its first item by itself, so only let Enter pick a
+  // suggestion once the shopper has moved through it with the arrow keys
+  const [navigated, setNavigated] = useState(false)
+  const requestRef = useRef(0)
+
+  useEffect(() => {
+    if (!open) return
+    const request = ++requestRef.current
+    const timer = setTimeout(async () => {
+      try {
+        const results = await apiClient.getSuggestions(value)
+        // Ignore answers to queries the shopper has already typed past
+        if (request === requestRef.current) setSuggestions(results)
+      } catch (error) {
+        console.error("Suggestions error:", error)
+      }
+    }, DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [value, open])
+
+  const handleSelect = (text: string) => {
+    setOpen(false)
+    setNavigated(false)
+    onValueChange(text)
+    onSelect(text)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Escape") {
+      setOpen(false)
+    } else if (e.key === "Enter" && !navigated) {
+      // Keep the list from swallowing Enter so the form submits what was typed
+      e.stopPropagation()
+      setOpen(false)
+    } else if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      setOpen(true)
+      setNavigated(true)
+    }
+  }
+
+  const showList = open && !disabled && suggestions.length > 0
+
+  return (
+    <Command
+      shouldFilter={false}
+      loop
+      className={cn("relative overflow-visible bg-transparent", className)}
+    >
+      <Input
+        type="text"
+        role="combobox"
+        aria-expanded={showList}
+        aria-autocomplete="list"
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => {
+          onValueChange(e.target.value)
+          setNavigated(false)
+          setOpen(true)
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => {
+          setOpen(false)
+          setNavigated(false)
+        }}
+        onKeyDown={handleKeyDown}
+        className={inputClassName}
+        disabled={disabled}
+        autoComplete="off"
+      />
+      {showList && (
+        <CommandList
+          className="absolute top-full left-0 right-0 z-50 mt-1 rounded-md border bg-popover shadow-md"
+          // Keep focus in the input so clicking a suggestion doesn't close the list first
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          {SOURCE_GROUPS.map(({ source, heading, icon: Icon }) => {
+            const items = suggestions.filter((suggestion) => suggestion.source === source)
+            if (items.length === 0) return null
+            return (
+              <CommandGroup key={source} heading={heading}>
+                {items.map((suggestion) => (
+                  <CommandItem
+                    key={suggestion.text}
+                    value={`${source}:${suggestion.text}`}
+                    onSelect={() => handleSelect(suggestion.text)}
+                  >
+                    <Icon />
+                    <span className="truncate">{suggestion.text}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )
+          })}
+        </CommandList>
+      )}
+    </Command>
+  )
+}
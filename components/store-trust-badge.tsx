@@ -0,0 +1,20 @@
+import { ShieldAlert } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import type { StoreTrust } from "@/lib/api/client"
+
+interface StoreTrustBadgeProps {
+  trust?: StoreTrust
+  className?: string
+}
+
+// Warns about stores the directory scores as low trust; renders nothing otherwise
+export default function StoreTrustBadge({ trust, className }: StoreTrustBadgeProps) {
+  if (trust?.level !== "low") return null
+
+  return (
+    <Badge variant="destructive" className={className} title={trust.reasons.join(" · ")}>
+      <ShieldAlert />
+      Low-trust store
+    </Badge>
+  )
+}
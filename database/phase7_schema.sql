@@ -0,0 +1,479 @@
+-- SaveAI Phase 7 Database Schema Updates
+-- Run this in your Supabase SQL Editor after phase5_schema.sql
+
+-- ============================================
+-- CANONICAL PRODUCT URLS
+-- ============================================
+
+-- Canonical key produced by lib/urls (e.g. "amazon:de:B08N5WRWNW"), used to
+-- de-duplicate saved products saved under different URL forms. Rows saved
+-- before this column existed stay NULL (and are matched on product_url) until
+-- `npm run backfill-canonical-keys` fills them in.
+ALTER TABLE saved_products ADD COLUMN IF NOT EXISTS canonical_key TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_saved_products_user_canonical_key
+  ON saved_products(user_id, canonical_key)
+  WHERE canonical_key IS NOT NULL;
+
+-- ============================================
+-- MULTI-CURRENCY PRICING
+-- ============================================
+
+-- Exchange rates used by lib/currency when EXCHANGE_RATE_SOURCE=database.
+-- Rates are units of `currency` per 1 USD.
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  currency VARCHAR(3) PRIMARY KEY,
+  rate DECIMAL(18, 6) NOT NULL CHECK (rate > 0),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Per-user settings
+CREATE TABLE IF NOT EXISTS user_settings (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  preferred_currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Currency of search_history.cheapest_price
+ALTER TABLE search_history ADD COLUMN IF NOT EXISTS currency VARCHAR(3) DEFAULT 'USD';
+
+-- Enable RLS
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_settings ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for exchange_rates (written with the service role only)
+CREATE POLICY "Exchange rates are viewable by anyone"
+  ON exchange_rates FOR SELECT
+  USING (true);
+
+-- RLS Policies for user_settings
+CREATE POLICY "Users can view their own settings"
+  ON user_settings FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own settings"
+  ON user_settings FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own settings"
+  ON user_settings FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- ============================================
+-- LANDED COST DESTINATION
+-- ============================================
+
+-- Where the user has items delivered; used for shipping quotes and tax/duty estimates
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS destination_country VARCHAR(2) NOT NULL DEFAULT 'US';
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS destination_postcode VARCHAR(12);
+
+-- ============================================
+-- SEARCH RESULT CACHE
+-- ============================================
+
+-- Search results shared across users, used by lib/cache when SEARCH_CACHE_BACKEND=database.
+-- Keys hash the query, destination, currency, filters and sort; values hold store data only.
+CREATE TABLE IF NOT EXISTS search_cache (
+  key TEXT PRIMARY KEY,
+  value JSONB NOT NULL,
+  stored_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  fresh_until TIMESTAMP WITH TIME ZONE NOT NULL,
+  stale_until TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_cache_stale_until ON search_cache(stale_until);
+
+-- Enable RLS
+ALTER TABLE search_cache ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for search_cache. Users can only read it: entries are written and evicted by the
+-- server with the service role, so no account can plant prices or URLs that others are served.
+CREATE POLICY "Authenticated users can read the search cache"
+  ON search_cache FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+-- Earlier versions of this schema let users write the cache
+DROP POLICY IF EXISTS "Authenticated users can write the search cache" ON search_cache;
+DROP POLICY IF EXISTS "Authenticated users can refresh the search cache" ON search_cache;
+DROP POLICY IF EXISTS "Authenticated users can evict expired cache entries" ON search_cache;
+
+-- ============================================
+-- BARCODE SEARCHES
+-- ============================================
+
+-- Searches by UPC/EAN/ISBN are recorded with type 'gtin'
+ALTER TABLE search_history DROP CONSTRAINT IF EXISTS search_history_type_check;
+ALTER TABLE search_history ADD CONSTRAINT search_history_type_check CHECK (type IN ('url', 'keyword', 'gtin'));
+
+-- ============================================
+-- SEARCH SUGGESTIONS
+-- ============================================
+
+-- Keyword searches across all users, counted for autocomplete.
+-- Queries are stored lowercased with collapsed whitespace. Only the server
+-- reads and writes these tables, with the service role; a query is suggested
+-- to others once enough distinct users have searched it.
+CREATE TABLE IF NOT EXISTS popular_queries (
+  query TEXT PRIMARY KEY,
+  user_count INTEGER NOT NULL DEFAULT 0 CHECK (user_count >= 0),
+  last_searched_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Earlier versions counted searches, not users; those counts can't be attributed, so counting starts over
+ALTER TABLE popular_queries ADD COLUMN IF NOT EXISTS user_count INTEGER NOT NULL DEFAULT 0 CHECK (user_count >= 0);
+DROP INDEX IF EXISTS idx_popular_queries_search_count;
+ALTER TABLE popular_queries DROP COLUMN IF EXISTS search_count;
+
+CREATE INDEX IF NOT EXISTS idx_popular_queries_user_count ON popular_queries(user_count DESC);
+
+-- Who searched each query, so repeat searches by one user count once
+CREATE TABLE IF NOT EXISTS popular_query_users (
+  query TEXT NOT NULL REFERENCES popular_queries(query) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  PRIMARY KEY (query, user_id)
+);
+
+-- Enable RLS; no policies, so only the service role gets in
+ALTER TABLE popular_queries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE popular_query_users ENABLE ROW LEVEL SECURITY;
+
+-- Earlier versions let anyone read popular queries
+DROP POLICY IF EXISTS "Popular queries are viewable by anyone" ON popular_queries;
+
+-- Earlier versions took the query only and were callable by any signed-in user
+DROP FUNCTION IF EXISTS record_popular_query(TEXT);
+
+-- Count one user's search of a query, creating its row on first use
+CREATE OR REPLACE FUNCTION record_popular_query(p_user_id UUID, p_query TEXT)
+RETURNS void AS $$
+BEGIN
+  IF length(p_query) = 0 OR length(p_query) > 200 THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO popular_queries (query)
+  VALUES (p_query)
+  ON CONFLICT (query) DO UPDATE
+  SET last_searched_at = NOW();
+
+  INSERT INTO popular_query_users (query, user_id)
+  VALUES (p_query, p_user_id)
+  ON CONFLICT DO NOTHING;
+
+  IF FOUND THEN
+    UPDATE popular_queries SET user_count = user_count + 1 WHERE query = p_query;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION record_popular_query(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_popular_query(UUID, TEXT) TO service_role;
+
+-- ============================================
+-- SAVED SEARCHES
+-- ============================================
+
+-- Queries a user pinned to be re-run on a schedule. Each run is compared
+-- against last_offers and raises 'deal' notifications.
+CREATE TABLE IF NOT EXISTS saved_searches (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  query TEXT NOT NULL,
+  filters JSONB,
+  sort VARCHAR(20) NOT NULL DEFAULT 'relevance',
+  -- Set from the first run when not chosen up front
+  currency VARCHAR(3),
+  frequency VARCHAR(10) NOT NULL DEFAULT 'daily' CHECK (frequency IN ('hourly', 'daily', 'weekly')),
+  alert_below_price DECIMAL(10, 2) CHECK (alert_below_price IS NULL OR alert_below_price > 0),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  next_run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  last_offers JSONB,
+  last_cheapest_price DECIMAL(10, 2),
+  last_cheapest_store VARCHAR(100),
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user_id ON saved_searches(user_id);
+CREATE INDEX IF NOT EXISTS idx_saved_searches_due ON saved_searches(next_run_at) WHERE is_active;
+
+-- Enable RLS
+ALTER TABLE saved_searches ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for saved_searches (the scheduled runner uses the service role)
+CREATE POLICY "Users can view their own saved searches"
+  ON saved_searches FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own saved searches"
+  ON saved_searches FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own saved searches"
+  ON saved_searches FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own saved searches"
+  ON saved_searches FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- ============================================
+-- PRODUCT CONDITION AND WARRANTY
+-- ============================================
+
+-- Saved items remember whether the offer was new, renewed, open-box or used, and its warranty
+ALTER TABLE saved_products ADD COLUMN IF NOT EXISTS product_condition VARCHAR(20) NOT NULL DEFAULT 'new'
+  CHECK (product_condition IN ('new', 'refurbished', 'open_box', 'used'));
+ALTER TABLE saved_products ADD COLUMN IF NOT EXISTS warranty_months DECIMAL(5, 1) CHECK (warranty_months > 0);
+ALTER TABLE saved_products ADD COLUMN IF NOT EXISTS warranty_provider VARCHAR(20)
+  CHECK (warranty_provider IN ('manufacturer', 'seller'));
+
+-- ============================================
+-- STORE DIRECTORY
+-- ============================================
+
+-- Stores keyed by domain (e.g. 'techmart.example'). Listings reference them through
+-- their URL's domain; stores missing here are scored as unverified by lib/store-directory.
+CREATE TABLE IF NOT EXISTS stores (
+  id VARCHAR(255) PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  logo_url TEXT,
+  country VARCHAR(2),
+  return_days INTEGER CHECK (return_days >= 0),
+  free_returns BOOLEAN,
+  avg_delivery_days DECIMAL(4, 1) CHECK (avg_delivery_days > 0),
+  -- Found on a scam-domain list; overrides every other trust signal
+  scam_listed BOOLEAN NOT NULL DEFAULT FALSE,
+  -- Reviewed and added by us rather than created by a report
+  verified BOOLEAN NOT NULL DEFAULT FALSE,
+  -- Maintained from store_reports by count_store_report
+  report_count INTEGER NOT NULL DEFAULT 0 CHECK (report_count >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Shopper reports against a store, one per user and store
+CREATE TABLE IF NOT EXISTS store_reports (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  store_id VARCHAR(255) NOT NULL,
+  reason VARCHAR(20) NOT NULL
+    CHECK (reason IN ('scam', 'not_delivered', 'counterfeit', 'misleading_price', 'other')),
+  details TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, store_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_store_reports_store_id ON store_reports(store_id);
+
+-- Saved items and shared comparisons reference the store directory by domain
+ALTER TABLE saved_products ADD COLUMN IF NOT EXISTS store_id VARCHAR(255);
+
+-- Enable RLS
+ALTER TABLE stores ENABLE ROW LEVEL SECURITY;
+ALTER TABLE store_reports ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for stores (maintained by the service role and count_store_report)
+CREATE POLICY "Stores are viewable by anyone"
+  ON stores FOR SELECT
+  USING (true);
+
+-- RLS Policies for store_reports
+CREATE POLICY "Users can view their own store reports"
+  ON store_reports FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own store reports"
+  ON store_reports FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- Keep stores.report_count in step with store_reports, adding unknown stores as unverified
+CREATE OR REPLACE FUNCTION count_store_report()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO stores (id, name, report_count)
+  VALUES (NEW.store_id, NEW.store_id, 1)
+  ON CONFLICT (id) DO UPDATE
+  SET report_count = stores.report_count + 1,
+      updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS count_store_report ON store_reports;
+CREATE TRIGGER count_store_report
+  AFTER INSERT ON store_reports
+  FOR EACH ROW EXECUTE FUNCTION count_store_report();
+
+-- Stores we ship adapters for
+INSERT INTO stores (id, name, logo_url, country, return_days, free_returns, avg_delivery_days, verified)
+VALUES
+  ('techmart.example', 'TechMart', 'https://techmart.example/logo.png', 'US', 30, TRUE, 3, TRUE),
+  ('shophub.example', 'ShopHub', 'https://shophub.example/logo.svg', 'US', 14, NULL, 5, TRUE),
+  ('valuecart.example', 'ValueCart', 'https://valuecart.example/logo.png', 'US', 30, NULL, 6, TRUE)
+ON CONFLICT (id) DO NOTHING;
+
+-- ============================================
+-- COUPONS
+-- ============================================
+
+-- Promo codes per store (stores.id domain). Search applies the best eligible code to each
+-- offer; first-order codes are shown but not taken off the compared price.
+CREATE TABLE IF NOT EXISTS coupons (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  store_id VARCHAR(255) NOT NULL,
+  code VARCHAR(50) NOT NULL,
+  description TEXT,
+  discount_type VARCHAR(10) NOT NULL CHECK (discount_type IN ('percent', 'amount')),
+  discount_value DECIMAL(10, 2) NOT NULL CHECK (discount_value > 0),
+  CHECK (discount_type <> 'percent' OR discount_value <= 100),
+  -- Currency of amount discounts and min_spend
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  min_spend DECIMAL(10, 2) CHECK (min_spend > 0),
+  -- Product categories the code is limited to; NULL for store-wide codes
+  categories TEXT[],
+  expires_at TIMESTAMP WITH TIME ZONE,
+  first_order_only BOOLEAN NOT NULL DEFAULT FALSE,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (store_id, code)
+);
+
+CREATE INDEX IF NOT EXISTS idx_coupons_store_id ON coupons(store_id) WHERE is_active;
+
+-- Enable RLS
+ALTER TABLE coupons ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for coupons (maintained by the service role)
+CREATE POLICY "Coupons are viewable by anyone"
+  ON coupons FOR SELECT
+  USING (true);
+
+-- ============================================
+-- STOCK TRACKING
+-- ============================================
+
+-- Last known stock state of each saved product, checked on a schedule by /api/availability/run
+ALTER TABLE saved_products ADD COLUMN IF NOT EXISTS availability VARCHAR(20)
+  CHECK (availability IN ('in_stock', 'out_of_stock', 'backorder', 'preorder'));
+ALTER TABLE saved_products ADD COLUMN IF NOT EXISTS availability_checked_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_saved_products_availability_checked_at
+  ON saved_products(availability_checked_at NULLS FIRST);
+
+-- One row each time a saved product's stock state changes
+CREATE TABLE IF NOT EXISTS availability_history (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  saved_product_id UUID NOT NULL REFERENCES saved_products(id) ON DELETE CASCADE,
+  availability VARCHAR(20) NOT NULL CHECK (availability IN ('in_stock', 'out_of_stock', 'backorder', 'preorder')),
+  recorded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_availability_history_saved_product_id
+  ON availability_history(saved_product_id, recorded_at DESC);
+
+-- Enable RLS
+ALTER TABLE availability_history ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for availability_history (written by the scheduled checker with the service role)
+CREATE POLICY "Users can view availability history of their saved products"
+  ON availability_history FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM saved_products
+      WHERE saved_products.id = availability_history.saved_product_id
+      AND saved_products.user_id = auth.uid()
+    )
+  );
+
+-- ============================================
+-- PRICE REFRESH
+-- ============================================
+
+-- Scheduling for /api/prices/refresh. Each consecutive failure doubles the wait before the next try.
+ALTER TABLE saved_products ADD COLUMN IF NOT EXISTS price_checked_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE saved_products ADD COLUMN IF NOT EXISTS price_check_failures INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE saved_products ADD COLUMN IF NOT EXISTS next_price_check_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW();
+
+CREATE INDEX IF NOT EXISTS idx_saved_products_next_price_check_at ON saved_products(next_price_check_at);
+
+-- Products saved before price tracking start their history at the price they were saved at
+INSERT INTO price_history (saved_product_id, price, recorded_at)
+SELECT saved_products.id, saved_products.product_price, saved_products.created_at
+FROM saved_products
+WHERE NOT EXISTS (
+  SELECT 1 FROM price_history WHERE price_history.saved_product_id = saved_products.id
+);
+
+-- Saving a product records its first price point (the refresh job uses the service role)
+CREATE POLICY "Users can add price history to their saved products"
+  ON price_history FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM saved_products
+      WHERE saved_products.id = price_history.saved_product_id
+      AND saved_products.user_id = auth.uid()
+    )
+  );
+
+-- ============================================
+-- PRICE-DROP ALERTS
+-- ============================================
+
+-- Per-product alert rules, checked by /api/prices/refresh whenever a new price is recorded
+ALTER TABLE saved_products ADD COLUMN IF NOT EXISTS target_price DECIMAL(10, 2) CHECK (target_price > 0);
+ALTER TABLE saved_products ADD COLUMN IF NOT EXISTS drop_percent DECIMAL(5, 2)
+  CHECK (drop_percent > 0 AND drop_percent < 100);
+-- Price when drop_percent was set; percentage drops are measured from it
+ALTER TABLE saved_products ADD COLUMN IF NOT EXISTS alert_reference_price DECIMAL(10, 2);
+-- Price of the last alert, so the same drop isn't reported twice
+ALTER TABLE saved_products ADD COLUMN IF NOT EXISTS last_alert_price DECIMAL(10, 2);
+
+-- ============================================
+-- SAVINGS LEDGER
+-- ============================================
+
+-- What the user would have paid for a product against what they paid instead: recorded when they
+-- click through to a cheaper offer, or log a purchase. /api/stats aggregates it for the dashboard,
+-- counting only purchases as saved; clicks stay pending until a purchase of the same offer is logged.
+CREATE TABLE IF NOT EXISTS savings_ledger (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  source VARCHAR(10) NOT NULL CHECK (source IN ('click', 'purchase')),
+  -- Canonical key of the offer clicked or bought; a purchase supersedes clicks with the same key
+  product_key TEXT NOT NULL,
+  -- Link to the offer clicked or bought, so a pending click can be confirmed as a purchase
+  product_url TEXT,
+  saved_product_id UUID REFERENCES saved_products(id) ON DELETE SET NULL,
+  product_name TEXT NOT NULL,
+  store VARCHAR(100) NOT NULL,
+  store_id VARCHAR(100),
+  category VARCHAR(100),
+  currency VARCHAR(3) NOT NULL,
+  original_price DECIMAL(10, 2) NOT NULL CHECK (original_price >= 0),
+  paid_price DECIMAL(10, 2) NOT NULL CHECK (paid_price >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_savings_ledger_user_id ON savings_ledger(user_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE savings_ledger ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for savings_ledger
+CREATE POLICY "Users can view their own savings"
+  ON savings_ledger FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own savings"
+  ON savings_ledger FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own savings"
+  ON savings_ledger FOR DELETE
+  USING (auth.uid() = user_id);
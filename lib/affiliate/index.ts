@@ -0,0 +1 @@
+export { createAffiliateLink, InvalidProductUrlError, type AffiliateLink } from './links'
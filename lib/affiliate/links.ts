@@ -0,0 +1,103 @@
+import axios from 'axios'
+import { normalizeProductUrl, type NormalizedUrl } from '@/lib/urls'
+
+export interface AffiliateLink {
+  affiliateUrl: string
+  originalUrl: string
+  store: string
+  tracked: boolean
+}
+
+export class InvalidProductUrlError extends Error {
+  constructor(url: string) {
+    super(`Invalid product URL: ${url}`)
+    this.name = 'InvalidProductUrlError'
+  }
+}
+
+function generateAmazonAffiliateLink(normalizedUrl: NormalizedUrl): string {
+  // Associate tags are per marketplace, e.g. AMAZON_ASSOCIATE_TAG_DE for amazon.de
+  const marketplaceCode = normalizedUrl.marketplace?.code.toUpperCase()
+  const associateTag =
+    (marketplaceCode && process.env[`AMAZON_ASSOCIATE_TAG_${marketplaceCode}`]) || process.env.AMAZON_ASSOCIATE_TAG
+
+  if (!associateTag) {
+    return normalizedUrl.url
+  }
+
+  try {
+    // Canonical URL drops any existing tag and tracking parameters
+    const urlObj = new URL(normalizedUrl.canonicalUrl)
+
+    // Add associate tag
+    urlObj.searchParams.set('tag', associateTag)
+
+    return urlObj.toString()
+  } catch (error) {
+    console.error('[Amazon Affiliate Error]:', error)
+    return normalizedUrl.url
+  }
+}
+
+async function generateAdmitadAffiliateLink(url: string, store: string): Promise<string> {
+  const apiKey = process.env.ADMITAD_API_KEY
+  const campaignId = process.env.ADMITAD_CAMPAIGN_ID
+
+  if (!apiKey || !campaignId) {
+    throw new Error('Admitad credentials not configured')
+  }
+
+  // Admitad API integration (adjust based on actual API documentation)
+  const response = await axios.post(
+    'https://api.admitad.com/deeplink/generate/',
+    {
+      campaign_id: campaignId,
+      url: url,
+    },
+    {
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+    }
+  )
+
+  return response.data.deeplink || url
+}
+
+/**
+ * Turn a product URL into an affiliate link for the store that actually owns
+ * the URL. Falls back to the direct URL when no affiliate program applies or
+ * the network can't be reached. Throws InvalidProductUrlError for URLs that
+ * can't be parsed.
+ */
+export async function createAffiliateLink(productUrl: string, store: string): Promise<AffiliateLink> {
+  let normalizedUrl: NormalizedUrl
+  try {
+    normalizedUrl = await normalizeProductUrl(productUrl)
+  } catch {
+    throw new InvalidProductUrlError(productUrl)
+  }
+
+  let affiliateUrl: string
+  let tracked = false
+
+  // Generate affiliate link based on the store that actually owns the URL
+  if (normalizedUrl.urlType === 'amazon') {
+    affiliateUrl = generateAmazonAffiliateLink(normalizedUrl)
+    tracked = affiliateUrl !== normalizedUrl.url
+  } else if (process.env.ADMITAD_API_KEY) {
+    try {
+      affiliateUrl = await generateAdmitadAffiliateLink(productUrl, store)
+      tracked = true
+    } catch (error) {
+      console.error('[Admitad Error]:', error)
+      affiliateUrl = productUrl // Fallback to direct URL
+    }
+  } else {
+    // Fallback to direct URL if no affiliate available
+    affiliateUrl = productUrl
+  }
+
+  return { affiliateUrl, originalUrl: productUrl, store, tracked }
+}
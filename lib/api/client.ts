@@ -1,5 +1,29 @@
 // Client-side API wrapper for SaveAI backend endpoints
 
+export type SearchInputType = 'url' | 'keyword' | 'gtin'
+
+export type ProductCondition = 'new' | 'refurbished' | 'used' | 'open_box'
+
+export interface Warranty {
+  months: number
+  provider?: 'manufacturer' | 'seller'
+}
+
+export type RiskLevel = 'low' | 'medium' | 'high'
+
+export interface OfferCoupon {
+  code: string
+  description?: string
+  savings: number
+  firstOrderOnly: boolean
+  expiresAt?: string
+}
+
+export interface OfferRisk {
+  level: RiskLevel
+  reasons: string[]
+}
+
 export interface Product {
   id: string
   name: string
@@ -8,20 +32,172 @@ export interface Product {
   image?: string
   url: string
   store: string
+  storeId?: string
   rating?: number
   reviews?: number
+  brand?: string
+  category?: string
+  condition?: ProductCondition
+  warranty?: Warranty
+  quantity?: { packCount: number; size?: number; unit: 'g' | 'ml' | 'item'; total: number }
+  gtin?: string
+  mpn?: string
+  availability?: 'in_stock' | 'out_of_stock' | 'preorder' | 'backorder' | 'unknown'
+  originCountry?: string
+  shippingCost?: number
+  deliveryEta?: { minDays: number; maxDays: number }
+  estimatedTax?: number
+  importDuty?: number
+  landedPrice?: number
+  coupon?: OfferCoupon
+  effectivePrice?: number
+  comparePrice?: number
+  compareCurrency?: string
+  unitPrice?: number
+  unitPriceUnit?: 'kg' | 'l' | 'item'
+  risk?: OfferRisk
+}
+
+export interface ProductGroup {
+  id: string
+  name: string
+  brand?: string
+  gtin?: string
+  offers: Product[]
+  cheapest: Product
+  confidence: number
+}
+
+export interface FilterOptions {
+  categories: string[]
+  brands: string[]
+  conditions: ProductCondition[]
+  priceRange: [number, number]
+  minRating: number
+  maxUnitPrice: number
+}
+
+export type SortOption =
+  | 'relevance'
+  | 'price_asc'
+  | 'price_desc'
+  | 'landed_asc'
+  | 'unit_price_asc'
+  | 'rating_desc'
+  | 'reviews_desc'
+
+export interface FacetCount<T extends string = string> {
+  value: T
+  count: number
+}
+
+export interface SearchFacets {
+  categories: FacetCount[]
+  brands: FacetCount[]
+  conditions: FacetCount<ProductCondition>[]
+}
+
+export interface PageInfo {
+  nextCursor: string | null
+  total: number
+  limit: number
+}
+
+export interface SearchOptions {
+  currency?: string
+  filters?: FilterOptions
+  sort?: SortOption
+  cursor?: string
+  limit?: number
+  // Ignore cached results and fetch live prices
+  refresh?: boolean
+}
+
+export interface InterpretedQuery {
+  original: string
+  text: string
+  corrections: Array<{ from: string; to: string }>
+  expansions: string[]
+  filters: Partial<FilterOptions>
+}
+
+export type TrustLevel = 'high' | 'medium' | 'low'
+
+export type StoreReportReason = 'scam' | 'not_delivered' | 'counterfeit' | 'misleading_price' | 'other'
+
+export interface StoreTrust {
+  score: number
+  level: TrustLevel
+  reasons: string[]
+}
+
+export interface StoreProfile {
+  id: string
+  name: string
+  logo?: string
+  country?: string
+  returnPolicy?: { days: number; freeReturns?: boolean }
+  avgDeliveryDays?: number
+  verified: boolean
+  firstSeenAt?: string
+  trust: StoreTrust
+}
+
+export interface CacheInfo {
+  status: 'hit' | 'stale' | 'miss' | 'bypass'
+  storedAt: string
+  freshUntil?: string
 }
 
 export interface SearchResponse {
   query: string
-  type: 'url' | 'keyword'
+  type: SearchInputType
+  interpretedQuery?: InterpretedQuery
+  notice?: string
+  gtin?: string
   urlType?: 'amazon' | 'other'
+  currency: string
+  destination: { country: string; postcode?: string }
   product: Product
   alternatives: Product[]
+  pageInfo: PageInfo
+  filters: FilterOptions
+  sort: SortOption
+  facets: SearchFacets
   cheapest: Product
+  cheapestNew?: Product
+  suspectedCheapest?: Product
+  offers: ProductGroup[]
+  stores: Record<string, StoreProfile>
   searchId: string
+  storesQueried: number
+  failedStores: string[]
+  cache: CacheInfo
 }
 
+export type SearchEvent =
+  | { type: 'started'; query: string; inputType: SearchInputType; storesTotal: number; interpretedQuery?: InterpretedQuery }
+  | { type: 'url_resolved'; product: Product }
+  | { type: 'gtin_resolved'; product: Product; gtin: string }
+  | { type: 'store_queried'; store: string; products: Product[]; durationMs: number; completed: number; total: number }
+  | { type: 'store_failed'; store: string; reason: 'timeout' | 'error'; completed: number; total: number }
+  | { type: 'alternatives_found'; count: number }
+  | { type: 'prices_compared'; cheapest: Product; cheapestNew?: Product; currency: string }
+  | { type: 'result'; data: SearchResponse }
+  | { type: 'search_error'; error: string; status: number }
+
+const SEARCH_EVENT_TYPES: SearchEvent['type'][] = [
+  'started',
+  'url_resolved',
+  'gtin_resolved',
+  'store_queried',
+  'store_failed',
+  'alternatives_found',
+  'prices_compared',
+  'result',
+  'search_error',
+]
+
 export interface AnalysisResult {
   summary: string
   pros: string[]
@@ -31,6 +207,7 @@ export interface AnalysisResult {
     reason: string
   }>
   aiProvider: 'openai' | 'manus'
+  forecast?: PriceForecast
 }
 
 export interface AffiliateResponse {
@@ -49,7 +226,20 @@ export interface SavedProduct {
   product_currency: string
   product_image?: string
   store: string
+  store_id?: string
   notes?: string
+  product_condition?: ProductCondition
+  warranty_months?: number
+  warranty_provider?: 'manufacturer' | 'seller'
+  // Last known stock state, checked on a schedule; null until the first check
+  availability?: 'in_stock' | 'out_of_stock' | 'preorder' | 'backorder' | null
+  availability_checked_at?: string | null
+  // Price-drop alert rules
+  target_price?: number | null
+  drop_percent?: number | null
+  alert_reference_price?: number | null
+  // Buy-or-wait estimate from the recorded price history
+  forecast?: PriceForecast
   created_at: string
   updated_at: string
 }
@@ -57,10 +247,11 @@ export interface SavedProduct {
 export interface SearchHistoryItem {
   id: string
   query: string
-  type: 'url' | 'keyword'
+  type: SearchInputType
   url_type?: 'amazon' | 'other'
   result_count: number
   cheapest_price: number
+  currency?: string
   created_at: string
 }
 
@@ -101,6 +292,155 @@ export interface SharedComparison {
   shareUrl?: string
 }
 
+export type SavedSearchFrequency = 'hourly' | 'daily' | 'weekly'
+
+export interface SavedSearch {
+  id: string
+  user_id: string
+  name: string
+  query: string
+  filters: FilterOptions | null
+  sort: SortOption
+  currency: string | null
+  frequency: SavedSearchFrequency
+  alert_below_price: number | null
+  is_active: boolean
+  last_run_at: string | null
+  next_run_at: string
+  last_cheapest_price: number | null
+  last_cheapest_store: string | null
+  last_error: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type SuggestionSource = 'history' | 'saved' | 'popular'
+
+export interface Suggestion {
+  text: string
+  source: SuggestionSource
+  score: number
+}
+
+export interface UserSettings {
+  preferredCurrency: string
+  destinationCountry: string
+  destinationPostcode?: string
+}
+
+export interface CartOffer {
+  storeId: string
+  store: string
+  productId: string
+  name: string
+  url: string
+  price: number
+}
+
+export interface CartLine {
+  itemId: string
+  name: string
+  quantity: number
+  offer: CartOffer
+  lineTotal: number
+  affiliateUrl?: string
+}
+
+export interface StoreOrder {
+  storeId: string
+  store: string
+  lines: CartLine[]
+  subtotal: number
+  shipping: number
+  total: number
+  shippingKnown: boolean
+  freeShippingGap?: number
+}
+
+export interface CartPlan {
+  currency: string
+  orders: StoreOrder[]
+  itemsTotal: number
+  shippingTotal: number
+  total: number
+  baselineTotal?: number
+  savings?: number
+  // Saved product ids no store currently sells
+  unavailable: string[]
+}
+
+export type PriceHistoryRange = '7d' | '30d' | '90d' | '1y' | 'all'
+
+export interface PricePoint {
+  at: string
+  price: number
+}
+
+export interface PriceHistory {
+  savedProductId: string
+  productName: string
+  currency: string
+  range: PriceHistoryRange
+  points: PricePoint[]
+  downsampled: boolean
+  stats: { min: number; max: number; average: number; current: number } | null
+  allTimeLow: PricePoint | null
+}
+
+export interface PriceForecast {
+  recommendation: 'buy' | 'wait'
+  confidence: number
+  // Chance of a meaningful drop within horizonDays
+  dropProbability: number
+  horizonDays: number
+  reasons: string[]
+  saleEvents: Array<{ id: string; name: string; startsAt: string; endsAt: string }>
+  historyDays: number
+}
+
+export interface SavingsEntry {
+  id: string
+  source: 'click' | 'purchase'
+  product_key: string
+  product_url: string | null
+  saved_product_id: string | null
+  product_name: string
+  store: string
+  store_id: string | null
+  category: string | null
+  currency: string
+  original_price: number
+  paid_price: number
+  created_at: string
+}
+
+export interface SavingsBucket {
+  key: string
+  saved: number
+  spent: number
+  count: number
+}
+
+export interface DashboardStats {
+  totalSearches: number
+  totalSaved: number
+  savings: {
+    currency: string
+    totalSaved: number
+    totalSpent: number
+    count: number
+    // Newest month first, keyed 'YYYY-MM'
+    byMonth: SavingsBucket[]
+    byStore: SavingsBucket[]
+    byCategory: SavingsBucket[]
+    // Click-throughs without a logged purchase; not part of the totals above
+    pending: { count: number; saved: number }
+    skipped: number
+  }
+  // Latest click per offer still waiting for a purchase, newest first
+  pendingClicks: SavingsEntry[]
+}
+
 class ApiClient {
   private baseUrl: string
 
@@ -131,13 +471,54 @@ class ApiClient {
   }
 
   // Search API
-  async search(query: string): Promise<SearchResponse> {
+  async search(query: string, options: SearchOptions = {}): Promise<SearchResponse> {
     return this.request<SearchResponse>('/api/search', {
       method: 'POST',
-      body: JSON.stringify({ query }),
+      body: JSON.stringify({ query, ...options }),
     })
   }
 
+  /**
+   * Stream a search over Server-Sent Events. Returns a function that closes the
+   * stream, which also cancels the search on the server.
+   */
+  searchStream(
+    query: string,
+    onEvent: (event: SearchEvent) => void,
+    options: Omit<SearchOptions, 'cursor'> = {}
+  ): () => void {
+    const params = new URLSearchParams({ q: query })
+    if (options.currency) params.set('currency', options.currency)
+    if (options.filters) params.set('filters', JSON.stringify(options.filters))
+    if (options.sort) params.set('sort', options.sort)
+    if (options.limit) params.set('limit', String(options.limit))
+    if (options.refresh) params.set('refresh', '1')
+
+    const source = new EventSource(`${this.baseUrl}/api/search/stream?${params}`)
+    let finished = false
+    const close = () => {
+      finished = true
+      source.close()
+    }
+
+    for (const type of SEARCH_EVENT_TYPES) {
+      source.addEventListener(type, (message) => {
+        const event = JSON.parse((message as MessageEvent<string>).data) as SearchEvent
+        // EventSource reconnects when the server ends the stream, so stop after the final event
+        if (event.type === 'result' || event.type === 'search_error') close()
+        onEvent(event)
+      })
+    }
+
+    source.onerror = () => {
+      if (finished) return
+      close()
+      onEvent({ type: 'search_error', error: 'Lost connection to the search', status: 0 })
+    }
+
+    return close
+  }
+
   // AI Analysis API
   async analyze(productData: {
     productName: string
@@ -159,6 +540,123 @@ class ApiClient {
     })
   }
 
+  // Saved Searches API
+  async getSavedSearches(): Promise<SavedSearch[]> {
+    return this.request<SavedSearch[]>('/api/saved-searches', {
+      method: 'GET',
+    })
+  }
+
+  async createSavedSearch(data: {
+    query: string
+    name?: string
+    filters?: FilterOptions
+    sort?: SortOption
+    currency?: string
+    frequency?: SavedSearchFrequency
+    alertBelowPrice?: number | null
+  }): Promise<SavedSearch> {
+    return this.request<SavedSearch>('/api/saved-searches', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async updateSavedSearch(
+    id: string,
+    updates: { name?: string; frequency?: SavedSearchFrequency; alertBelowPrice?: number | null; isActive?: boolean }
+  ): Promise<SavedSearch> {
+    return this.request<SavedSearch>('/api/saved-searches', {
+      method: 'PATCH',
+      body: JSON.stringify({ id, ...updates }),
+    })
+  }
+
+  async deleteSavedSearch(id: string): Promise<{ deleted: boolean }> {
+    return this.request<{ deleted: boolean }>(`/api/saved-searches?id=${id}`, {
+      method: 'DELETE',
+    })
+  }
+
+  // Suggestions API
+  async getSuggestions(query: string, limit?: number): Promise<Suggestion[]> {
+    const params = new URLSearchParams({ q: query })
+    if (limit) params.set('limit', String(limit))
+    const data = await this.request<{ query: string; suggestions: Suggestion[] }>(`/api/suggestions?${params}`, {
+      method: 'GET',
+    })
+    return data.suggestions
+  }
+
+  // Stores API
+  async getStores(ids: string[]): Promise<Record<string, StoreProfile>> {
+    const params = new URLSearchParams({ ids: ids.join(',') })
+    return this.request<Record<string, StoreProfile>>(`/api/stores?${params}`, {
+      method: 'GET',
+    })
+  }
+
+  async reportStore(storeId: string, reason: StoreReportReason, details?: string): Promise<StoreProfile> {
+    return this.request<StoreProfile>('/api/stores/report', {
+      method: 'POST',
+      body: JSON.stringify({ storeId, reason, details }),
+    })
+  }
+
+  // Price History API
+  async getPriceHistory(
+    product: { savedProductId: string } | { url: string },
+    options: { range?: PriceHistoryRange; points?: number } = {}
+  ): Promise<PriceHistory> {
+    const params = new URLSearchParams(product)
+    if (options.range) params.set('range', options.range)
+    if (options.points) params.set('points', String(options.points))
+    return this.request<PriceHistory>(`/api/price-history?${params}`, {
+      method: 'GET',
+    })
+  }
+
+  // Cart API
+  async planCart(items: { savedProductId: string; quantity: number }[]): Promise<CartPlan> {
+    return this.request<CartPlan>('/api/cart', {
+      method: 'POST',
+      body: JSON.stringify({ items }),
+    })
+  }
+
+  // Savings API
+  async recordSavings(entry: {
+    source: 'click' | 'purchase'
+    // Confirms a pending click as a purchase; the details and prices default to the click's
+    clickId?: string
+    // For a saved product, the product details and original price default to its own
+    savedProductId?: string
+    productUrl?: string
+    productName?: string
+    store?: string
+    category?: string
+    currency?: string
+    originalPrice?: number
+    paidPrice?: number
+  }): Promise<SavingsEntry> {
+    return this.request<SavingsEntry>('/api/savings', {
+      method: 'POST',
+      body: JSON.stringify(entry),
+    })
+  }
+
+  async deleteSavingsEntry(id: string): Promise<{ deleted: boolean }> {
+    return this.request<{ deleted: boolean }>(`/api/savings?id=${id}`, {
+      method: 'DELETE',
+    })
+  }
+
+  async getStats(): Promise<DashboardStats> {
+    return this.request<DashboardStats>('/api/stats', {
+      method: 'GET',
+    })
+  }
+
   // Search History API
   async getSearchHistory(): Promise<SearchHistoryItem[]> {
     return this.request<SearchHistoryItem[]>('/api/history', {
@@ -195,6 +693,8 @@ class ApiClient {
     productImage?: string
     store: string
     notes?: string
+    productCondition?: ProductCondition
+    warranty?: Warranty
   }): Promise<SavedProduct> {
     return this.request<SavedProduct>('/api/saved', {
       method: 'POST',
@@ -209,6 +709,16 @@ class ApiClient {
     })
   }
 
+  async setPriceAlert(
+    id: string,
+    rules: { targetPrice?: number | null; dropPercent?: number | null }
+  ): Promise<SavedProduct> {
+    return this.request<SavedProduct>('/api/saved', {
+      method: 'PATCH',
+      body: JSON.stringify({ id, ...rules }),
+    })
+  }
+
   async deleteSavedProduct(id: string): Promise<{ deleted: boolean }> {
     return this.request<{ deleted: boolean }>(`/api/saved?id=${id}`, {
       method: 'DELETE',
@@ -254,6 +764,22 @@ class ApiClient {
     })
   }
 
+  // Settings API
+  async getSettings(): Promise<UserSettings> {
+    return this.request<UserSettings>('/api/settings', {
+      method: 'GET',
+    })
+  }
+
+  async updateSettings(
+    settings: Partial<Omit<UserSettings, 'destinationPostcode'>> & { destinationPostcode?: string | null }
+  ): Promise<UserSettings> {
+    return this.request<UserSettings>('/api/settings', {
+      method: 'PATCH',
+      body: JSON.stringify(settings),
+    })
+  }
+
   // Share API
   async createShareLink(data: {
     title?: string
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { detectUrlType as detectUrlTypeFromHost, type UrlType } from '@/lib/urls'
 
 export interface ApiError {
   error: string
@@ -116,14 +117,10 @@ export function isUrl(input: string): boolean {
 }
 
 /**
- * Detect URL type (Amazon, etc.)
+ * Detect URL type (Amazon, etc.) from the hostname, covering every regional marketplace
  */
-export function detectUrlType(url: string): 'amazon' | 'other' {
-  const lowerUrl = url.toLowerCase()
-  if (lowerUrl.includes('amazon.com') || lowerUrl.includes('amzn.to')) {
-    return 'amazon'
-  }
-  return 'other'
+export function detectUrlType(url: string): UrlType {
+  return detectUrlTypeFromHost(url)
 }
 
 /**
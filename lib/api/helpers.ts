@@ -1,5 +1,7 @@
+import { timingSafeEqual } from 'crypto'
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { detectUrlType as detectUrlTypeFromHost, type UrlType } from '@/lib/urls'
 
 export interface ApiError {
   error: string
@@ -66,6 +68,25 @@ export async function verifyAuth(): Promise<{ userId: string | null; error?: Nex
   }
 }
 
+/**
+ * Verify a scheduled job request carries `Authorization: Bearer <CRON_SECRET>`.
+ * Returns an error response when it doesn't, or when no secret is configured.
+ */
+export function verifyCronRequest(request: NextRequest): NextResponse | null {
+  const secret = process.env.CRON_SECRET
+  if (!secret) {
+    console.error('[Cron Error]: CRON_SECRET is not configured')
+    return NextResponse.json({ error: 'Scheduled jobs are not configured' }, { status: 503 })
+  }
+
+  const expected = Buffer.from(`Bearer ${secret}`)
+  const received = Buffer.from(request.headers.get('authorization') || '')
+  if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  return null
+}
+
 /**
  * Validate required fields in request body
  */
@@ -101,14 +122,10 @@ export function isUrl(input: string): boolean {
 }
 
 /**
- * Detect URL type (Amazon, etc.)
+ * Detect URL type (Amazon, etc.) from the hostname, covering every regional marketplace
  */
-export function detectUrlType(url: string): 'amazon' | 'other' {
-  const lowerUrl = url.toLowerCase()
-  if (lowerUrl.includes('amazon.com') || lowerUrl.includes('amzn.to')) {
-    return 'amazon'
-  }
-  return 'other'
+export function detectUrlType(url: string): UrlType {
+  return detectUrlTypeFromHost(url)
 }
 
 /**
@@ -0,0 +1,29 @@
+import type { Availability } from '@/lib/stores/types'
+import type { AvailabilityChange, StockState } from './types'
+
+export const STOCK_STATE_LABELS: Record<StockState, string> = {
+  in_stock: 'In stock',
+  out_of_stock: 'Out of stock',
+  backorder: 'Back-order',
+  preorder: 'Pre-order',
+}
+
+export function isStockState(value: Availability | undefined | null): value is StockState {
+  return value !== undefined && value !== null && value !== 'unknown'
+}
+
+/**
+ * What changed between two checks. The first known state only sets a
+ * baseline, and unknown results never count as a change.
+ */
+export function availabilityChange(
+  previous: StockState | null,
+  current: Availability | undefined
+): AvailabilityChange | null {
+  if (!previous || !isStockState(current) || previous === current) return null
+  return {
+    kind: current === 'in_stock' ? 'back_in_stock' : current,
+    previous,
+    current,
+  }
+}
@@ -0,0 +1,147 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { storeRegistry, type Availability, type StoreRegistry } from '@/lib/stores'
+import { fetchListing } from '@/lib/extraction'
+import { availabilityChange, isStockState } from './changes'
+import type { AvailabilityChange, AvailabilityCheckResult, TrackedProduct } from './types'
+
+// Keeps one cron invocation inside a serverless time limit
+export const DEFAULT_CHECK_BATCH_SIZE = 50
+// How long a saved product's stock state is trusted before it's checked again
+export const AVAILABILITY_CHECK_INTERVAL_MS = 6 * 60 * 60 * 1000
+
+const TRACKED_COLUMNS = 'id, user_id, product_name, product_url, store, availability, availability_checked_at'
+
+/**
+ * Current stock state of a listing, from the store that owns the URL or
+ * otherwise from the product page itself. 'unknown' when neither says.
+ */
+export async function fetchAvailability(
+  url: string,
+  options: { registry?: StoreRegistry; signal?: AbortSignal } = {}
+): Promise<Availability> {
+  const listing = await fetchListing(url, options.registry ?? storeRegistry, { signal: options.signal })
+  return listing?.availability ?? 'unknown'
+}
+
+function notificationFor(product: TrackedProduct, change: AvailabilityChange) {
+  const name = product.product_name
+  const messages: Record<AvailabilityChange['kind'], { title: string; message: string }> = {
+    back_in_stock: { title: 'Back in stock', message: `${name} is back in stock at ${product.store}.` },
+    out_of_stock: { title: 'Out of stock', message: `${name} is no longer in stock at ${product.store}.` },
+    backorder: {
+      title: 'Available on back-order',
+      message: `${name} can be ordered from ${product.store} again and ships once it's restocked.`,
+    },
+    preorder: { title: 'Available to pre-order', message: `${name} can now be pre-ordered from ${product.store}.` },
+  }
+  return {
+    user_id: product.user_id,
+    type: 'availability',
+    ...messages[change.kind],
+    product_id: product.id,
+    product_name: name,
+  }
+}
+
+async function availabilityEnabled(supabase: SupabaseClient, userId: string): Promise<boolean> {
+  const { data } = await supabase
+    .from('notification_preferences')
+    .select('availability_enabled')
+    .eq('user_id', userId)
+    .maybeSingle()
+  // Users without a preferences row get the defaults, which include availability
+  return data?.availability_enabled ?? true
+}
+
+/**
+ * Check one saved product's stock, record the new state in its history when
+ * it changed and notify the owner of the change if they opted in. Failed
+ * checks are reported in the result rather than thrown.
+ */
+export async function checkSavedProductAvailability(
+  supabase: SupabaseClient,
+  product: TrackedProduct,
+  options: { registry?: StoreRegistry; now?: Date; notify?: (userId: string) => Promise<boolean> } = {}
+): Promise<AvailabilityCheckResult> {
+  const now = options.now ?? new Date()
+
+  let availability: Availability
+  let error: string | undefined
+  try {
+    availability = await fetchAvailability(product.product_url, { registry: options.registry })
+  } catch (checkError) {
+    console.error('[Availability Check Error]:', checkError)
+    availability = 'unknown'
+    error = 'Availability check failed'
+  }
+
+  const change = availabilityChange(product.availability, availability)
+  const known = isStockState(availability)
+
+  if (known && availability !== product.availability) {
+    const { error: historyError } = await supabase
+      .from('availability_history')
+      .insert({ saved_product_id: product.id, availability, recorded_at: now.toISOString() })
+    if (historyError) console.error('[DB Error]:', historyError)
+  }
+
+  const { error: updateError } = await supabase
+    .from('saved_products')
+    .update({
+      availability: known ? availability : product.availability,
+      availability_checked_at: now.toISOString(),
+    })
+    .eq('id', product.id)
+  if (updateError) console.error('[DB Error]:', updateError)
+
+  let notified = false
+  const notify = options.notify ?? ((userId: string) => availabilityEnabled(supabase, userId))
+  if (change && (await notify(product.user_id))) {
+    const { error: notifyError } = await supabase.from('notifications').insert(notificationFor(product, change))
+    if (notifyError) {
+      console.error('[DB Error]:', notifyError)
+    } else {
+      notified = true
+    }
+  }
+
+  return { savedProductId: product.id, availability, change, notified, error }
+}
+
+/**
+ * Check every saved product not checked within AVAILABILITY_CHECK_INTERVAL_MS,
+ * least recently checked first. Meant for a scheduler using a service role
+ * client, since it reads every user's saved products.
+ */
+export async function checkDueAvailability(
+  supabase: SupabaseClient,
+  options: { registry?: StoreRegistry; now?: Date; limit?: number } = {}
+): Promise<AvailabilityCheckResult[]> {
+  const now = options.now ?? new Date()
+  const dueBefore = new Date(now.getTime() - AVAILABILITY_CHECK_INTERVAL_MS).toISOString()
+  const { data, error } = await supabase
+    .from('saved_products')
+    .select(TRACKED_COLUMNS)
+    .or(`availability_checked_at.is.null,availability_checked_at.lte.${dueBefore}`)
+    .order('availability_checked_at', { ascending: true, nullsFirst: true })
+    .limit(options.limit ?? DEFAULT_CHECK_BATCH_SIZE)
+
+  if (error) {
+    console.error('[DB Error]:', error)
+    throw new Error('Failed to load saved products due for an availability check')
+  }
+
+  // Look each owner's preference up once per batch
+  const preferences = new Map<string, Promise<boolean>>()
+  const notify = (userId: string) => {
+    if (!preferences.has(userId)) preferences.set(userId, availabilityEnabled(supabase, userId))
+    return preferences.get(userId)!
+  }
+
+  // One at a time, so a batch doesn't hit the same store with many requests at once
+  const results: AvailabilityCheckResult[] = []
+  for (const product of (data ?? []) as TrackedProduct[]) {
+    results.push(await checkSavedProductAvailability(supabase, product, { registry: options.registry, now, notify }))
+  }
+  return results
+}
@@ -0,0 +1,9 @@
+export {
+  checkSavedProductAvailability,
+  checkDueAvailability,
+  fetchAvailability,
+  DEFAULT_CHECK_BATCH_SIZE,
+  AVAILABILITY_CHECK_INTERVAL_MS,
+} from './checker'
+export { availabilityChange, isStockState, STOCK_STATE_LABELS } from './changes'
+export type { StockState, AvailabilityChange, TrackedProduct, AvailabilityCheckResult } from './types'
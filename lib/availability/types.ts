@@ -0,0 +1,36 @@
+import type { Availability } from '@/lib/stores/types'
+
+// Stock states worth tracking; 'unknown' checks leave the last known state in place
+export type StockState = Exclude<Availability, 'unknown'>
+
+/**
+ * A stock change worth telling the owner about
+ * - back_in_stock: can be bought and shipped now after being unavailable, on back-order or pre-order
+ * - out_of_stock: can no longer be bought
+ * - backorder: can be ordered again, but ships once the store restocks
+ * - preorder: can be ordered ahead of its release
+ */
+export interface AvailabilityChange {
+  kind: 'back_in_stock' | 'out_of_stock' | 'backorder' | 'preorder'
+  previous: StockState
+  current: StockState
+}
+
+// The saved_products columns the checker reads and writes
+export interface TrackedProduct {
+  id: string
+  user_id: string
+  product_name: string
+  product_url: string
+  store: string
+  availability: StockState | null
+  availability_checked_at: string | null
+}
+
+export interface AvailabilityCheckResult {
+  savedProductId: string
+  availability: Availability
+  change: AvailabilityChange | null
+  notified: boolean
+  error?: string
+}
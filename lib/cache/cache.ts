@@ -0,0 +1,103 @@
+import { createHash } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { MemoryCacheStore } from './memory'
+import { PostgresCacheStore } from './postgres'
+import { cacheStateOf, type CacheEntry, type CacheState, type CacheStore } from './types'
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+/**
+ * Deterministic cache key for `parts`, independent of object key order
+ */
+export function cacheKey(namespace: string, parts: unknown): string {
+  const digest = createHash('sha256').update(stableStringify(parts)).digest('hex')
+  return `${namespace}:${digest}`
+}
+
+export interface CachedValue<T> {
+  entry: CacheEntry<T>
+  state: Exclude<CacheState, 'expired'>
+}
+
+// Keys being refreshed in the background, so concurrent stale reads trigger one refresh
+const revalidating = new Set<string>()
+
+/**
+ * Stale-while-revalidate on top of a cache store
+ */
+export class FreshnessCache<T> {
+  constructor(
+    readonly store: CacheStore<T>,
+    private readonly staleWhileRevalidateMs: number
+  ) {}
+
+  async read(key: string): Promise<CachedValue<T> | null> {
+    try {
+      const entry = await this.store.get(key)
+      if (!entry) return null
+      const state = cacheStateOf(entry)
+      return state === 'expired' ? null : { entry, state }
+    } catch (error) {
+      console.error('[Cache Error]:', error)
+      return null
+    }
+  }
+
+  async write(key: string, value: T, ttlMs: number): Promise<CacheEntry<T>> {
+    const storedAt = Date.now()
+    const entry: CacheEntry<T> = {
+      value,
+      storedAt,
+      freshUntil: storedAt + ttlMs,
+      staleUntil: storedAt + ttlMs + this.staleWhileRevalidateMs,
+    }
+    try {
+      await this.store.set(key, entry)
+    } catch (error) {
+      console.error('[Cache Error]:', error)
+    }
+    return entry
+  }
+
+  /**
+   * Refresh `key` without blocking the caller. `load` returns null when the
+   * result shouldn't be cached.
+   */
+  revalidate(key: string, load: () => Promise<{ value: T; ttlMs: number } | null>): Promise<void> {
+    if (revalidating.has(key)) return Promise.resolve()
+    revalidating.add(key)
+
+    return load()
+      .then((result) => (result ? this.write(key, result.value, result.ttlMs).then(() => undefined) : undefined))
+      .catch((error) => console.error('[Cache Revalidate Error]:', error))
+      .finally(() => revalidating.delete(key))
+  }
+}
+
+// Shared across requests since route handlers build a new cache per request
+const memoryStore = new MemoryCacheStore<unknown>()
+
+export function usesDatabaseCache(): boolean {
+  return process.env.SEARCH_CACHE_BACKEND === 'database'
+}
+
+/**
+ * Pick the backend from `SEARCH_CACHE_BACKEND` ("memory" or "database").
+ * The database backend needs a service-role client: the cache is shared by
+ * every user, so only the server may write it.
+ */
+export function createDefaultCacheStore<T>(serviceClient?: SupabaseClient): CacheStore<T> {
+  if (usesDatabaseCache() && serviceClient) {
+    return new PostgresCacheStore<T>(serviceClient)
+  }
+  return memoryStore as MemoryCacheStore<T>
+}
@@ -0,0 +1,5 @@
+export { FreshnessCache, cacheKey, createDefaultCacheStore, usesDatabaseCache, type CachedValue } from './cache'
+export { MemoryCacheStore } from './memory'
+export { PostgresCacheStore } from './postgres'
+export { DEFAULT_FRESHNESS_POLICY, freshnessPolicyFromEnv, ttlForStores, type FreshnessPolicy } from './policy'
+export { cacheStateOf, type CacheEntry, type CacheState, type CacheStore } from './types'
@@ -0,0 +1,41 @@
+import type { CacheEntry, CacheStore } from './types'
+
+/**
+ * In-process cache store. Entries are lost on restart and not shared between
+ * server instances, which makes it a good fit for tests and local development.
+ */
+export class MemoryCacheStore<T> implements CacheStore<T> {
+  readonly id = 'memory'
+  private entries = new Map<string, CacheEntry<T>>()
+
+  constructor(private readonly maxEntries = 500) {}
+
+  async get(key: string): Promise<CacheEntry<T> | null> {
+    const entry = this.entries.get(key)
+    if (!entry) return null
+    if (entry.staleUntil <= Date.now()) {
+      this.entries.delete(key)
+      return null
+    }
+    return entry
+  }
+
+  async set(key: string, entry: CacheEntry<T>): Promise<void> {
+    // Re-inserting moves the key to the end, so the first key is always the oldest write
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value
+      if (oldest === undefined) break
+      this.entries.delete(oldest)
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key)
+  }
+
+  get size(): number {
+    return this.entries.size
+  }
+}
@@ -0,0 +1,50 @@
+// How long cached results stay fresh, per store
+
+export interface FreshnessPolicy {
+  // TTL for stores without an override
+  defaultTtlMs: number
+  // Overrides by store adapter id, e.g. for stores whose prices change often
+  storeTtlMs: Record<string, number>
+  // How long past its TTL an entry may still be served while it is refreshed
+  staleWhileRevalidateMs: number
+}
+
+export const DEFAULT_FRESHNESS_POLICY: FreshnessPolicy = {
+  defaultTtlMs: 15 * 60 * 1000,
+  storeTtlMs: {},
+  staleWhileRevalidateMs: 60 * 60 * 1000,
+}
+
+function seconds(value: string | undefined): number | undefined {
+  if (!value) return undefined
+  const number = Number(value)
+  return Number.isFinite(number) && number >= 0 ? number * 1000 : undefined
+}
+
+/**
+ * Read the policy from environment variables:
+ * SEARCH_CACHE_TTL_SECONDS, SEARCH_CACHE_STALE_SECONDS and
+ * SEARCH_CACHE_STORE_TTLS ("techmart=300,shophub=900").
+ */
+export function freshnessPolicyFromEnv(env: Record<string, string | undefined> = process.env): FreshnessPolicy {
+  const storeTtlMs: Record<string, number> = {}
+  for (const pair of (env.SEARCH_CACHE_STORE_TTLS ?? '').split(',')) {
+    const [storeId, value] = pair.split('=').map((part) => part.trim())
+    const ttl = seconds(value)
+    if (storeId && ttl !== undefined) storeTtlMs[storeId] = ttl
+  }
+
+  return {
+    defaultTtlMs: seconds(env.SEARCH_CACHE_TTL_SECONDS) ?? DEFAULT_FRESHNESS_POLICY.defaultTtlMs,
+    storeTtlMs,
+    staleWhileRevalidateMs: seconds(env.SEARCH_CACHE_STALE_SECONDS) ?? DEFAULT_FRESHNESS_POLICY.staleWhileRevalidateMs,
+  }
+}
+
+/**
+ * A result combining several stores is only as fresh as its most volatile store
+ */
+export function ttlForStores(policy: FreshnessPolicy, storeIds: string[]): number {
+  if (storeIds.length === 0) return policy.defaultTtlMs
+  return Math.min(...storeIds.map((id) => policy.storeTtlMs[id] ?? policy.defaultTtlMs))
+}
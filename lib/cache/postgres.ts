@@ -0,0 +1,70 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { CacheEntry, CacheStore } from './types'
+
+interface CacheRow {
+  key: string
+  value: unknown
+  stored_at: string
+  fresh_until: string
+  stale_until: string
+}
+
+/**
+ * Cache store backed by a Postgres table (see `search_cache` in
+ * database/phase7_schema.sql), shared by every server instance. Writes need
+ * the service role; users can only read the table.
+ */
+export class PostgresCacheStore<T> implements CacheStore<T> {
+  readonly id = 'postgres'
+
+  constructor(
+    private readonly supabase: SupabaseClient,
+    private readonly table = 'search_cache'
+  ) {}
+
+  async get(key: string): Promise<CacheEntry<T> | null> {
+    const { data, error } = await this.supabase
+      .from(this.table)
+      .select('key, value, stored_at, fresh_until, stale_until')
+      .eq('key', key)
+      .maybeSingle()
+
+    if (error) {
+      console.error('[DB Error]:', error)
+      return null
+    }
+    if (!data) return null
+
+    const row = data as CacheRow
+    const entry: CacheEntry<T> = {
+      value: row.value as T,
+      storedAt: Date.parse(row.stored_at),
+      freshUntil: Date.parse(row.fresh_until),
+      staleUntil: Date.parse(row.stale_until),
+    }
+    if (entry.staleUntil <= Date.now()) {
+      await this.delete(key)
+      return null
+    }
+    return entry
+  }
+
+  async set(key: string, entry: CacheEntry<T>): Promise<void> {
+    const { error } = await this.supabase.from(this.table).upsert(
+      {
+        key,
+        value: entry.value,
+        stored_at: new Date(entry.storedAt).toISOString(),
+        fresh_until: new Date(entry.freshUntil).toISOString(),
+        stale_until: new Date(entry.staleUntil).toISOString(),
+      },
+      { onConflict: 'key' }
+    )
+    if (error) console.error('[DB Error]:', error)
+  }
+
+  async delete(key: string): Promise<void> {
+    const { error } = await this.supabase.from(this.table).delete().eq('key', key)
+    if (error) console.error('[DB Error]:', error)
+  }
+}
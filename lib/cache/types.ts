@@ -0,0 +1,30 @@
+// Shared types for the cache layer
+
+export interface CacheEntry<T> {
+  value: T
+  // Epoch milliseconds
+  storedAt: number
+  // Served as-is until this time
+  freshUntil: number
+  // Served while being revalidated until this time, then discarded
+  staleUntil: number
+}
+
+export type CacheState = 'fresh' | 'stale' | 'expired'
+
+/**
+ * A key-value backend for cache entries. Backends should treat read errors as
+ * misses rather than throwing, so a broken cache never breaks a search.
+ */
+export interface CacheStore<T> {
+  readonly id: string
+  get(key: string): Promise<CacheEntry<T> | null>
+  set(key: string, entry: CacheEntry<T>): Promise<void>
+  delete(key: string): Promise<void>
+}
+
+export function cacheStateOf(entry: CacheEntry<unknown>, now: number = Date.now()): CacheState {
+  if (now < entry.freshUntil) return 'fresh'
+  if (now < entry.staleUntil) return 'stale'
+  return 'expired'
+}
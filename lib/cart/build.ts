@@ -0,0 +1,128 @@
+import { shippingRateFor, type Destination, type Product, type StoreAdapter, type StoreRegistry } from '@/lib/stores'
+import { scoreMatch, DEFAULT_MATCH_THRESHOLD } from '@/lib/matching'
+import { convertAmount, hasRate, roundMoney, type ExchangeRates } from '@/lib/currency'
+import { storeIdOf } from '@/lib/store-directory/domains'
+import type { CartItem, CartOffer, StoreShipping } from './types'
+
+/**
+ * A saved product to buy, as stored in saved_products
+ */
+export interface SavedCartProduct {
+  id: string
+  name: string
+  url: string
+  price: number
+  currency: string
+  store: string
+  quantity: number
+}
+
+export interface BuildCartOptions {
+  currency: string
+  rates: ExchangeRates
+  destination: Destination
+  signal?: AbortSignal
+}
+
+export interface BuiltCart {
+  items: CartItem[]
+  shipping: Record<string, StoreShipping>
+}
+
+// Listings are grouped into orders by domain, or by store name when the URL can't be parsed
+function cartStoreIdOf(url: string, store: string): string {
+  return storeIdOf(url) ?? store.toLowerCase()
+}
+
+/**
+ * A store's order shipping terms for the destination, converted to `currency`.
+ * Stores without published terms are assumed to ship for free.
+ */
+function shippingOf(adapter: StoreAdapter, productCurrency: string, options: BuildCartOptions): StoreShipping {
+  const rate = adapter.shippingPolicy && shippingRateFor(adapter.shippingPolicy, options.destination)
+  if (!rate || !hasRate(productCurrency, options.rates)) return { cost: 0, known: false }
+  const convert = (amount: number) => convertAmount(amount, productCurrency, options.currency, options.rates)
+  return {
+    cost: convert(rate.cost),
+    freeOver: rate.freeOver !== undefined ? convert(rate.freeOver) : undefined,
+    known: true,
+  }
+}
+
+/**
+ * Find every store selling each saved product, keeping each store's cheapest
+ * matching listing that can be bought now. Offers are priced at the item price
+ * only: shipping is charged per order by optimizeCart rather than per listing.
+ */
+export async function buildCartItems(
+  registry: StoreRegistry,
+  saved: SavedCartProduct[],
+  options: BuildCartOptions
+): Promise<BuiltCart> {
+  const shipping: Record<string, StoreShipping> = {}
+
+  const items = await Promise.all(
+    saved.map(async (product): Promise<CartItem> => {
+      const reference: Product = {
+        id: product.id,
+        name: product.name,
+        price: product.price,
+        currency: product.currency,
+        url: product.url,
+        store: product.store,
+      }
+      const search = await registry.searchByKeyword(product.name, {
+        signal: options.signal,
+        destination: options.destination,
+      })
+
+      const byStore = new Map<string, CartOffer>()
+      for (const result of search.results) {
+        const adapter = registry.get(result.adapterId)
+        for (const listing of result.value) {
+          if (listing.availability === 'out_of_stock' || !hasRate(listing.currency, options.rates)) continue
+          if (scoreMatch(reference, listing).score < DEFAULT_MATCH_THRESHOLD) continue
+
+          const storeId = listing.storeId ?? cartStoreIdOf(listing.url, listing.store)
+          const offer: CartOffer = {
+            storeId,
+            store: listing.store,
+            productId: listing.id,
+            name: listing.name,
+            url: listing.url,
+            price: roundMoney(convertAmount(listing.price, listing.currency, options.currency, options.rates)),
+          }
+          const current = byStore.get(storeId)
+          if (!current || offer.price < current.price) byStore.set(storeId, offer)
+          if (adapter && !shipping[storeId]) shipping[storeId] = shippingOf(adapter, listing.currency, options)
+        }
+      }
+
+      // The saved listing itself, when no store search turned it up
+      const savedStoreId = cartStoreIdOf(product.url, product.store)
+      if (!byStore.has(savedStoreId) && hasRate(product.currency, options.rates)) {
+        byStore.set(savedStoreId, {
+          storeId: savedStoreId,
+          store: product.store,
+          productId: product.id,
+          name: product.name,
+          url: product.url,
+          price: roundMoney(convertAmount(product.price, product.currency, options.currency, options.rates)),
+        })
+      }
+
+      return {
+        id: product.id,
+        name: product.name,
+        quantity: product.quantity,
+        offers: [...byStore.values()],
+        savedStoreId,
+      }
+    })
+  )
+
+  for (const item of items) {
+    for (const offer of item.offers) shipping[offer.storeId] ??= { cost: 0, known: false }
+  }
+  return { items, shipping }
+}
@@ -0,0 +1,3 @@
+export { optimizeCart, MAX_EXACT_STORES } from './optimize'
+export { buildCartItems, type SavedCartProduct, type BuildCartOptions, type BuiltCart } from './build'
+export type { CartItem, CartOffer, CartLine, CartPlan, StoreOrder, StoreShipping } from './types'
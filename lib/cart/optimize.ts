@@ -0,0 +1,186 @@
+import { roundMoney } from '@/lib/currency'
+import type { CartItem, CartLine, CartOffer, CartPlan, StoreOrder, StoreShipping } from './types'
+
+// Every combination of stores is tried up to this many stores; beyond it only the local search runs
+export const MAX_EXACT_STORES = 8
+// Bounds the local search on large carts
+const MAX_IMPROVEMENT_PASSES = 20
+
+type Assignment = Map<string, CartOffer>
+
+function shippingCharge(subtotal: number, shipping: StoreShipping | undefined): number {
+  if (!shipping || subtotal === 0) return 0
+  return shipping.freeOver !== undefined && subtotal >= shipping.freeOver ? 0 : shipping.cost
+}
+
+function subtotalsOf(items: CartItem[], assignment: Assignment): Map<string, number> {
+  const subtotals = new Map<string, number>()
+  for (const item of items) {
+    const offer = assignment.get(item.id)!
+    subtotals.set(offer.storeId, (subtotals.get(offer.storeId) ?? 0) + offer.price * item.quantity)
+  }
+  return subtotals
+}
+
+function totalCost(items: CartItem[], assignment: Assignment, shipping: Record<string, StoreShipping>): number {
+  let total = 0
+  for (const [storeId, subtotal] of subtotalsOf(items, assignment)) {
+    total += subtotal + shippingCharge(subtotal, shipping[storeId])
+  }
+  return total
+}
+
+function cheapestOffer(offers: CartOffer[]): CartOffer {
+  return offers.reduce((best, offer) => (offer.price < best.price ? offer : best))
+}
+
+/**
+ * Move single items between the allowed stores while that lowers the total,
+ * e.g. to top an order up past a free-shipping minimum or to empty a store
+ * whose shipping costs more than its savings
+ */
+function improve(
+  items: CartItem[],
+  assignment: Assignment,
+  shipping: Record<string, StoreShipping>,
+  allowed: (offer: CartOffer) => boolean
+): number {
+  let best = totalCost(items, assignment, shipping)
+  for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES; pass++) {
+    let improved = false
+    for (const item of items) {
+      const current = assignment.get(item.id)!
+      for (const offer of item.offers) {
+        if (offer === current || !allowed(offer)) continue
+        assignment.set(item.id, offer)
+        const cost = totalCost(items, assignment, shipping)
+        // Ignore float noise so the search can't cycle
+        if (cost < best - 0.001) {
+          best = cost
+          improved = true
+          break
+        }
+        assignment.set(item.id, current)
+      }
+    }
+    if (!improved) break
+  }
+  return best
+}
+
+/**
+ * Best assignment using only the given stores, or null when some item isn't sold by any of them
+ */
+function planWithin(
+  items: CartItem[],
+  stores: Set<string>,
+  shipping: Record<string, StoreShipping>
+): { assignment: Assignment; cost: number } | null {
+  const assignment: Assignment = new Map()
+  for (const item of items) {
+    const offers = item.offers.filter((offer) => stores.has(offer.storeId))
+    if (offers.length === 0) return null
+    assignment.set(item.id, cheapestOffer(offers))
+  }
+  const cost = improve(items, assignment, shipping, (offer) => stores.has(offer.storeId))
+  return { assignment, cost }
+}
+
+function ordersOf(items: CartItem[], assignment: Assignment, shipping: Record<string, StoreShipping>): StoreOrder[] {
+  const orders = new Map<string, StoreOrder>()
+  for (const item of items) {
+    const offer = assignment.get(item.id)!
+    const line: CartLine = {
+      itemId: item.id,
+      name: item.name,
+      quantity: item.quantity,
+      offer,
+      lineTotal: roundMoney(offer.price * item.quantity),
+    }
+    const order = orders.get(offer.storeId)
+    if (order) {
+      order.lines.push(line)
+      order.subtotal += line.lineTotal
+    } else {
+      orders.set(offer.storeId, {
+        storeId: offer.storeId,
+        store: offer.store,
+        lines: [line],
+        subtotal: line.lineTotal,
+        shipping: 0,
+        total: 0,
+        shippingKnown: shipping[offer.storeId]?.known ?? false,
+      })
+    }
+  }
+
+  return [...orders.values()]
+    .map((order) => {
+      const terms = shipping[order.storeId]
+      const subtotal = roundMoney(order.subtotal)
+      const charge = shippingCharge(subtotal, terms)
+      return {
+        ...order,
+        subtotal,
+        shipping: charge,
+        total: roundMoney(subtotal + charge),
+        freeShippingGap:
+          charge > 0 && terms?.freeOver !== undefined ? roundMoney(terms.freeOver - subtotal) : undefined,
+      }
+    })
+    .sort((a, b) => b.total - a.total)
+}
+
+/**
+ * What buying every item from the store it was saved from would cost
+ */
+function baselineCost(items: CartItem[], shipping: Record<string, StoreShipping>): number | undefined {
+  const assignment: Assignment = new Map()
+  for (const item of items) {
+    const offer = item.offers.find((candidate) => candidate.storeId === item.savedStoreId)
+    if (!offer) return undefined
+    assignment.set(item.id, offer)
+  }
+  return roundMoney(totalCost(items, assignment, shipping))
+}
+
+/**
+ * Choose where to buy each item so the whole cart costs the least, counting
+ * each store's shipping once per order and free-shipping minimums. With up to
+ * MAX_EXACT_STORES stores every combination of stores is tried, each refined
+ * by moving items between its stores; larger carts start from every item at
+ * its cheapest store and are refined the same way.
+ */
+export function optimizeCart(items: CartItem[], shipping: Record<string, StoreShipping>, currency: string): CartPlan {
+  const available = items.filter((item) => item.offers.length > 0)
+  const unavailable = items.filter((item) => item.offers.length === 0).map((item) => item.id)
+  const storeIds = [...new Set(available.flatMap((item) => item.offers.map((offer) => offer.storeId)))]
+
+  let best: { assignment: Assignment; cost: number } | null = null
+  if (storeIds.length <= MAX_EXACT_STORES) {
+    for (let mask = 1; mask < 1 << storeIds.length; mask++) {
+      const stores = new Set(storeIds.filter((_, index) => mask & (1 << index)))
+      const plan = planWithin(available, stores, shipping)
+      if (plan && (!best || plan.cost < best.cost - 0.001)) best = plan
+    }
+  } else {
+    best = planWithin(available, new Set(storeIds), shipping)
+  }
+
+  const orders = best ? ordersOf(available, best.assignment, shipping) : []
+  const itemsTotal = roundMoney(orders.reduce((sum, order) => sum + order.subtotal, 0))
+  const shippingTotal = roundMoney(orders.reduce((sum, order) => sum + order.shipping, 0))
+  const total = roundMoney(itemsTotal + shippingTotal)
+  const baselineTotal = unavailable.length === 0 ? baselineCost(available, shipping) : undefined
+
+  return {
+    currency,
+    orders,
+    itemsTotal,
+    shippingTotal,
+    total,
+    baselineTotal,
+    savings: baselineTotal !== undefined ? roundMoney(baselineTotal - total) : undefined,
+    unavailable,
+  }
+}
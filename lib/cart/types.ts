@@ -0,0 +1,71 @@
+/**
+ * Somewhere an item in the cart can be bought. Prices are in the plan currency.
+ */
+export interface CartOffer {
+  storeId: string
+  store: string
+  productId: string
+  name: string
+  url: string
+  // Item price, before shipping
+  price: number
+}
+
+export interface CartItem {
+  // Saved product id
+  id: string
+  name: string
+  quantity: number
+  offers: CartOffer[]
+  // Store the item was saved from, to work out what the plan saves
+  savedStoreId?: string
+}
+
+/**
+ * What a store charges to ship one order, in the plan currency
+ */
+export interface StoreShipping {
+  cost: number
+  // Order subtotal from which shipping is free
+  freeOver?: number
+  // False when the store didn't publish terms and shipping was assumed free
+  known: boolean
+}
+
+export interface CartLine {
+  itemId: string
+  name: string
+  quantity: number
+  offer: CartOffer
+  lineTotal: number
+  // Filled in by the API from /api/affiliate's link generation
+  affiliateUrl?: string
+}
+
+/**
+ * One checkout: everything to buy from a single store
+ */
+export interface StoreOrder {
+  storeId: string
+  store: string
+  lines: CartLine[]
+  subtotal: number
+  shipping: number
+  total: number
+  shippingKnown: boolean
+  // How much more would unlock free shipping, when shipping is charged and a threshold exists
+  freeShippingGap?: number
+}
+
+export interface CartPlan {
+  currency: string
+  orders: StoreOrder[]
+  itemsTotal: number
+  shippingTotal: number
+  total: number
+  // Cost of buying every item from the store it was saved from, when all of them still sell it
+  baselineTotal?: number
+  savings?: number
+  // Items no store currently sells
+  unavailable: string[]
+}
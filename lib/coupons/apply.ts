@@ -0,0 +1,70 @@
+import type { OfferCoupon, Product } from '@/lib/stores/types'
+import { roundMoney } from '@/lib/currency/convert'
+import type { Coupon } from './types'
+
+type CouponTarget = Pick<Product, 'price' | 'currency' | 'storeId' | 'category'>
+
+function acceptedBy(coupon: Coupon, storeId: string | undefined): boolean {
+  return Boolean(storeId) && (storeId === coupon.storeId || storeId!.endsWith(`.${coupon.storeId}`))
+}
+
+/**
+ * Whether a coupon can be used on an offer. Amounts and minimum spends only
+ * count in the coupon's own currency, so a USD code never applies to a EUR listing.
+ */
+export function isCouponEligible(coupon: Coupon, product: CouponTarget, now: number = Date.now()): boolean {
+  if (!acceptedBy(coupon, product.storeId)) return false
+  if (coupon.expiresAt && new Date(coupon.expiresAt).getTime() <= now) return false
+  if (coupon.categories?.length && (!product.category || !coupon.categories.includes(product.category))) return false
+
+  const sameCurrency = coupon.currency.toUpperCase() === product.currency.toUpperCase()
+  if ((coupon.discount.type === 'amount' || coupon.minSpend) && !sameCurrency) return false
+  if (coupon.minSpend && product.price < coupon.minSpend) return false
+  return true
+}
+
+/**
+ * What a coupon takes off the item price, never more than the price itself
+ */
+export function couponSavings(coupon: Coupon, product: Pick<Product, 'price'>): number {
+  const savings =
+    coupon.discount.type === 'percent' ? (product.price * coupon.discount.value) / 100 : coupon.discount.value
+  return roundMoney(Math.min(Math.max(savings, 0), product.price))
+}
+
+/**
+ * The coupon to show for an offer: the biggest saving any shopper can get,
+ * or failing that the biggest first-order saving
+ */
+export function bestCoupon(coupons: Coupon[], product: CouponTarget, now: number = Date.now()): OfferCoupon | undefined {
+  const offered = coupons
+    .filter((coupon) => isCouponEligible(coupon, product, now))
+    .map((coupon) => ({
+      code: coupon.code,
+      description: coupon.description,
+      savings: couponSavings(coupon, product),
+      firstOrderOnly: coupon.firstOrderOnly,
+      expiresAt: coupon.expiresAt,
+    }))
+    .filter((coupon) => coupon.savings > 0)
+    .sort((a, b) => Number(a.firstOrderOnly) - Number(b.firstOrderOnly) || b.savings - a.savings)
+  return offered[0]
+}
+
+/**
+ * Attach each offer's best coupon and, when every shopper can use it, the
+ * effective price it leaves. Tax is still estimated on the full price.
+ */
+export function withCoupons<T extends Product>(products: T[], coupons: Coupon[], now: number = Date.now()): T[] {
+  if (coupons.length === 0) return products
+  return products.map((product) => {
+    const coupon = bestCoupon(coupons, product, now)
+    if (!coupon) return product
+    const total = product.landedPrice ?? product.price
+    return {
+      ...product,
+      coupon,
+      effectivePrice: coupon.firstOrderOnly ? undefined : roundMoney(total - coupon.savings),
+    }
+  })
+}
@@ -0,0 +1,4 @@
+export { isCouponEligible, couponSavings, bestCoupon, withCoupons } from './apply'
+export { loadCoupons } from './sources'
+export type { Coupon, CouponDiscount } from './types'
+export type { OfferCoupon } from '@/lib/stores/types'
@@ -0,0 +1,69 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import catalog from '@/lib/stores/fixtures/catalog.json'
+import type { Coupon } from './types'
+
+/**
+ * A row of the coupons table
+ */
+interface CouponRow {
+  store_id: string
+  code: string
+  description: string | null
+  discount_type: 'percent' | 'amount'
+  discount_value: number
+  currency: string
+  min_spend: number | null
+  categories: string[] | null
+  expires_at: string | null
+  first_order_only: boolean
+}
+
+interface CatalogCouponStore {
+  domains: string[]
+  coupons?: Array<Omit<Coupon, 'storeId'>>
+}
+
+// Codes for the stores we ship adapters for, so coupons work offline too
+const CATALOG_COUPONS: Coupon[] = (catalog.stores as CatalogCouponStore[]).flatMap((store) =>
+  (store.coupons ?? []).map((coupon) => ({ ...coupon, storeId: store.domains[0] }))
+)
+
+function fromRow(row: CouponRow): Coupon {
+  return {
+    storeId: row.store_id,
+    code: row.code,
+    description: row.description ?? undefined,
+    discount: { type: row.discount_type, value: Number(row.discount_value) },
+    currency: row.currency,
+    minSpend: row.min_spend !== null ? Number(row.min_spend) : undefined,
+    categories: row.categories ?? undefined,
+    expiresAt: row.expires_at ?? undefined,
+    firstOrderOnly: row.first_order_only,
+  }
+}
+
+/**
+ * Active coupons for the given stores (directory ids), from the coupons table
+ * and the built-in catalog. If the table can't be read only the catalog's
+ * coupons are returned; a search shouldn't fail over promo codes.
+ */
+export async function loadCoupons(supabase: SupabaseClient, storeIds: string[]): Promise<Coupon[]> {
+  const ids = [...new Set(storeIds)]
+  if (ids.length === 0) return []
+
+  const { data, error } = await supabase
+    .from('coupons')
+    .select('*')
+    .in('store_id', ids)
+    .eq('is_active', true)
+    .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+
+  if (error) {
+    console.error('[DB Error]:', error)
+  }
+
+  const catalogCoupons = CATALOG_COUPONS.filter((coupon) =>
+    ids.some((id) => id === coupon.storeId || id.endsWith(`.${coupon.storeId}`))
+  )
+  return [...catalogCoupons, ...((data ?? []) as CouponRow[]).map(fromRow)]
+}
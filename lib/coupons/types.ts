@@ -0,0 +1,19 @@
+export type CouponDiscount = { type: 'percent'; value: number } | { type: 'amount'; value: number }
+
+/**
+ * A promo code a store accepts, with the conditions it comes with
+ */
+export interface Coupon {
+  // Store directory id (domain) of the store that accepts it
+  storeId: string
+  code: string
+  description?: string
+  discount: CouponDiscount
+  // Currency of amount discounts and the minimum spend
+  currency: string
+  minSpend?: number
+  // PRODUCT_CATEGORIES it is limited to; empty or absent for store-wide codes
+  categories?: string[]
+  expiresAt?: string
+  firstOrderOnly: boolean
+}
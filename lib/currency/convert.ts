@@ -0,0 +1,36 @@
+import type { ExchangeRates } from './sources'
+
+export class CurrencyConversionError extends Error {
+  constructor(public readonly currency: string) {
+    super(`No exchange rate for currency "${currency}"`)
+    this.name = 'CurrencyConversionError'
+  }
+}
+
+/**
+ * Round to the currency's minor unit (two decimals is right for everything we list except JPY/KRW,
+ * where the extra precision is harmless for comparisons)
+ */
+export function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+export function hasRate(currency: string, rates: ExchangeRates): boolean {
+  return currency.toUpperCase() in rates.rates
+}
+
+/**
+ * Convert an amount between two currencies through the table's base currency
+ */
+export function convertAmount(amount: number, from: string, to: string, rates: ExchangeRates): number {
+  const source = from.toUpperCase()
+  const target = to.toUpperCase()
+  if (source === target) return amount
+
+  const sourceRate = rates.rates[source]
+  const targetRate = rates.rates[target]
+  if (!sourceRate) throw new CurrencyConversionError(source)
+  if (!targetRate) throw new CurrencyConversionError(target)
+
+  return roundMoney((amount / sourceRate) * targetRate)
+}
@@ -0,0 +1,23 @@
+// Locale-aware price formatting. Safe to import from client components.
+
+import bundledRates from './rates.json'
+
+export const DEFAULT_CURRENCY = 'USD'
+
+export const SUPPORTED_CURRENCIES = Object.keys(bundledRates.rates)
+
+export function isSupportedCurrency(currency: string): boolean {
+  return SUPPORTED_CURRENCIES.includes(currency.toUpperCase())
+}
+
+/**
+ * Format an amount with its currency symbol, e.g. "$329.99", "329,99 €" or "¥49,800".
+ * Unknown currency codes fall back to "<amount> <code>".
+ */
+export function formatPrice(amount: number, currency: string = DEFAULT_CURRENCY, locale?: string): string {
+  try {
+    return new Intl.NumberFormat(locale, { style: 'currency', currency: currency.toUpperCase() }).format(amount)
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`
+  }
+}
@@ -0,0 +1,10 @@
+export {
+  StaticRateSource,
+  STATIC_RATES,
+  DatabaseRateSource,
+  createDefaultRateSource,
+  type ExchangeRates,
+  type ExchangeRateSource,
+} from './sources'
+export { convertAmount, hasRate, roundMoney, CurrencyConversionError } from './convert'
+export { formatPrice, isSupportedCurrency, SUPPORTED_CURRENCIES, DEFAULT_CURRENCY } from './format'
@@ -0,0 +1,90 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import bundledRates from './rates.json'
+
+/**
+ * Exchange rates expressed as units of each currency per one unit of `base`
+ */
+export interface ExchangeRates {
+  base: string
+  rates: Record<string, number>
+  updatedAt: string
+}
+
+export interface ExchangeRateSource {
+  readonly id: string
+  getRates(): Promise<ExchangeRates>
+}
+
+// Snapshot bundled with the app
+export const STATIC_RATES: ExchangeRates = bundledRates
+
+/**
+ * Rates from a static table, by default the snapshot bundled with the app.
+ * Works offline and is the fallback for every other source.
+ */
+export class StaticRateSource implements ExchangeRateSource {
+  readonly id = 'static'
+
+  constructor(private readonly table: ExchangeRates = STATIC_RATES) {}
+
+  async getRates(): Promise<ExchangeRates> {
+    return this.table
+  }
+}
+
+interface ExchangeRateRow {
+  currency: string
+  rate: number
+  updated_at: string
+}
+
+// Shared across instances since route handlers build a new source per request
+let databaseCache: { rates: ExchangeRates; expiresAt: number } | null = null
+
+/**
+ * Rates from the `exchange_rates` table (see database/phase7_schema.sql).
+ * Results are cached in memory; on errors or an empty table the fallback source is used.
+ */
+export class DatabaseRateSource implements ExchangeRateSource {
+  readonly id = 'database'
+
+  constructor(
+    private readonly supabase: SupabaseClient,
+    private readonly options: { ttlMs?: number; fallback?: ExchangeRateSource } = {}
+  ) {}
+
+  async getRates(): Promise<ExchangeRates> {
+    if (databaseCache && databaseCache.expiresAt > Date.now()) {
+      return databaseCache.rates
+    }
+
+    const fallback = this.options.fallback ?? new StaticRateSource()
+    const { data, error } = await this.supabase.from('exchange_rates').select('currency, rate, updated_at')
+
+    if (error || !data || data.length === 0) {
+      if (error) console.error('[DB Error]:', error)
+      return fallback.getRates()
+    }
+
+    const rows = data as ExchangeRateRow[]
+    const rates: ExchangeRates = {
+      base: 'USD',
+      rates: Object.fromEntries(rows.map((row) => [row.currency.toUpperCase(), Number(row.rate)])),
+      updatedAt: rows.reduce((latest, row) => (row.updated_at > latest ? row.updated_at : latest), rows[0].updated_at),
+    }
+
+    databaseCache = { rates, expiresAt: Date.now() + (this.options.ttlMs ?? 60 * 60 * 1000) }
+    return rates
+  }
+}
+
+/**
+ * Pick the rate source from `EXCHANGE_RATE_SOURCE` ("static" or "database").
+ * The database source needs a Supabase client to read with.
+ */
+export function createDefaultRateSource(supabase?: SupabaseClient): ExchangeRateSource {
+  if (process.env.EXCHANGE_RATE_SOURCE === 'database' && supabase) {
+    return new DatabaseRateSource(supabase)
+  }
+  return new StaticRateSource()
+}
@@ -0,0 +1,3 @@
+export { enrichProduct, enrichProducts, inferBrand, inferCategory, inferCondition } from './infer'
+export { PRODUCT_CATEGORIES, PRODUCT_CONDITIONS, CONDITION_LABELS, KNOWN_BRANDS, isProductCondition } from './taxonomy'
+export { parseWarranty, warrantyFromStructured, formatWarranty } from './warranty'
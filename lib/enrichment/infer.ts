@@ -0,0 +1,68 @@
+import type { Product, ProductCondition } from '@/lib/stores/types'
+import { parseQuantity } from '@/lib/units/parse'
+import { KNOWN_BRANDS } from './taxonomy'
+import { parseWarranty } from './warranty'
+import { storeIdOf } from '@/lib/store-directory/domains'
+
+// First matching rule wins, so more specific categories come before Electronics
+const CATEGORY_RULES: Array<{ category: string; pattern: RegExp }> = [
+  { category: 'Automotive', pattern: /\b(dash ?cam|tires?|motor oil|car (charger|mount|seat)|jump starter)\b/ },
+  { category: 'Books', pattern: /\b(books?|paperback|hardcover|novel|kindle edition)\b/ },
+  { category: 'Toys & Games', pattern: /\b(lego|toys?|puzzles?|board games?|action figures?|dolls?|nintendo switch games?)\b/ },
+  { category: 'Health & Beauty', pattern: /\b(shampoo|skin ?care|moisturi[sz]er|toothbrush|vitamins?|perfume|hair dryer|razor)\b/ },
+  { category: 'Sports & Outdoors', pattern: /\b(tents?|yoga|dumbbells?|bikes?|bicycles?|treadmill|camping|hiking|running shoes)\b/ },
+  { category: 'Fashion', pattern: /\b(shirts?|t-shirts?|shoes|sneakers?|jackets?|dress(es)?|jeans|hoodies?|handbags?|watch band)\b/ },
+  { category: 'Home & Garden', pattern: /\b(vacuums?|sofa|lamps?|blenders?|cookware|coffee maker|air fryer|garden|mattress|kettle)\b/ },
+  {
+    category: 'Electronics',
+    pattern:
+      /\b(headphones?|earbuds?|mouse|keyboards?|laptops?|phones?|smartphones?|tv|televisions?|monitors?|cameras?|speakers?|tablets?|chargers?|smartwatch|consoles?|ssd|routers?)\b/,
+  },
+]
+
+const CONDITION_RULES: Array<{ condition: ProductCondition; pattern: RegExp }> = [
+  { condition: 'refurbished', pattern: /\b(refurbished|renewed|reconditioned)\b/ },
+  { condition: 'open_box', pattern: /\bopen[- ]box\b/ },
+  { condition: 'used', pattern: /\b(used|pre-?owned|second[- ]hand)\b/ },
+]
+
+/**
+ * Brand named at the start of a title, e.g. "Sony WH-1000XM5 ..." -> "Sony"
+ */
+export function inferBrand(title: string): string | undefined {
+  const firstWord = title.trim().split(/\s+/)[0]?.toLowerCase()
+  return KNOWN_BRANDS.find((brand) => brand.toLowerCase() === firstWord)
+}
+
+export function inferCategory(title: string): string | undefined {
+  const text = title.toLowerCase()
+  return CATEGORY_RULES.find(({ pattern }) => pattern.test(text))?.category
+}
+
+/**
+ * Listings are assumed new unless the title says otherwise
+ */
+export function inferCondition(title: string): ProductCondition {
+  const text = title.toLowerCase()
+  return CONDITION_RULES.find(({ pattern }) => pattern.test(text))?.condition ?? 'new'
+}
+
+/**
+ * Fill in brand, category, condition, warranty and pack size from the title where the store didn't provide
+ * them, and link the listing to its store in the directory
+ */
+export function enrichProduct(product: Product): Product {
+  return {
+    ...product,
+    storeId: product.storeId ?? storeIdOf(product.url),
+    brand: product.brand ?? inferBrand(product.name),
+    category: product.category ?? inferCategory(product.name),
+    condition: product.condition ?? inferCondition(product.name),
+    warranty: product.warranty ?? parseWarranty(product.name),
+    quantity: product.quantity ?? parseQuantity(product.name),
+  }
+}
+
+export function enrichProducts(products: Product[]): Product[] {
+  return products.map(enrichProduct)
+}
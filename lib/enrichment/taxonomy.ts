@@ -0,0 +1,32 @@
+// Category and condition vocabularies shared by enrichment, search filters and the UI
+import type { ProductCondition } from '@/lib/stores/types'
+
+export const PRODUCT_CATEGORIES = [
+  'Electronics',
+  'Fashion',
+  'Home & Garden',
+  'Sports & Outdoors',
+  'Books',
+  'Toys & Games',
+  'Health & Beauty',
+  'Automotive',
+]
+
+// Brands recognized in listing titles and search queries
+export const KNOWN_BRANDS = [
+  'Adidas', 'Amazon', 'Anker', 'Apple', 'Asus', 'Bose', 'Canon', 'Dell', 'Dyson', 'Garmin', 'Google', 'HP',
+  'JBL', 'Lenovo', 'LG', 'Logitech', 'Microsoft', 'Nike', 'Nikon', 'Nintendo', 'Philips', 'Samsung', 'Sony',
+]
+
+export const PRODUCT_CONDITIONS: ProductCondition[] = ['new', 'refurbished', 'open_box', 'used']
+
+export const CONDITION_LABELS: Record<ProductCondition, string> = {
+  new: 'New',
+  refurbished: 'Renewed',
+  open_box: 'Open box',
+  used: 'Used',
+}
+
+export function isProductCondition(value: unknown): value is ProductCondition {
+  return typeof value === 'string' && (PRODUCT_CONDITIONS as string[]).includes(value)
+}
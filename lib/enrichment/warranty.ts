@@ -0,0 +1,74 @@
+import type { Warranty } from '@/lib/stores/types'
+
+const MONTHS_PER_UNIT: Record<string, number> = {
+  day: 1 / 30,
+  month: 1,
+  year: 12,
+}
+
+// schema.org / UN/CEFACT unit codes used by durationOfWarranty
+const UNIT_CODES: Record<string, string> = {
+  DAY: 'day',
+  MON: 'month',
+  ANN: 'year',
+}
+
+// "2-year warranty", "90 day manufacturer warranty", "12 months seller warranty"
+const WARRANTY_PATTERN =
+  /\b(\d+)[\s-]*(day|month|year|yr|mo)s?\b(?:\s+(?:limited\s+)?(manufacturer|seller|store|amazon))?[\s-]*(?:limited\s+)?(?:warranty|guarantee)\b/i
+
+function normalizeUnit(unit: string): string {
+  const lower = unit.toLowerCase()
+  if (lower === 'yr') return 'year'
+  if (lower === 'mo') return 'month'
+  return lower
+}
+
+function toWarranty(amount: number, unit: string, provider?: string): Warranty | undefined {
+  const perUnit = MONTHS_PER_UNIT[normalizeUnit(unit)]
+  if (!perUnit || !(amount > 0)) return undefined
+  const months = Math.round(amount * perUnit * 10) / 10
+  if (!provider) return { months }
+  return { months, provider: provider.toLowerCase() === 'manufacturer' ? 'manufacturer' : 'seller' }
+}
+
+/**
+ * Read a warranty mentioned in a listing title or description
+ */
+export function parseWarranty(text: string): Warranty | undefined {
+  const match = text.match(WARRANTY_PATTERN)
+  if (!match) return undefined
+  return toWarranty(parseInt(match[1], 10), match[2], match[3])
+}
+
+/**
+ * Read a schema.org WarrantyPromise (or free text) from structured data
+ */
+export function warrantyFromStructured(value: unknown): Warranty | undefined {
+  if (typeof value === 'string') return parseWarranty(value.includes('warranty') ? value : `${value} warranty`)
+  if (Array.isArray(value)) return warrantyFromStructured(value[0])
+  if (!value || typeof value !== 'object') return undefined
+
+  const promise = value as Record<string, unknown>
+  const duration = promise.durationOfWarranty as Record<string, unknown> | string | undefined
+  if (typeof duration === 'string') return warrantyFromStructured(duration)
+  if (!duration) return undefined
+
+  const amount = Number(duration.value)
+  const unitCode = typeof duration.unitCode === 'string' ? UNIT_CODES[duration.unitCode.toUpperCase()] : undefined
+  const unitText = typeof duration.unitText === 'string' ? duration.unitText.replace(/s$/i, '') : undefined
+  return toWarranty(amount, unitCode ?? unitText ?? '')
+}
+
+/**
+ * "2-year manufacturer warranty", "90-day warranty"
+ */
+export function formatWarranty(warranty: Warranty): string {
+  const length =
+    warranty.months >= 12 && warranty.months % 12 === 0
+      ? `${warranty.months / 12}-year`
+      : warranty.months >= 1
+        ? `${warranty.months}-month`
+        : `${Math.round(warranty.months * 30)}-day`
+  return warranty.provider ? `${length} ${warranty.provider} warranty` : `${length} warranty`
+}
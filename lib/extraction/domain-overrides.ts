@@ -0,0 +1,71 @@
+// Per-domain selector overrides for stores whose structured data is missing or unreliable
+
+export type ExtractableField =
+  | 'name'
+  | 'price'
+  | 'currency'
+  | 'image'
+  | 'availability'
+  | 'brand'
+  | 'gtin'
+  | 'rating'
+  | 'reviews'
+
+export interface SelectorRule {
+  selector: string
+  // Read this attribute instead of the element's text
+  attr?: string
+}
+
+export interface DomainOverride {
+  storeName?: string
+  fields: Partial<Record<ExtractableField, SelectorRule[]>>
+}
+
+export const DOMAIN_OVERRIDES: Record<string, DomainOverride> = {
+  amazon: {
+    storeName: 'Amazon',
+    fields: {
+      name: [{ selector: '#productTitle' }],
+      price: [
+        { selector: '#corePrice_feature_div span.a-offscreen' },
+        { selector: '#priceblock_ourprice' },
+        { selector: 'span.a-offscreen' },
+      ],
+      image: [
+        { selector: '#landingImage', attr: 'data-old-hires' },
+        { selector: '#landingImage', attr: 'src' },
+      ],
+      brand: [{ selector: '#bylineInfo' }],
+      rating: [{ selector: '#acrPopover', attr: 'title' }],
+      reviews: [{ selector: '#acrCustomerReviewText' }],
+      availability: [{ selector: '#availability' }],
+    },
+  },
+  'ebay.com': {
+    storeName: 'eBay',
+    fields: {
+      name: [{ selector: 'h1.x-item-title__mainTitle' }],
+      price: [{ selector: 'div.x-price-primary' }],
+      image: [{ selector: 'div.ux-image-carousel-item img', attr: 'src' }],
+    },
+  },
+}
+
+/**
+ * Find the override for a hostname. Keys containing a dot match the domain
+ * and its subdomains; bare keys (e.g. "amazon") match any regional TLD.
+ */
+export function getDomainOverride(hostname: string): DomainOverride | undefined {
+  const host = hostname.toLowerCase().replace(/^www\./, '')
+
+  for (const [key, override] of Object.entries(DOMAIN_OVERRIDES)) {
+    if (key.includes('.')) {
+      if (host === key || host.endsWith(`.${key}`)) return override
+    } else if (host.split('.').includes(key)) {
+      return override
+    }
+  }
+
+  return undefined
+}
@@ -0,0 +1,122 @@
+import axios from 'axios'
+import type { LookupAddress } from 'dns'
+import { lookup } from 'dns/promises'
+import { isIP } from 'net'
+
+const FETCH_TIMEOUT = 10000 // 10 seconds
+const MAX_REDIRECTS = 5
+const MAX_PAGE_SIZE = 3 * 1024 * 1024 // 3 MB
+
+const USER_AGENT =
+  'Mozilla/5.0 (compatible; SaveAIBot/1.0; +https://saveai.app/bot) AppleWebKit/537.36 (KHTML, like Gecko)'
+
+/**
+ * Whether an IP address belongs to a private, loopback, link-local or otherwise
+ * non-public range. IPv4-mapped IPv6 addresses are judged by their IPv4 part.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.toLowerCase().replace(/^\[|\]$/g, '')
+
+  if (isIP(ip) === 6) {
+    // ::ffff:a.b.c.d, which URL parsing rewrites as ::ffff:xxxx:xxxx
+    const mapped = ip.match(/^(?:0*:)*:?ffff:(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/)
+    if (mapped) {
+      if (mapped[1]) return isPrivateAddress(mapped[1])
+      const high = parseInt(mapped[2], 16)
+      const low = parseInt(mapped[3], 16)
+      return isPrivateAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`)
+    }
+    if (ip === '::' || ip === '::1') return true
+    // fc00::/7 unique local, fe80::/10 link-local, ff00::/8 multicast
+    return /^f[cd][0-9a-f]{0,2}:/.test(ip) || /^fe[89ab][0-9a-f]?:/.test(ip) || /^ff[0-9a-f]{0,2}:/.test(ip)
+  }
+
+  const ipv4 = ip.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/)
+  if (!ipv4) return false
+  const [a, b] = [Number(ipv4[1]), Number(ipv4[2])]
+  if (a === 0 || a === 10 || a === 127) return true
+  if (a === 100 && b >= 64 && b <= 127) return true // carrier-grade NAT
+  if (a === 169 && b === 254) return true
+  if (a === 172 && b >= 16 && b <= 31) return true
+  if (a === 192 && b === 168) return true
+  return a >= 224 // multicast and reserved
+}
+
+/**
+ * Reject URLs that point at the server's own network (SSRF protection).
+ * Only the URL itself is checked; `fetchProductPage` also checks what the
+ * hostname resolves to.
+ */
+export function isFetchableUrl(url: string): boolean {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return false
+  }
+
+  if (!['http:', 'https:'].includes(parsed.protocol)) return false
+
+  const host = parsed.hostname.toLowerCase()
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) {
+    return false
+  }
+
+  return !isPrivateAddress(host)
+}
+
+/**
+ * DNS lookup for axios that refuses to connect to non-public addresses, so a
+ * public hostname pointing at an internal IP is caught at connection time
+ */
+export async function lookupPublicAddress(hostname: string): Promise<LookupAddress> {
+  const addresses = await lookup(hostname, { all: true })
+  if (addresses.length === 0 || addresses.some((entry) => isPrivateAddress(entry.address))) {
+    throw new Error('URL is not allowed')
+  }
+  return addresses[0]
+}
+
+/**
+ * Download a product page as HTML
+ */
+export async function fetchProductPage(url: string, options: { signal?: AbortSignal; timeoutMs?: number } = {}): Promise<string> {
+  let current = url
+
+  // Redirects are followed by hand so every hop goes through the same checks
+  for (let redirects = 0; ; redirects++) {
+    if (!isFetchableUrl(current)) {
+      throw new Error('URL is not allowed')
+    }
+
+    const response = await axios.get<string>(current, {
+      timeout: options.timeoutMs ?? FETCH_TIMEOUT,
+      signal: options.signal,
+      responseType: 'text',
+      maxContentLength: MAX_PAGE_SIZE,
+      maxRedirects: 0,
+      validateStatus: (status) => status >= 200 && status < 400,
+      lookup: lookupPublicAddress,
+      headers: {
+        'User-Agent': USER_AGENT,
+        Accept: 'text/html,application/xhtml+xml',
+        'Accept-Language': 'en-US,en;q=0.9',
+      },
+    })
+
+    if (response.status >= 300) {
+      const location = response.headers['location']
+      if (!location) throw new Error(`Redirect without a location (${response.status})`)
+      if (redirects >= MAX_REDIRECTS) throw new Error('Too many redirects')
+      current = new URL(location, current).toString()
+      continue
+    }
+
+    const contentType = String(response.headers['content-type'] || '')
+    if (contentType && !contentType.includes('html')) {
+      throw new Error(`Unexpected content type: ${contentType}`)
+    }
+
+    return response.data
+  }
+}
@@ -0,0 +1,208 @@
+// Lightweight HTML helpers for product page extraction.
+// These are deliberately forgiving string scanners rather than a full DOM parser.
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+])
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  euro: '€',
+  pound: '£',
+  yen: '¥',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+}
+
+export interface HtmlElement {
+  tag: string
+  attributes: Record<string, string>
+  innerHtml: string
+}
+
+interface SimpleSelector {
+  tag?: string
+  id?: string
+  classes: string[]
+  attributes: Array<{ name: string; value?: string }>
+}
+
+/**
+ * Decode HTML entities (named, decimal and hex)
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+      return Number.isNaN(code) ? match : String.fromCodePoint(code)
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match
+  })
+}
+
+/**
+ * Strip tags and collapse whitespace
+ */
+export function textContent(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<script[\s\S]*?<\/script>/gi, ' ')
+      .replace(/<style[\s\S]*?<\/style>/gi, ' ')
+      .replace(/<[^>]+>/g, ' ')
+  )
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+export function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  const attrRegex = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g
+  let match: RegExpExecArray | null
+
+  while ((match = attrRegex.exec(source)) !== null) {
+    const value = match[2] ?? match[3] ?? match[4] ?? ''
+    attributes[match[1].toLowerCase()] = decodeEntities(value)
+  }
+
+  return attributes
+}
+
+/**
+ * Find the end of an element's content, accounting for nested tags of the same name
+ */
+function findClosingIndex(html: string, tag: string, from: number): number {
+  const tagRegex = new RegExp(`<(/?)${tag}(?=[\\s>/])[^>]*>`, 'gi')
+  tagRegex.lastIndex = from
+  let depth = 1
+  let match: RegExpExecArray | null
+
+  while ((match = tagRegex.exec(html)) !== null) {
+    if (match[1] === '/') {
+      depth--
+      if (depth === 0) return match.index
+    } else if (!match[0].endsWith('/>')) {
+      depth++
+    }
+  }
+
+  return html.length
+}
+
+/**
+ * Iterate over every element in the document, in source order.
+ * Inner HTML is resolved lazily since most elements are only inspected by tag and attributes.
+ */
+export function* elements(html: string): Generator<HtmlElement> {
+  const openTagRegex = /<([a-zA-Z][\w:-]*)(\s[^>]*)?>/g
+  let match: RegExpExecArray | null
+
+  while ((match = openTagRegex.exec(html)) !== null) {
+    const tag = match[1].toLowerCase()
+    const rawAttributes = match[2] || ''
+    const contentStart = match.index + match[0].length
+    const selfClosing = VOID_ELEMENTS.has(tag) || rawAttributes.trim().endsWith('/')
+    let innerHtml: string | undefined
+
+    yield {
+      tag,
+      attributes: parseAttributes(rawAttributes.replace(/\/\s*$/, '')),
+      get innerHtml() {
+        if (innerHtml === undefined) {
+          innerHtml = selfClosing ? '' : html.slice(contentStart, findClosingIndex(html, tag, contentStart))
+        }
+        return innerHtml
+      },
+    }
+  }
+}
+
+function parseSimpleSelector(selector: string): SimpleSelector {
+  const parsed: SimpleSelector = { classes: [], attributes: [] }
+  const tokenRegex = /([a-zA-Z][\w-]*)|#([\w-]+)|\.([\w-]+)|\[([\w:-]+)(?:=["']?([^"'\]]*)["']?)?\]/g
+  let match: RegExpExecArray | null
+
+  while ((match = tokenRegex.exec(selector)) !== null) {
+    if (match[1] && match.index === 0) parsed.tag = match[1].toLowerCase()
+    else if (match[2]) parsed.id = match[2]
+    else if (match[3]) parsed.classes.push(match[3])
+    else if (match[4]) parsed.attributes.push({ name: match[4].toLowerCase(), value: match[5] })
+  }
+
+  return parsed
+}
+
+function matchesSelector(element: HtmlElement, selector: SimpleSelector): boolean {
+  if (selector.tag && element.tag !== selector.tag) return false
+  if (selector.id && element.attributes.id !== selector.id) return false
+
+  if (selector.classes.length > 0) {
+    const classes = (element.attributes.class || '').split(/\s+/)
+    if (!selector.classes.every((c) => classes.includes(c))) return false
+  }
+
+  return selector.attributes.every(({ name, value }) =>
+    value === undefined ? name in element.attributes : element.attributes[name] === value
+  )
+}
+
+/**
+ * Find the first element matching a CSS-like selector.
+ * Supports tag, #id, .class and [attr=value] parts joined by descendant spaces.
+ */
+export function querySelector(html: string, selector: string): HtmlElement | null {
+  const parts = selector.trim().split(/\s+/).map(parseSimpleSelector)
+  let scope = html
+  let found: HtmlElement | null = null
+
+  for (const part of parts) {
+    found = null
+    for (const element of elements(scope)) {
+      if (matchesSelector(element, part)) {
+        found = element
+        break
+      }
+    }
+    if (!found) return null
+    scope = found.innerHtml
+  }
+
+  return found
+}
+
+/**
+ * Find all elements matching a single (non-descendant) selector
+ */
+export function querySelectorAll(html: string, selector: string): HtmlElement[] {
+  const parsed = parseSimpleSelector(selector)
+  return Array.from(elements(html)).filter((element) => matchesSelector(element, parsed))
+}
+
+/**
+ * Read a <meta> tag by property or name, e.g. "og:title" or "product:price:amount"
+ */
+export function getMetaContent(html: string, key: string): string | undefined {
+  const target = key.toLowerCase()
+  for (const meta of querySelectorAll(html, 'meta')) {
+    const name = (meta.attributes.property || meta.attributes.name || meta.attributes.itemprop || '').toLowerCase()
+    if (name === target && meta.attributes.content) {
+      return meta.attributes.content.trim()
+    }
+  }
+  return undefined
+}
+
+/**
+ * Return the raw contents of every JSON-LD script block
+ */
+export function getJsonLdBlocks(html: string): string[] {
+  return querySelectorAll(html, 'script')
+    .filter((script) => (script.attributes.type || '').toLowerCase() === 'application/ld+json')
+    .map((script) => script.innerHtml.trim())
+    .filter(Boolean)
+}
@@ -0,0 +1,80 @@
+import type { Product } from '@/lib/stores/types'
+import type { StoreRegistry } from '@/lib/stores/registry'
+import { extractProduct, type ExtractedProduct } from './product-extractor'
+import { fetchProductPage } from './fetch-page'
+
+export {
+  extractProduct,
+  parsePrice,
+  detectCurrency,
+  normalizeAvailability,
+  normalizeCondition,
+  type ExtractedProduct,
+} from './product-extractor'
+export { fetchProductPage, isFetchableUrl, isPrivateAddress } from './fetch-page'
+export { getDomainOverride, DOMAIN_OVERRIDES } from './domain-overrides'
+
+function hashString(input: string): string {
+  let hash = 5381
+  for (let i = 0; i < input.length; i++) {
+    hash = ((hash << 5) + hash + input.charCodeAt(i)) | 0
+  }
+  return (hash >>> 0).toString(36)
+}
+
+function storeFromHostname(hostname: string): string {
+  const parts = hostname.replace(/^www\./, '').split('.')
+  const name = parts.length > 1 ? parts[parts.length - 2] : parts[0]
+  return name.charAt(0).toUpperCase() + name.slice(1)
+}
+
+/**
+ * Convert extracted page data into a Product. Returns null when the page
+ * lacks the minimum needed for a comparison (a name and a price).
+ */
+export function toProduct(extracted: ExtractedProduct, pageUrl: string): Product | null {
+  if (!extracted.name || extracted.price === undefined) {
+    return null
+  }
+
+  return {
+    id: 'page_' + hashString(pageUrl),
+    name: extracted.name,
+    price: extracted.price,
+    currency: extracted.currency || 'USD',
+    image: extracted.image,
+    url: pageUrl,
+    store: extracted.storeName || storeFromHostname(new URL(pageUrl).hostname),
+    rating: extracted.rating,
+    reviews: extracted.reviews,
+    brand: extracted.brand,
+    gtin: extracted.gtin,
+    mpn: extracted.mpn,
+    quantity: extracted.quantity,
+    condition: extracted.condition,
+    warranty: extracted.warranty,
+    availability: extracted.availability,
+  }
+}
+
+/**
+ * Fetch a product page and extract a Product from it
+ */
+export async function fetchAndExtractProduct(url: string, options: { signal?: AbortSignal } = {}): Promise<Product | null> {
+  const html = await fetchProductPage(url, options)
+  return toProduct(extractProduct(html, url), url)
+}
+
+/**
+ * The current listing behind a product URL, from the store adapter that owns
+ * the URL or otherwise extracted from the product page itself
+ */
+export async function fetchListing(
+  url: string,
+  registry: StoreRegistry,
+  options: { signal?: AbortSignal } = {}
+): Promise<Product | null> {
+  const resolved = await registry.resolveUrl(url, options)
+  const product = resolved.results.map((result) => result.value).find((value) => value !== null)
+  return product ?? fetchAndExtractProduct(url, options)
+}
@@ -0,0 +1,344 @@
+import { getDomainOverride, type ExtractableField } from './domain-overrides'
+import { decodeEntities, getJsonLdBlocks, getMetaContent, querySelector, querySelectorAll, textContent } from './html'
+import type { Availability, ProductCondition, Warranty } from '@/lib/stores/types'
+import { quantityFromStructured, type ProductQuantity } from '@/lib/units'
+import { warrantyFromStructured } from '@/lib/enrichment/warranty'
+
+export interface ExtractedProduct {
+  name?: string
+  price?: number
+  currency?: string
+  image?: string
+  availability?: Availability
+  brand?: string
+  gtin?: string
+  mpn?: string
+  quantity?: ProductQuantity
+  condition?: ProductCondition
+  warranty?: Warranty
+  rating?: number
+  reviews?: number
+  storeName?: string
+  // Which source supplied at least one field, in priority order
+  sources: Array<'override' | 'json-ld' | 'microdata' | 'opengraph'>
+}
+
+type ProductFields = Omit<ExtractedProduct, 'sources' | 'storeName'>
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  $: 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '₹': 'INR',
+  'د.إ': 'AED',
+  'ر.س': 'SAR',
+  AED: 'AED',
+  SAR: 'SAR',
+}
+
+/**
+ * Parse a price string such as "$1,299.99" or "1.299,99 €"
+ */
+export function parsePrice(input: string | number | undefined | null): number | undefined {
+  if (input === undefined || input === null) return undefined
+  if (typeof input === 'number') return Number.isFinite(input) ? input : undefined
+
+  const cleaned = input.replace(/[^\d.,]/g, '')
+  if (!cleaned) return undefined
+
+  const lastComma = cleaned.lastIndexOf(',')
+  const lastDot = cleaned.lastIndexOf('.')
+  let normalized: string
+
+  if (lastComma > -1 && lastDot > -1) {
+    // Whichever separator comes last is the decimal separator
+    normalized = lastComma > lastDot
+      ? cleaned.replace(/\./g, '').replace(',', '.')
+      : cleaned.replace(/,/g, '')
+  } else if (lastComma > -1) {
+    // "12,99" is a decimal comma, "1,299" is a thousands separator
+    normalized = cleaned.length - lastComma - 1 === 2 ? cleaned.replace(',', '.') : cleaned.replace(/,/g, '')
+  } else {
+    normalized = cleaned
+  }
+
+  const value = parseFloat(normalized)
+  return Number.isFinite(value) ? value : undefined
+}
+
+/**
+ * Guess an ISO currency code from a price string
+ */
+export function detectCurrency(input: string | undefined): string | undefined {
+  if (!input) return undefined
+  const isoMatch = input.match(/\b([A-Z]{3})\b/)
+  if (isoMatch) return isoMatch[1]
+
+  for (const [symbol, code] of Object.entries(CURRENCY_SYMBOLS)) {
+    if (input.includes(symbol)) return code
+  }
+  return undefined
+}
+
+/**
+ * Map schema.org / OpenGraph availability values to our enum
+ */
+export function normalizeAvailability(input: string | undefined): Availability | undefined {
+  if (!input) return undefined
+  const value = input.toLowerCase().replace(/[^a-z]/g, '')
+
+  if (value.includes('outofstock') || value.includes('soldout') || value.includes('discontinued') || value === 'oos') {
+    return 'out_of_stock'
+  }
+  if (value.includes('preorder') || value.includes('presale')) return 'preorder'
+  if (value.includes('backorder')) return 'backorder'
+  if (value.includes('instock') || value.includes('limitedavailability') || value.includes('onlineonly') || value === 'available') {
+    return 'in_stock'
+  }
+  return 'unknown'
+}
+
+/**
+ * Map schema.org itemCondition values (e.g. "https://schema.org/RefurbishedCondition")
+ */
+export function normalizeCondition(input: string | undefined): ProductCondition | undefined {
+  if (!input) return undefined
+  const value = input.toLowerCase().replace(/[^a-z]/g, '')
+
+  if (value.includes('refurbished') || value.includes('renewed')) return 'refurbished'
+  if (value.includes('openbox')) return 'open_box'
+  if (value.includes('used') || value.includes('damaged')) return 'used'
+  if (value.includes('new')) return 'new'
+  return undefined
+}
+
+function parseNumber(input: unknown): number | undefined {
+  if (typeof input === 'number') return Number.isFinite(input) ? input : undefined
+  if (typeof input !== 'string') return undefined
+  const match = input.replace(/,/g, '').match(/\d+(\.\d+)?/)
+  return match ? parseFloat(match[0]) : undefined
+}
+
+function firstString(value: unknown): string | undefined {
+  if (typeof value === 'string') return decodeEntities(value).trim() || undefined
+  if (Array.isArray(value)) return firstString(value[0])
+  if (value && typeof value === 'object') {
+    const obj = value as Record<string, unknown>
+    return firstString(obj.name ?? obj.url ?? obj['@id'])
+  }
+  return undefined
+}
+
+// ============================================
+// JSON-LD
+// ============================================
+
+function isType(node: Record<string, unknown>, type: string): boolean {
+  const nodeType = node['@type']
+  return Array.isArray(nodeType) ? nodeType.includes(type) : nodeType === type
+}
+
+function collectNodes(value: unknown, out: Record<string, unknown>[] = []): Record<string, unknown>[] {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectNodes(item, out))
+  } else if (value && typeof value === 'object') {
+    const node = value as Record<string, unknown>
+    out.push(node)
+    if (node['@graph']) collectNodes(node['@graph'], out)
+  }
+  return out
+}
+
+function fromJsonLd(html: string): ProductFields {
+  for (const block of getJsonLdBlocks(html)) {
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(block)
+    } catch {
+      continue
+    }
+
+    const product = collectNodes(parsed).find((node) => isType(node, 'Product'))
+    if (!product) continue
+
+    const offers = collectNodes(product.offers)
+    const offer = offers.find((o) => isType(o, 'Offer')) ?? offers[0]
+    const rating = product.aggregateRating as Record<string, unknown> | undefined
+
+    return {
+      name: firstString(product.name),
+      price: parsePrice(
+        (offer?.price ?? offer?.lowPrice ?? (offer?.priceSpecification as Record<string, unknown>)?.price) as string
+      ),
+      currency: firstString(offer?.priceCurrency),
+      image: firstString(product.image),
+      availability: normalizeAvailability(firstString(offer?.availability)),
+      brand: firstString(product.brand),
+      gtin: firstString(product.gtin13 ?? product.gtin12 ?? product.gtin14 ?? product.gtin8 ?? product.gtin),
+      mpn: firstString(product.mpn),
+      // schema.org QuantitativeValue, or free text like "500 g"
+      quantity: quantityFromStructured(product.weight ?? product.size),
+      condition: normalizeCondition(firstString(offer?.itemCondition ?? product.itemCondition)),
+      warranty: warrantyFromStructured(offer?.warranty ?? product.warranty),
+      rating: parseNumber(rating?.ratingValue),
+      reviews: parseNumber(rating?.reviewCount ?? rating?.ratingCount),
+    }
+  }
+
+  return {}
+}
+
+// ============================================
+// MICRODATA
+// ============================================
+
+function itemprop(html: string, name: string): string | undefined {
+  const element = querySelectorAll(html, `[itemprop=${name}]`)[0]
+  if (!element) return undefined
+
+  const { attributes } = element
+  const value = attributes.content ?? attributes.href ?? attributes.src ?? textContent(element.innerHtml)
+  return value?.trim() || undefined
+}
+
+/**
+ * Remove nested items (brand, offers, ratings) so product-level props such
+ * as "name" are not picked up from a child scope
+ */
+function withoutNestedScopes(html: string): string {
+  let scoped = html
+  for (const element of querySelectorAll(html, '[itemscope]')) {
+    if (element.attributes.itemprop && element.innerHtml) {
+      scoped = scoped.replace(element.innerHtml, '')
+    }
+  }
+  return scoped
+}
+
+function fromMicrodata(html: string): ProductFields {
+  if (!/itemtype=["']?https?:\/\/schema\.org\/Product/i.test(html)) return {}
+
+  const productHtml = withoutNestedScopes(html)
+
+  const brandElement = querySelectorAll(html, '[itemprop=brand]')[0]
+  const brand = brandElement
+    ? brandElement.attributes.content ?? itemprop(brandElement.innerHtml, 'name') ?? textContent(brandElement.innerHtml)
+    : undefined
+
+  const priceText = itemprop(html, 'price')
+
+  return {
+    name: itemprop(productHtml, 'name'),
+    price: parsePrice(priceText),
+    currency: itemprop(html, 'priceCurrency') ?? detectCurrency(priceText),
+    image: itemprop(productHtml, 'image'),
+    availability: normalizeAvailability(itemprop(html, 'availability')),
+    condition: normalizeCondition(itemprop(html, 'itemCondition')),
+    brand: brand || undefined,
+    gtin: itemprop(html, 'gtin13') ?? itemprop(html, 'gtin12') ?? itemprop(html, 'gtin8') ?? itemprop(html, 'gtin'),
+    mpn: itemprop(html, 'mpn'),
+    rating: parseNumber(itemprop(html, 'ratingValue')),
+    reviews: parseNumber(itemprop(html, 'reviewCount') ?? itemprop(html, 'ratingCount')),
+  }
+}
+
+// ============================================
+// OPENGRAPH / product: META TAGS
+// ============================================
+
+function fromOpenGraph(html: string): ProductFields {
+  const priceText = getMetaContent(html, 'product:price:amount') ?? getMetaContent(html, 'og:price:amount')
+
+  return {
+    name: getMetaContent(html, 'og:title'),
+    price: parsePrice(priceText),
+    currency: getMetaContent(html, 'product:price:currency') ?? getMetaContent(html, 'og:price:currency'),
+    image: getMetaContent(html, 'og:image'),
+    availability: normalizeAvailability(
+      getMetaContent(html, 'product:availability') ?? getMetaContent(html, 'og:availability')
+    ),
+    brand: getMetaContent(html, 'product:brand') ?? getMetaContent(html, 'og:brand'),
+    gtin: getMetaContent(html, 'product:upc') ?? getMetaContent(html, 'product:ean') ?? getMetaContent(html, 'product:gtin'),
+    mpn: getMetaContent(html, 'product:mfr_part_no'),
+  }
+}
+
+// ============================================
+// DOMAIN OVERRIDES
+// ============================================
+
+function fromOverrides(html: string, hostname: string): ProductFields {
+  const override = getDomainOverride(hostname)
+  if (!override) return {}
+
+  const read = (field: ExtractableField): string | undefined => {
+    for (const rule of override.fields[field] || []) {
+      const element = querySelector(html, rule.selector)
+      if (!element) continue
+      const value = rule.attr ? element.attributes[rule.attr] : textContent(element.innerHtml)
+      if (value?.trim()) return value.trim()
+    }
+    return undefined
+  }
+
+  const priceText = read('price')
+
+  return {
+    name: read('name'),
+    price: parsePrice(priceText),
+    currency: read('currency') ?? detectCurrency(priceText),
+    image: read('image'),
+    availability: normalizeAvailability(read('availability')),
+    brand: read('brand')?.replace(/^(visit the|brand:)\s*/i, '').replace(/\s*store$/i, ''),
+    gtin: read('gtin'),
+    rating: parseNumber(read('rating')),
+    reviews: parseNumber(read('reviews')),
+  }
+}
+
+function absolutize(url: string | undefined, pageUrl: string): string | undefined {
+  if (!url) return undefined
+  try {
+    return new URL(url, pageUrl).toString()
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Extract structured product data from a product page.
+ * Sources are merged field by field: domain overrides win, then JSON-LD,
+ * microdata and finally OpenGraph meta tags.
+ */
+export function extractProduct(html: string, pageUrl: string): ExtractedProduct {
+  const hostname = new URL(pageUrl).hostname
+  const candidates: Array<[ExtractedProduct['sources'][number], ProductFields]> = [
+    ['override', fromOverrides(html, hostname)],
+    ['json-ld', fromJsonLd(html)],
+    ['microdata', fromMicrodata(html)],
+    ['opengraph', fromOpenGraph(html)],
+  ]
+
+  const result: ExtractedProduct = { sources: [] }
+
+  for (const [source, fields] of candidates) {
+    let used = false
+    for (const [key, value] of Object.entries(fields) as Array<[keyof ProductFields, unknown]>) {
+      if (value === undefined || value === '') continue
+
+      // A specific availability from a lower-priority source beats "unknown"
+      const replaceable = result[key] === undefined || (key === 'availability' && result.availability === 'unknown')
+      if (replaceable) {
+        ;(result as unknown as Record<string, unknown>)[key] = value
+        used = true
+      }
+    }
+    if (used) result.sources.push(source)
+  }
+
+  result.image = absolutize(result.image, pageUrl)
+  result.storeName = getDomainOverride(hostname)?.storeName ?? getMetaContent(html, 'og:site_name')
+
+  return result
+}
@@ -0,0 +1,121 @@
+import type { PricePoint } from '@/lib/price-history/types'
+import { priceStats } from '@/lib/price-history/stats'
+import { pointsInRange } from '@/lib/price-history/range'
+import { upcomingSaleEvents } from './sale-events'
+import type { PriceForecast } from './types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const DEFAULT_HORIZON_DAYS = 14
+export const MAX_HORIZON_DAYS = 90
+// Smaller moves aren't worth waiting for
+export const MIN_DROP_PERCENT = 3
+// History needed before past behaviour counts fully towards confidence
+const FULL_HISTORY_DAYS = 180
+const FULL_HISTORY_CHANGES = 10
+
+// Chance of at least one of two independent events
+function either(p: number, q: number): number {
+  return 1 - (1 - p) * (1 - q)
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function isDrop(from: number, to: number): boolean {
+  return to <= from * (1 - MIN_DROP_PERCENT / 100)
+}
+
+/**
+ * Whether the price dropped in the same stretch of the calendar last year,
+ * or null when the history doesn't reach back that far
+ */
+function droppedLastYear(points: PricePoint[], now: Date, horizonDays: number): boolean | null {
+  const start = new Date(now.getTime() - 365 * DAY_MS)
+  if (points.length === 0 || Date.parse(points[0].at) > start.getTime()) return null
+
+  const end = start.getTime() + horizonDays * DAY_MS
+  const window = pointsInRange(points, start).filter((point) => Date.parse(point.at) <= end)
+  return window.some((point) => isDrop(window[0].price, point.price))
+}
+
+/**
+ * Estimate the chance of a price drop within `horizonDays` and whether to buy
+ * now or wait. Combines how often the price dropped before, where the current
+ * price sits in its own history, what happened at the same time last year and
+ * sales coming up. Runs on stored history only.
+ */
+export function forecastPrice(
+  history: PricePoint[],
+  options: { now?: Date; horizonDays?: number } = {}
+): PriceForecast {
+  const now = options.now ?? new Date()
+  const horizonDays = Math.min(Math.max(1, options.horizonDays ?? DEFAULT_HORIZON_DAYS), MAX_HORIZON_DAYS)
+  const points = pointsInRange(history, null)
+  const reasons: string[] = []
+
+  const historyDays = points.length > 0 ? Math.max(0, (now.getTime() - Date.parse(points[0].at)) / DAY_MS) : 0
+  const changes = Math.max(0, points.length - 1)
+  let probability = 0
+
+  // Volatility: drops so far, treated as a steady rate
+  if (historyDays >= 1) {
+    const drops = points.filter((point, index) => index > 0 && isDrop(points[index - 1].price, point.price)).length
+    probability = 1 - Math.exp(-(drops / historyDays) * horizonDays)
+    if (drops > 0) {
+      const times = drops === 1 ? 'once' : `${drops} times`
+      reasons.push(`Dropped ${MIN_DROP_PERCENT}% or more ${times} in ${Math.round(historyDays)} days`)
+    } else if (historyDays >= 30) {
+      reasons.push(`No meaningful drop in ${Math.round(historyDays)} days of tracking`)
+    }
+  }
+
+  // Position: prices near their floor have less room to fall
+  const stats = priceStats(points, now)
+  if (stats && changes > 0) {
+    if (stats.current <= stats.min * 1.02) {
+      probability *= 0.6
+      reasons.push('At or near its lowest recorded price')
+    } else if (stats.current >= stats.average * 1.05) {
+      probability = either(probability, 0.2)
+      reasons.push('Above its usual price')
+    }
+  }
+
+  // Seasonality: the same weeks last year
+  const seasonal = droppedLastYear(points, now, horizonDays)
+  if (seasonal === true) {
+    probability = either(probability, 0.3)
+    reasons.push('Dropped around this time last year')
+  }
+
+  // Known sales inside the horizon
+  const events = upcomingSaleEvents(now, horizonDays)
+  for (const event of events) {
+    probability = either(probability, event.lift)
+    const days = Math.ceil((Date.parse(event.startsAt) - now.getTime()) / DAY_MS)
+    if (days <= 0) {
+      reasons.push(`${event.name} is on now`)
+    } else {
+      reasons.push(`${event.name} starts in ${days} ${days === 1 ? 'day' : 'days'}`)
+    }
+  }
+
+  // More history, and a probability further from a coin flip, make for a surer call
+  const dataWeight =
+    0.6 * Math.min(1, historyDays / FULL_HISTORY_DAYS) + 0.4 * Math.min(1, changes / FULL_HISTORY_CHANGES)
+  const clarity = Math.abs(probability - 0.5) * 2
+  const confidence = Math.min(0.95, (0.25 + 0.65 * dataWeight) * (0.5 + 0.5 * clarity))
+  if (dataWeight < 0.2) reasons.push('Little price history yet')
+
+  return {
+    recommendation: probability >= 0.5 ? 'wait' : 'buy',
+    confidence: round(confidence),
+    dropProbability: round(probability),
+    horizonDays,
+    reasons,
+    saleEvents: events.map(({ lift: _lift, ...event }) => event),
+    historyDays: Math.round(historyDays),
+  }
+}
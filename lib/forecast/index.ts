@@ -0,0 +1,4 @@
+export { forecastPrice, DEFAULT_HORIZON_DAYS, MAX_HORIZON_DAYS, MIN_DROP_PERCENT } from './forecast'
+export { upcomingSaleEvents, SALE_EVENTS } from './sale-events'
+export { loadPriceHistories } from './sources'
+export type { PriceForecast, ForecastRecommendation, UpcomingSaleEvent } from './types'
@@ -0,0 +1,100 @@
+import type { UpcomingSaleEvent } from './types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+interface SaleEventRule {
+  id: string
+  name: string
+  // Chance the sale brings a meaningful drop on a typical product
+  lift: number
+  dates: (year: number) => { start: Date; days: number }
+}
+
+// nth (1-based) weekday (0 = Sunday) of a month, or the last one when n is -1
+function nthWeekday(year: number, month: number, weekday: number, n: number): Date {
+  if (n === -1) {
+    const last = new Date(Date.UTC(year, month + 1, 0))
+    return new Date(Date.UTC(year, month, last.getUTCDate() - ((last.getUTCDay() - weekday + 7) % 7)))
+  }
+  const first = new Date(Date.UTC(year, month, 1))
+  return new Date(Date.UTC(year, month, 1 + ((weekday - first.getUTCDay() + 7) % 7) + (n - 1) * 7))
+}
+
+/**
+ * Recurring retail sales, by the rules their dates usually follow. Store-run
+ * events such as Prime Day are announced late, so their dates are estimates.
+ */
+export const SALE_EVENTS: SaleEventRule[] = [
+  {
+    id: 'presidents_day',
+    name: "Presidents' Day sales",
+    lift: 0.15,
+    dates: (year) => ({ start: nthWeekday(year, 1, 1, 3), days: 1 }),
+  },
+  {
+    id: 'memorial_day',
+    name: 'Memorial Day sales',
+    lift: 0.15,
+    dates: (year) => ({ start: new Date(nthWeekday(year, 4, 1, -1).getTime() - 3 * DAY_MS), days: 4 }),
+  },
+  {
+    id: 'prime_day',
+    name: 'Prime Day',
+    lift: 0.35,
+    dates: (year) => ({ start: nthWeekday(year, 6, 2, 2), days: 2 }),
+  },
+  {
+    id: 'labor_day',
+    name: 'Labor Day sales',
+    lift: 0.15,
+    dates: (year) => ({ start: new Date(nthWeekday(year, 8, 1, 1).getTime() - 3 * DAY_MS), days: 4 }),
+  },
+  {
+    id: 'singles_day',
+    name: "Singles' Day",
+    lift: 0.2,
+    dates: (year) => ({ start: new Date(Date.UTC(year, 10, 11)), days: 1 }),
+  },
+  {
+    id: 'black_friday',
+    name: 'Black Friday and Cyber Monday',
+    lift: 0.5,
+    // The Friday after the fourth Thursday of November through the following Monday
+    dates: (year) => ({ start: new Date(nthWeekday(year, 10, 4, 4).getTime() + DAY_MS), days: 4 }),
+  },
+  {
+    id: 'boxing_day',
+    name: 'Boxing Day and year-end sales',
+    lift: 0.3,
+    dates: (year) => ({ start: new Date(Date.UTC(year, 11, 26)), days: 6 }),
+  },
+]
+
+/**
+ * Sales running now or starting within `horizonDays`, soonest first, with the
+ * chance each brings a drop
+ */
+export function upcomingSaleEvents(
+  now: Date,
+  horizonDays: number
+): Array<UpcomingSaleEvent & { lift: number }> {
+  const horizonEnd = now.getTime() + horizonDays * DAY_MS
+  const year = now.getUTCFullYear()
+
+  return [year, year + 1]
+    .flatMap((y) =>
+      SALE_EVENTS.map((event) => {
+        const { start, days } = event.dates(y)
+        return { event, start, end: new Date(start.getTime() + days * DAY_MS) }
+      })
+    )
+    .filter(({ start, end }) => end.getTime() > now.getTime() && start.getTime() <= horizonEnd)
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+    .map(({ event, start, end }) => ({
+      id: event.id,
+      name: event.name,
+      startsAt: start.toISOString(),
+      endsAt: end.toISOString(),
+      lift: event.lift,
+    }))
+}
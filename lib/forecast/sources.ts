@@ -0,0 +1,31 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { PricePoint } from '@/lib/price-history/types'
+
+/**
+ * Recorded prices of the given saved products, oldest first, keyed by saved
+ * product id. Products without history, or a failed query, give empty lists
+ * so forecasts degrade to sale events alone.
+ */
+export async function loadPriceHistories(
+  supabase: SupabaseClient,
+  savedProductIds: string[]
+): Promise<Map<string, PricePoint[]>> {
+  const histories = new Map<string, PricePoint[]>(savedProductIds.map((id) => [id, []]))
+  if (savedProductIds.length === 0) return histories
+
+  const { data, error } = await supabase
+    .from('price_history')
+    .select('saved_product_id, price, recorded_at')
+    .in('saved_product_id', savedProductIds)
+    .order('recorded_at', { ascending: true })
+
+  if (error) {
+    console.error('[DB Error]:', error)
+    return histories
+  }
+
+  for (const row of data ?? []) {
+    histories.get(row.saved_product_id)?.push({ at: row.recorded_at, price: Number(row.price) })
+  }
+  return histories
+}
@@ -0,0 +1,23 @@
+export type ForecastRecommendation = 'buy' | 'wait'
+
+export interface UpcomingSaleEvent {
+  id: string
+  name: string
+  // ISO date the sale starts; in the past when it's already running
+  startsAt: string
+  endsAt: string
+}
+
+export interface PriceForecast {
+  recommendation: ForecastRecommendation
+  // 0-1: how sure the recommendation is, given how much history there is and how clear the signals are
+  confidence: number
+  // 0-1: chance the price drops by at least MIN_DROP_PERCENT within the horizon
+  dropProbability: number
+  horizonDays: number
+  // Plain-language signals behind the estimate
+  reasons: string[]
+  saleEvents: UpcomingSaleEvent[]
+  // Days of price history the estimate is based on
+  historyDays: number
+}
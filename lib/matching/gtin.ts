@@ -0,0 +1,92 @@
+// GTIN / UPC / EAN helpers
+
+const GTIN_LENGTHS = [8, 12, 13, 14]
+
+/**
+ * Validate the GS1 check digit of an 8, 12, 13 or 14 digit code
+ */
+export function hasValidCheckDigit(code: string): boolean {
+  if (!/^\d+$/.test(code) || !GTIN_LENGTHS.includes(code.length)) return false
+
+  const digits = code.split('').map(Number)
+  const checkDigit = digits.pop()!
+  // Weights alternate 3,1,3... starting from the digit next to the check digit
+  const sum = digits
+    .reverse()
+    .reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 3 : 1), 0)
+
+  return (10 - (sum % 10)) % 10 === checkDigit
+}
+
+/**
+ * Normalize any GTIN/UPC/EAN to a 14 digit GTIN so codes from different
+ * stores compare equal. Returns undefined for invalid codes.
+ */
+export function normalizeGtin(code: string | undefined): string | undefined {
+  if (!code) return undefined
+  const digits = code.replace(/[\s-]/g, '')
+  if (!hasValidCheckDigit(digits)) return undefined
+  return digits.padStart(14, '0')
+}
+
+export type BarcodeFormat = 'upc_a' | 'ean_13' | 'ean_8' | 'isbn_10' | 'isbn_13'
+
+export interface Barcode {
+  format: BarcodeFormat
+  // Normalized 14 digit GTIN, comparable with normalizeGtin() of store listings
+  gtin: string
+}
+
+/**
+ * Strip an optional "ISBN" label and the spaces and hyphens barcodes are often printed with
+ */
+function barcodeDigits(input: string): string {
+  return input
+    .trim()
+    .replace(/^isbn(?:-1[03])?:?\s*/i, '')
+    .replace(/[\s-]/g, '')
+    .toUpperCase()
+}
+
+function isIsbn10(code: string): boolean {
+  if (!/^\d{9}[\dX]$/.test(code)) return false
+  const sum = code
+    .split('')
+    .reduce((total, char, index) => total + (char === 'X' ? 10 : Number(char)) * (10 - index), 0)
+  return sum % 11 === 0
+}
+
+/**
+ * Convert an ISBN-10 to its EAN-13 ("Bookland") form
+ */
+function isbn10ToEan13(isbn: string): string {
+  const body = `978${isbn.slice(0, 9)}`
+  const sum = body.split('').reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3), 0)
+  return `${body}${(10 - (sum % 10)) % 10}`
+}
+
+/**
+ * Whether input is shaped like a UPC-A, EAN-13, EAN-8 or ISBN, regardless of
+ * its check digit. Used to tell a mistyped barcode apart from a keyword.
+ */
+export function looksLikeBarcode(input: string): boolean {
+  const code = barcodeDigits(input)
+  return /^(\d{8}|\d{12}|\d{13}|\d{9}[\dX])$/.test(code)
+}
+
+/**
+ * Parse a scanned or typed barcode, validating its check digit.
+ * Returns null for anything that isn't a valid UPC-A, EAN-13, EAN-8 or ISBN.
+ */
+export function parseBarcode(input: string): Barcode | null {
+  const code = barcodeDigits(input)
+
+  if (code.length === 10) {
+    return isIsbn10(code) ? { format: 'isbn_10', gtin: isbn10ToEan13(code).padStart(14, '0') } : null
+  }
+  if (![8, 12, 13].includes(code.length) || !hasValidCheckDigit(code)) return null
+
+  const format: BarcodeFormat =
+    code.length === 8 ? 'ean_8' : code.length === 12 ? 'upc_a' : /^97[89]/.test(code) ? 'isbn_13' : 'ean_13'
+  return { format, gtin: code.padStart(14, '0') }
+}
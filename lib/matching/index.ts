@@ -0,0 +1,3 @@
+export { groupOffers, scoreMatch, DEFAULT_MATCH_THRESHOLD, type MatchScore, type MatchSignal, type ProductGroup } from './matcher'
+export { normalizeGtin, hasValidCheckDigit, parseBarcode, looksLikeBarcode, type Barcode, type BarcodeFormat } from './gtin'
+export { normalizeTitle, titleSimilarity, modelTokens, normalizeBrand } from './title'
@@ -0,0 +1,128 @@
+import type { Product } from '@/lib/stores/types'
+import { pickCheapest } from '@/lib/pricing'
+import { normalizeGtin } from './gtin'
+import { modelTokens, normalizeBrand, normalizeTitle, titleSimilarity } from './title'
+
+export const DEFAULT_MATCH_THRESHOLD = 0.6
+
+export type MatchSignal = 'gtin' | 'mpn' | 'model' | 'title' | 'brand'
+
+export interface MatchScore {
+  score: number
+  signals: MatchSignal[]
+}
+
+export interface ProductGroup {
+  id: string
+  name: string
+  brand?: string
+  gtin?: string
+  offers: Product[]
+  cheapest: Product
+  // Lowest match score of any offer against the group's reference offer
+  confidence: number
+}
+
+interface MatchFeatures {
+  gtin?: string
+  mpn?: string
+  brand?: string
+  tokens: string[]
+  models: string[]
+}
+
+function features(product: Product): MatchFeatures {
+  const tokens = normalizeTitle(product.name)
+  return {
+    gtin: normalizeGtin(product.gtin),
+    mpn: product.mpn?.toLowerCase().replace(/[^a-z0-9]/g, '') || undefined,
+    brand: normalizeBrand(product.brand),
+    tokens,
+    models: modelTokens(tokens),
+  }
+}
+
+function scoreFeatures(a: MatchFeatures, b: MatchFeatures): MatchScore {
+  // Identifiers are decisive either way
+  if (a.gtin && b.gtin) {
+    return a.gtin === b.gtin ? { score: 1, signals: ['gtin'] } : { score: 0, signals: [] }
+  }
+  if (a.brand && b.brand && a.brand !== b.brand) {
+    return { score: 0, signals: [] }
+  }
+
+  const signals: MatchSignal[] = []
+  const brandMatch = Boolean(a.brand && b.brand)
+  if (brandMatch) signals.push('brand')
+
+  if (a.mpn && b.mpn) {
+    if (a.mpn === b.mpn) return { score: brandMatch ? 0.95 : 0.9, signals: [...signals, 'mpn'] }
+    return { score: 0, signals: [] }
+  }
+
+  let score = titleSimilarity(a.tokens, b.tokens)
+  signals.push('title')
+
+  if (a.models.length > 0 && b.models.length > 0) {
+    if (a.models.some((model) => b.models.includes(model))) {
+      score = Math.max(score, 0.85)
+      signals.push('model')
+    } else {
+      // Different model numbers usually mean a different product (e.g. XM4 vs XM5)
+      score *= 0.5
+    }
+  }
+
+  if (brandMatch) score = Math.min(1, score + 0.1)
+
+  return { score: Math.round(score * 100) / 100, signals }
+}
+
+/**
+ * Score how likely two listings are the same product, between 0 and 1
+ */
+export function scoreMatch(a: Product, b: Product): MatchScore {
+  return scoreFeatures(features(a), features(b))
+}
+
+/**
+ * Group listings from different stores into matched products.
+ * Each listing joins the group whose reference listing it matches best,
+ * provided the score clears the threshold; otherwise it starts a new group.
+ */
+export function groupOffers(products: Product[], threshold: number = DEFAULT_MATCH_THRESHOLD): ProductGroup[] {
+  const groups: Array<{ reference: MatchFeatures; offers: Product[]; confidence: number }> = []
+
+  for (const product of products) {
+    const productFeatures = features(product)
+    let best: { index: number; score: number } | null = null
+
+    for (let index = 0; index < groups.length; index++) {
+      const { score } = scoreFeatures(groups[index].reference, productFeatures)
+      if (score >= threshold && (!best || score > best.score)) {
+        best = { index, score }
+      }
+    }
+
+    if (best) {
+      const { index, score } = best
+      groups[index].offers.push(product)
+      groups[index].confidence = Math.min(groups[index].confidence, score)
+    } else {
+      groups.push({ reference: productFeatures, offers: [product], confidence: 1 })
+    }
+  }
+
+  return groups.map((group, index) => {
+    const reference = group.offers[0]
+    return {
+      id: group.reference.gtin ? `gtin_${group.reference.gtin}` : `group_${index + 1}`,
+      name: reference.name,
+      brand: group.offers.find((offer) => offer.brand)?.brand,
+      gtin: group.reference.gtin,
+      offers: group.offers,
+      cheapest: pickCheapest(group.offers),
+      confidence: group.confidence,
+    }
+  })
+}
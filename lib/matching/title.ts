@@ -0,0 +1,47 @@
+// Title normalization and similarity for cross-store matching
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'the', 'with', 'for', 'of', 'in', 'on', 'by', 'to', 'new', 'edition', 'version',
+  'black', 'white', 'silver', 'gray', 'grey', 'space', 'blue', 'red', 'green', 'gold', 'graphite',
+])
+
+/**
+ * Lowercase, drop punctuation and noise words, and join model numbers
+ * written with separators ("WH-1000XM5" and "WH1000XM5" both become "wh1000xm5")
+ */
+export function normalizeTitle(title: string): string[] {
+  return title
+    .toLowerCase()
+    .replace(/([a-z0-9])[-_/.]([a-z0-9])/g, '$1$2')
+    .replace(/([a-z0-9])[-_/.]([a-z0-9])/g, '$1$2')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter((token) => token && !STOPWORDS.has(token))
+}
+
+/**
+ * Tokens that look like model numbers: letters and digits mixed, or long digit runs
+ */
+export function modelTokens(tokens: string[]): string[] {
+  return tokens.filter((token) => (/[a-z]/.test(token) && /\d/.test(token) && token.length >= 3) || /^\d{4,}$/.test(token))
+}
+
+/**
+ * Dice coefficient over token sets, between 0 and 1
+ */
+export function titleSimilarity(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0
+  const setA = new Set(a)
+  const setB = new Set(b)
+  let shared = 0
+  setA.forEach((token) => {
+    if (setB.has(token)) shared++
+  })
+  return (2 * shared) / (setA.size + setB.size)
+}
+
+export function normalizeBrand(brand: string | undefined): string | undefined {
+  if (!brand) return undefined
+  const normalized = brand.toLowerCase().replace(/[^a-z0-9]/g, '')
+  return normalized || undefined
+}
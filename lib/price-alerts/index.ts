@@ -0,0 +1,3 @@
+export { evaluatePriceDrop, dropPercentThreshold, isValidTargetPrice, isValidDropPercent } from './rules'
+export { priceDropNotification, priceDropsEnabled } from './notify'
+export type { PriceDropRule, PriceDropProduct, PriceDropAlert, PriceDropEvaluation } from './types'
@@ -0,0 +1,34 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { formatPrice } from '@/lib/currency/format'
+import type { PriceDropAlert, PriceDropProduct } from './types'
+
+export function priceDropNotification(product: PriceDropProduct, alert: PriceDropAlert) {
+  const format = (amount: number) => formatPrice(amount, product.product_currency)
+  const message =
+    alert.kind === 'target_reached'
+      ? `${product.store} now sells ${product.product_name} for ${format(alert.price)}, ` +
+        `at or below your ${format(alert.threshold)} target.`
+      : `${product.store} now sells ${product.product_name} for ${format(alert.price)}, ` +
+        `at least ${Number(product.drop_percent)}% below the ${format(Number(product.alert_reference_price))} ` +
+        'it cost when you set the alert.'
+  return {
+    user_id: product.user_id,
+    type: 'price_drop',
+    title: `Price drop: ${product.product_name}`,
+    message,
+    product_id: product.id,
+    product_name: product.product_name,
+    old_price: alert.previousPrice,
+    new_price: alert.price,
+  }
+}
+
+export async function priceDropsEnabled(supabase: SupabaseClient, userId: string): Promise<boolean> {
+  const { data } = await supabase
+    .from('notification_preferences')
+    .select('price_drop_enabled')
+    .eq('user_id', userId)
+    .maybeSingle()
+  // Users without a preferences row get the defaults, which include price drops
+  return data?.price_drop_enabled ?? true
+}
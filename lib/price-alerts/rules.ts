@@ -0,0 +1,47 @@
+import { roundMoney } from '@/lib/currency'
+import type { PriceDropEvaluation, PriceDropRule } from './types'
+
+export function isValidTargetPrice(value: unknown): value is number | null | undefined {
+  return value === undefined || value === null || (typeof value === 'number' && Number.isFinite(value) && value > 0)
+}
+
+export function isValidDropPercent(value: unknown): value is number | null | undefined {
+  return value === undefined || value === null || (typeof value === 'number' && value > 0 && value < 100)
+}
+
+/**
+ * The price a percentage rule fires at, or null when none is set
+ */
+export function dropPercentThreshold(
+  rule: Pick<PriceDropRule, 'drop_percent' | 'alert_reference_price'>
+): number | null {
+  if (rule.drop_percent === null || rule.alert_reference_price === null) return null
+  return roundMoney(Number(rule.alert_reference_price) * (1 - Number(rule.drop_percent) / 100))
+}
+
+/**
+ * Compare a new price point against a saved product's rules. Only drops
+ * alert, and once a rule has alerted it stays quiet until the price goes
+ * lower still, or rises past the rule and falls back again.
+ */
+export function evaluatePriceDrop(rule: PriceDropRule, previousPrice: number, price: number): PriceDropEvaluation {
+  const target = rule.target_price === null ? null : Number(rule.target_price)
+  const percentThreshold = dropPercentThreshold(rule)
+  const targetMet = target !== null && price <= target
+  const percentMet = percentThreshold !== null && price <= percentThreshold
+
+  // Re-arm once the price no longer matches any rule
+  if (!targetMet && !percentMet) return { alert: null, lastAlertPrice: null }
+
+  const lastAlertPrice = rule.last_alert_price === null ? null : Number(rule.last_alert_price)
+  if (price >= previousPrice || (lastAlertPrice !== null && price >= lastAlertPrice)) {
+    return { alert: null, lastAlertPrice }
+  }
+
+  return {
+    alert: targetMet
+      ? { kind: 'target_reached', price, previousPrice, threshold: target! }
+      : { kind: 'percent_drop', price, previousPrice, threshold: percentThreshold! },
+    lastAlertPrice: price,
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * A saved product's price-drop alert settings, as stored on saved_products
+ */
+export interface PriceDropRule {
+  // Alert when the price falls to or below this
+  target_price: number | null
+  // Alert when the price falls this many percent below alert_reference_price
+  drop_percent: number | null
+  // Price when drop_percent was set
+  alert_reference_price: number | null
+  // Price of the last alert; only a lower price alerts again until the rule stops matching
+  last_alert_price: number | null
+}
+
+// The saved product a notification is about
+export interface PriceDropProduct extends PriceDropRule {
+  id: string
+  user_id: string
+  product_name: string
+  store: string
+  product_currency: string
+}
+
+/**
+ * Why a new price is worth telling the user about
+ * - target_reached: the price is at or below the target price
+ * - percent_drop: the price is at least drop_percent below the reference price
+ */
+export interface PriceDropAlert {
+  kind: 'target_reached' | 'percent_drop'
+  price: number
+  previousPrice: number
+  // The price the rule fires at
+  threshold: number
+}
+
+export interface PriceDropEvaluation {
+  alert: PriceDropAlert | null
+  // New value for last_alert_price
+  lastAlertPrice: number | null
+}
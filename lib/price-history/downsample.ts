@@ -0,0 +1,36 @@
+import type { PricePoint } from './types'
+
+export const DEFAULT_MAX_POINTS = 200
+
+/**
+ * Thin a series sorted oldest first to at most `maxPoints`, keeping the lowest
+ * and highest price of each time bucket so dips and spikes survive, plus the
+ * first and last points.
+ */
+export function downsamplePoints(points: PricePoint[], maxPoints: number = DEFAULT_MAX_POINTS): PricePoint[] {
+  if (points.length <= maxPoints || maxPoints < 4) return points
+
+  const first = points[0]
+  const last = points[points.length - 1]
+  const inner = points.slice(1, -1)
+  // Two points per bucket, leaving room for the first and last
+  const bucketCount = Math.floor((maxPoints - 2) / 2)
+  const startMs = Date.parse(first.at)
+  const spanMs = Math.max(1, Date.parse(last.at) - startMs)
+
+  const buckets: PricePoint[][] = Array.from({ length: bucketCount }, () => [])
+  for (const point of inner) {
+    const index = Math.min(bucketCount - 1, Math.floor(((Date.parse(point.at) - startMs) / spanMs) * bucketCount))
+    buckets[index].push(point)
+  }
+
+  const kept = buckets.flatMap((bucket) => {
+    if (bucket.length <= 2) return bucket
+    const low = bucket.reduce((min, point) => (point.price < min.price ? point : min))
+    const high = bucket.reduce((max, point) => (point.price > max.price ? point : max))
+    if (low === high) return [low]
+    return Date.parse(low.at) <= Date.parse(high.at) ? [low, high] : [high, low]
+  })
+
+  return [first, ...kept, last]
+}
@@ -0,0 +1,4 @@
+export { PRICE_HISTORY_RANGES, isPriceHistoryRange, rangeStart, pointsInRange } from './range'
+export { priceStats, lowestPoint } from './stats'
+export { downsamplePoints, DEFAULT_MAX_POINTS } from './downsample'
+export type { PriceHistoryRange, PricePoint, PriceStats, PriceHistory } from './types'
@@ -0,0 +1,41 @@
+import type { PricePoint, PriceHistoryRange } from './types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const RANGE_DAYS: Record<Exclude<PriceHistoryRange, 'all'>, number> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+  '1y': 365,
+}
+
+export const PRICE_HISTORY_RANGES: PriceHistoryRange[] = ['7d', '30d', '90d', '1y', 'all']
+
+export function isPriceHistoryRange(value: unknown): value is PriceHistoryRange {
+  return typeof value === 'string' && (PRICE_HISTORY_RANGES as string[]).includes(value)
+}
+
+/**
+ * Start of a range ending at `now`, or null for all of history
+ */
+export function rangeStart(range: PriceHistoryRange, now: Date): Date | null {
+  return range === 'all' ? null : new Date(now.getTime() - RANGE_DAYS[range] * DAY_MS)
+}
+
+/**
+ * The points inside a range, oldest first. Prices are only recorded when they
+ * change, so the price in effect when the range starts is carried in as a
+ * point at the range start.
+ */
+export function pointsInRange(points: PricePoint[], start: Date | null): PricePoint[] {
+  const sorted = [...points].sort((a, b) => Date.parse(a.at) - Date.parse(b.at))
+  if (!start) return sorted
+
+  const startMs = start.getTime()
+  const inRange = sorted.filter((point) => Date.parse(point.at) >= startMs)
+  const before = sorted.filter((point) => Date.parse(point.at) < startMs).pop()
+  if (before && (inRange.length === 0 || Date.parse(inRange[0].at) > startMs)) {
+    inRange.unshift({ at: start.toISOString(), price: before.price })
+  }
+  return inRange
+}
@@ -0,0 +1,36 @@
+import { roundMoney } from '@/lib/currency'
+import type { PricePoint, PriceStats } from './types'
+
+/**
+ * Min, max, time-weighted average and current price of a series sorted oldest
+ * first. Each price counts for as long as it lasted, up to `now` for the last one.
+ */
+export function priceStats(points: PricePoint[], now: Date): PriceStats | null {
+  if (points.length === 0) return null
+
+  const prices = points.map((point) => point.price)
+  let weighted = 0
+  let duration = 0
+  points.forEach((point, index) => {
+    const end = index + 1 < points.length ? Date.parse(points[index + 1].at) : now.getTime()
+    const lasted = Math.max(0, end - Date.parse(point.at))
+    weighted += point.price * lasted
+    duration += lasted
+  })
+
+  // Points recorded at the same instant as `now` have no duration to weigh them by
+  const mean = prices.reduce((sum, price) => sum + price, 0) / prices.length
+  return {
+    min: Math.min(...prices),
+    max: Math.max(...prices),
+    average: roundMoney(duration > 0 ? weighted / duration : mean),
+    current: prices[prices.length - 1],
+  }
+}
+
+/**
+ * The lowest price in a series, earliest first on ties
+ */
+export function lowestPoint(points: PricePoint[]): PricePoint | null {
+  return points.reduce<PricePoint | null>((low, point) => (!low || point.price < low.price ? point : low), null)
+}
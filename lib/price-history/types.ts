@@ -0,0 +1,29 @@
+export type PriceHistoryRange = '7d' | '30d' | '90d' | '1y' | 'all'
+
+export interface PricePoint {
+  // ISO timestamp the price was recorded at
+  at: string
+  price: number
+}
+
+export interface PriceStats {
+  min: number
+  max: number
+  // Weighted by how long each price lasted, since points are only recorded on changes
+  average: number
+  current: number
+}
+
+export interface PriceHistory {
+  savedProductId: string
+  productName: string
+  currency: string
+  range: PriceHistoryRange
+  points: PricePoint[]
+  // Whether `points` was thinned out to fit the requested number of points
+  downsampled: boolean
+  // Over the selected range; null when there are no points
+  stats: PriceStats | null
+  // Lowest price ever recorded, whatever the range
+  allTimeLow: PricePoint | null
+}
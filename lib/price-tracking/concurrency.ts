@@ -0,0 +1,31 @@
+/**
+ * Run `worker` over every item with at most `limit` items of the same store
+ * in flight at once. Different stores proceed in parallel. Results keep the
+ * order of `items`.
+ */
+export async function runPerStore<T, R>(
+  items: T[],
+  storeOf: (item: T) => string,
+  limit: number,
+  worker: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length)
+  const queues = new Map<string, number[]>()
+  items.forEach((item, index) => {
+    const store = storeOf(item)
+    queues.set(store, [...(queues.get(store) ?? []), index])
+  })
+
+  const drain = async (queue: number[]) => {
+    for (let index = queue.shift(); index !== undefined; index = queue.shift()) {
+      results[index] = await worker(items[index])
+    }
+  }
+
+  await Promise.all(
+    [...queues.values()].flatMap((queue) =>
+      Array.from({ length: Math.max(1, Math.min(limit, queue.length)) }, () => drain(queue))
+    )
+  )
+  return results
+}
@@ -0,0 +1,9 @@
+export {
+  refreshSavedProductPrice,
+  refreshDuePrices,
+  DEFAULT_REFRESH_BATCH_SIZE,
+  DEFAULT_PER_STORE_CONCURRENCY,
+} from './refresh'
+export { nextPriceCheckAt, PRICE_REFRESH_INTERVAL_MS, MAX_REFRESH_BACKOFF_MS } from './schedule'
+export { runPerStore } from './concurrency'
+export type { TrackedPrice, PriceRefreshResult } from './types'
@@ -0,0 +1,158 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { storeRegistry, type StoreRegistry } from '@/lib/stores'
+import { fetchListing } from '@/lib/extraction'
+import { convertAmount, createDefaultRateSource, hasRate, roundMoney, type ExchangeRates } from '@/lib/currency'
+import { storeIdOf } from '@/lib/store-directory/domains'
+import { evaluatePriceDrop, priceDropNotification, priceDropsEnabled } from '@/lib/price-alerts'
+import { runPerStore } from './concurrency'
+import { nextPriceCheckAt } from './schedule'
+import type { PriceRefreshResult, TrackedPrice } from './types'
+
+// Keeps one cron invocation inside a serverless time limit
+export const DEFAULT_REFRESH_BATCH_SIZE = 50
+// Requests in flight per store, so a batch never hammers one site
+export const DEFAULT_PER_STORE_CONCURRENCY = 2
+
+class PriceRefreshError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PriceRefreshError'
+  }
+}
+
+/**
+ * The listing's current price in the saved product's currency
+ */
+async function currentPrice(
+  product: TrackedPrice,
+  options: { registry: StoreRegistry; rates: ExchangeRates }
+): Promise<number> {
+  const listing = await fetchListing(product.product_url, options.registry)
+  if (!listing || !Number.isFinite(listing.price) || listing.price <= 0) {
+    throw new PriceRefreshError('No price found for the product')
+  }
+  if (listing.currency.toUpperCase() === product.product_currency.toUpperCase()) return listing.price
+  if (!hasRate(listing.currency, options.rates) || !hasRate(product.product_currency, options.rates)) {
+    throw new PriceRefreshError(`No exchange rate from ${listing.currency} to ${product.product_currency}`)
+  }
+  return roundMoney(convertAmount(listing.price, listing.currency, product.product_currency, options.rates))
+}
+
+/**
+ * Re-fetch one saved product's price. A price that changed is appended to
+ * price_history, becomes the saved price and is checked against the
+ * product's price-drop rules, notifying the owner if they opted in.
+ * Failures push the next attempt back instead of throwing.
+ */
+export async function refreshSavedProductPrice(
+  supabase: SupabaseClient,
+  product: TrackedPrice,
+  options: {
+    registry?: StoreRegistry
+    rates: ExchangeRates
+    now?: Date
+    notify?: (userId: string) => Promise<boolean>
+  }
+): Promise<PriceRefreshResult> {
+  const now = options.now ?? new Date()
+  const previousPrice = Number(product.product_price)
+
+  let price: number
+  try {
+    price = await currentPrice(product, { registry: options.registry ?? storeRegistry, rates: options.rates })
+  } catch (error) {
+    if (!(error instanceof PriceRefreshError)) console.error('[Price Refresh Error]:', error)
+    const failures = product.price_check_failures + 1
+    const { error: updateError } = await supabase
+      .from('saved_products')
+      .update({ price_check_failures: failures, next_price_check_at: nextPriceCheckAt(now, failures).toISOString() })
+      .eq('id', product.id)
+    if (updateError) console.error('[DB Error]:', updateError)
+    return {
+      savedProductId: product.id,
+      previousPrice,
+      changed: false,
+      alert: null,
+      notified: false,
+      error: error instanceof PriceRefreshError ? error.message : 'Price refresh failed',
+    }
+  }
+
+  const changed = price !== previousPrice
+  const drop = changed ? evaluatePriceDrop(product, previousPrice, price) : null
+  if (changed) {
+    const { error: historyError } = await supabase
+      .from('price_history')
+      .insert({ saved_product_id: product.id, price, recorded_at: now.toISOString() })
+    if (historyError) console.error('[DB Error]:', historyError)
+  }
+
+  const { error: updateError } = await supabase
+    .from('saved_products')
+    .update({
+      product_price: price,
+      price_checked_at: now.toISOString(),
+      price_check_failures: 0,
+      next_price_check_at: nextPriceCheckAt(now, 0).toISOString(),
+      ...(drop && { last_alert_price: drop.lastAlertPrice }),
+    })
+    .eq('id', product.id)
+  if (updateError) console.error('[DB Error]:', updateError)
+
+  let notified = false
+  const alert = drop?.alert ?? null
+  const notify = options.notify ?? ((userId: string) => priceDropsEnabled(supabase, userId))
+  if (alert && (await notify(product.user_id))) {
+    const { error: notifyError } = await supabase.from('notifications').insert(priceDropNotification(product, alert))
+    if (notifyError) {
+      console.error('[DB Error]:', notifyError)
+    } else {
+      notified = true
+    }
+  }
+
+  return { savedProductId: product.id, previousPrice, price, changed, alert, notified }
+}
+
+/**
+ * Refresh every saved product whose next check is due, most overdue first,
+ * with at most `perStoreConcurrency` requests to any one store at a time.
+ * Meant for a scheduler using a service role client, since it reads every
+ * user's saved products.
+ */
+export async function refreshDuePrices(
+  supabase: SupabaseClient,
+  options: { registry?: StoreRegistry; now?: Date; limit?: number; perStoreConcurrency?: number } = {}
+): Promise<PriceRefreshResult[]> {
+  const now = options.now ?? new Date()
+  const { data, error } = await supabase
+    .from('saved_products')
+    .select('*')
+    .lte('next_price_check_at', now.toISOString())
+    .order('next_price_check_at', { ascending: true })
+    .limit(options.limit ?? DEFAULT_REFRESH_BATCH_SIZE)
+
+  if (error) {
+    console.error('[DB Error]:', error)
+    throw new Error('Failed to load saved products due for a price refresh')
+  }
+
+  const products = (data ?? []) as TrackedPrice[]
+  if (products.length === 0) return []
+
+  const rates = await createDefaultRateSource(supabase).getRates()
+
+  // Look each owner's preference up once per batch
+  const preferences = new Map<string, Promise<boolean>>()
+  const notify = (userId: string) => {
+    if (!preferences.has(userId)) preferences.set(userId, priceDropsEnabled(supabase, userId))
+    return preferences.get(userId)!
+  }
+
+  return runPerStore(
+    products,
+    (product) => product.store_id ?? storeIdOf(product.product_url) ?? product.store,
+    options.perStoreConcurrency ?? DEFAULT_PER_STORE_CONCURRENCY,
+    (product) => refreshSavedProductPrice(supabase, product, { registry: options.registry, rates, now, notify })
+  )
+}
@@ -0,0 +1,13 @@
+// How often a saved product's price is re-fetched
+export const PRICE_REFRESH_INTERVAL_MS = 12 * 60 * 60 * 1000
+// Longest wait after repeated failures, e.g. for a delisted product or a store blocking us
+export const MAX_REFRESH_BACKOFF_MS = 7 * 24 * 60 * 60 * 1000
+
+/**
+ * When to refresh a price next. Each consecutive failure doubles the wait,
+ * up to MAX_REFRESH_BACKOFF_MS.
+ */
+export function nextPriceCheckAt(now: Date, failures: number): Date {
+  const delay = Math.min(PRICE_REFRESH_INTERVAL_MS * 2 ** failures, MAX_REFRESH_BACKOFF_MS)
+  return new Date(now.getTime() + delay)
+}
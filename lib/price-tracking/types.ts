@@ -0,0 +1,27 @@
+import type { PriceDropAlert, PriceDropRule } from '@/lib/price-alerts/types'
+
+// The saved_products columns the price refresh reads
+export interface TrackedPrice extends PriceDropRule {
+  id: string
+  user_id: string
+  product_name: string
+  product_url: string
+  product_price: number
+  product_currency: string
+  store: string
+  store_id: string | null
+  price_checked_at: string | null
+  price_check_failures: number
+}
+
+export interface PriceRefreshResult {
+  savedProductId: string
+  previousPrice: number
+  // Current price in the saved product's currency; absent when the refresh failed
+  price?: number
+  changed: boolean
+  // Price-drop rule the new price matched, if any
+  alert: PriceDropAlert | null
+  notified: boolean
+  error?: string
+}
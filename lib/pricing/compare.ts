@@ -0,0 +1,66 @@
+import type { Product } from '@/lib/stores/types'
+import { convertAmount, hasRate, DEFAULT_CURRENCY, type ExchangeRates } from '@/lib/currency'
+
+/**
+ * Annotate products with their effective price after coupons (or landed price,
+ * or sticker price when no landed cost was estimated) in `currency`.
+ * Products in a currency without a known rate are left without a compare price.
+ */
+export function withComparePrices<T extends Product>(products: T[], currency: string, rates: ExchangeRates): T[] {
+  return products.map((product) => {
+    if (!hasRate(product.currency, rates) || !hasRate(currency, rates)) {
+      return { ...product, comparePrice: undefined, compareCurrency: undefined }
+    }
+    return {
+      ...product,
+      comparePrice: convertAmount(
+        product.effectivePrice ?? product.landedPrice ?? product.price,
+        product.currency,
+        currency,
+        rates
+      ),
+      compareCurrency: currency.toUpperCase(),
+    }
+  })
+}
+
+type Comparable = Pick<Product, 'price' | 'comparePrice' | 'compareCurrency' | 'landedPrice' | 'effectivePrice'> & {
+  // Listings stored before currencies were recorded have none
+  currency?: string
+}
+
+/**
+ * The price to compare a product by: its converted price when known, otherwise its listed total
+ */
+export function comparePriceOf(product: Comparable): number {
+  return product.comparePrice ?? product.effectivePrice ?? product.landedPrice ?? product.price
+}
+
+/**
+ * The currency comparePriceOf is in
+ */
+export function compareCurrencyOf(product: Comparable): string {
+  return (product.compareCurrency ?? product.currency ?? DEFAULT_CURRENCY).toUpperCase()
+}
+
+/**
+ * Cheapest product by compare price. Products that could not be converted are only
+ * considered when none of the products could be, and only products priced in the
+ * most common compare currency are weighed against each other, since products
+ * converted at different times (e.g. added to a comparison from different searches)
+ * may not share one.
+ */
+export function pickCheapest<T extends Comparable>(products: T[]): T {
+  const comparable = products.filter((product) => product.comparePrice !== undefined)
+  const candidates = comparable.length > 0 ? comparable : products
+
+  const counts = new Map<string, number>()
+  for (const product of candidates) {
+    counts.set(compareCurrencyOf(product), (counts.get(compareCurrencyOf(product)) ?? 0) + 1)
+  }
+  // Ties go to the currency seen first
+  const currency = [...counts].reduce((best, entry) => (entry[1] > best[1] ? entry : best))[0]
+  const pool = candidates.filter((product) => compareCurrencyOf(product) === currency)
+
+  return pool.reduce((min, product) => (comparePriceOf(product) < comparePriceOf(min) ? product : min))
+}
@@ -0,0 +1,10 @@
+export { withComparePrices, comparePriceOf, compareCurrencyOf, pickCheapest } from './compare'
+export { unitPriceOf, withUnitPrices } from './unit-price'
+export {
+  estimateLandedCost,
+  withLandedCosts,
+  isSupportedDestination,
+  DESTINATION_TAX_RULES,
+  SUPPORTED_DESTINATIONS,
+  type DestinationTaxRule,
+} from './landed-cost'
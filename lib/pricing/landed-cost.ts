@@ -0,0 +1,85 @@
+import type { Destination, Product } from '@/lib/stores/types'
+import { convertAmount, hasRate, roundMoney, type ExchangeRates } from '@/lib/currency'
+
+/**
+ * Consumption tax and import rules for a destination country. These are
+ * rough averages for estimating, not a replacement for a customs calculator.
+ */
+export interface DestinationTaxRule {
+  // Sales tax / VAT / GST rate
+  taxRate: number
+  // Domestic listings already include tax (VAT-style pricing)
+  pricesIncludeTax: boolean
+  // Average duty rate on consumer goods
+  dutyRate: number
+  // Imports valued at or under this amount (in `deMinimisCurrency`) are duty free
+  deMinimis: number
+  deMinimisCurrency: string
+}
+
+export const DESTINATION_TAX_RULES: Record<string, DestinationTaxRule> = {
+  US: { taxRate: 0.07, pricesIncludeTax: false, dutyRate: 0.05, deMinimis: 0, deMinimisCurrency: 'USD' },
+  CA: { taxRate: 0.13, pricesIncludeTax: false, dutyRate: 0.06, deMinimis: 150, deMinimisCurrency: 'CAD' },
+  GB: { taxRate: 0.2, pricesIncludeTax: true, dutyRate: 0.04, deMinimis: 135, deMinimisCurrency: 'GBP' },
+  DE: { taxRate: 0.19, pricesIncludeTax: true, dutyRate: 0.04, deMinimis: 150, deMinimisCurrency: 'EUR' },
+  FR: { taxRate: 0.2, pricesIncludeTax: true, dutyRate: 0.04, deMinimis: 150, deMinimisCurrency: 'EUR' },
+  IT: { taxRate: 0.22, pricesIncludeTax: true, dutyRate: 0.04, deMinimis: 150, deMinimisCurrency: 'EUR' },
+  ES: { taxRate: 0.21, pricesIncludeTax: true, dutyRate: 0.04, deMinimis: 150, deMinimisCurrency: 'EUR' },
+  NL: { taxRate: 0.21, pricesIncludeTax: true, dutyRate: 0.04, deMinimis: 150, deMinimisCurrency: 'EUR' },
+  AU: { taxRate: 0.1, pricesIncludeTax: true, dutyRate: 0.05, deMinimis: 1000, deMinimisCurrency: 'AUD' },
+  JP: { taxRate: 0.1, pricesIncludeTax: true, dutyRate: 0.03, deMinimis: 10000, deMinimisCurrency: 'JPY' },
+  IN: { taxRate: 0.18, pricesIncludeTax: true, dutyRate: 0.2, deMinimis: 0, deMinimisCurrency: 'INR' },
+  AE: { taxRate: 0.05, pricesIncludeTax: true, dutyRate: 0.05, deMinimis: 1000, deMinimisCurrency: 'AED' },
+  SA: { taxRate: 0.15, pricesIncludeTax: true, dutyRate: 0.05, deMinimis: 1000, deMinimisCurrency: 'SAR' },
+  EG: { taxRate: 0.14, pricesIncludeTax: true, dutyRate: 0.2, deMinimis: 0, deMinimisCurrency: 'EGP' },
+}
+
+export const SUPPORTED_DESTINATIONS = Object.keys(DESTINATION_TAX_RULES)
+
+export function isSupportedDestination(country: string): boolean {
+  return country.toUpperCase() in DESTINATION_TAX_RULES
+}
+
+function exceedsDeMinimis(value: number, currency: string, rule: DestinationTaxRule, rates: ExchangeRates): boolean {
+  if (rule.deMinimis === 0) return true
+  if (!hasRate(currency, rates) || !hasRate(rule.deMinimisCurrency, rates)) return true
+  return convertAmount(value, currency, rule.deMinimisCurrency, rates) > rule.deMinimis
+}
+
+/**
+ * Estimate tax, duties and the total landed price of one offer for a destination.
+ * Unknown shipping counts as zero; the UI shows it as unknown rather than free.
+ */
+export function estimateLandedCost<T extends Product>(product: T, destination: Destination, rates: ExchangeRates): T {
+  const rule = DESTINATION_TAX_RULES[destination.country.toUpperCase()]
+  const shipping = product.shippingCost ?? 0
+  if (!rule) {
+    return { ...product, landedPrice: roundMoney(product.price + shipping) }
+  }
+
+  const crossBorder = Boolean(product.originCountry) && product.originCountry !== destination.country.toUpperCase()
+  const goodsValue = product.price + shipping
+  let importDuty = 0
+  let estimatedTax = 0
+
+  if (crossBorder) {
+    // Import VAT is charged on the goods, shipping and duty together
+    if (exceedsDeMinimis(goodsValue, product.currency, rule, rates)) {
+      importDuty = goodsValue * rule.dutyRate
+    }
+    estimatedTax = (goodsValue + importDuty) * rule.taxRate
+  } else if (!rule.pricesIncludeTax) {
+    estimatedTax = goodsValue * rule.taxRate
+  }
+
+  return {
+    ...product,
+    estimatedTax: roundMoney(estimatedTax),
+    importDuty: roundMoney(importDuty),
+    landedPrice: roundMoney(goodsValue + estimatedTax + importDuty),
+  }
+}
+
+export function withLandedCosts<T extends Product>(products: T[], destination: Destination, rates: ExchangeRates): T[] {
+  return products.map((product) => estimateLandedCost(product, destination, rates))
+}
@@ -0,0 +1,33 @@
+import type { Product } from '@/lib/stores/types'
+import type { ProductQuantity, UnitPriceUnit } from '@/lib/units'
+import { comparePriceOf } from './compare'
+
+const PRICE_UNITS: Record<ProductQuantity['unit'], { unit: UnitPriceUnit; baseUnits: number }> = {
+  g: { unit: 'kg', baseUnits: 1000 },
+  ml: { unit: 'l', baseUnits: 1000 },
+  item: { unit: 'item', baseUnits: 1 },
+}
+
+/**
+ * Landed price per kilogram, litre or item, in the product's compare currency.
+ * Undefined when the listing's quantity is unknown.
+ */
+export function unitPriceOf(product: Product): { amount: number; unit: UnitPriceUnit } | undefined {
+  const quantity = product.quantity
+  if (!quantity || quantity.total <= 0) return undefined
+
+  const { unit, baseUnits } = PRICE_UNITS[quantity.unit]
+  const amount = comparePriceOf(product) / (quantity.total / baseUnits)
+  // Small per-item prices need more than cents to tell apart
+  return { amount: Math.round(amount * 10000) / 10000, unit }
+}
+
+/**
+ * Annotate products with their unit price. Run after compare prices are set.
+ */
+export function withUnitPrices<T extends Product>(products: T[]): T[] {
+  return products.map((product) => {
+    const unitPrice = unitPriceOf(product)
+    return { ...product, unitPrice: unitPrice?.amount, unitPriceUnit: unitPrice?.unit }
+  })
+}
@@ -0,0 +1,96 @@
+import type { ProductCondition } from '@/lib/stores/types'
+import type { FilterOptions } from '@/lib/search/filters'
+import { MAX_PRICE_FILTER } from '@/lib/search/filters'
+import { KNOWN_BRANDS } from '@/lib/enrichment/taxonomy'
+
+// "1,200" groups thousands; a comma is only a decimal mark with one or two digits after it ("9,99")
+const AMOUNT = String.raw`[$€£]?\s?(\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+|,\d{1,2})?)(k\b)?(?:\s?(?:dollars|usd|euros?|eur|pounds|gbp|bucks)\b)?`
+// A number followed by a unit is a spec ("under 2 kg", "over 500 GB"), not a price
+const NOT_A_SPEC = String.raw`(?!\w|[.,]\d|\s?(?:[kmgt]b|kg|g|lbs?|oz|ml|l|mm|cm|inch(?:es)?|w|mah|hz|mp|hours?|h|days?|years?)\b)`
+
+// "between $50 and $100", "between 50 to 100 dollars"
+const PRICE_BETWEEN_PATTERN = new RegExp(String.raw`\bbetween\s+${AMOUNT}\s?(?:-|to|and)\s?${AMOUNT}${NOT_A_SPEC}`, 'i')
+// "$50-$100", "$50 to 100"
+const PRICE_RANGE_PATTERN = new RegExp(String.raw`(?=[$€£])${AMOUNT}\s?(?:-|to)\s?${AMOUNT}${NOT_A_SPEC}`, 'i')
+// "under $200", "less than 200", "< 150 euros"
+const PRICE_MAX_PATTERN = new RegExp(
+  String.raw`(?:\b(?:under|below|less than|cheaper than|no more than)|<)\s?${AMOUNT}${NOT_A_SPEC}`,
+  'i'
+)
+// "over $50", "more than 50"
+const PRICE_MIN_PATTERN = new RegExp(String.raw`(?:\b(?:over|above|more than|at least)|>)\s?${AMOUNT}${NOT_A_SPEC}`, 'i')
+// "4.5 stars", "4+ stars", "at least 4 stars and up", "rated 4 or higher"
+const RATING_PATTERN =
+  /(?:\b(?:at least|min(?:imum)?|over|above)\s+)?\b([0-5](?:\.\d)?)\s?\+?\s?(?:stars?|★)(?:\s?(?:and up|& up|or (?:more|higher|better)|\+))?|\brated\s+([0-5](?:\.\d)?)\s?\+?(?:\s?(?:and up|& up|or (?:more|higher|better)))?/i
+
+const CONDITION_PATTERNS: Array<[RegExp, ProductCondition]> = [
+  [/\b(?:refurbished|refurb|renewed|reconditioned)\b/i, 'refurbished'],
+  [/\bopen[\s-]?box\b/i, 'open_box'],
+  [/\b(?:used|pre-?owned|second[\s-]?hand)\b/i, 'used'],
+  // Plain "new" is too often part of a name ("New Balance")
+  [/\bbrand[\s-]new\b/i, 'new'],
+]
+
+// Whatever follows these names what the product goes with, not who makes it ("case for apple iphone")
+const ACCESSORY_FOR = /\b(?:for|compatible with|fits|works with)\b/i
+
+// Words left dangling once a constraint is cut out, e.g. "headphones for"
+const DANGLING_WORDS = /^(?:for|with|and|at|in|priced|costing|rated)\s+|\s+(?:for|with|and|at|in|priced|costing|rated)$/i
+
+function amountOf(value: string, thousands: string | undefined): number {
+  const amount = parseFloat(/,\d{3}/.test(value) ? value.replace(/,/g, '') : value.replace(',', '.'))
+  return thousands ? amount * 1000 : amount
+}
+
+/**
+ * Pull price, rating, condition and brand constraints out of a keyword query.
+ * Returns the filters found and the text with price, rating and condition
+ * phrases removed; brand names stay in the text since stores search by them.
+ * Only a brand making the product becomes a filter, not one it is for.
+ */
+export function extractConstraints(text: string): { text: string; filters: Partial<FilterOptions> } {
+  const filters: Partial<FilterOptions> = {}
+  let remaining = text
+
+  const take = (pattern: RegExp): RegExpMatchArray | null => {
+    const match = remaining.match(pattern)
+    if (match) remaining = remaining.replace(match[0], ' ')
+    return match
+  }
+
+  // Ratings first so "at least 4 stars" isn't read as a price
+  const rating = take(RATING_PATTERN)
+  if (rating) {
+    filters.minRating = Math.min(5, parseFloat(rating[1] ?? rating[2]))
+  }
+
+  const between = take(PRICE_BETWEEN_PATTERN) ?? take(PRICE_RANGE_PATTERN)
+  if (between) {
+    const first = amountOf(between[1], between[2])
+    const second = amountOf(between[3], between[4])
+    filters.priceRange = [Math.min(first, second), Math.min(MAX_PRICE_FILTER, Math.max(first, second))]
+  } else {
+    const max = take(PRICE_MAX_PATTERN)
+    const min = take(PRICE_MIN_PATTERN)
+    if (max || min) {
+      filters.priceRange = [
+        min ? amountOf(min[1], min[2]) : 0,
+        max ? Math.min(MAX_PRICE_FILTER, amountOf(max[1], max[2])) : MAX_PRICE_FILTER,
+      ]
+    }
+  }
+
+  const conditions: ProductCondition[] = []
+  for (const [pattern, condition] of CONDITION_PATTERNS) {
+    if (take(pattern)) conditions.push(condition)
+  }
+  if (conditions.length > 0) filters.conditions = conditions
+
+  const subject = remaining.split(ACCESSORY_FOR)[0]
+  const brands = KNOWN_BRANDS.filter((brand) => new RegExp(`\\b${brand}\\b`, 'i').test(subject))
+  if (brands.length > 0) filters.brands = brands
+
+  let cleaned = remaining.replace(/\s+/g, ' ').trim()
+  while (DANGLING_WORDS.test(cleaned)) cleaned = cleaned.replace(DANGLING_WORDS, '').trim()
+  return { text: cleaned, filters }
+}
@@ -0,0 +1,5 @@
+export { interpretQuery, isReinterpreted } from './interpret'
+export { extractConstraints } from './constraints'
+export { correctSpelling, correctWord, editDistance } from './spelling'
+export { expandSynonyms } from './synonyms'
+export type { InterpretedQuery, SpellingCorrection } from './types'
@@ -0,0 +1,33 @@
+import { extractConstraints } from './constraints'
+import { correctSpelling } from './spelling'
+import { expandSynonyms } from './synonyms'
+import type { InterpretedQuery } from './types'
+
+/**
+ * Read a sanitized keyword query: pull out constraints like "under $200" or
+ * "refurbished", fix typos in what's left and add synonym phrasings. When
+ * nothing but constraints was typed, the original text is searched as is.
+ */
+export function interpretQuery(query: string): InterpretedQuery {
+  const original = query.trim()
+  const constraints = extractConstraints(original)
+  if (!constraints.text) {
+    return { original, text: original, corrections: [], expansions: [], filters: {} }
+  }
+
+  const { text, corrections } = correctSpelling(constraints.text)
+  return {
+    original,
+    text,
+    corrections,
+    expansions: expandSynonyms(text),
+    filters: constraints.filters,
+  }
+}
+
+/**
+ * Whether the query sent to stores differs from what was typed
+ */
+export function isReinterpreted(interpreted: InterpretedQuery): boolean {
+  return interpreted.text !== interpreted.original || Object.keys(interpreted.filters).length > 0
+}
@@ -0,0 +1,91 @@
+import { KNOWN_BRANDS, PRODUCT_CATEGORIES } from '@/lib/enrichment/taxonomy'
+import type { SpellingCorrection } from './types'
+
+// Common product words, most frequent first so ties favour the likelier word
+const PRODUCT_WORDS = [
+  'wireless', 'bluetooth', 'headphones', 'earbuds', 'earphones', 'headset', 'speaker', 'speakers', 'laptop',
+  'notebook', 'tablet', 'phone', 'smartphone', 'charger', 'cable', 'keyboard', 'mouse', 'monitor', 'camera',
+  'television', 'watch', 'smartwatch', 'console', 'controller', 'router', 'printer', 'vacuum', 'blender',
+  'coffee', 'maker', 'kettle', 'toaster', 'microwave', 'refrigerator', 'shoes', 'sneakers', 'running', 'jacket',
+  'backpack', 'noise', 'cancelling', 'canceling', 'gaming', 'portable', 'waterproof', 'battery', 'power', 'bank',
+  'digital', 'electric', 'stainless', 'steel', 'cordless', 'robot', 'fitness', 'tracker', 'drone', 'projector',
+  'microphone', 'adapter', 'case', 'cover', 'screen', 'protector', 'memory', 'storage', 'drive', 'external',
+  'internal', 'solid', 'state', 'graphics', 'processor', 'desktop', 'computer', 'ultra', 'professional', 'black',
+  'white', 'silver', 'gray', 'grey', 'blue', 'red', 'green', 'pink', 'large', 'small', 'medium', 'mini',
+  // Product lines close enough to common words to be "corrected" into them
+  'iphone', 'ipad', 'macbook', 'airpods', 'galaxy', 'pixel', 'playstation', 'xbox', 'kindle', 'echo',
+]
+
+const VOCABULARY = [
+  ...new Set([
+    ...PRODUCT_WORDS,
+    ...KNOWN_BRANDS.map((brand) => brand.toLowerCase()),
+    ...PRODUCT_CATEGORIES.flatMap((category) => category.toLowerCase().split(/[^a-z]+/)),
+  ]),
+].filter((word) => word.length > 0)
+const KNOWN_WORDS = new Set(VOCABULARY)
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and swaps of
+ * adjacent letters as one edit each
+ */
+export function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array<number>(b.length).fill(0)])
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1)
+      }
+    }
+  }
+  return rows[a.length][b.length]
+}
+
+// Short words have too many near neighbours to correct safely
+function maxEditsFor(word: string): number {
+  if (word.length < 4) return 0
+  return word.length < 8 ? 1 : 2
+}
+
+/**
+ * The closest known word to `word`, or undefined when it is already known,
+ * looks like a model number or nothing is close enough
+ */
+export function correctWord(word: string): string | undefined {
+  const lower = word.toLowerCase()
+  const maxEdits = maxEditsFor(lower)
+  if (maxEdits === 0 || KNOWN_WORDS.has(lower) || /[^a-z]/.test(lower)) return undefined
+  // Plurals of known words are spelled fine
+  if (/s$/.test(lower) && (KNOWN_WORDS.has(lower.slice(0, -1)) || KNOWN_WORDS.has(lower.replace(/es$/, '')))) {
+    return undefined
+  }
+
+  let best: { word: string; distance: number } | undefined
+  for (const candidate of VOCABULARY) {
+    if (Math.abs(candidate.length - lower.length) > maxEdits) continue
+    const distance = editDistance(lower, candidate)
+    if (distance <= maxEdits && (!best || distance < best.distance)) {
+      best = { word: candidate, distance }
+    }
+  }
+  return best?.word
+}
+
+/**
+ * Fix misspelled words in a query, leaving unknown words that aren't close to
+ * anything (model names, niche terms) as typed
+ */
+export function correctSpelling(text: string): { text: string; corrections: SpellingCorrection[] } {
+  const corrections: SpellingCorrection[] = []
+  const corrected = text.replace(/\S+/g, (word) => {
+    const fixed = correctWord(word)
+    if (!fixed) return word
+    corrections.push({ from: word, to: fixed })
+    return fixed
+  })
+  return { text: corrected, corrections }
+}
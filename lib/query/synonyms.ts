@@ -0,0 +1,45 @@
+// Phrases shoppers and stores use for the same kind of product
+const SYNONYM_GROUPS = [
+  ['earbuds', 'in-ear headphones', 'earphones'],
+  ['headphones', 'headset'],
+  ['laptop', 'notebook'],
+  ['tv', 'television'],
+  ['smartphone', 'cell phone', 'mobile phone'],
+  ['sneakers', 'trainers', 'running shoes'],
+  ['smartwatch', 'smart watch'],
+  ['power bank', 'portable charger'],
+  ['sofa', 'couch'],
+  ['hoodie', 'hooded sweatshirt'],
+]
+
+// Every extra phrasing is another request to every store
+const MAX_EXPANSIONS = 2
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function phrasePattern(phrase: string): RegExp {
+  return new RegExp(`(?<![\\w-])${escapeRegExp(phrase)}(?![\\w-])`, 'i')
+}
+
+/**
+ * Alternative phrasings of a query, made by swapping a known phrase for its
+ * synonyms. Returns at most a couple so a search stays cheap.
+ */
+export function expandSynonyms(text: string): string[] {
+  const expansions: string[] = []
+
+  for (const group of SYNONYM_GROUPS) {
+    const phrase = group.find((candidate) => phrasePattern(candidate).test(text))
+    if (!phrase) continue
+
+    for (const synonym of group) {
+      if (synonym === phrase) continue
+      const expanded = text.replace(phrasePattern(phrase), synonym)
+      if (!expansions.includes(expanded)) expansions.push(expanded)
+      if (expansions.length >= MAX_EXPANSIONS) return expansions
+    }
+  }
+  return expansions
+}
@@ -0,0 +1,22 @@
+import type { FilterOptions } from '@/lib/search/filters'
+
+export interface SpellingCorrection {
+  from: string
+  to: string
+}
+
+/**
+ * How a keyword query was read before searching: the words sent to stores,
+ * any typos fixed along the way and the constraints pulled out of the text
+ */
+export interface InterpretedQuery {
+  // The query as typed, after sanitizing
+  original: string
+  // Keywords sent to the stores, with constraints removed and spelling fixed
+  text: string
+  corrections: SpellingCorrection[]
+  // Alternative phrasings searched alongside `text`, e.g. "in-ear headphones" for "earbuds"
+  expansions: string[]
+  // Constraints found in the text, such as "under $200" or "refurbished"
+  filters: Partial<FilterOptions>
+}
@@ -0,0 +1,137 @@
+import type { OfferRisk, Product, RiskLevel } from '@/lib/stores/types'
+import type { ProductGroup } from '@/lib/matching/matcher'
+import type { StoreProfile } from '@/lib/store-directory/types'
+import { normalizeBrand } from '@/lib/matching/title'
+import { inferBrand } from '@/lib/enrichment/infer'
+import { comparePriceOf } from '@/lib/pricing/compare'
+import { listingIdOf } from '@/lib/search/filters'
+
+// Share of the other offers' median price below which an offer is suspicious
+export const FAR_BELOW_MEDIAN = 0.5
+export const WELL_BELOW_MEDIAN = 0.7
+// Offers needed besides the one being checked before a median means anything
+const MIN_PRICE_PEERS = 2
+// Unverified stores first seen more recently than this count as new
+export const NEW_STORE_DAYS = 90
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+interface RiskSignal {
+  weight: number
+  reason: string
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+// "Sony" and "Sony Electronics" are the same brand
+function sameBrand(a: string, b: string): boolean {
+  return a.startsWith(b) || b.startsWith(a)
+}
+
+function levelOf(score: number): RiskLevel {
+  if (score >= 3) return 'high'
+  if (score >= 2) return 'medium'
+  return 'low'
+}
+
+/**
+ * Compare an offer with the other listings of the same item in the same
+ * condition, since renewed and used units are expected to be cheaper
+ */
+function priceSignal(offer: Product, group: ProductGroup): RiskSignal | null {
+  const condition = offer.condition ?? 'new'
+  const peers = group.offers
+    .filter((other) => other !== offer && (other.condition ?? 'new') === condition)
+    .map(comparePriceOf)
+  if (peers.length < MIN_PRICE_PEERS) return null
+
+  const ratio = comparePriceOf(offer) / median(peers)
+  const percent = Math.round((1 - ratio) * 100)
+  if (ratio < FAR_BELOW_MEDIAN) return { weight: 2, reason: `${percent}% below other stores` }
+  if (ratio < WELL_BELOW_MEDIAN) return { weight: 1, reason: `${percent}% below other stores` }
+  return null
+}
+
+function storeSignals(store: StoreProfile | undefined, now: number): RiskSignal[] {
+  if (!store) return []
+  if (store.trust.score === 0) return [{ weight: 3, reason: 'Store is on a scam-domain list' }]
+
+  const signals: RiskSignal[] = []
+  if (store.trust.level === 'low') signals.push({ weight: 2, reason: 'Low-trust store' })
+  const isNew = !store.firstSeenAt || now - new Date(store.firstSeenAt).getTime() < NEW_STORE_DAYS * DAY_MS
+  if (!store.verified && isNew) signals.push({ weight: 1, reason: 'New or unverified store' })
+  return signals
+}
+
+/**
+ * Brand data that disagrees with itself or with the other listings of the
+ * same item is a common sign of a counterfeit
+ */
+function brandSignal(offer: Product, group: ProductGroup): RiskSignal | null {
+  const brand = normalizeBrand(offer.brand)
+  if (!brand) return null
+
+  const titleBrand = normalizeBrand(inferBrand(offer.name))
+  if (titleBrand && !sameBrand(titleBrand, brand)) {
+    return { weight: 2, reason: `Listed as ${offer.brand} but titled ${inferBrand(offer.name)}` }
+  }
+
+  const otherBrands = group.offers
+    .filter((other) => other !== offer)
+    .map((other) => normalizeBrand(other.brand))
+    .filter((other): other is string => Boolean(other))
+  if (otherBrands.length > 0 && otherBrands.every((other) => !sameBrand(other, brand))) {
+    return { weight: 2, reason: 'Brand differs from other listings of this item' }
+  }
+  return null
+}
+
+/**
+ * Rate every offer's risk of being a scam or counterfeit from its price
+ * against the same item elsewhere, the trust and age of its store, and its
+ * brand data. Weak signals only add up to a warning together; any one strong
+ * signal is enough for medium, and a scam-listed store is always high.
+ * Keyed by listingIdOf.
+ */
+export function assessOfferRisks(
+  groups: ProductGroup[],
+  stores: Record<string, StoreProfile>,
+  options: { now?: number } = {}
+): Map<string, OfferRisk> {
+  const now = options.now ?? Date.now()
+  const risks = new Map<string, OfferRisk>()
+
+  for (const group of groups) {
+    for (const offer of group.offers) {
+      const signals = [
+        priceSignal(offer, group),
+        ...storeSignals(offer.storeId ? stores[offer.storeId] : undefined, now),
+        brandSignal(offer, group),
+      ].filter((signal): signal is RiskSignal => signal !== null)
+
+      const score = signals.reduce((sum, signal) => sum + signal.weight, 0)
+      risks.set(listingIdOf(offer), {
+        level: levelOf(score),
+        reasons: signals.sort((a, b) => b.weight - a.weight).map((signal) => signal.reason),
+      })
+    }
+  }
+
+  return risks
+}
+
+/**
+ * Attach the assessed risk to a listing; listings that weren't assessed are left as they are
+ */
+export function withRisk<T extends Product>(product: T, risks: Map<string, OfferRisk>): T {
+  const risk = risks.get(listingIdOf(product))
+  return risk ? { ...product, risk } : product
+}
+
+export function isHighRisk(product: Pick<Product, 'risk'>): boolean {
+  return product.risk?.level === 'high'
+}
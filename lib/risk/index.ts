@@ -0,0 +1,9 @@
+export {
+  assessOfferRisks,
+  withRisk,
+  isHighRisk,
+  FAR_BELOW_MEDIAN,
+  WELL_BELOW_MEDIAN,
+  NEW_STORE_DAYS,
+} from './detect'
+export type { OfferRisk, RiskLevel } from '@/lib/stores/types'
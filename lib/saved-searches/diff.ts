@@ -0,0 +1,37 @@
+import type { DealAlert, OfferSnapshot } from './types'
+
+export function cheapestOffer(offers: OfferSnapshot[]): OfferSnapshot | undefined {
+  return offers.reduce<OfferSnapshot | undefined>((best, offer) => (!best || offer.price < best.price ? offer : best), undefined)
+}
+
+/**
+ * Compare a saved search's new offers against the previous run. The first run
+ * only sets the baseline, so it never alerts.
+ */
+export function diffOffers(
+  previous: OfferSnapshot[] | null,
+  current: OfferSnapshot[],
+  alertBelowPrice: number | null
+): DealAlert[] {
+  if (!previous) return []
+  const alerts: DealAlert[] = []
+  const seen = new Set(previous.map((offer) => offer.key))
+
+  if (alertBelowPrice !== null) {
+    for (const offer of current) {
+      if (!seen.has(offer.key) && offer.price <= alertBelowPrice) {
+        alerts.push({ kind: 'below_threshold', offer })
+      }
+    }
+  }
+
+  const before = cheapestOffer(previous)
+  const now = cheapestOffer(current)
+  if (before && now && now.store !== before.store && now.price < before.price) {
+    // Already reported as a new offer under the alert price
+    if (!alerts.some((alert) => alert.offer.key === now.key)) {
+      alerts.push({ kind: 'cheaper_store', offer: now, previousPrice: before.price })
+    }
+  }
+  return alerts
+}
@@ -0,0 +1,10 @@
+export { runSavedSearch, runDueSavedSearches, offersOf, DEFAULT_RUN_BATCH_SIZE } from './runner'
+export { diffOffers, cheapestOffer } from './diff'
+export { nextRunAt, isSavedSearchFrequency, SAVED_SEARCH_FREQUENCIES } from './schedule'
+export type {
+  SavedSearch,
+  SavedSearchFrequency,
+  OfferSnapshot,
+  DealAlert,
+  SavedSearchRunResult,
+} from './types'
@@ -0,0 +1,175 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Product, StoreRegistry } from '@/lib/stores'
+import { runSearch, SearchError, MAX_PAGE_SIZE, type SearchResponse } from '@/lib/search'
+import { hasActiveFilters, listingIdOf, matchesFilters } from '@/lib/search/filters'
+import { comparePriceOf } from '@/lib/pricing'
+import { formatPrice } from '@/lib/currency/format'
+import { cheapestOffer, diffOffers } from './diff'
+import { nextRunAt } from './schedule'
+import type { DealAlert, OfferSnapshot, SavedSearch, SavedSearchRunResult } from './types'
+
+// Keeps one cron invocation inside a serverless time limit
+export const DEFAULT_RUN_BATCH_SIZE = 20
+
+function snapshotOf(product: Product): OfferSnapshot {
+  return {
+    key: listingIdOf(product),
+    store: product.store,
+    name: product.name,
+    price: comparePriceOf(product),
+    url: product.url,
+  }
+}
+
+/**
+ * The offers a saved search is watching: the matched product and the
+ * alternatives that pass its filters. Likely scams never raise a deal alert.
+ */
+export function offersOf(response: SearchResponse): OfferSnapshot[] {
+  const filters = hasActiveFilters(response.filters) ? response.filters : null
+  const products = [response.product, ...response.alternatives].filter(
+    (product) => product.risk?.level !== 'high' && (!filters || matchesFilters(product, filters))
+  )
+  return products.map(snapshotOf)
+}
+
+function notificationFor(savedSearch: SavedSearch, alert: DealAlert, currency: string) {
+  const price = formatPrice(alert.offer.price, currency)
+  if (alert.kind === 'below_threshold') {
+    return {
+      user_id: savedSearch.user_id,
+      type: 'deal',
+      title: `New deal for "${savedSearch.name}"`,
+      message: `${alert.offer.store} now lists ${alert.offer.name} for ${price}, under your ${formatPrice(
+        savedSearch.alert_below_price!,
+        currency
+      )} alert.`,
+      product_name: alert.offer.name,
+      new_price: alert.offer.price,
+    }
+  }
+  return {
+    user_id: savedSearch.user_id,
+    type: 'deal',
+    title: `Cheaper store for "${savedSearch.name}"`,
+    message: `${alert.offer.store} is now the cheapest at ${price}, down from ${formatPrice(alert.previousPrice!, currency)}.`,
+    product_name: alert.offer.name,
+    old_price: alert.previousPrice,
+    new_price: alert.offer.price,
+  }
+}
+
+async function dealsEnabled(supabase: SupabaseClient, userId: string): Promise<boolean> {
+  const { data } = await supabase
+    .from('notification_preferences')
+    .select('deals_enabled')
+    .eq('user_id', userId)
+    .maybeSingle()
+  // Users without a preferences row get the defaults, which include deals
+  return data?.deals_enabled ?? true
+}
+
+/**
+ * Re-run one saved search with live prices, compare against its previous
+ * offers, notify the owner of new deals and schedule the next run. Search
+ * failures are recorded on the saved search rather than thrown.
+ */
+export async function runSavedSearch(
+  supabase: SupabaseClient,
+  savedSearch: SavedSearch,
+  options: { registry?: StoreRegistry; now?: Date } = {}
+): Promise<SavedSearchRunResult> {
+  const now = options.now ?? new Date()
+  const schedule = {
+    last_run_at: now.toISOString(),
+    next_run_at: nextRunAt(savedSearch.frequency, now).toISOString(),
+  }
+
+  let response: SearchResponse
+  try {
+    response = await runSearch(
+      {
+        query: savedSearch.query,
+        currency: savedSearch.currency ?? undefined,
+        filters: savedSearch.filters ?? undefined,
+        sort: savedSearch.sort,
+        limit: MAX_PAGE_SIZE,
+        refresh: true,
+      },
+      { userId: savedSearch.user_id, supabase, registry: options.registry, recordHistory: false }
+    )
+  } catch (error) {
+    const message = error instanceof SearchError ? error.message : 'Search failed'
+    if (!(error instanceof SearchError)) console.error('[Saved Search Error]:', error)
+    await supabase
+      .from('saved_searches')
+      .update({ ...schedule, last_error: message })
+      .eq('id', savedSearch.id)
+    return { savedSearchId: savedSearch.id, alerts: [], notified: 0, error: message }
+  }
+
+  const offers = offersOf(response)
+  // Prices are only comparable between runs in the same currency
+  const previous = savedSearch.currency === null || savedSearch.currency === response.currency ? savedSearch.last_offers : null
+  const alerts = diffOffers(previous, offers, savedSearch.alert_below_price)
+
+  let notified = 0
+  if (alerts.length > 0 && (await dealsEnabled(supabase, savedSearch.user_id))) {
+    const { error } = await supabase
+      .from('notifications')
+      .insert(alerts.map((alert) => notificationFor(savedSearch, alert, response.currency)))
+    if (error) {
+      console.error('[DB Error]:', error)
+    } else {
+      notified = alerts.length
+    }
+  }
+
+  const cheapest = cheapestOffer(offers)
+  const { error: updateError } = await supabase
+    .from('saved_searches')
+    .update({
+      ...schedule,
+      currency: response.currency,
+      last_offers: offers,
+      last_cheapest_price: cheapest?.price ?? null,
+      last_cheapest_store: cheapest?.store ?? null,
+      last_error: null,
+    })
+    .eq('id', savedSearch.id)
+  if (updateError) {
+    console.error('[DB Error]:', updateError)
+  }
+
+  return { savedSearchId: savedSearch.id, alerts, notified }
+}
+
+/**
+ * Run every active saved search that is due, oldest first. Meant for a
+ * scheduler using a service role client, since it reads every user's searches.
+ */
+export async function runDueSavedSearches(
+  supabase: SupabaseClient,
+  options: { registry?: StoreRegistry; now?: Date; limit?: number } = {}
+): Promise<SavedSearchRunResult[]> {
+  const now = options.now ?? new Date()
+  const { data, error } = await supabase
+    .from('saved_searches')
+    .select('*')
+    .eq('is_active', true)
+    .lte('next_run_at', now.toISOString())
+    .order('next_run_at', { ascending: true })
+    .limit(options.limit ?? DEFAULT_RUN_BATCH_SIZE)
+
+  if (error) {
+    console.error('[DB Error]:', error)
+    throw new Error('Failed to load due saved searches')
+  }
+
+  // One at a time, so a batch doesn't hit every store with many searches at once
+  const results: SavedSearchRunResult[] = []
+  for (const savedSearch of (data ?? []) as SavedSearch[]) {
+    results.push(await runSavedSearch(supabase, savedSearch, { registry: options.registry, now }))
+  }
+  return results
+}
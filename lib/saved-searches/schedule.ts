@@ -0,0 +1,20 @@
+import type { SavedSearchFrequency } from './types'
+
+export const SAVED_SEARCH_FREQUENCIES: SavedSearchFrequency[] = ['hourly', 'daily', 'weekly']
+
+const FREQUENCY_MS: Record<SavedSearchFrequency, number> = {
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+}
+
+export function isSavedSearchFrequency(value: unknown): value is SavedSearchFrequency {
+  return typeof value === 'string' && (SAVED_SEARCH_FREQUENCIES as string[]).includes(value)
+}
+
+/**
+ * When a saved search is next due, counted from its latest run
+ */
+export function nextRunAt(frequency: SavedSearchFrequency, from: Date = new Date()): Date {
+  return new Date(from.getTime() + FREQUENCY_MS[frequency])
+}
@@ -0,0 +1,56 @@
+import type { FilterOptions, SortOption } from '@/lib/search/filters'
+
+export type SavedSearchFrequency = 'hourly' | 'daily' | 'weekly'
+
+// One offer as it stood when a saved search last ran
+export interface OfferSnapshot {
+  // store:id, stable across runs
+  key: string
+  store: string
+  name: string
+  // Total landed price in the saved search's currency
+  price: number
+  url: string
+}
+
+// A row of the saved_searches table
+export interface SavedSearch {
+  id: string
+  user_id: string
+  name: string
+  query: string
+  filters: FilterOptions | null
+  sort: SortOption
+  currency: string | null
+  frequency: SavedSearchFrequency
+  // Alert when a new offer costs at most this much; null alerts on cheaper stores only
+  alert_below_price: number | null
+  is_active: boolean
+  last_run_at: string | null
+  next_run_at: string
+  last_offers: OfferSnapshot[] | null
+  last_cheapest_price: number | null
+  last_cheapest_store: string | null
+  last_error: string | null
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Why a re-run is worth telling the user about
+ * - below_threshold: an offer that wasn't there last time costs at most the alert price
+ * - cheaper_store: a different store now has the cheapest offer, below the previous cheapest
+ */
+export interface DealAlert {
+  kind: 'below_threshold' | 'cheaper_store'
+  offer: OfferSnapshot
+  // The previous cheapest price, for cheaper_store alerts
+  previousPrice?: number
+}
+
+export interface SavedSearchRunResult {
+  savedSearchId: string
+  alerts: DealAlert[]
+  notified: number
+  error?: string
+}
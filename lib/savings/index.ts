@@ -0,0 +1,3 @@
+export { isSavingsSource, partitionEntries } from './ledger'
+export { summarizeSavings, UNCATEGORIZED } from './summarize'
+export type { SavingsSource, SavingsEntry, SavingsBucket, SavingsSummary } from './types'
@@ -0,0 +1,32 @@
+import type { SavingsEntry, SavingsSource } from './types'
+
+export function isSavingsSource(value: unknown): value is SavingsSource {
+  return value === 'click' || value === 'purchase'
+}
+
+/**
+ * Split the ledger into confirmed purchases, the only entries that count as
+ * money saved, and pending click-throughs. A click only shows intent, so it
+ * stays pending until a purchase is logged for the same offer, which replaces
+ * it; however often a link was followed, only the latest click is kept.
+ */
+export function partitionEntries(entries: SavingsEntry[]): { purchases: SavingsEntry[]; pending: SavingsEntry[] } {
+  const byProduct = new Map<string, SavingsEntry[]>()
+  for (const entry of entries) {
+    byProduct.set(entry.product_key, [...(byProduct.get(entry.product_key) ?? []), entry])
+  }
+
+  const purchases: SavingsEntry[] = []
+  const pending: SavingsEntry[] = []
+  const latest = (a: SavingsEntry, b: SavingsEntry) => (Date.parse(b.created_at) > Date.parse(a.created_at) ? b : a)
+
+  for (const group of byProduct.values()) {
+    const bought = group.filter((entry) => entry.source === 'purchase')
+    if (bought.length > 0) {
+      purchases.push(...bought)
+    } else {
+      pending.push(group.reduce(latest))
+    }
+  }
+  return { purchases, pending }
+}
@@ -0,0 +1,79 @@
+import { convertAmount, hasRate, roundMoney, type ExchangeRates } from '@/lib/currency'
+import { partitionEntries } from './ledger'
+import type { SavingsBucket, SavingsEntry, SavingsSummary } from './types'
+
+export const UNCATEGORIZED = 'Uncategorized'
+
+function addTo(buckets: Map<string, SavingsBucket>, key: string, saved: number, spent: number) {
+  const bucket = buckets.get(key) ?? { key, saved: 0, spent: 0, count: 0 }
+  bucket.saved += saved
+  bucket.spent += spent
+  bucket.count += 1
+  buckets.set(key, bucket)
+}
+
+function rounded(buckets: Map<string, SavingsBucket>): SavingsBucket[] {
+  return [...buckets.values()].map((bucket) => ({
+    ...bucket,
+    saved: roundMoney(bucket.saved),
+    spent: roundMoney(bucket.spent),
+  }))
+}
+
+/**
+ * Total the logged purchases in `currency`, overall and per month, store and
+ * category. Pending click-throughs are totalled separately and never counted
+ * as saved.
+ */
+export function summarizeSavings(entries: SavingsEntry[], currency: string, rates: ExchangeRates): SavingsSummary {
+  const months = new Map<string, SavingsBucket>()
+  const stores = new Map<string, SavingsBucket>()
+  const categories = new Map<string, SavingsBucket>()
+  let totalSaved = 0
+  let totalSpent = 0
+  let count = 0
+  let skipped = 0
+  const { purchases, pending } = partitionEntries(entries)
+
+  const convert = (entry: SavingsEntry) => {
+    if (!hasRate(entry.currency, rates) || !hasRate(currency, rates)) {
+      skipped++
+      return null
+    }
+    const paid = convertAmount(Number(entry.paid_price), entry.currency, currency, rates)
+    return { paid, saved: convertAmount(Number(entry.original_price), entry.currency, currency, rates) - paid }
+  }
+
+  for (const entry of purchases) {
+    const amounts = convert(entry)
+    if (!amounts) continue
+    const { paid, saved } = amounts
+    totalSaved += saved
+    totalSpent += paid
+    count++
+    addTo(months, new Date(entry.created_at).toISOString().slice(0, 7), saved, paid)
+    addTo(stores, entry.store, saved, paid)
+    addTo(categories, entry.category || UNCATEGORIZED, saved, paid)
+  }
+
+  let pendingSaved = 0
+  let pendingCount = 0
+  for (const entry of pending) {
+    const amounts = convert(entry)
+    if (!amounts) continue
+    pendingSaved += amounts.saved
+    pendingCount++
+  }
+
+  return {
+    currency,
+    totalSaved: roundMoney(totalSaved),
+    totalSpent: roundMoney(totalSpent),
+    count,
+    byMonth: rounded(months).sort((a, b) => b.key.localeCompare(a.key)),
+    byStore: rounded(stores).sort((a, b) => b.saved - a.saved),
+    byCategory: rounded(categories).sort((a, b) => b.saved - a.saved),
+    pending: { count: pendingCount, saved: roundMoney(pendingSaved) },
+    skipped,
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * How a ledger entry was recorded
+ * - click: the user followed a link to a cheaper offer; pending, and not counted as saved, until a
+ *   purchase is logged for the same offer
+ * - purchase: the user logged buying it
+ */
+export type SavingsSource = 'click' | 'purchase'
+
+// Row of savings_ledger
+export interface SavingsEntry {
+  id: string
+  source: SavingsSource
+  // Canonical key of the offer clicked or bought
+  product_key: string
+  product_url: string | null
+  saved_product_id: string | null
+  product_name: string
+  store: string
+  store_id: string | null
+  category: string | null
+  currency: string
+  // What the user would have paid
+  original_price: number
+  paid_price: number
+  created_at: string
+}
+
+export interface SavingsBucket {
+  key: string
+  saved: number
+  spent: number
+  count: number
+}
+
+// Everything but `pending` covers logged purchases only
+export interface SavingsSummary {
+  currency: string
+  // Negative when the user paid more than the original price
+  totalSaved: number
+  totalSpent: number
+  count: number
+  // Newest month first, keyed 'YYYY-MM' in UTC
+  byMonth: SavingsBucket[]
+  // Largest savings first
+  byStore: SavingsBucket[]
+  byCategory: SavingsBucket[]
+  // Click-throughs without a logged purchase: what they would save if bought
+  pending: { count: number; saved: number }
+  // Entries left out because their currency has no exchange rate
+  skipped: number
+}
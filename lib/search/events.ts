@@ -0,0 +1,17 @@
+import type { SearchEvent } from './types'
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+  // Stop nginx-style proxies from buffering the stream
+  'X-Accel-Buffering': 'no',
+}
+
+/**
+ * Serialize an event in the text/event-stream wire format. The event name
+ * matches `event.type` so clients can subscribe per stage.
+ */
+export function formatSseEvent(event: SearchEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`
+}
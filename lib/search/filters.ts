@@ -0,0 +1,213 @@
+// Search result filters and sort orders, shared by the search API and the search page
+import type { Product, ProductCondition } from '@/lib/stores/types'
+import { comparePriceOf } from '@/lib/pricing/compare'
+import { isProductCondition } from '@/lib/enrichment/taxonomy'
+
+export interface FilterOptions {
+  categories: string[]
+  brands: string[]
+  conditions: ProductCondition[]
+  // In the search currency, compared against each offer's total landed price
+  priceRange: [number, number]
+  minRating: number
+  // Highest landed price per kg, litre or item; 0 for no limit. Excludes listings of unknown size.
+  maxUnitPrice: number
+}
+
+export const MAX_PRICE_FILTER = 10000
+
+export const DEFAULT_FILTERS: FilterOptions = {
+  categories: [],
+  brands: [],
+  conditions: [],
+  priceRange: [0, MAX_PRICE_FILTER],
+  minRating: 0,
+  maxUnitPrice: 0,
+}
+
+export const SORT_OPTIONS = [
+  'relevance',
+  'price_asc',
+  'price_desc',
+  'landed_asc',
+  'unit_price_asc',
+  'rating_desc',
+  'reviews_desc',
+] as const
+
+export type SortOption = (typeof SORT_OPTIONS)[number]
+
+export const SORT_LABELS: Record<SortOption, string> = {
+  relevance: 'Best match',
+  price_asc: 'Price: low to high',
+  price_desc: 'Price: high to low',
+  landed_asc: 'Total cost: low to high',
+  unit_price_asc: 'Unit price: low to high',
+  rating_desc: 'Highest rated',
+  reviews_desc: 'Most reviewed',
+}
+
+export function isSortOption(value: unknown): value is SortOption {
+  return typeof value === 'string' && (SORT_OPTIONS as readonly string[]).includes(value)
+}
+
+function stringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return []
+  return value.filter((item): item is string => typeof item === 'string' && item.trim() !== '').map((item) => item.trim())
+}
+
+function finiteNumber(value: unknown, fallback: number): number {
+  const number = typeof value === 'string' ? Number(value) : value
+  return typeof number === 'number' && Number.isFinite(number) ? number : fallback
+}
+
+/**
+ * Normalize untrusted filter input (a request body or query string), dropping
+ * anything malformed rather than rejecting the search
+ */
+export function parseFilters(input: unknown): FilterOptions {
+  if (!input || typeof input !== 'object') return { ...DEFAULT_FILTERS }
+  const raw = input as Record<string, unknown>
+
+  const range = Array.isArray(raw.priceRange) ? raw.priceRange : []
+  const min = Math.max(0, finiteNumber(range[0], 0))
+  const max = Math.max(min, finiteNumber(range[1], MAX_PRICE_FILTER))
+
+  return {
+    categories: stringList(raw.categories),
+    brands: stringList(raw.brands),
+    conditions: stringList(raw.conditions).filter(isProductCondition),
+    priceRange: [min, max],
+    minRating: Math.min(5, Math.max(0, finiteNumber(raw.minRating, 0))),
+    maxUnitPrice: Math.max(0, finiteNumber(raw.maxUnitPrice, 0)),
+  }
+}
+
+export function hasActiveFilters(filters: FilterOptions): boolean {
+  return (
+    filters.categories.length > 0 ||
+    filters.brands.length > 0 ||
+    filters.conditions.length > 0 ||
+    filters.priceRange[0] > 0 ||
+    filters.priceRange[1] < MAX_PRICE_FILTER ||
+    filters.minRating > 0 ||
+    filters.maxUnitPrice > 0
+  )
+}
+
+function includesIgnoreCase(values: string[], value?: string): boolean {
+  if (!value) return false
+  const lower = value.toLowerCase()
+  return values.some((item) => item.toLowerCase() === lower)
+}
+
+export function matchesFilters(product: Product, filters: FilterOptions): boolean {
+  if (filters.categories.length > 0 && !includesIgnoreCase(filters.categories, product.category)) return false
+  if (filters.brands.length > 0 && !includesIgnoreCase(filters.brands, product.brand)) return false
+  if (filters.conditions.length > 0 && !filters.conditions.includes(product.condition ?? 'new')) return false
+
+  const price = comparePriceOf(product)
+  // The top of the slider means "no upper limit"
+  const max = filters.priceRange[1] >= MAX_PRICE_FILTER ? Infinity : filters.priceRange[1]
+  if (price < filters.priceRange[0] || price > max) return false
+
+  if (filters.minRating > 0 && (product.rating || 0) < filters.minRating) return false
+  if (filters.maxUnitPrice > 0 && (product.unitPrice === undefined || product.unitPrice > filters.maxUnitPrice)) {
+    return false
+  }
+  return true
+}
+
+export function filterProducts<T extends Product>(products: T[], filters: FilterOptions): T[] {
+  return products.filter((product) => matchesFilters(product, filters))
+}
+
+/**
+ * The item price (before shipping and taxes) in the search currency. Conversion
+ * is linear, so it can be derived from the converted landed price.
+ */
+export function itemPriceOf(product: Product): number {
+  if (product.comparePrice === undefined) return product.price
+  const landed = product.landedPrice ?? product.price
+  return landed > 0 ? (product.comparePrice * product.price) / landed : product.comparePrice
+}
+
+// Products missing the sorted-by value go last
+const LAST = Number.MAX_SAFE_INTEGER
+
+/**
+ * Ascending sort key for a product under `sort`; descending orders are negated.
+ * `position` is the product's index in relevance order.
+ */
+export function sortKeyOf(product: Product, sort: SortOption, position: number): number {
+  switch (sort) {
+    case 'price_asc':
+      return itemPriceOf(product)
+    case 'price_desc':
+      return -itemPriceOf(product)
+    case 'landed_asc':
+      return comparePriceOf(product)
+    case 'unit_price_asc':
+      return product.unitPrice ?? LAST
+    case 'rating_desc':
+      return product.rating === undefined ? LAST : -product.rating
+    case 'reviews_desc':
+      return product.reviews === undefined ? LAST : -product.reviews
+    default:
+      return position
+  }
+}
+
+/**
+ * Stable identity of a listing across stores, used to break ties
+ */
+export function listingIdOf(product: Pick<Product, 'store' | 'id'>): string {
+  return `${product.store}:${product.id}`
+}
+
+export interface SortedProduct<T extends Product = Product> {
+  product: T
+  key: number
+  id: string
+}
+
+/**
+ * Sort products (given in relevance order), keeping each one's sort key for pagination
+ */
+export function sortProducts<T extends Product>(products: T[], sort: SortOption): SortedProduct<T>[] {
+  return products
+    .map((product, position) => ({ product, key: sortKeyOf(product, sort, position), id: listingIdOf(product) }))
+    .sort((a, b) => a.key - b.key || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+}
+
+export interface FacetCount<T extends string = string> {
+  value: T
+  count: number
+}
+
+export interface SearchFacets {
+  categories: FacetCount[]
+  brands: FacetCount[]
+  conditions: FacetCount<ProductCondition>[]
+}
+
+function countBy<T extends string>(values: Array<T | undefined>): FacetCount<T>[] {
+  const counts = new Map<T, number>()
+  values.forEach((value) => {
+    if (value) counts.set(value, (counts.get(value) ?? 0) + 1)
+  })
+  return Array.from(counts, ([value, count]) => ({ value, count })).sort(
+    (a, b) => b.count - a.count || a.value.localeCompare(b.value)
+  )
+}
+
+/**
+ * Values present in the unfiltered results, so the UI only offers filters that can match
+ */
+export function computeFacets(products: Product[]): SearchFacets {
+  return {
+    categories: countBy(products.map((product) => product.category)),
+    brands: countBy(products.map((product) => product.brand)),
+    conditions: countBy(products.map((product) => product.condition)),
+  }
+}
@@ -0,0 +1,24 @@
+export {
+  runSearch,
+  SearchError,
+  type RunSearchInput,
+  type RunSearchContext,
+  type SearchSnapshot,
+} from './run-search'
+export { formatSseEvent, SSE_HEADERS } from './events'
+export type { SearchResponse, SearchEvent, SearchEventType, SearchInputType, CacheInfo } from './types'
+export {
+  parseFilters,
+  hasActiveFilters,
+  filterProducts,
+  sortProducts,
+  computeFacets,
+  isSortOption,
+  DEFAULT_FILTERS,
+  SORT_OPTIONS,
+  type FilterOptions,
+  type SortOption,
+  type SearchFacets,
+  type FacetCount,
+} from './filters'
+export { paginate, encodeCursor, decodeCursor, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, type PageInfo } from './pagination'
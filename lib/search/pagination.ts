@@ -0,0 +1,75 @@
+// Keyset pagination over sorted search results
+
+export interface CursorPosition {
+  // Sort key and listing id of the last item on the previous page
+  key: number
+  id: string
+}
+
+export interface PageInfo {
+  // Pass back as `cursor` to fetch the next page; null on the last page
+  nextCursor: string | null
+  total: number
+  limit: number
+}
+
+export interface Page<T> {
+  items: T[]
+  pageInfo: PageInfo
+}
+
+export const DEFAULT_PAGE_SIZE = 20
+export const MAX_PAGE_SIZE = 50
+
+export function clampPageSize(limit: unknown): number {
+  const number = typeof limit === 'string' ? Number(limit) : limit
+  if (typeof number !== 'number' || !Number.isFinite(number)) return DEFAULT_PAGE_SIZE
+  return Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(number)))
+}
+
+export function encodeCursor(position: CursorPosition): string {
+  return Buffer.from(JSON.stringify([position.key, position.id])).toString('base64url')
+}
+
+/**
+ * Decode an opaque cursor, returning null for anything that wasn't produced by `encodeCursor`
+ */
+export function decodeCursor(cursor: string): CursorPosition | null {
+  try {
+    const value = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+    if (!Array.isArray(value) || typeof value[0] !== 'number' || typeof value[1] !== 'string') return null
+    return { key: value[0], id: value[1] }
+  } catch {
+    return null
+  }
+}
+
+function isAfter(item: CursorPosition, cursor: CursorPosition): boolean {
+  return item.key > cursor.key || (item.key === cursor.key && item.id > cursor.id)
+}
+
+/**
+ * Return the page after `cursor` from items already sorted ascending by (key, id).
+ * Positioning by value rather than offset keeps pages consistent when results
+ * shift slightly between requests.
+ */
+export function paginate<T extends CursorPosition>(
+  items: T[],
+  options: { cursor?: string | null; limit?: number } = {}
+): Page<T> {
+  const limit = clampPageSize(options.limit)
+  const cursor = options.cursor ? decodeCursor(options.cursor) : null
+  const start = cursor ? items.findIndex((item) => isAfter(item, cursor)) : 0
+  const remaining = start === -1 ? [] : items.slice(start)
+  const pageItems = remaining.slice(0, limit)
+  const last = pageItems[pageItems.length - 1]
+
+  return {
+    items: pageItems,
+    pageInfo: {
+      nextCursor: remaining.length > limit && last ? encodeCursor(last) : null,
+      total: items.length,
+      limit,
+    },
+  }
+}
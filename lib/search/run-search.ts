@@ -0,0 +1,488 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { sanitizeInput, isUrl } from '@/lib/api/helpers'
+import { createServiceClient } from '@/lib/supabase/server'
+import { storeRegistry, searchStores, type Destination, type Product, type StoreRegistry } from '@/lib/stores'
+import { fetchAndExtractProduct } from '@/lib/extraction'
+import { normalizeProductUrl } from '@/lib/urls'
+import { groupOffers, parseBarcode, looksLikeBarcode, type ProductGroup } from '@/lib/matching'
+import { createDefaultRateSource, isSupportedCurrency, type ExchangeRates } from '@/lib/currency'
+import { withComparePrices, withLandedCosts, withUnitPrices, comparePriceOf, pickCheapest } from '@/lib/pricing'
+import { getUserSettings, destinationOf } from '@/lib/settings'
+import { enrichProducts } from '@/lib/enrichment'
+import { interpretQuery, type InterpretedQuery } from '@/lib/query'
+import { recordPopularQuery } from '@/lib/suggestions'
+import { loadStoreDirectory, storeRefsOf } from '@/lib/store-directory'
+import { assessOfferRisks, isHighRisk, withRisk } from '@/lib/risk'
+import { loadCoupons, withCoupons, type Coupon } from '@/lib/coupons'
+import {
+  FreshnessCache,
+  cacheKey,
+  createDefaultCacheStore,
+  usesDatabaseCache,
+  freshnessPolicyFromEnv,
+  ttlForStores,
+  type FreshnessPolicy,
+} from '@/lib/cache'
+import {
+  computeFacets,
+  filterProducts,
+  hasActiveFilters,
+  sortProducts,
+  DEFAULT_FILTERS,
+  type FilterOptions,
+  type SearchFacets,
+  type SortedProduct,
+  type SortOption,
+} from './filters'
+import { decodeCursor, paginate } from './pagination'
+import type { CacheInfo, SearchEvent, SearchInputType, SearchResponse } from './types'
+
+export class SearchError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message)
+    this.name = 'SearchError'
+  }
+}
+
+export interface RunSearchInput {
+  query: string
+  // Overrides the user's preferred currency for this search
+  currency?: string
+  filters?: FilterOptions
+  sort?: SortOption
+  // Continue from a previous page of alternatives
+  cursor?: string
+  limit?: number
+  // Skip the cache and fetch live prices from every store
+  refresh?: boolean
+}
+
+export interface RunSearchContext {
+  userId: string
+  supabase: SupabaseClient
+  registry?: StoreRegistry
+  // Aborts in-flight store requests, e.g. when the client disconnects
+  signal?: AbortSignal
+  onEvent?: (event: SearchEvent) => void
+  cache?: FreshnessCache<SearchSnapshot>
+  freshness?: FreshnessPolicy
+  // Scheduled re-runs aren't something the user searched; defaults to true
+  recordHistory?: boolean
+}
+
+/**
+ * Everything about a search that doesn't depend on who asked or which page
+ * they want, so it can be cached and shared
+ */
+export interface SearchSnapshot {
+  query: string
+  type: SearchInputType
+  gtin?: string
+  urlType?: 'amazon' | 'other'
+  currency: string
+  destination: Destination
+  product: Product
+  // Filtered alternatives in sort order
+  results: SortedProduct[]
+  facets: SearchFacets
+  cheapest: Product
+  cheapestNew?: Product
+  offers: ProductGroup[]
+  resultCount: number
+  storesQueried: number
+  failedStores: string[]
+  // Adapters that answered, for per-store freshness
+  storeIds: string[]
+}
+
+interface SnapshotRequest {
+  query: string
+  type: SearchInputType
+  gtin?: string
+  normalizedUrl?: string
+  urlType?: 'amazon' | 'other'
+  interpretedQuery?: InterpretedQuery
+  currency: string
+  destination: Destination
+  rates: ExchangeRates
+  filters?: FilterOptions
+  sort: SortOption
+}
+
+/**
+ * What to record in search_history.filters: only the choices that narrowed or reordered results
+ */
+function historyFilters(filters: FilterOptions | undefined, sort: SortOption): Record<string, unknown> | null {
+  const active = filters && hasActiveFilters(filters) ? filters : null
+  if (!active && sort === 'relevance') return null
+  return { ...active, sort }
+}
+
+interface SnapshotOptions {
+  signal?: AbortSignal
+  onEvent?: (event: SearchEvent) => void
+  // Promo codes for the stores that answered, by store directory id
+  loadCoupons?: (storeIds: string[]) => Promise<Coupon[]>
+}
+
+/**
+ * Fan out to every store, price offers for the destination and currency
+ * (after any coupon every shopper can use), group matching offers and filter
+ * and sort the alternatives
+ */
+async function buildSnapshot(
+  request: SnapshotRequest,
+  registry: StoreRegistry,
+  options: SnapshotOptions = {}
+): Promise<SearchSnapshot> {
+  const { currency, destination, rates } = request
+  const { signal } = options
+  const emit = (event: SearchEvent) => options.onEvent?.(event)
+  const priced = (products: Product[], coupons: Coupon[] = []) =>
+    withUnitPrices(
+      withComparePrices(
+        withCoupons(withLandedCosts(enrichProducts(products), destination, rates), coupons),
+        currency,
+        rates
+      )
+    )
+
+  const storesTotal = registry.list().length
+  const storeIds: string[] = []
+  let storesCompleted = 0
+  emit({
+    type: 'started',
+    query: request.query,
+    inputType: request.type,
+    storesTotal,
+    interpretedQuery: request.interpretedQuery,
+  })
+
+  // Fan out to all registered store adapters, quoting shipping to the user's destination
+  const storeResult = await searchStores(
+    registry,
+    {
+      query: request.normalizedUrl ?? request.interpretedQuery?.text ?? request.query,
+      isUrl: request.type === 'url',
+      gtin: request.gtin,
+      expansions: request.interpretedQuery?.expansions,
+    },
+    {
+      signal,
+      destination,
+      resolveUrlFallback: (url, adapterOptions) => fetchAndExtractProduct(url, adapterOptions),
+      onUrlResolved: (product) => emit({ type: 'url_resolved', product: priced([product])[0] }),
+      onGtinResolved: (product) => emit({ type: 'gtin_resolved', product: priced([product])[0], gtin: request.gtin! }),
+      storeListener: {
+        onResult: (result) => {
+          storeIds.push(result.adapterId)
+          emit({
+            type: 'store_queried',
+            store: result.store,
+            products: priced(result.value),
+            durationMs: result.durationMs,
+            completed: ++storesCompleted,
+            total: storesTotal,
+          })
+        },
+        onFailure: (failure) =>
+          emit({
+            type: 'store_failed',
+            store: failure.store,
+            reason: failure.reason,
+            completed: ++storesCompleted,
+            total: storesTotal,
+          }),
+      },
+    }
+  )
+
+  if (signal?.aborted) {
+    throw new SearchError('Search cancelled', 499)
+  }
+
+  if (!storeResult.product) {
+    const errors: Record<SearchInputType, string> = {
+      url: 'Could not read product details from this URL',
+      gtin: 'No store lists a product with this barcode',
+      keyword: 'No products found',
+    }
+    throw new SearchError(errors[request.type], 404)
+  }
+
+  // Progress events go out before coupons are known; the results include them
+  const listings = enrichProducts([storeResult.product, ...storeResult.alternatives])
+  const listingStoreIds = listings.map((listing) => listing.storeId).filter((id): id is string => Boolean(id))
+  const coupons = options.loadCoupons ? await options.loadCoupons(listingStoreIds) : []
+  const [product, ...alternatives] = priced(listings, coupons)
+  const allProducts = [product, ...alternatives]
+  emit({ type: 'alternatives_found', count: alternatives.length })
+
+  // Group listings of the same item across stores; the searched product's group comes first
+  const offers = groupOffers(allProducts)
+  const productGroup = offers.find((group) => group.offers.includes(product))!
+  const sortedOffers = [productGroup, ...offers.filter((group) => group !== productGroup)]
+  const cheapest = productGroup.cheapest
+  // Renewed, open-box and used offers can undercut new ones; keep the best new price alongside
+  const newOffers = productGroup.offers.filter((offer) => (offer.condition ?? 'new') === 'new')
+  const cheapestNew = newOffers.length > 0 ? pickCheapest(newOffers) : undefined
+  emit({ type: 'prices_compared', cheapest, cheapestNew, currency })
+
+  const { filters, sort } = request
+  return {
+    query: request.query,
+    type: request.type,
+    gtin: request.gtin,
+    urlType: request.urlType,
+    currency,
+    destination,
+    product,
+    results: sortProducts(filters ? filterProducts(alternatives, filters) : alternatives, sort),
+    facets: computeFacets(alternatives),
+    cheapest,
+    cheapestNew,
+    offers: sortedOffers,
+    resultCount: allProducts.length,
+    storesQueried: storeResult.storesQueried,
+    failedStores: storeResult.failures.map((failure) => failure.store),
+    storeIds,
+  }
+}
+
+/**
+ * The offers to recommend for the searched item: cheapest overall and
+ * cheapest new, passing over high-risk offers unless nothing else is left.
+ * A high-risk offer undercutting them is returned separately.
+ */
+function recommendedOffers(offers: Product[]): Pick<SearchResponse, 'cheapest' | 'cheapestNew' | 'suspectedCheapest'> {
+  const safe = offers.filter((offer) => !isHighRisk(offer))
+  const pool = safe.length > 0 ? safe : offers
+  const newOffers = pool.filter((offer) => (offer.condition ?? 'new') === 'new')
+  const lowest = pickCheapest(offers)
+  const cheapest = pickCheapest(pool)
+  return {
+    cheapest,
+    cheapestNew: newOffers.length > 0 ? pickCheapest(newOffers) : undefined,
+    suspectedCheapest: lowest !== cheapest ? lowest : undefined,
+  }
+}
+
+/**
+ * Add the search to the user's history and count keyword searches towards
+ * popular queries. Repeating a search that is served from the same cache
+ * entry reuses the row recorded the first time.
+ */
+async function recordSearch(
+  supabase: SupabaseClient,
+  userId: string,
+  snapshot: SearchSnapshot,
+  filters: FilterOptions | undefined,
+  sort: SortOption,
+  cachedSince?: number
+): Promise<string | undefined> {
+  if (cachedSince !== undefined) {
+    const { data: existing } = await supabase
+      .from('search_history')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('query', snapshot.query)
+      .gte('created_at', new Date(cachedSince).toISOString())
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+    if (existing) return existing.id
+  }
+
+  const { data, error: dbError } = await supabase
+    .from('search_history')
+    .insert({
+      user_id: userId,
+      query: snapshot.query,
+      type: snapshot.type,
+      url_type: snapshot.urlType,
+      result_count: snapshot.resultCount,
+      cheapest_price: comparePriceOf(snapshot.cheapest),
+      currency: snapshot.currency,
+      filters: historyFilters(filters, sort),
+    })
+    .select()
+    .single()
+
+  if (dbError) {
+    console.error('[DB Error]:', dbError)
+    // Continue even if DB insert fails
+  }
+  if (snapshot.type === 'keyword') {
+    await recordPopularQuery(await createServiceClient(), userId, snapshot.query)
+  }
+  return data?.id
+}
+
+/**
+ * Run a product search end to end: resolve the input, fan out to every store,
+ * price offers for the user's destination and currency, group matching offers
+ * and record the search in history. Alternatives are filtered, sorted and
+ * paginated; the first page of a search is the one recorded. Every store in
+ * the results is described from the store directory, trust score included,
+ * and every offer is rated for scam risk; high-risk offers are never
+ * recommended as the cheapest.
+ *
+ * Barcode-shaped input with a bad check digit is searched as keywords, with a notice.
+ * Keyword queries are interpreted first: typos are fixed, synonyms searched
+ * too and constraints like "under $200" become filters, unless the request
+ * brings its own filters (e.g. the shopper edited the ones found).
+ *
+ * Results are cached per query, destination, currency, filters and sort. Stale
+ * entries are served immediately and refreshed in the background.
+ */
+export async function runSearch(input: RunSearchInput, context: RunSearchContext): Promise<SearchResponse> {
+  const { userId, supabase, signal, onEvent } = context
+  const registry = context.registry ?? storeRegistry
+
+  const sanitizedQuery = sanitizeInput(input.query)
+  if (!sanitizedQuery) {
+    throw new SearchError('Invalid query', 400)
+  }
+  if (input.cursor && !decodeCursor(input.cursor)) {
+    throw new SearchError('Invalid cursor', 400)
+  }
+
+  // Detect if input is a URL, a barcode or keywords
+  const isUrlInput = isUrl(sanitizedQuery)
+  const normalizedUrl = isUrlInput ? await normalizeProductUrl(sanitizedQuery) : undefined
+  const barcode = isUrlInput ? null : parseBarcode(sanitizedQuery)
+  // Model numbers and the like can be barcode-shaped, so a failed check digit only earns a notice
+  const notice =
+    !isUrlInput && !barcode && looksLikeBarcode(sanitizedQuery)
+      ? 'This looks like a barcode, but its check digit does not match, so it was searched as keywords'
+      : undefined
+  const inputType: SearchInputType = isUrlInput ? 'url' : barcode ? 'gtin' : 'keyword'
+  const interpretedQuery = inputType === 'keyword' ? interpretQuery(sanitizedQuery) : undefined
+
+  // Price everything by total landed cost in the shopper's currency
+  const settings = await getUserSettings(supabase, userId)
+  const destination = destinationOf(settings)
+  const currency =
+    input.currency && isSupportedCurrency(input.currency) ? input.currency.toUpperCase() : settings.preferredCurrency
+  const rates = await createDefaultRateSource(supabase).getRates()
+
+  const requestedFilters = input.filters ?? (interpretedQuery && { ...DEFAULT_FILTERS, ...interpretedQuery.filters })
+  const filters = requestedFilters && hasActiveFilters(requestedFilters) ? requestedFilters : undefined
+  const sort = input.sort ?? 'relevance'
+  const request: SnapshotRequest = {
+    query: sanitizedQuery,
+    type: inputType,
+    gtin: barcode?.gtin,
+    normalizedUrl: normalizedUrl?.url,
+    urlType: normalizedUrl?.urlType,
+    interpretedQuery,
+    currency,
+    destination,
+    rates,
+    filters,
+    sort,
+  }
+
+  const loadCouponsFor = (storeIds: string[]) => loadCoupons(supabase, storeIds)
+
+  const policy = context.freshness ?? freshnessPolicyFromEnv()
+  const cache =
+    context.cache ??
+    new FreshnessCache<SearchSnapshot>(
+      createDefaultCacheStore(usesDatabaseCache() ? await createServiceClient() : undefined),
+      policy.staleWhileRevalidateMs
+    )
+  // v2: listings carry their store directory id
+  const key = cacheKey('search:v2', {
+    // Canonical URLs and GTINs already identify the product; keywords only differ by case and spacing
+    query:
+      normalizedUrl?.url ??
+      (barcode && `gtin:${barcode.gtin}`) ??
+      (interpretedQuery?.text ?? sanitizedQuery).toLowerCase().replace(/\s+/g, ' '),
+    currency,
+    destination,
+    filters: filters ?? null,
+    sort,
+  })
+  // Results missing a store aren't worth keeping
+  const cacheable = (snapshot: SearchSnapshot) =>
+    snapshot.failedStores.length === 0 ? { value: snapshot, ttlMs: ttlForStores(policy, snapshot.storeIds) } : null
+
+  const cached = input.refresh ? null : await cache.read(key)
+  let snapshot: SearchSnapshot
+  let cacheInfo: CacheInfo
+
+  if (cached) {
+    // Differently worded queries can share an entry; report the one this shopper typed
+    snapshot = { ...cached.entry.value, query: sanitizedQuery }
+    onEvent?.({
+      type: 'started',
+      query: sanitizedQuery,
+      inputType: snapshot.type,
+      storesTotal: registry.list().length,
+      interpretedQuery,
+    })
+    if (cached.state === 'stale') {
+      // Not tied to the request, so a disconnecting client doesn't cancel the refresh
+      void cache.revalidate(key, async () =>
+        cacheable(await buildSnapshot(request, registry, { loadCoupons: loadCouponsFor }))
+      )
+    }
+    cacheInfo = {
+      status: cached.state === 'fresh' ? 'hit' : 'stale',
+      storedAt: new Date(cached.entry.storedAt).toISOString(),
+      freshUntil: new Date(cached.entry.freshUntil).toISOString(),
+    }
+  } else {
+    snapshot = await buildSnapshot(request, registry, { signal, onEvent, loadCoupons: loadCouponsFor })
+    const fresh = cacheable(snapshot)
+    const entry = fresh ? await cache.write(key, fresh.value, fresh.ttlMs) : null
+    cacheInfo = {
+      status: input.refresh ? 'bypass' : 'miss',
+      storedAt: new Date(entry?.storedAt ?? Date.now()).toISOString(),
+      freshUntil: entry ? new Date(entry.freshUntil).toISOString() : undefined,
+    }
+  }
+
+  const page = paginate(snapshot.results, { cursor: input.cursor, limit: input.limit })
+  // Trust changes with every report, so profiles and the offer risks that depend on them are
+  // worked out per request rather than cached
+  const stores = await loadStoreDirectory(supabase, storeRefsOf(snapshot.offers.flatMap((group) => group.offers)))
+  const risks = assessOfferRisks(snapshot.offers, stores)
+  const offers = snapshot.offers.map((group) => ({
+    ...group,
+    offers: group.offers.map((offer) => withRisk(offer, risks)),
+    cheapest: withRisk(group.cheapest, risks),
+  }))
+
+  // Later pages are continuations of the same search
+  const searchId =
+    input.cursor || context.recordHistory === false
+      ? undefined
+      : await recordSearch(supabase, userId, snapshot, filters, sort, cached?.entry.storedAt)
+
+  return {
+    query: snapshot.query,
+    type: snapshot.type,
+    interpretedQuery,
+    notice,
+    gtin: snapshot.gtin,
+    urlType: snapshot.urlType,
+    currency: snapshot.currency,
+    destination: snapshot.destination,
+    product: withRisk(snapshot.product, risks),
+    alternatives: page.items.map((item) => withRisk(item.product, risks)),
+    pageInfo: page.pageInfo,
+    filters: filters ?? DEFAULT_FILTERS,
+    sort,
+    facets: snapshot.facets,
+    // The searched product's group comes first
+    ...recommendedOffers(offers[0].offers),
+    offers,
+    stores,
+    searchId: searchId || 'search_' + Date.now(),
+    storesQueried: snapshot.storesQueried,
+    failedStores: snapshot.failedStores,
+    cache: cacheInfo,
+  }
+}
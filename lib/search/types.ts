@@ -0,0 +1,78 @@
+import type { Destination, Product } from '@/lib/stores/types'
+import type { ProductGroup } from '@/lib/matching'
+import type { FilterOptions, SearchFacets, SortOption } from './filters'
+import type { PageInfo } from './pagination'
+import type { InterpretedQuery } from '@/lib/query/types'
+import type { StoreProfile } from '@/lib/store-directory/types'
+
+// How the search box input was interpreted
+export type SearchInputType = 'url' | 'keyword' | 'gtin'
+
+/**
+ * Where a search's results came from
+ * - hit: served from cache
+ * - stale: served from cache past its TTL while fresh prices are fetched in the background
+ * - miss: fetched from the stores
+ * - bypass: fetched from the stores because a refresh was requested
+ */
+export interface CacheInfo {
+  status: 'hit' | 'stale' | 'miss' | 'bypass'
+  // When the prices were fetched
+  storedAt: string
+  // Absent when the results weren't cached, e.g. because a store failed
+  freshUntil?: string
+}
+
+export interface SearchResponse {
+  query: string
+  type: SearchInputType
+  // How a keyword query was read: corrected spelling, synonyms and constraints moved into filters
+  interpretedQuery?: InterpretedQuery
+  // Something the shopper should know about how the input was handled, e.g. a mistyped barcode
+  notice?: string
+  // Normalized 14 digit GTIN for barcode searches
+  gtin?: string
+  urlType?: 'amazon' | 'other'
+  // Currency every comparePrice in the response is expressed in
+  currency: string
+  // Where shipping, tax and duties were estimated for
+  destination: Destination
+  product: Product
+  // One page of alternatives, after filters and sorting
+  alternatives: Product[]
+  pageInfo: PageInfo
+  filters: FilterOptions
+  sort: SortOption
+  // Counts over all alternatives before filtering
+  facets: SearchFacets
+  // Cheapest offer for the searched item in any condition, skipping high-risk offers
+  cheapest: Product
+  // Cheapest offer in new condition; absent when every offer is renewed, open-box or used
+  cheapestNew?: Product
+  // Lowest price of all, when it comes from a high-risk offer and so isn't recommended
+  suspectedCheapest?: Product
+  offers: ProductGroup[]
+  // Directory profile of every store in the results, keyed by Product.storeId
+  stores: Record<string, StoreProfile>
+  searchId: string
+  storesQueried: number
+  failedStores: string[]
+  cache: CacheInfo
+}
+
+/**
+ * Progress events emitted while a search runs, in the order they occur.
+ * `store_queried` / `store_failed` arrive once per store as each one answers.
+ */
+export type SearchEvent =
+  | { type: 'started'; query: string; inputType: SearchInputType; storesTotal: number; interpretedQuery?: InterpretedQuery }
+  | { type: 'url_resolved'; product: Product }
+  | { type: 'gtin_resolved'; product: Product; gtin: string }
+  | { type: 'store_queried'; store: string; products: Product[]; durationMs: number; completed: number; total: number }
+  | { type: 'store_failed'; store: string; reason: 'timeout' | 'error'; completed: number; total: number }
+  | { type: 'alternatives_found'; count: number }
+  | { type: 'prices_compared'; cheapest: Product; cheapestNew?: Product; currency: string }
+  | { type: 'result'; data: SearchResponse }
+  | { type: 'search_error'; error: string; status: number }
+
+export type SearchEventType = SearchEvent['type']
@@ -0,0 +1,52 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { DEFAULT_CURRENCY } from '@/lib/currency/format'
+import type { Destination } from '@/lib/stores/types'
+
+export interface UserSettings {
+  preferredCurrency: string
+  // ISO country code and postcode used for shipping, tax and duty estimates
+  destinationCountry: string
+  destinationPostcode?: string
+}
+
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+  preferredCurrency: DEFAULT_CURRENCY,
+  destinationCountry: 'US',
+}
+
+interface UserSettingsRow {
+  user_id: string
+  preferred_currency: string | null
+  destination_country: string | null
+  destination_postcode: string | null
+}
+
+export function settingsFromRow(row: UserSettingsRow | null): UserSettings {
+  return {
+    preferredCurrency: row?.preferred_currency || DEFAULT_USER_SETTINGS.preferredCurrency,
+    destinationCountry: row?.destination_country || DEFAULT_USER_SETTINGS.destinationCountry,
+    destinationPostcode: row?.destination_postcode || undefined,
+  }
+}
+
+export function destinationOf(settings: UserSettings): Destination {
+  return { country: settings.destinationCountry, postcode: settings.destinationPostcode }
+}
+
+/**
+ * Load a user's settings, falling back to defaults when none are stored or the lookup fails
+ */
+export async function getUserSettings(supabase: SupabaseClient, userId: string): Promise<UserSettings> {
+  const { data, error } = await supabase
+    .from('user_settings')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('[DB Error]:', error)
+    return { ...DEFAULT_USER_SETTINGS }
+  }
+
+  return settingsFromRow(data as UserSettingsRow | null)
+}
@@ -0,0 +1,124 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Product } from '@/lib/stores/types'
+import catalog from '@/lib/stores/fixtures/catalog.json'
+import { isScamDomain } from './domains'
+import { computeTrust } from './trust'
+import type { StoreProfile } from './types'
+
+/**
+ * A row of the stores table
+ */
+export interface StoreRow {
+  id: string
+  name: string
+  logo_url: string | null
+  country: string | null
+  return_days: number | null
+  free_returns: boolean | null
+  avg_delivery_days: number | null
+  scam_listed: boolean
+  verified: boolean
+  report_count: number
+  created_at: string
+}
+
+export interface StoreRef {
+  id: string
+  // Name shown on the listing, used when the store isn't in the directory yet
+  name?: string
+}
+
+interface DirectorySeed {
+  name: string
+  domains: string[]
+  profile?: {
+    logo?: string
+    country?: string
+    returnDays?: number
+    freeReturns?: boolean
+    avgDeliveryDays?: number
+  }
+}
+
+// Stores we ship adapters for are verified and described in the fixture catalog
+const BUILT_IN_STORES = catalog.stores as DirectorySeed[]
+
+function builtInStore(id: string): DirectorySeed | undefined {
+  return BUILT_IN_STORES.find((store) => store.domains.some((domain) => id === domain || id.endsWith(`.${domain}`)))
+}
+
+/**
+ * Turn the "shop.example.com" in a domain into "Shop" for stores we know nothing about
+ */
+function nameFromDomain(id: string): string {
+  const parts = id.split('.')
+  const label = parts.length > 1 ? parts[parts.length - 2] : parts[0]
+  return label.charAt(0).toUpperCase() + label.slice(1)
+}
+
+/**
+ * Build a profile for each store from its directory row, the built-in
+ * catalog and the scam list. Stores missing from both still get a profile,
+ * scored as unverified.
+ */
+export function buildStoreProfiles(stores: StoreRef[], rows: StoreRow[]): Record<string, StoreProfile> {
+  const profiles: Record<string, StoreProfile> = {}
+
+  for (const { id, name } of stores) {
+    if (profiles[id]) continue
+    const row = rows.find((candidate) => candidate.id === id)
+    const seed = builtInStore(id)
+    const returnDays = row?.return_days ?? seed?.profile?.returnDays
+    // Rows added by a report are named after their domain until someone fills them in
+    const rowName = row && row.name !== id ? row.name : undefined
+    const verified = (row?.verified ?? false) || seed !== undefined
+
+    profiles[id] = {
+      id,
+      name: rowName ?? seed?.name ?? name ?? nameFromDomain(id),
+      logo: row?.logo_url ?? seed?.profile?.logo,
+      country: row?.country ?? seed?.profile?.country,
+      returnPolicy:
+        returnDays !== undefined
+          ? { days: returnDays, freeReturns: row?.free_returns ?? seed?.profile?.freeReturns }
+          : undefined,
+      avgDeliveryDays: row?.avg_delivery_days ?? seed?.profile?.avgDeliveryDays,
+      verified,
+      firstSeenAt: row?.created_at,
+      trust: computeTrust({
+        scamListed: (row?.scam_listed ?? false) || isScamDomain(id),
+        verified,
+        reportCount: row?.report_count ?? 0,
+        hasReturnPolicy: returnDays !== undefined,
+      }),
+    }
+  }
+
+  return profiles
+}
+
+/**
+ * The stores referenced by a set of listings
+ */
+export function storeRefsOf(products: Product[]): StoreRef[] {
+  return products.filter((product) => product.storeId).map((product) => ({ id: product.storeId!, name: product.store }))
+}
+
+/**
+ * Look up stores in the directory. If the table can't be read, profiles fall
+ * back to the built-in catalog and scam list rather than failing the caller.
+ */
+export async function loadStoreDirectory(
+  supabase: SupabaseClient,
+  stores: StoreRef[]
+): Promise<Record<string, StoreProfile>> {
+  const ids = [...new Set(stores.map((store) => store.id))]
+  if (ids.length === 0) return {}
+
+  const { data, error } = await supabase.from('stores').select('*').in('id', ids)
+  if (error) {
+    console.error('[DB Error]:', error)
+  }
+
+  return buildStoreProfiles(stores, (data ?? []) as StoreRow[])
+}
@@ -0,0 +1,22 @@
+// Domains known to take payment without delivering, or to sell counterfeits.
+// Rows in the stores table marked scam_listed extend this list.
+export const SCAM_DOMAINS = ['deal-outlet-clearance.example', 'brandname-discount.example', 'megasale-direct.example']
+
+/**
+ * The directory key for a listing URL: its lowercased hostname without "www."
+ */
+export function storeIdOf(url: string): string | undefined {
+  try {
+    const hostname = new URL(url).hostname.toLowerCase().replace(/^www\./, '')
+    return hostname || undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Whether a store's domain, or a domain it's hosted under, is on the scam list
+ */
+export function isScamDomain(storeId: string, extraDomains: string[] = []): boolean {
+  return [...SCAM_DOMAINS, ...extraDomains].some((domain) => storeId === domain || storeId.endsWith(`.${domain}`))
+}
@@ -0,0 +1,5 @@
+export { storeIdOf, isScamDomain, SCAM_DOMAINS } from './domains'
+export { computeTrust, trustLevelOf, isLowTrust, LOW_TRUST_SCORE } from './trust'
+export { buildStoreProfiles, loadStoreDirectory, storeRefsOf, type StoreRow, type StoreRef } from './directory'
+export { STORE_REPORT_REASONS, REPORT_REASON_LABELS, isStoreReportReason } from './reports'
+export type { StoreProfile, StoreTrust, TrustLevel, TrustSignals, ReturnPolicy, StoreReportReason } from './types'
@@ -0,0 +1,21 @@
+import type { StoreReportReason } from './types'
+
+export const STORE_REPORT_REASONS: StoreReportReason[] = [
+  'scam',
+  'not_delivered',
+  'counterfeit',
+  'misleading_price',
+  'other',
+]
+
+export const REPORT_REASON_LABELS: Record<StoreReportReason, string> = {
+  scam: 'Scam or fraud',
+  not_delivered: 'Order never arrived',
+  counterfeit: 'Counterfeit item',
+  misleading_price: 'Price differs at checkout',
+  other: 'Something else',
+}
+
+export function isStoreReportReason(value: unknown): value is StoreReportReason {
+  return typeof value === 'string' && (STORE_REPORT_REASONS as string[]).includes(value)
+}
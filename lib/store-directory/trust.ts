@@ -0,0 +1,49 @@
+import type { StoreTrust, TrustLevel, TrustSignals } from './types'
+
+// Offers from stores scoring below this get a warning
+export const LOW_TRUST_SCORE = 40
+const HIGH_TRUST_SCORE = 70
+
+const VERIFIED_BASE_SCORE = 85
+const UNVERIFIED_BASE_SCORE = 60
+const RETURN_POLICY_BONUS = 10
+const REPORT_PENALTY = 10
+const MAX_REPORT_PENALTY = 50
+
+export function trustLevelOf(score: number): TrustLevel {
+  if (score >= HIGH_TRUST_SCORE) return 'high'
+  if (score >= LOW_TRUST_SCORE) return 'medium'
+  return 'low'
+}
+
+/**
+ * Score a store from its signals. Being on a scam list overrides everything
+ * else; otherwise verified stores start higher, a return policy helps and each
+ * shopper report costs points, up to a cap so a handful of reports can't sink
+ * a verified store on their own.
+ */
+export function computeTrust(signals: TrustSignals): StoreTrust {
+  if (signals.scamListed) {
+    return { score: 0, level: 'low', reasons: ['Listed as a scam domain'] }
+  }
+
+  const reasons: string[] = []
+  let score = signals.verified ? VERIFIED_BASE_SCORE : UNVERIFIED_BASE_SCORE
+  if (signals.reportCount > 0) {
+    score -= Math.min(signals.reportCount * REPORT_PENALTY, MAX_REPORT_PENALTY)
+    reasons.push(`Reported by ${signals.reportCount} shopper${signals.reportCount === 1 ? '' : 's'}`)
+  }
+  if (!signals.verified) reasons.push('Not a verified store')
+  if (signals.hasReturnPolicy) {
+    score += RETURN_POLICY_BONUS
+  } else {
+    reasons.push('No return policy on record')
+  }
+
+  score = Math.max(0, Math.min(100, score))
+  return { score, level: trustLevelOf(score), reasons }
+}
+
+export function isLowTrust(trust: StoreTrust | undefined): boolean {
+  return trust?.level === 'low'
+}
@@ -0,0 +1,48 @@
+export type TrustLevel = 'high' | 'medium' | 'low'
+
+export type StoreReportReason = 'scam' | 'not_delivered' | 'counterfeit' | 'misleading_price' | 'other'
+
+export interface ReturnPolicy {
+  days: number
+  freeReturns?: boolean
+}
+
+/**
+ * What we know about a store that bears on whether to trust it
+ */
+export interface TrustSignals {
+  // Domain appears on a known scam-domain list
+  scamListed: boolean
+  // Store has been reviewed and added to the directory by us
+  verified: boolean
+  // Distinct shoppers who reported the store
+  reportCount: number
+  hasReturnPolicy: boolean
+}
+
+export interface StoreTrust {
+  // 0-100, higher is more trustworthy
+  score: number
+  level: TrustLevel
+  // Why the score isn't higher, most serious first
+  reasons: string[]
+}
+
+/**
+ * A store in the directory, keyed by its domain
+ */
+export interface StoreProfile {
+  // Registrable domain without "www.", e.g. "techmart.example"
+  id: string
+  name: string
+  logo?: string
+  // ISO 3166-1 alpha-2 country code the store operates from
+  country?: string
+  returnPolicy?: ReturnPolicy
+  avgDeliveryDays?: number
+  // Reviewed by us, either a store we ship an adapter for or one added to the directory
+  verified: boolean
+  // When the store entered the directory; absent for stores we have never seen before
+  firstSeenAt?: string
+  trust: StoreTrust
+}
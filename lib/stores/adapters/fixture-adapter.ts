@@ -0,0 +1,131 @@
+import type { AdapterRequestOptions, Destination, Product, StoreAdapter } from '../types'
+import { quoteShipping, type ShippingPolicy } from '../shipping'
+import { normalizeGtin } from '@/lib/matching/gtin'
+
+export type FixtureProduct = Omit<Product, 'store'>
+
+export interface FixtureStore {
+  id: string
+  name: string
+  domains: string[]
+  shipping?: ShippingPolicy
+  products: FixtureProduct[]
+}
+
+interface FixtureAdapterOptions {
+  timeoutMs?: number
+  // Simulated network latency, useful for exercising timeouts in tests
+  delayMs?: number
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+}
+
+function stripUrl(url: string): string {
+  try {
+    const parsed = new URL(url)
+    return `${parsed.hostname.replace(/^www\./, '')}${parsed.pathname.replace(/\/$/, '')}`
+  } catch {
+    return url
+  }
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Aborted'))
+      return
+    }
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      reject(new Error('Aborted'))
+    })
+  })
+}
+
+/**
+ * Store adapter backed by a static catalog, so searches work offline and in tests
+ */
+export class FixtureStoreAdapter implements StoreAdapter {
+  readonly id: string
+  readonly name: string
+  readonly timeoutMs?: number
+  readonly shippingPolicy?: ShippingPolicy
+  private domains: string[]
+  private products: Product[]
+  private delayMs: number
+
+  constructor(store: FixtureStore, options: FixtureAdapterOptions = {}) {
+    this.id = store.id
+    this.name = store.name
+    this.domains = store.domains
+    this.shippingPolicy = store.shipping
+    this.products = store.products.map((product) => ({ ...product, store: store.name }))
+    this.timeoutMs = options.timeoutMs
+    this.delayMs = options.delayMs ?? 0
+  }
+
+  canHandleUrl(url: string): boolean {
+    try {
+      const hostname = new URL(url).hostname.replace(/^www\./, '')
+      return this.domains.some((domain) => hostname === domain || hostname.endsWith(`.${domain}`))
+    } catch {
+      return false
+    }
+  }
+
+  async searchByKeyword(query: string, options: AdapterRequestOptions = {}): Promise<Product[]> {
+    if (this.delayMs) await wait(this.delayMs, options.signal)
+
+    const queryTokens = tokenize(query)
+    if (queryTokens.length === 0) return []
+
+    const scored = this.products
+      .map((product) => {
+        const nameTokens = new Set(tokenize(product.name))
+        const matched = queryTokens.filter((token) => nameTokens.has(token)).length
+        return { product, score: matched / queryTokens.length }
+      })
+      .filter(({ score }) => score >= 0.5)
+      .sort((a, b) => b.score - a.score)
+
+    const limited = options.limit ? scored.slice(0, options.limit) : scored
+    return limited.map(({ product }) => this.toOffer(product, options.destination))
+  }
+
+  async resolveUrl(url: string, options: AdapterRequestOptions = {}): Promise<Product | null> {
+    if (this.delayMs) await wait(this.delayMs, options.signal)
+
+    const target = stripUrl(url)
+    const product = this.products.find((p) => stripUrl(p.url) === target)
+    return product ? this.toOffer(product, options.destination) : null
+  }
+
+  async fetchOffer(productId: string, options: AdapterRequestOptions = {}): Promise<Product | null> {
+    if (this.delayMs) await wait(this.delayMs, options.signal)
+
+    const product = this.products.find((p) => p.id === productId)
+    return product ? this.toOffer(product, options.destination) : null
+  }
+
+  async lookupByGtin(gtin: string, options: AdapterRequestOptions = {}): Promise<Product[]> {
+    if (this.delayMs) await wait(this.delayMs, options.signal)
+
+    return this.products
+      .filter((product) => normalizeGtin(product.gtin) === gtin)
+      .map((product) => this.toOffer(product, options.destination))
+  }
+
+  private toOffer(product: Product, destination?: Destination): Product {
+    const quote =
+      this.shippingPolicy && destination ? quoteShipping(this.shippingPolicy, product.price, destination) : null
+    if (!quote) return { ...product }
+    return { ...product, originCountry: quote.originCountry, shippingCost: quote.cost, deliveryEta: quote.eta }
+  }
+}
@@ -0,0 +1,27 @@
+import { StoreRegistry } from './registry'
+import { FixtureStoreAdapter, type FixtureStore } from './adapters/fixture-adapter'
+import catalog from './fixtures/catalog.json'
+
+export * from './types'
+export { StoreRegistry, AdapterTimeoutError } from './registry'
+export { FixtureStoreAdapter } from './adapters/fixture-adapter'
+export { quoteShipping, shippingRateFor, type ShippingPolicy, type ShippingRate, type ShippingQuote } from './shipping'
+export { searchStores, type SearchStoresOptions, type StoreSearchResult } from './search'
+
+/**
+ * Build the registry used by the API routes.
+ * Live store adapters should be registered here alongside the fixture catalog.
+ */
+export function createDefaultRegistry(): StoreRegistry {
+  const registry = new StoreRegistry({
+    defaultTimeoutMs: Number(process.env.STORE_ADAPTER_TIMEOUT_MS) || undefined,
+  })
+
+  for (const store of catalog.stores as FixtureStore[]) {
+    registry.register(new FixtureStoreAdapter(store))
+  }
+
+  return registry
+}
+
+export const storeRegistry = createDefaultRegistry()
@@ -0,0 +1,179 @@
+import type {
+  AdapterFailure,
+  AdapterRequestOptions,
+  AdapterResult,
+  FanOutListener,
+  FanOutResult,
+  Product,
+  StoreAdapter,
+} from './types'
+
+const DEFAULT_ADAPTER_TIMEOUT = 8000 // 8 seconds
+
+export class AdapterTimeoutError extends Error {
+  constructor(adapterId: string, timeoutMs: number) {
+    super(`Adapter "${adapterId}" timed out after ${timeoutMs}ms`)
+    this.name = 'AdapterTimeoutError'
+  }
+}
+
+/**
+ * Run an adapter call with its own timeout. The adapter receives an AbortSignal
+ * that fires on timeout or when the parent signal is aborted.
+ */
+async function runWithTimeout<T>(
+  adapter: StoreAdapter,
+  timeoutMs: number,
+  parentSignal: AbortSignal | undefined,
+  call: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  const controller = new AbortController()
+  const onParentAbort = () => controller.abort()
+  parentSignal?.addEventListener('abort', onParentAbort)
+
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort()
+      reject(new AdapterTimeoutError(adapter.id, timeoutMs))
+    }, timeoutMs)
+  })
+
+  try {
+    return await Promise.race([call(controller.signal), timeout])
+  } finally {
+    clearTimeout(timer)
+    parentSignal?.removeEventListener('abort', onParentAbort)
+  }
+}
+
+export class StoreRegistry {
+  private adapters = new Map<string, StoreAdapter>()
+  private defaultTimeoutMs: number
+
+  constructor(options: { defaultTimeoutMs?: number } = {}) {
+    this.defaultTimeoutMs = options.defaultTimeoutMs ?? DEFAULT_ADAPTER_TIMEOUT
+  }
+
+  register(adapter: StoreAdapter): this {
+    if (this.adapters.has(adapter.id)) {
+      throw new Error(`Store adapter already registered: ${adapter.id}`)
+    }
+    this.adapters.set(adapter.id, adapter)
+    return this
+  }
+
+  unregister(adapterId: string): boolean {
+    return this.adapters.delete(adapterId)
+  }
+
+  get(adapterId: string): StoreAdapter | undefined {
+    return this.adapters.get(adapterId)
+  }
+
+  list(): StoreAdapter[] {
+    return Array.from(this.adapters.values())
+  }
+
+  /**
+   * Call every given adapter in parallel. Failures and timeouts are collected
+   * instead of rejecting, so one slow store never breaks the whole search.
+   * The listener hears about each adapter as soon as it settles.
+   */
+  async fanOut<T>(
+    adapters: StoreAdapter[],
+    call: (adapter: StoreAdapter, options: AdapterRequestOptions) => Promise<T>,
+    options: AdapterRequestOptions = {},
+    listener: FanOutListener<T> = {}
+  ): Promise<FanOutResult<T>> {
+    const results: AdapterResult<T>[] = []
+    const failures: AdapterFailure[] = []
+
+    await Promise.all(
+      adapters.map(async (adapter) => {
+        const startedAt = Date.now()
+        const timeoutMs = adapter.timeoutMs ?? this.defaultTimeoutMs
+        let outcome: { result: AdapterResult<T> } | { failure: AdapterFailure }
+
+        try {
+          const value = await runWithTimeout(adapter, timeoutMs, options.signal, (signal) =>
+            call(adapter, { ...options, signal })
+          )
+          outcome = { result: { adapterId: adapter.id, store: adapter.name, value, durationMs: Date.now() - startedAt } }
+        } catch (error) {
+          console.error(`[Store Adapter Error]: ${adapter.id}`, error)
+          outcome = {
+            failure: {
+              adapterId: adapter.id,
+              store: adapter.name,
+              reason: error instanceof AdapterTimeoutError ? 'timeout' : 'error',
+              message: error instanceof Error ? error.message : 'Unknown error',
+            },
+          }
+        }
+
+        if ('result' in outcome) {
+          results.push(outcome.result)
+          listener.onResult?.(outcome.result)
+        } else {
+          failures.push(outcome.failure)
+          listener.onFailure?.(outcome.failure)
+        }
+      })
+    )
+
+    // Keep registration order regardless of which store answered first
+    const order = (adapterId: string) => adapters.findIndex((adapter) => adapter.id === adapterId)
+    results.sort((a, b) => order(a.adapterId) - order(b.adapterId))
+    failures.sort((a, b) => order(a.adapterId) - order(b.adapterId))
+
+    return { results, failures }
+  }
+
+  /**
+   * Search all registered stores by keyword
+   */
+  async searchByKeyword(
+    query: string,
+    options: AdapterRequestOptions = {},
+    listener?: FanOutListener<Product[]>
+  ): Promise<FanOutResult<Product[]>> {
+    return this.fanOut(this.list(), (adapter, opts) => adapter.searchByKeyword(query, opts), options, listener)
+  }
+
+  /**
+   * Look up a normalized GTIN in every store that supports exact barcode lookup
+   */
+  async lookupByGtin(gtin: string, options: AdapterRequestOptions = {}): Promise<FanOutResult<Product[]>> {
+    const handlers = this.list().filter((adapter) => adapter.lookupByGtin)
+    return this.fanOut(handlers, (adapter, opts) => adapter.lookupByGtin!(gtin, opts), options)
+  }
+
+  /**
+   * Resolve a product URL using the adapters that recognize it
+   */
+  async resolveUrl(url: string, options: AdapterRequestOptions = {}): Promise<FanOutResult<Product | null>> {
+    const handlers = this.list().filter((adapter) => adapter.canHandleUrl(url))
+    return this.fanOut(handlers, (adapter, opts) => adapter.resolveUrl(url, opts), options)
+  }
+
+  /**
+   * Fetch the current offer for a product from a single store
+   */
+  async fetchOffer(adapterId: string, productId: string, options: AdapterRequestOptions = {}): Promise<Product | null> {
+    const adapter = this.get(adapterId)
+    if (!adapter) {
+      throw new Error(`Unknown store adapter: ${adapterId}`)
+    }
+
+    const { results, failures } = await this.fanOut(
+      [adapter],
+      (a, opts) => a.fetchOffer(productId, opts),
+      options
+    )
+    if (failures.length > 0) {
+      throw new Error(failures[0].message)
+    }
+    return results[0]?.value ?? null
+  }
+}
@@ -0,0 +1,113 @@
+import type { AdapterFailure, AdapterRequestOptions, FanOutListener, Product } from './types'
+import type { StoreRegistry } from './registry'
+
+export interface SearchStoresOptions extends AdapterRequestOptions {
+  // Used when no registered adapter recognizes a URL, e.g. page extraction
+  resolveUrlFallback?: (url: string, options: AdapterRequestOptions) => Promise<Product | null>
+  // Progress hooks for streaming clients
+  onUrlResolved?: (product: Product) => void
+  onGtinResolved?: (product: Product) => void
+  storeListener?: FanOutListener<Product[]>
+}
+
+export interface StoreSearchResult {
+  product: Product | null
+  alternatives: Product[]
+  failures: AdapterFailure[]
+  storesQueried: number
+}
+
+function isSameListing(a: Product, b: Product): boolean {
+  return a.store === b.store && a.id === b.id
+}
+
+/**
+ * Pick the reference product for a keyword search: among each store's top
+ * match, prefer the one with the most reviews.
+ */
+function pickReferenceProduct(perStore: Product[][]): Product | null {
+  const topMatches = perStore.map((products) => products[0]).filter(Boolean)
+  if (topMatches.length === 0) return null
+  return topMatches.reduce((best, p) => ((p.reviews || 0) > (best.reviews || 0) ? p : best))
+}
+
+/**
+ * Find the original product and its alternatives across all registered stores.
+ * For URLs the product is resolved by the store that owns the URL (or the
+ * fallback resolver) and then searched by name everywhere else. For barcodes
+ * (`gtin` is a normalized 14 digit GTIN) every store that supports exact
+ * lookup is asked first, and the best match is searched by name in the rest.
+ * Keyword `expansions` are alternative phrasings searched alongside the query;
+ * their listings follow the query's own, and their failures aren't reported
+ * since the query's search already covers every store.
+ */
+export async function searchStores(
+  registry: StoreRegistry,
+  input: { query: string; isUrl: boolean; gtin?: string; expansions?: string[] },
+  options: SearchStoresOptions = {}
+): Promise<StoreSearchResult> {
+  const { resolveUrlFallback, onUrlResolved, onGtinResolved, storeListener, ...adapterOptions } = options
+  const failures: AdapterFailure[] = []
+  let product: Product | null = null
+  let exactMatches: Product[] = []
+  let keyword = input.query
+
+  if (input.gtin) {
+    const lookup = await registry.lookupByGtin(input.gtin, adapterOptions)
+    failures.push(...lookup.failures)
+    product = pickReferenceProduct(lookup.results.map((r) => r.value))
+    exactMatches = lookup.results.flatMap((r) => r.value)
+
+    if (!product) {
+      return { product: null, alternatives: [], failures, storesQueried: registry.list().length }
+    }
+    onGtinResolved?.(product)
+    keyword = product.name
+  }
+
+  if (input.isUrl) {
+    const resolved = await registry.resolveUrl(input.query, adapterOptions)
+    failures.push(...resolved.failures)
+    product = resolved.results.map((r) => r.value).find((p): p is Product => p !== null) ?? null
+
+    if (!product && resolveUrlFallback) {
+      try {
+        product = await resolveUrlFallback(input.query, adapterOptions)
+      } catch (error) {
+        console.error('[URL Resolve Error]:', error)
+      }
+    }
+
+    if (!product) {
+      return { product: null, alternatives: [], failures, storesQueried: resolved.results.length + resolved.failures.length }
+    }
+    onUrlResolved?.(product)
+    keyword = product.name
+  }
+
+  const [search, ...expanded] = await Promise.all([
+    registry.searchByKeyword(keyword, adapterOptions, storeListener),
+    ...(input.expansions ?? []).map((phrase) => registry.searchByKeyword(phrase, adapterOptions)),
+  ])
+  failures.push(...search.failures)
+
+  const perStore = search.results.map((r) => r.value)
+  if (!product) {
+    product = pickReferenceProduct(perStore)
+  }
+
+  const expansionMatches = expanded.flatMap((result) => result.results.flatMap((r) => r.value))
+  // Exact barcode matches from stores whose name search missed them still count as offers
+  const listings = [...perStore.flat(), ...expansionMatches, ...exactMatches]
+  const alternatives = listings.filter(
+    (p, index) =>
+      (!product || !isSameListing(p, product)) && listings.findIndex((other) => isSameListing(other, p)) === index
+  )
+
+  return {
+    product,
+    alternatives,
+    failures,
+    storesQueried: registry.list().length,
+  }
+}
@@ -0,0 +1,46 @@
+import type { DeliveryEta, Destination } from './types'
+
+export interface ShippingRate {
+  // ISO country codes this rate applies to, or "*" for everywhere else
+  countries: string[] | '*'
+  cost: number
+  // Order value from which shipping is free
+  freeOver?: number
+  minDays: number
+  maxDays: number
+}
+
+/**
+ * A store's shipping terms. Rates are checked in order, so list specific
+ * countries before the "*" catch-all. No matching rate means the store
+ * does not ship there.
+ */
+export interface ShippingPolicy {
+  originCountry: string
+  rates: ShippingRate[]
+}
+
+export interface ShippingQuote {
+  originCountry: string
+  cost: number
+  eta: DeliveryEta
+}
+
+/**
+ * The rate a store charges for a destination, or null when it doesn't ship there
+ */
+export function shippingRateFor(policy: ShippingPolicy, destination: Destination): ShippingRate | null {
+  const country = destination.country.toUpperCase()
+  return policy.rates.find((r) => r.countries === '*' || r.countries.includes(country)) ?? null
+}
+
+export function quoteShipping(policy: ShippingPolicy, price: number, destination: Destination): ShippingQuote | null {
+  const rate = shippingRateFor(policy, destination)
+  if (!rate) return null
+
+  return {
+    originCountry: policy.originCountry,
+    cost: rate.freeOver !== undefined && price >= rate.freeOver ? 0 : rate.cost,
+    eta: { minDays: rate.minDays, maxDays: rate.maxDays },
+  }
+}
@@ -0,0 +1,145 @@
+// Shared types for the store adapter layer
+import type { ProductQuantity, UnitPriceUnit } from '@/lib/units/types'
+import type { ShippingPolicy } from './shipping'
+
+export type Availability = 'in_stock' | 'out_of_stock' | 'preorder' | 'backorder' | 'unknown'
+
+export type ProductCondition = 'new' | 'refurbished' | 'used' | 'open_box'
+
+export interface Warranty {
+  months: number
+  // Who honours it; renewed and used items are often covered by the seller only
+  provider?: 'manufacturer' | 'seller'
+}
+
+export type RiskLevel = 'low' | 'medium' | 'high'
+
+/**
+ * How likely an offer is to be a scam or counterfeit, from lib/risk
+ */
+export interface OfferRisk {
+  level: RiskLevel
+  // Why the offer was flagged, most serious first; empty for low risk
+  reasons: string[]
+}
+
+/**
+ * The best promo code for an offer, from lib/coupons
+ */
+export interface OfferCoupon {
+  code: string
+  description?: string
+  // Off the item price, in the listing currency
+  savings: number
+  // Only new customers can use it, so it isn't taken off the effective price
+  firstOrderOnly: boolean
+  expiresAt?: string
+}
+
+export interface DeliveryEta {
+  minDays: number
+  maxDays: number
+}
+
+/**
+ * Where the shopper wants the item delivered
+ */
+export interface Destination {
+  // ISO 3166-1 alpha-2 country code
+  country: string
+  postcode?: string
+}
+
+export interface Product {
+  id: string
+  name: string
+  price: number
+  currency: string
+  image?: string
+  url: string
+  store: string
+  // Key into the store directory (lib/store-directory), the listing's domain
+  storeId?: string
+  rating?: number
+  reviews?: number
+  brand?: string
+  // One of PRODUCT_CATEGORIES; filled in by lib/enrichment when the store doesn't say
+  category?: string
+  condition?: ProductCondition
+  warranty?: Warranty
+  // Pack count and size, from structured data or parsed from the title
+  quantity?: ProductQuantity
+  gtin?: string
+  mpn?: string
+  availability?: Availability
+  // Shipping quote for the requested destination, in `currency`; undefined when unknown
+  originCountry?: string
+  shippingCost?: number
+  deliveryEta?: DeliveryEta
+  // Estimated by lib/pricing for the destination, in `currency`
+  estimatedTax?: number
+  importDuty?: number
+  // Price plus shipping, tax and duties
+  landedPrice?: number
+  coupon?: OfferCoupon
+  // Landed price less a coupon every shopper can use, in `currency`
+  effectivePrice?: number
+  // Effective price (or landed price, or price) converted into the shopper's currency, used for all
+  // cross-store comparisons
+  comparePrice?: number
+  compareCurrency?: string
+  // Landed price per kg, litre or item in compareCurrency, when the quantity is known
+  unitPrice?: number
+  unitPriceUnit?: UnitPriceUnit
+  // Set per search, since it depends on the other offers and current store trust
+  risk?: OfferRisk
+}
+
+export interface AdapterRequestOptions {
+  signal?: AbortSignal
+  limit?: number
+  // Adapters that can quote shipping should do so for this destination
+  destination?: Destination
+}
+
+/**
+ * A source of products and offers for a single store.
+ * Adapters should never throw for "not found" - return an empty list or null instead.
+ */
+export interface StoreAdapter {
+  id: string
+  name: string
+  timeoutMs?: number
+  // Order-level shipping terms, for stores that publish them; used to plan multi-item purchases
+  shippingPolicy?: ShippingPolicy
+  canHandleUrl(url: string): boolean
+  searchByKeyword(query: string, options?: AdapterRequestOptions): Promise<Product[]>
+  resolveUrl(url: string, options?: AdapterRequestOptions): Promise<Product | null>
+  fetchOffer(productId: string, options?: AdapterRequestOptions): Promise<Product | null>
+  // Exact lookup by normalized 14 digit GTIN, for stores that index barcodes
+  lookupByGtin?(gtin: string, options?: AdapterRequestOptions): Promise<Product[]>
+}
+
+export interface AdapterFailure {
+  adapterId: string
+  store: string
+  reason: 'timeout' | 'error'
+  message: string
+}
+
+export interface AdapterResult<T> {
+  adapterId: string
+  store: string
+  value: T
+  durationMs: number
+}
+
+export interface FanOutListener<T> {
+  onResult?(result: AdapterResult<T>): void
+  onFailure?(failure: AdapterFailure): void
+}
+
+export interface FanOutResult<T> {
+  results: AdapterResult<T>[]
+  failures: AdapterFailure[]
+}
@@ -0,0 +1,9 @@
+export {
+  rankSuggestions,
+  matchQuality,
+  normalizeSuggestion,
+  DEFAULT_SUGGESTION_LIMIT,
+  MAX_SUGGESTION_LIMIT,
+} from './rank'
+export { loadSuggestionCandidates, recordPopularQuery, MIN_POPULAR_QUERY_USERS } from './sources'
+export type { Suggestion, SuggestionCandidate, SuggestionSource } from './types'
@@ -0,0 +1,81 @@
+import { editDistance } from '@/lib/query/spelling'
+import type { Suggestion, SuggestionCandidate, SuggestionSource } from './types'
+
+export const DEFAULT_SUGGESTION_LIMIT = 8
+export const MAX_SUGGESTION_LIMIT = 20
+
+// The shopper's own searches beat things they saved, which beat what everyone else searches
+const SOURCE_WEIGHTS: Record<SuggestionSource, number> = {
+  history: 1,
+  saved: 0.9,
+  popular: 0.7,
+}
+
+// How quickly a past search stops counting as recent
+const RECENCY_HALF_LIFE_MS = 7 * 24 * 60 * 60 * 1000
+
+export function normalizeSuggestion(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * How well a candidate matches what has been typed so far, from 0 (no match) to 1
+ * - 1: the candidate starts with the input
+ * - 0.8: one of the candidate's later words starts with the input
+ * - 0.5: the candidate starts with a near miss of the input, e.g. "hedph" for "headph"
+ */
+export function matchQuality(input: string, candidate: string): number {
+  const typed = normalizeSuggestion(input)
+  const text = normalizeSuggestion(candidate)
+  if (!typed) return 1
+  if (text.startsWith(typed)) return 1
+  if (text.includes(` ${typed}`)) return 0.8
+
+  const maxEdits = typed.length >= 8 ? 2 : typed.length >= 4 ? 1 : 0
+  if (maxEdits === 0) return 0
+  // Compare against prefixes one letter either side to allow for a missing or extra letter
+  for (let length = typed.length - maxEdits; length <= typed.length + maxEdits; length++) {
+    if (length > 0 && length <= text.length && editDistance(typed, text.slice(0, length)) <= maxEdits) return 0.5
+  }
+  return 0
+}
+
+function recencyOf(candidate: SuggestionCandidate, now: number): number {
+  if (!candidate.lastUsedAt) return 0
+  const age = Math.max(0, now - new Date(candidate.lastUsedAt).getTime())
+  return Math.pow(0.5, age / RECENCY_HALF_LIFE_MS)
+}
+
+/**
+ * Rank candidates from every source against the input. Matches are weighted
+ * by source, boosted by how often and how recently they were used, and
+ * de-duplicated case-insensitively, keeping the best scoring source.
+ */
+export function rankSuggestions(
+  input: string,
+  candidates: SuggestionCandidate[],
+  options: { limit?: number; now?: number } = {}
+): Suggestion[] {
+  const limit = Math.min(MAX_SUGGESTION_LIMIT, Math.max(1, options.limit ?? DEFAULT_SUGGESTION_LIMIT))
+  const now = options.now ?? Date.now()
+  const typed = normalizeSuggestion(input)
+  const best = new Map<string, Suggestion>()
+
+  for (const candidate of candidates) {
+    const key = normalizeSuggestion(candidate.text)
+    // Suggesting exactly what was typed adds nothing
+    if (!key || key === typed) continue
+
+    const quality = matchQuality(typed, key)
+    if (quality === 0) continue
+
+    const popularity = Math.min(1, Math.log10(1 + candidate.count) / 3)
+    const score = quality * SOURCE_WEIGHTS[candidate.source] + 0.2 * popularity + 0.2 * recencyOf(candidate, now)
+    const existing = best.get(key)
+    if (!existing || score > existing.score) {
+      best.set(key, { text: candidate.text.trim(), source: candidate.source, score: Math.round(score * 1000) / 1000 })
+    }
+  }
+
+  return [...best.values()].sort((a, b) => b.score - a.score).slice(0, limit)
+}
@@ -0,0 +1,108 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { normalizeSuggestion } from './rank'
+import type { SuggestionCandidate } from './types'
+
+// Enough of each source to rank without pulling whole tables
+const HISTORY_SCAN_LIMIT = 200
+const SAVED_SCAN_LIMIT = 100
+const POPULAR_SCAN_LIMIT = 500
+
+// Distinct users who must have searched a query before it is suggested to anyone else
+export const MIN_POPULAR_QUERY_USERS = 5
+
+/**
+ * Collapse repeated rows into one candidate per query, counting repeats and
+ * keeping the latest use
+ */
+function countCandidates(
+  rows: Array<{ text: string; at?: string }>,
+  source: SuggestionCandidate['source']
+): SuggestionCandidate[] {
+  const byKey = new Map<string, SuggestionCandidate>()
+  for (const row of rows) {
+    const key = normalizeSuggestion(row.text)
+    if (!key) continue
+    const existing = byKey.get(key)
+    if (existing) {
+      existing.count++
+      if (row.at && (!existing.lastUsedAt || row.at > existing.lastUsedAt)) existing.lastUsedAt = row.at
+    } else {
+      byKey.set(key, { text: row.text, source, count: 1, lastUsedAt: row.at })
+    }
+  }
+  return [...byKey.values()]
+}
+
+/**
+ * Gather suggestion candidates: the user's keyword searches and saved product
+ * names (when signed in) and the queries searched by the most users overall.
+ * Popular queries are only readable with the service role, so `serviceClient`
+ * must be one. A source that fails to load is skipped rather than failing the
+ * suggestions.
+ */
+export async function loadSuggestionCandidates(
+  supabase: SupabaseClient,
+  userId: string | null,
+  serviceClient: SupabaseClient
+): Promise<SuggestionCandidate[]> {
+  const [history, saved, popular] = await Promise.all([
+    userId
+      ? supabase
+          .from('search_history')
+          .select('query, created_at')
+          .eq('user_id', userId)
+          .eq('type', 'keyword')
+          .order('created_at', { ascending: false })
+          .limit(HISTORY_SCAN_LIMIT)
+      : null,
+    userId
+      ? supabase
+          .from('saved_products')
+          .select('product_name, created_at')
+          .eq('user_id', userId)
+          .order('created_at', { ascending: false })
+          .limit(SAVED_SCAN_LIMIT)
+      : null,
+    serviceClient
+      .from('popular_queries')
+      .select('query, user_count, last_searched_at')
+      .gte('user_count', MIN_POPULAR_QUERY_USERS)
+      .order('user_count', { ascending: false })
+      .limit(POPULAR_SCAN_LIMIT),
+  ])
+
+  for (const result of [history, saved, popular]) {
+    if (result?.error) console.error('[DB Error]:', result.error)
+  }
+
+  return [
+    ...countCandidates(
+      (history?.data ?? []).map((row) => ({ text: row.query as string, at: row.created_at as string })),
+      'history'
+    ),
+    ...countCandidates(
+      (saved?.data ?? []).map((row) => ({ text: row.product_name as string, at: row.created_at as string })),
+      'saved'
+    ),
+    ...(popular.data ?? []).map((row) => ({
+      text: row.query as string,
+      source: 'popular' as const,
+      count: row.user_count as number,
+      lastUsedAt: row.last_searched_at as string,
+    })),
+  ]
+}
+
+/**
+ * Count a user's keyword search towards the popular queries index. Needs a
+ * service role client, since users can't write the index themselves.
+ */
+export async function recordPopularQuery(serviceClient: SupabaseClient, userId: string, query: string): Promise<void> {
+  const normalized = normalizeSuggestion(query)
+  if (!normalized) return
+
+  const { error } = await serviceClient.rpc('record_popular_query', { p_user_id: userId, p_query: normalized })
+  if (error) {
+    console.error('[DB Error]:', error)
+  }
+}
@@ -0,0 +1,16 @@
+// Where a suggestion came from, in the order shoppers usually want them
+export type SuggestionSource = 'history' | 'saved' | 'popular'
+
+export interface SuggestionCandidate {
+  text: string
+  source: SuggestionSource
+  // Times searched (history, popular) or saved
+  count: number
+  lastUsedAt?: string
+}
+
+export interface Suggestion {
+  text: string
+  source: SuggestionSource
+  score: number
+}
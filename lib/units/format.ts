@@ -0,0 +1,15 @@
+import { formatPrice } from '@/lib/currency/format'
+import type { UnitPriceUnit } from './types'
+
+const UNIT_LABELS: Record<UnitPriceUnit, string> = {
+  kg: 'kg',
+  l: 'L',
+  item: 'item',
+}
+
+/**
+ * "$4.20 / kg"
+ */
+export function formatUnitPrice(amount: number, unit: UnitPriceUnit, currency?: string, locale?: string): string {
+  return `${formatPrice(amount, currency, locale)} / ${UNIT_LABELS[unit]}`
+}
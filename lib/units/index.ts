@@ -0,0 +1,3 @@
+export { parseQuantity, quantityFromStructured } from './parse'
+export { formatUnitPrice } from './format'
+export type { ProductQuantity, QuantityUnit, UnitPriceUnit } from './types'
@@ -0,0 +1,113 @@
+import type { ProductQuantity, QuantityUnit } from './types'
+
+interface UnitDefinition {
+  unit: Exclude<QuantityUnit, 'item'>
+  // Base units per one of this unit
+  factor: number
+}
+
+const SIZE_UNITS: Record<string, UnitDefinition> = {
+  mg: { unit: 'g', factor: 0.001 },
+  g: { unit: 'g', factor: 1 },
+  gram: { unit: 'g', factor: 1 },
+  grams: { unit: 'g', factor: 1 },
+  kg: { unit: 'g', factor: 1000 },
+  oz: { unit: 'g', factor: 28.3495 },
+  lb: { unit: 'g', factor: 453.592 },
+  lbs: { unit: 'g', factor: 453.592 },
+  ml: { unit: 'ml', factor: 1 },
+  cl: { unit: 'ml', factor: 10 },
+  l: { unit: 'ml', factor: 1000 },
+  litre: { unit: 'ml', factor: 1000 },
+  litres: { unit: 'ml', factor: 1000 },
+  liter: { unit: 'ml', factor: 1000 },
+  liters: { unit: 'ml', factor: 1000 },
+  floz: { unit: 'ml', factor: 29.5735 },
+  qt: { unit: 'ml', factor: 946.353 },
+  gal: { unit: 'ml', factor: 3785.41 },
+  gallon: { unit: 'ml', factor: 3785.41 },
+  gallons: { unit: 'ml', factor: 3785.41 },
+}
+
+// UN/CEFACT codes used by schema.org QuantitativeValue.unitCode
+const UNIT_CODES: Record<string, string> = {
+  MGM: 'mg',
+  GRM: 'g',
+  KGM: 'kg',
+  ONZ: 'oz',
+  LBR: 'lb',
+  MLT: 'ml',
+  CLT: 'cl',
+  LTR: 'l',
+  OZA: 'floz',
+  QT: 'qt',
+  GLL: 'gal',
+}
+
+const NUMBER = String.raw`(\d+(?:[.,]\d+)?)`
+const UNIT = String.raw`(fl\.?\s?oz|mg|kg|g|grams?|oz|lbs?|ml|cl|l|lit(?:re|er)s?|qt|gal(?:lons?)?)`
+const COUNT_WORDS = String.raw`(?:pack|pk|count|ct|pcs|pieces|rolls|bars|cans|bottles|capsules|tablets|pods|sachets)`
+
+// "12 x 330ml", "6x1L"
+const MULTIPACK_PATTERN = new RegExp(String.raw`\b(\d+)\s*x\s*${NUMBER}\s*${UNIT}(?![a-z])`, 'i')
+// "500g", "1.5 L", "16 fl oz"
+const SIZE_PATTERN = new RegExp(String.raw`(?<![\w.])${NUMBER}\s*${UNIT}(?![a-z])`, 'i')
+// "24-pack", "100 count", "pack of 12"
+const COUNT_PATTERN = new RegExp(String.raw`(?<![\w.])(\d+)[\s-]*${COUNT_WORDS}\b|\b(?:pack|case|box|set) of (\d+)\b`, 'i')
+
+function toNumber(text: string): number {
+  return parseFloat(text.replace(',', '.'))
+}
+
+function unitDefinition(text: string): UnitDefinition | undefined {
+  return SIZE_UNITS[text.toLowerCase().replace(/[\s.]/g, '')]
+}
+
+function build(packCount: number, size?: number, unit?: UnitDefinition): ProductQuantity | undefined {
+  if (!Number.isFinite(packCount) || packCount <= 0) return undefined
+  if (size === undefined || !unit) {
+    return { packCount, unit: 'item', total: packCount }
+  }
+  if (!Number.isFinite(size) || size <= 0) return undefined
+  const baseSize = size * unit.factor
+  return { packCount, size: baseSize, unit: unit.unit, total: packCount * baseSize }
+}
+
+/**
+ * Extract pack count and size from a listing title. Returns undefined when the
+ * title says nothing about quantity, so single items aren't priced "per item".
+ */
+export function parseQuantity(title: string): ProductQuantity | undefined {
+  const multipack = title.match(MULTIPACK_PATTERN)
+  if (multipack) {
+    return build(Number(multipack[1]), toNumber(multipack[2]), unitDefinition(multipack[3]))
+  }
+
+  const sizeMatch = title.match(SIZE_PATTERN)
+  const countMatch = title.match(COUNT_PATTERN)
+  const packCount = countMatch ? Number(countMatch[1] ?? countMatch[2]) : 1
+
+  if (sizeMatch) {
+    return build(packCount, toNumber(sizeMatch[1]), unitDefinition(sizeMatch[2]))
+  }
+  return countMatch ? build(packCount) : undefined
+}
+
+/**
+ * Quantity from structured data such as a schema.org QuantitativeValue
+ * ({ value: 500, unitCode: "GRM" }) or a size string ("500 g").
+ */
+export function quantityFromStructured(value: unknown, packCount = 1): ProductQuantity | undefined {
+  if (typeof value === 'string') {
+    const match = value.match(new RegExp(String.raw`^\s*${NUMBER}\s*${UNIT}\s*$`, 'i'))
+    return match ? build(packCount, toNumber(match[1]), unitDefinition(match[2])) : undefined
+  }
+  if (!value || typeof value !== 'object') return undefined
+
+  const node = value as Record<string, unknown>
+  const amount = typeof node.value === 'number' ? node.value : toNumber(String(node.value ?? ''))
+  const code = typeof node.unitCode === 'string' ? UNIT_CODES[node.unitCode.toUpperCase()] : undefined
+  const text = typeof node.unitText === 'string' ? node.unitText : undefined
+  const unit = unitDefinition(code ?? text ?? '')
+  return unit ? build(packCount, amount, unit) : undefined
+}
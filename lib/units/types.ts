@@ -0,0 +1,17 @@
+// Pack sizes and quantities parsed from listings
+
+// Base units: grams for mass, millilitres for volume, single items for counts
+export type QuantityUnit = 'g' | 'ml' | 'item'
+
+export interface ProductQuantity {
+  // Number of items in the listing, e.g. 12 for "12 x 330ml"
+  packCount: number
+  // Size of each item in `unit`; absent for countable goods
+  size?: number
+  unit: QuantityUnit
+  // Whole listing in `unit`: packCount * size, or packCount for countable goods
+  total: number
+}
+
+// Unit prices are quoted per kilogram, per litre or per item
+export type UnitPriceUnit = 'kg' | 'l' | 'item'
@@ -0,0 +1,101 @@
+// Amazon marketplace and ASIN detection
+
+export interface AmazonMarketplace {
+  code: string
+  domain: string
+  currency: string
+}
+
+export const AMAZON_MARKETPLACES: AmazonMarketplace[] = [
+  { code: 'us', domain: 'amazon.com', currency: 'USD' },
+  { code: 'ca', domain: 'amazon.ca', currency: 'CAD' },
+  { code: 'mx', domain: 'amazon.com.mx', currency: 'MXN' },
+  { code: 'br', domain: 'amazon.com.br', currency: 'BRL' },
+  { code: 'uk', domain: 'amazon.co.uk', currency: 'GBP' },
+  { code: 'ie', domain: 'amazon.ie', currency: 'EUR' },
+  { code: 'de', domain: 'amazon.de', currency: 'EUR' },
+  { code: 'fr', domain: 'amazon.fr', currency: 'EUR' },
+  { code: 'it', domain: 'amazon.it', currency: 'EUR' },
+  { code: 'es', domain: 'amazon.es', currency: 'EUR' },
+  { code: 'nl', domain: 'amazon.nl', currency: 'EUR' },
+  { code: 'be', domain: 'amazon.com.be', currency: 'EUR' },
+  { code: 'se', domain: 'amazon.se', currency: 'SEK' },
+  { code: 'pl', domain: 'amazon.pl', currency: 'PLN' },
+  { code: 'tr', domain: 'amazon.com.tr', currency: 'TRY' },
+  { code: 'ae', domain: 'amazon.ae', currency: 'AED' },
+  { code: 'sa', domain: 'amazon.sa', currency: 'SAR' },
+  { code: 'eg', domain: 'amazon.eg', currency: 'EGP' },
+  { code: 'in', domain: 'amazon.in', currency: 'INR' },
+  { code: 'jp', domain: 'amazon.co.jp', currency: 'JPY' },
+  { code: 'sg', domain: 'amazon.sg', currency: 'SGD' },
+  { code: 'au', domain: 'amazon.com.au', currency: 'AUD' },
+  { code: 'za', domain: 'amazon.co.za', currency: 'ZAR' },
+]
+
+// Hosts that only redirect to a marketplace page
+export const AMAZON_SHORT_LINK_HOSTS = ['amzn.to', 'amzn.eu', 'amzn.asia', 'a.co']
+
+// amzn.com/<ASIN> is a direct US short form that needs no network round trip
+const AMAZON_US_SHORT_HOST = 'amzn.com'
+
+const ASIN_PATH_PATTERNS = [
+  /\/dp\/(?:product\/)?([A-Z0-9]{10})(?=[/?#]|$)/i,
+  /\/gp\/product\/([A-Z0-9]{10})(?=[/?#]|$)/i,
+  /\/gp\/aw\/d\/([A-Z0-9]{10})(?=[/?#]|$)/i,
+  /\/gp\/offer-listing\/([A-Z0-9]{10})(?=[/?#]|$)/i,
+  /\/exec\/obidos\/(?:ASIN|tg\/detail\/-)\/([A-Z0-9]{10})(?=[/?#]|$)/i,
+  /\/o\/ASIN\/([A-Z0-9]{10})(?=[/?#]|$)/i,
+  /\/product-reviews\/([A-Z0-9]{10})(?=[/?#]|$)/i,
+]
+
+function bareHost(hostname: string): string {
+  return hostname.toLowerCase().replace(/^(www|smile|m)\./, '')
+}
+
+/**
+ * Find the marketplace for an Amazon hostname, e.g. "www.amazon.co.uk"
+ */
+export function getAmazonMarketplace(hostname: string): AmazonMarketplace | undefined {
+  const host = bareHost(hostname)
+  if (host === AMAZON_US_SHORT_HOST) return AMAZON_MARKETPLACES[0]
+  return AMAZON_MARKETPLACES.find((marketplace) => host === marketplace.domain)
+}
+
+export function isAmazonShortLinkHost(hostname: string): boolean {
+  return AMAZON_SHORT_LINK_HOSTS.includes(bareHost(hostname))
+}
+
+export function isAmazonHost(hostname: string): boolean {
+  return getAmazonMarketplace(hostname) !== undefined || isAmazonShortLinkHost(hostname)
+}
+
+/**
+ * Extract the ASIN from an Amazon product URL (desktop, mobile and legacy forms)
+ */
+export function extractAsin(url: URL): string | undefined {
+  let path = url.pathname
+  try {
+    path = decodeURIComponent(path)
+  } catch {
+    // Malformed escapes elsewhere in the path don't stop the ASIN from matching
+  }
+
+  for (const pattern of ASIN_PATH_PATTERNS) {
+    const match = path.match(pattern)
+    if (match) return match[1].toUpperCase()
+  }
+
+  if (bareHost(url.hostname) === AMAZON_US_SHORT_HOST) {
+    const match = path.match(/^\/([A-Z0-9]{10})(?=[/?#]|$)/i)
+    if (match) return match[1].toUpperCase()
+  }
+
+  const asinParam = url.searchParams.get('asin') || url.searchParams.get('ASIN')
+  if (asinParam && /^[A-Z0-9]{10}$/i.test(asinParam)) return asinParam.toUpperCase()
+
+  return undefined
+}
+
+export function buildAmazonProductUrl(asin: string, marketplace: AmazonMarketplace): string {
+  return `https://www.${marketplace.domain}/dp/${asin}`
+}
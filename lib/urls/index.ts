@@ -0,0 +1,22 @@
+export {
+  canonicalizeUrl,
+  detectUrlType,
+  expandShortUrl,
+  normalizeProductUrl,
+  stripTracking,
+  type NormalizedUrl,
+  type UrlType,
+} from './normalize'
+export {
+  AMAZON_MARKETPLACES,
+  extractAsin,
+  getAmazonMarketplace,
+  isAmazonHost,
+  type AmazonMarketplace,
+} from './amazon'
+export {
+  backfillCanonicalKeys,
+  savedProductMatch,
+  DEFAULT_BACKFILL_BATCH_SIZE,
+  type CanonicalKeyBackfillResult,
+} from './saved-products'
@@ -0,0 +1,167 @@
+import axios from 'axios'
+import { isFetchableUrl, lookupPublicAddress } from '@/lib/extraction/fetch-page'
+import {
+  buildAmazonProductUrl,
+  extractAsin,
+  getAmazonMarketplace,
+  isAmazonHost,
+  isAmazonShortLinkHost,
+  type AmazonMarketplace,
+} from './amazon'
+
+export type UrlType = 'amazon' | 'other'
+
+export interface NormalizedUrl {
+  originalUrl: string
+  // Expanded URL with tracking parameters removed
+  url: string
+  // Shortest URL that identifies the product
+  canonicalUrl: string
+  // Stable key for de-duplication, e.g. "amazon:de:B08N5WRWNW"
+  canonicalKey: string
+  urlType: UrlType
+  asin?: string
+  marketplace?: AmazonMarketplace
+}
+
+const MAX_REDIRECTS = 5
+const EXPAND_TIMEOUT = 5000 // 5 seconds
+
+const GENERIC_SHORT_LINK_HOSTS = ['bit.ly', 'tinyurl.com', 't.co', 'ow.ly', 'goo.gl', 'rb.gy']
+
+const TRACKING_PARAMS = new Set([
+  'gclid', 'gclsrc', 'dclid', 'fbclid', 'msclkid', 'yclid', 'igshid', 'mc_cid', 'mc_eid',
+  'spm', 'scm', 'affid', 'aff_id', 'clickid', 'srsltid',
+])
+
+// Amazon-only parameters; harmless on Amazon but meaningful on some other stores
+const AMAZON_TRACKING_PARAMS = new Set([
+  'ref', 'ref_', 'tag', 'linkcode', 'linkid', 'ascsubtag', 'camp', 'creative', 'creativeasin',
+  'psc', 'th', 'qid', 'sr', 'keywords', 'crid', 'sprefix', 'dib', 'dib_tag', 'content-id', 'smid', '_encoding',
+])
+
+function isTrackingParam(name: string, amazon: boolean): boolean {
+  const key = name.toLowerCase()
+  return (
+    TRACKING_PARAMS.has(key) ||
+    key.startsWith('utm_') ||
+    (amazon && (AMAZON_TRACKING_PARAMS.has(key) || key.startsWith('pd_rd_') || key.startsWith('pf_rd_')))
+  )
+}
+
+function bareHost(hostname: string): string {
+  return hostname.toLowerCase().replace(/^(www|m)\./, '')
+}
+
+function isShortLink(url: URL): boolean {
+  return isAmazonShortLinkHost(url.hostname) || GENERIC_SHORT_LINK_HOSTS.includes(bareHost(url.hostname))
+}
+
+/**
+ * Detect URL type without network access. Short links such as amzn.to count as Amazon.
+ */
+export function detectUrlType(url: string): UrlType {
+  try {
+    return isAmazonHost(new URL(url).hostname) ? 'amazon' : 'other'
+  } catch {
+    return 'other'
+  }
+}
+
+/**
+ * Remove tracking parameters, fragments and trailing slashes
+ */
+export function stripTracking(url: string): string {
+  const parsed = new URL(url)
+  const amazon = isAmazonHost(parsed.hostname)
+  parsed.hash = ''
+
+  for (const name of Array.from(parsed.searchParams.keys())) {
+    if (isTrackingParam(name, amazon)) parsed.searchParams.delete(name)
+  }
+  parsed.searchParams.sort()
+
+  if (parsed.pathname.length > 1) {
+    parsed.pathname = parsed.pathname.replace(/\/+$/, '')
+  }
+  return parsed.toString()
+}
+
+/**
+ * Canonicalize a URL without following redirects
+ */
+export function canonicalizeUrl(input: string): NormalizedUrl {
+  const cleaned = stripTracking(input)
+  const parsed = new URL(cleaned)
+  const marketplace = getAmazonMarketplace(parsed.hostname)
+  const asin = marketplace ? extractAsin(parsed) : undefined
+
+  if (marketplace && asin) {
+    return {
+      originalUrl: input,
+      url: cleaned,
+      canonicalUrl: buildAmazonProductUrl(asin, marketplace),
+      canonicalKey: `amazon:${marketplace.code}:${asin}`,
+      urlType: 'amazon',
+      asin,
+      marketplace,
+    }
+  }
+
+  const host = bareHost(parsed.hostname)
+  const query = parsed.searchParams.toString()
+  const path = parsed.pathname === '/' ? '' : parsed.pathname
+
+  return {
+    originalUrl: input,
+    url: cleaned,
+    canonicalUrl: cleaned,
+    canonicalKey: `${host}${path}${query ? `?${query}` : ''}`,
+    urlType: isAmazonHost(parsed.hostname) ? 'amazon' : 'other',
+    marketplace,
+  }
+}
+
+/**
+ * Follow redirects of a short link (amzn.to, a.co, bit.ly...) without downloading the target page
+ */
+export async function expandShortUrl(url: string, options: { signal?: AbortSignal } = {}): Promise<string> {
+  let current = url
+
+  for (let i = 0; i < MAX_REDIRECTS; i++) {
+    const parsed = new URL(current)
+    if (!isShortLink(parsed) || !isFetchableUrl(current)) break
+
+    const response = await axios.head(current, {
+      maxRedirects: 0,
+      lookup: lookupPublicAddress,
+      timeout: EXPAND_TIMEOUT,
+      signal: options.signal,
+      validateStatus: (status) => status >= 200 && status < 400,
+    })
+
+    const location = response.headers['location']
+    if (!location) break
+    current = new URL(location, current).toString()
+  }
+
+  return current
+}
+
+/**
+ * Expand short links and canonicalize. Expansion failures fall back to the
+ * original URL so a flaky shortener never blocks a search.
+ */
+export async function normalizeProductUrl(url: string, options: { signal?: AbortSignal } = {}): Promise<NormalizedUrl> {
+  let expanded = url
+
+  if (isShortLink(new URL(url))) {
+    try {
+      expanded = await expandShortUrl(url, options)
+    } catch (error) {
+      console.error('[URL Expand Error]:', error)
+    }
+  }
+
+  return { ...canonicalizeUrl(expanded), originalUrl: url }
+}
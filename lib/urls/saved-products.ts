@@ -0,0 +1,82 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { normalizeProductUrl, type NormalizedUrl } from './normalize'
+
+export const DEFAULT_BACKFILL_BATCH_SIZE = 100
+
+export interface CanonicalKeyBackfillResult {
+  processed: number
+  updated: number
+  // Rows whose key another of the owner's saved products already has; left null for the user to tidy up
+  duplicates: number
+  failed: number
+  // Cursor for the next batch, absent once nothing is left
+  next?: string
+}
+
+// PostgREST filter values are quoted so commas and parentheses in URLs stay literal
+function quoted(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+}
+
+/**
+ * `.or()` filter matching a saved product by canonical key. Rows saved before
+ * canonical keys existed have none yet, so those match on the stored URL instead.
+ */
+export function savedProductMatch(normalized: NormalizedUrl): string {
+  const urls = [...new Set([normalized.originalUrl, normalized.url, normalized.canonicalUrl])].map(quoted)
+  return `canonical_key.eq.${quoted(normalized.canonicalKey)},and(canonical_key.is.null,product_url.in.(${urls.join(',')}))`
+}
+
+/**
+ * Fill in canonical keys for saved products that predate them, in id order
+ * starting after `after`. Meant for a service role client, since it updates
+ * every user's saved products.
+ */
+export async function backfillCanonicalKeys(
+  supabase: SupabaseClient,
+  options: { after?: string; limit?: number } = {}
+): Promise<CanonicalKeyBackfillResult> {
+  const limit = options.limit ?? DEFAULT_BACKFILL_BATCH_SIZE
+  let query = supabase
+    .from('saved_products')
+    .select('id, product_url')
+    .is('canonical_key', null)
+    .order('id', { ascending: true })
+    .limit(limit)
+  if (options.after) query = query.gt('id', options.after)
+
+  const { data, error } = await query
+  if (error) {
+    console.error('[DB Error]:', error)
+    throw new Error('Failed to load saved products without a canonical key')
+  }
+
+  const rows = (data ?? []) as { id: string; product_url: string }[]
+  const result: CanonicalKeyBackfillResult = { processed: rows.length, updated: 0, duplicates: 0, failed: 0 }
+
+  for (const row of rows) {
+    let canonicalKey: string
+    try {
+      canonicalKey = (await normalizeProductUrl(row.product_url)).canonicalKey
+    } catch {
+      result.failed++
+      continue
+    }
+
+    const { error: updateError } = await supabase
+      .from('saved_products')
+      .update({ canonical_key: canonicalKey })
+      .eq('id', row.id)
+    if (!updateError) {
+      result.updated++
+    } else if (updateError.code === '23505') {
+      result.duplicates++
+    } else {
+      console.error('[DB Error]:', updateError)
+      result.failed++
+    }
+  }
+
+  if (rows.length === limit) result.next = rows[rows.length - 1].id
+  return result
+}
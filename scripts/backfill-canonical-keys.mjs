@@ -0,0 +1,66 @@
+#!/usr/bin/env node
+/**
+ * Fill in canonical keys for saved products that predate them by calling
+ * /api/saved/canonical-keys batch after batch until every row has been seen.
+ *
+ *   CRON_SECRET=... NEXT_PUBLIC_APP_URL=https://... node scripts/backfill-canonical-keys.mjs [--batch 100]
+ */
+
+const DEFAULT_BATCH = 100
+
+function option(name, fallback) {
+  const index = process.argv.indexOf(`--${name}`)
+  if (index === -1) return fallback
+  const value = Number(process.argv[index + 1])
+  if (!Number.isInteger(value) || value < 1) {
+    console.error(`--${name} must be a positive integer`)
+    process.exit(1)
+  }
+  return value
+}
+
+async function main() {
+  const secret = process.env.CRON_SECRET
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+  if (!secret) {
+    console.error('CRON_SECRET is not set')
+    process.exit(1)
+  }
+
+  const batch = option('batch', DEFAULT_BATCH)
+  const totals = { processed: 0, updated: 0, duplicates: 0, failed: 0 }
+  let after
+
+  for (let round = 1; ; round++) {
+    const params = new URLSearchParams({ limit: String(batch) })
+    if (after) params.set('after', after)
+    const response = await fetch(`${baseUrl}/api/saved/canonical-keys?${params}`, {
+      headers: { Authorization: `Bearer ${secret}` },
+    })
+    const body = await response.json().catch(() => ({}))
+    if (!response.ok || !body.success) {
+      console.error(`Batch ${round} failed (${response.status}):`, body.error || body.details || 'Unknown error')
+      process.exit(1)
+    }
+
+    const { processed, updated, duplicates, failed, next } = body.data
+    totals.processed += processed
+    totals.updated += updated
+    totals.duplicates += duplicates
+    totals.failed += failed
+    console.log(`Batch ${round}: ${updated} updated, ${duplicates} duplicates, ${failed} failed`)
+
+    if (!next) break
+    after = next
+  }
+
+  console.log(
+    `Done: ${totals.processed} processed, ${totals.updated} updated, ${totals.duplicates} duplicates, ` +
+      `${totals.failed} failed`
+  )
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
@@ -0,0 +1,65 @@
+#!/usr/bin/env node
+/**
+ * Refresh saved product prices from the command line by calling
+ * /api/prices/refresh batch after batch until nothing is due.
+ *
+ *   CRON_SECRET=... NEXT_PUBLIC_APP_URL=https://... node scripts/refresh-prices.mjs [--batch 50] [--max-batches 20]
+ */
+
+const DEFAULT_BATCH = 50
+const DEFAULT_MAX_BATCHES = 20
+
+function option(name, fallback) {
+  const index = process.argv.indexOf(`--${name}`)
+  if (index === -1) return fallback
+  const value = Number(process.argv[index + 1])
+  if (!Number.isInteger(value) || value < 1) {
+    console.error(`--${name} must be a positive integer`)
+    process.exit(1)
+  }
+  return value
+}
+
+async function main() {
+  const secret = process.env.CRON_SECRET
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+  if (!secret) {
+    console.error('CRON_SECRET is not set')
+    process.exit(1)
+  }
+
+  const batch = option('batch', DEFAULT_BATCH)
+  const maxBatches = option('max-batches', DEFAULT_MAX_BATCHES)
+  const totals = { refreshed: 0, changed: 0, failed: 0, notified: 0 }
+
+  for (let round = 1; round <= maxBatches; round++) {
+    const response = await fetch(`${baseUrl}/api/prices/refresh?limit=${batch}`, {
+      headers: { Authorization: `Bearer ${secret}` },
+    })
+    const body = await response.json().catch(() => ({}))
+    if (!response.ok || !body.success) {
+      console.error(`Batch ${round} failed (${response.status}):`, body.error || body.details || 'Unknown error')
+      process.exit(1)
+    }
+
+    const { refreshed, changed, failed, notified } = body.data
+    totals.refreshed += refreshed
+    totals.changed += changed
+    totals.failed += failed
+    totals.notified += notified
+    console.log(`Batch ${round}: ${refreshed} refreshed, ${changed} changed, ${failed} failed, ${notified} alerts sent`)
+
+    // A short batch means nothing else is due
+    if (refreshed < batch) break
+  }
+
+  console.log(
+    `Done: ${totals.refreshed} refreshed, ${totals.changed} changed, ${totals.failed} failed, ` +
+      `${totals.notified} alerts sent`
+  )
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})